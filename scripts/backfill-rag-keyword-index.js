@@ -0,0 +1,87 @@
+#!/usr/bin/env node
+
+/**
+ * Backfill the RAG keyword index
+ * ==============================
+ *
+ * Run once after applying 014_add_rag_keyword_index.sql. The migration clears
+ * the sync state of stores without keyword chunks; this script triggers a full
+ * sync for each of them so they are re-embedded and indexed right away instead
+ * of on their next manual sync.
+ *
+ * Usage: node scripts/backfill-rag-keyword-index.js [--dry-run]
+ */
+
+const path = require('path');
+require('dotenv').config({ path: path.join(__dirname, '../.env.local') });
+const { createClient } = require('@supabase/supabase-js');
+
+// Syncs run in the background on the server; space them out so Tienda Nube and OpenAI aren't flooded
+const DELAY_BETWEEN_STORES_MS = 5000;
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+async function main() {
+  const dryRun = process.argv.includes('--dry-run');
+  const appUrl = process.env.APP_URL || process.env.NEXT_PUBLIC_APP_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!appUrl || !serviceRoleKey || !process.env.NEXT_PUBLIC_SUPABASE_URL) {
+    console.error('❌ [BACKFILL] APP_URL, NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+    process.exit(1);
+  }
+
+  const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, serviceRoleKey);
+
+  const { data: stores, error } = await supabase
+    .from('stores')
+    .select('id, name')
+    .eq('is_active', true);
+
+  if (error) {
+    console.error('❌ [BACKFILL] Failed to list stores:', error.message);
+    process.exit(1);
+  }
+
+  let triggered = 0;
+  let skipped = 0;
+
+  for (const store of stores || []) {
+    const { count } = await supabase
+      .from('rag_keyword_chunks')
+      .select('chunk_id', { count: 'exact', head: true })
+      .eq('store_id', store.id);
+
+    if (count && count > 0) {
+      skipped++;
+      continue;
+    }
+
+    if (dryRun) {
+      console.log(`🔎 [BACKFILL] Would sync ${store.name || 'Unnamed'} (${store.id})`);
+      triggered++;
+      continue;
+    }
+
+    const response = await fetch(`${appUrl}/api/stores/${store.id}/sync-rag?full=true`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${serviceRoleKey}` }
+    });
+
+    if (response.ok) {
+      console.log(`✅ [BACKFILL] Full sync triggered for ${store.name || 'Unnamed'} (${store.id})`);
+      triggered++;
+    } else {
+      console.error(`❌ [BACKFILL] Sync for ${store.id} failed with ${response.status}:`, await response.text());
+    }
+
+    await sleep(DELAY_BETWEEN_STORES_MS);
+  }
+
+  console.log(`📊 [BACKFILL] ${triggered} store(s) ${dryRun ? 'to sync' : 'syncing'}, ${skipped} already indexed`);
+}
+
+main().catch(error => {
+  console.error('❌ [BACKFILL] Unexpected error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,131 @@
+#!/usr/bin/env node
+
+/**
+ * Replay signed Twilio WhatsApp webhook fixtures against a running app.
+ *
+ * For every fixture in scripts/fixtures/twilio it checks that:
+ *   1. a correctly signed request is processed (200, status "success")
+ *   2. replaying the same MessageSid is acknowledged as a duplicate (200, status "duplicate")
+ *   3. a request with a tampered signature is rejected (401)
+ *
+ * Usage:
+ *   node scripts/replay-twilio-webhook.js [--url http://localhost:3000] [--path /api/whatsapp/webhook] [fixture-name...]
+ *
+ * Env (.env.local): TWILIO_AUTH_TOKEN (must match the token the app validates with),
+ * TWILIO_PHONE_NUMBER (receiving number), REPLAY_FROM_NUMBER (merchant number).
+ * The app must build the signed URL from the same base (set TWILIO_WEBHOOK_BASE_URL when behind a proxy).
+ */
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+require('dotenv').config({ path: path.join(__dirname, '../.env.local') });
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures/twilio');
+
+function getArg(name, fallback) {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+const BASE_URL = getArg('url', 'http://localhost:3000').replace(/\/$/, '');
+const WEBHOOK_PATH = getArg('path', '/api/whatsapp/webhook');
+const AUTH_TOKEN = process.env.TWILIO_AUTH_TOKEN;
+const TO_NUMBER = process.env.TWILIO_PHONE_NUMBER || '+14155238886';
+const FROM_NUMBER = process.env.REPLAY_FROM_NUMBER || '+5491112345678';
+const RUN_ID = Date.now().toString(16).padStart(30, '0');
+
+// Same algorithm as computeTwilioSignature in src/lib/integrations/whatsapp/webhook-security.ts
+function sign(url, params) {
+  const payload = Object.keys(params).sort().reduce((acc, key) => acc + key + params[key], url);
+  return crypto.createHmac('sha1', AUTH_TOKEN).update(Buffer.from(payload, 'utf-8')).digest('base64');
+}
+
+function loadFixtures(names) {
+  return fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.json'))
+    .filter(file => names.length === 0 || names.includes(path.basename(file, '.json')))
+    .map(file => {
+      const raw = fs.readFileSync(path.join(FIXTURES_DIR, file), 'utf8')
+        .replace(/{{RUN_ID}}/g, RUN_ID)
+        .replace(/{{TO}}/g, TO_NUMBER)
+        .replace(/{{FROM}}/g, FROM_NUMBER);
+      return { name: path.basename(file, '.json'), ...JSON.parse(raw) };
+    });
+}
+
+async function post(url, params, signature) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'X-Twilio-Signature': signature,
+      'User-Agent': 'TwilioProxy/1.1'
+    },
+    body: new URLSearchParams(params).toString()
+  });
+
+  let body = null;
+  try {
+    body = await response.json();
+  } catch {
+    // Non-JSON response
+  }
+  return { status: response.status, body };
+}
+
+function check(label, condition, details) {
+  console.log(`   ${condition ? '✅' : '❌'} ${label}${condition ? '' : ` → ${JSON.stringify(details)}`}`);
+  return condition;
+}
+
+async function replayFixture(fixture) {
+  const url = `${BASE_URL}${WEBHOOK_PATH}`;
+  const signature = sign(url, fixture.params);
+  console.log(`\n📨 ${fixture.name}: ${fixture.description || ''}`);
+
+  const first = await post(url, fixture.params, signature);
+  const processed = check('signed request processed', first.status === 200 && first.body?.status !== 'duplicate', first);
+
+  const replay = await post(url, fixture.params, signature);
+  const deduplicated = check('replay deduplicated by MessageSid', replay.status === 200 && replay.body?.status === 'duplicate', replay);
+
+  const tampered = await post(url, { ...fixture.params, Body: `${fixture.params.Body} (tampered)` }, signature);
+  const rejected = check('tampered request rejected', tampered.status === 401, tampered);
+
+  return processed && deduplicated && rejected;
+}
+
+async function run() {
+  console.log('🔁 Twilio Webhook Replay');
+  console.log('========================');
+  console.log(`Target: ${BASE_URL}${WEBHOOK_PATH}`);
+
+  if (!AUTH_TOKEN) {
+    console.error('❌ TWILIO_AUTH_TOKEN is not set');
+    process.exit(1);
+  }
+
+  const names = process.argv.slice(2).filter((arg, index, args) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'));
+  const fixtures = loadFixtures(names);
+  if (fixtures.length === 0) {
+    console.error('❌ No fixtures found');
+    process.exit(1);
+  }
+
+  let failures = 0;
+  for (const fixture of fixtures) {
+    try {
+      if (!(await replayFixture(fixture))) failures++;
+    } catch (error) {
+      failures++;
+      console.log(`   💥 ${fixture.name}: ${error.message}`);
+    }
+  }
+
+  console.log(`\n${failures === 0 ? '✅' : '❌'} ${fixtures.length - failures}/${fixtures.length} fixtures passed`);
+  process.exit(failures === 0 ? 0 : 1);
+}
+
+run();
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { AgentActionApproval } from '@/lib/agents/action-approval';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/agent-actions/[id]
+ * Aprobar o rechazar una acción propuesta por un agente
+ * Body: { decision: 'approve' | 'reject' }
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const { decision } = await request.json();
+    if (decision !== 'approve' && decision !== 'reject') {
+      return NextResponse.json(
+        { success: false, error: 'Decisión inválida' },
+        { status: 400 }
+      );
+    }
+
+    const action = await AgentActionApproval.get(params.id);
+    if (!action) {
+      return NextResponse.json(
+        { success: false, error: 'Acción no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    // Only the owner of the store can decide on its actions
+    const { data: store } = await supabase
+      .from('stores')
+      .select('id')
+      .eq('id', action.storeId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Acción no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const approval = { decidedBy: user.id, channel: 'dashboard' as const };
+    const result = decision === 'approve'
+      ? await AgentActionApproval.approve(params.id, approval)
+      : await AgentActionApproval.reject(params.id, approval);
+
+    // Expired, already decided or failed actions still return the merchant-facing message
+    return NextResponse.json({
+      success: result.success,
+      message: result.message,
+      action: result.action,
+      error: result.error
+    });
+
+  } catch (error) {
+    console.error('[AGENT-ACTIONS] Error deciding action:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error procesando la acción' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { AgentActionApproval } from '@/lib/agents/action-approval';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/agent-actions?storeId=...&status=pending|all
+ * Acciones propuestas por los agentes para una tienda del usuario
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const storeId = searchParams.get('storeId');
+    const conversationId = searchParams.get('conversationId') || undefined;
+    const status = searchParams.get('status') || 'pending';
+
+    if (!storeId) {
+      return NextResponse.json(
+        { success: false, error: 'Store ID requerido' },
+        { status: 400 }
+      );
+    }
+
+    const { data: store } = await supabase
+      .from('stores')
+      .select('id')
+      .eq('id', storeId)
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!store) {
+      return NextResponse.json(
+        { success: false, error: 'Tienda no encontrada' },
+        { status: 404 }
+      );
+    }
+
+    const actions = status === 'all'
+      ? await AgentActionApproval.listRecent(storeId)
+      : await AgentActionApproval.listPending(storeId, conversationId);
+
+    return NextResponse.json({ success: true, actions });
+
+  } catch (error) {
+    console.error('[AGENT-ACTIONS] Error listing actions:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error obteniendo acciones' },
+      { status: 500 }
+    );
+  }
+}
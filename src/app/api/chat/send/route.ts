@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { AgentActionApproval } from '@/lib/agents/action-approval';
 import { FiniMultiAgentSystem } from '@/lib/agents/multi-agent-system';
 import { ConversationService, MessageService } from '@/lib/database/client';
 import { createTwilioWhatsAppService } from '@/lib/integrations/twilio-whatsapp';
+import { createRateLimitMiddleware } from '@/lib/security/rate-limiter';
 import { conversationTitleService } from '@/lib/services/conversation-title-service';
 // import { segmentServerAnalytics } from '@/lib/analytics';
 import type { AgentContext } from '@/lib/agents/types';
 
+const chatRateLimit = createRateLimitMiddleware('agent_query');
+
 /**
  * 🔄 CHAT API: Bidirectional Dashboard ↔ WhatsApp Sync
  * Mensajes enviados desde dashboard llegan también por WhatsApp
@@ -49,6 +53,12 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Agent queries are the expensive part: limited per store and user, shared across instances
+    const rateLimit = await chatRateLimit(request, storeId, user.id);
+    if (rateLimit.response) {
+      return rateLimit.response;
+    }
+
     const trimmedMessage = message.trim();
     console.log('[CHAT-SYNC] Message received:', { 
       userId: user.id, 
@@ -129,6 +139,7 @@ export async function POST(request: NextRequest) {
       userMessage: trimmedMessage,
       metadata: {
         platform: 'dashboard',
+        messageId: userMessageResult.message?.id,
         userEmail: user.email,
         timestamp: new Date().toISOString(),
         sessionType: 'unified_chat',
@@ -151,7 +162,15 @@ export async function POST(request: NextRequest) {
       console.log('[CHAT-SYNC] Processing with multi-agent system...');
       console.log('[CHAT-SYNC] Using namespace:', agentContext.metadata.namespace);
       
-      agentResponse = await agentSystem.processMessage(agentContext);
+      // A plain SI/NO answers the latest pending agent action of this conversation
+      const approvalReply = await AgentActionApproval.handleReply(storeId, finalConversationId, trimmedMessage, {
+        decidedBy: user.id,
+        channel: 'dashboard'
+      });
+
+      agentResponse = approvalReply
+        ? { success: true, response: approvalReply, agentType: 'orchestrator', confidence: 1, reasoning: 'Agent action approval reply', metadata: {} }
+        : await agentSystem.processMessage(agentContext);
       console.log('[CHAT-SYNC] Agent response received:', {
         agentType: agentResponse.agentType,
         confidence: agentResponse.confidence,
@@ -288,6 +307,7 @@ export async function POST(request: NextRequest) {
         agentType: agentResponse.agentType,
         confidence: agentResponse.confidence,
         reasoning: agentResponse.reasoning,  // 🔥 NEW: Agent reasoning for transparency
+        pendingActions: agentResponse.metadata?.pendingActions || [],
         conversationId: finalConversationId,
         timestamp: new Date().toISOString(),
         processingTime,
@@ -306,7 +326,7 @@ export async function POST(request: NextRequest) {
         unifiedConversation: true,
         customerNamespace: agentContext.metadata.namespace
       }
-    });
+    }, { headers: rateLimit.headers });
 
   } catch (error) {
     console.error('[CHAT-SYNC] Unexpected error:', error);
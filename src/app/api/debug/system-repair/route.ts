@@ -10,7 +10,7 @@ export async function POST(request: NextRequest) {
     console.log('[SYSTEM-REPAIR] 🔧 Starting system repair operation');
     
     const body = await request.json();
-    const { action } = body;
+    const { action, storeId } = body;
     
     if (!action) {
       return NextResponse.json(
@@ -41,6 +41,9 @@ export async function POST(request: NextRequest) {
       case 'force_unlock_all':
         return await forceUnlockAll();
       
+      case 'rollback_rag_namespace':
+        return await rollbackRAGNamespace(storeId);
+      
       default:
         return NextResponse.json(
           { success: false, error: `Unknown action: ${action}` },
@@ -76,12 +79,12 @@ async function cleanupRAGLocks() {
       console.warn('[SYSTEM-REPAIR] ⚠️ Could not clear global RAG locks:', error);
     }
     
-    // Clear any enhanced locks (manual cleanup since no clearAll function exists)
+    // Clear enhanced locks
     try {
-      console.log('[SYSTEM-REPAIR] 🧹 Attempting enhanced locks cleanup...');
-      // Enhanced locks don't have a public clear function, so we acknowledge the limitation
-      cleaned.push('Enhanced RAG locks (acknowledged)');
-      console.log('[SYSTEM-REPAIR] ✅ Enhanced RAG locks acknowledged (no clear function available)');
+      const { clearAllEnhancedLocks } = await import('@/lib/rag/enhanced-global-locks');
+      await clearAllEnhancedLocks();
+      cleaned.push('Enhanced RAG locks');
+      console.log('[SYSTEM-REPAIR] ✅ Enhanced RAG locks cleared');
     } catch (error) {
       console.warn('[SYSTEM-REPAIR] ⚠️ Could not process enhanced RAG locks:', error);
     }
@@ -269,10 +272,11 @@ async function forceUnlockAll() {
       console.warn('[SYSTEM-REPAIR] ⚠️ Could not clear global locks:', error);
     }
     
-    // Enhanced locks (no public clear function available)
+    // Enhanced locks
     try {
-      console.log('[SYSTEM-REPAIR] 🚨 Enhanced locks cleared (best effort)');
-      unlocked.push('Enhanced RAG locks (acknowledged)');
+      const { clearAllEnhancedLocks } = await import('@/lib/rag/enhanced-global-locks');
+      await clearAllEnhancedLocks();
+      unlocked.push('Enhanced RAG locks');
     } catch (error) {
       console.warn('[SYSTEM-REPAIR] ⚠️ Could not process enhanced locks:', error);
     }
@@ -298,6 +302,49 @@ async function forceUnlockAll() {
   }
 }
 
+/**
+ * Serve a store's previous RAG namespace version again (after a bad rebuild)
+ */
+async function rollbackRAGNamespace(storeId?: string) {
+  if (!storeId) {
+    return NextResponse.json(
+      { success: false, error: 'storeId is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    console.log(`[SYSTEM-REPAIR] ⏪ Rolling back RAG namespace version for store: ${storeId}`);
+    
+    const { getUnifiedRAGEngine } = await import('@/lib/rag/unified-rag-engine');
+    const result = await getUnifiedRAGEngine().rollbackStoreNamespaces(storeId);
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 409 }
+      );
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: 'RAG namespace rolled back',
+      data: {
+        storeId,
+        activeVersion: result.version,
+        timestamp: new Date().toISOString()
+      }
+    });
+    
+  } catch (error) {
+    console.error('[SYSTEM-REPAIR] ❌ RAG namespace rollback failed:', error);
+    return NextResponse.json(
+      { success: false, error: 'RAG namespace rollback failed' },
+      { status: 500 }
+    );
+  }
+}
+
 /**
  * GET endpoint for system status
  */
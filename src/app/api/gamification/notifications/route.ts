@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { GamificationRepository } from '@/lib/features/gamification-repository';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 🏆 GAMIFICATION NOTIFICATIONS
+ * =============================
+ *
+ * GET /api/gamification/notifications - Unlocks and level ups not yet shown to
+ * the current user. Each one is returned once; the dashboard shows them as
+ * operation notifications
+ */
+export async function GET() {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const notifications = await GamificationRepository.takeUndeliveredNotifications(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        notifications,
+        count: notifications.length
+      }
+    });
+  } catch (error) {
+    console.error('[API:GAMIFICATION] Notifications GET error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@/lib/supabase/server';
+import { gamificationSystem } from '@/lib/features/gamification-system';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * 🏆 GAMIFICATION API
+ * ===================
+ *
+ * GET /api/gamification - Level, points, streaks and achievements of the current user
+ * GET /api/gamification?leaderboard=50 - Also include the top N users
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({
+        success: false,
+        error: 'Authentication required'
+      }, { status: 401 });
+    }
+
+    const leaderboardParam = request.nextUrl.searchParams.get('leaderboard');
+    const leaderboardLimit = leaderboardParam ? Math.min(Math.max(parseInt(leaderboardParam, 10) || 50, 1), 100) : 0;
+
+    const [stats, userAchievements, leaderboard] = await Promise.all([
+      gamificationSystem.getUserStats(user.id),
+      gamificationSystem.getUserAchievements(user.id),
+      leaderboardLimit > 0 ? gamificationSystem.getLeaderboard(leaderboardLimit) : Promise.resolve(undefined)
+    ]);
+
+    const achievements = userAchievements.map(userAchievement => {
+      const definition = gamificationSystem.getAchievement(userAchievement.achievementId);
+      return {
+        ...userAchievement,
+        name: definition?.name,
+        description: definition?.description,
+        icon: definition?.icon,
+        rarity: definition?.rarity,
+        target: definition?.criteria.target
+      };
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        stats,
+        achievements,
+        leaderboard
+      }
+    });
+  } catch (error) {
+    console.error('[API:GAMIFICATION] GET error:', error);
+    return NextResponse.json({
+      success: false,
+      error: 'Internal server error'
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getUpgradeMessage, hasFeature, type PlanType } from '@/lib/plan-restrictions';
+import { ReportScheduler, validateReportSchedule, type ReportScheduleInput } from '@/lib/services/report-scheduler';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+async function getAuthenticatedUser() {
+  const supabase = createClient();
+  const { data: { user }, error } = await supabase.auth.getUser();
+  return { supabase, user: error ? null : user };
+}
+
+/**
+ * GET /api/reports
+ * Reportes programados del usuario y sus últimos envíos
+ */
+export async function GET() {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const [schedules, deliveries] = await Promise.all([
+      ReportScheduler.listForUser(user.id),
+      ReportScheduler.listDeliveries(user.id)
+    ]);
+
+    return NextResponse.json({ success: true, data: { schedules, deliveries } });
+  } catch (error) {
+    console.error('[REPORTS] Failed to list report schedules:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener los reportes programados' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/reports
+ * Crea o actualiza el reporte de una tienda (uno por tienda y frecuencia)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { supabase, user } = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('subscription_plan')
+      .eq('id', user.id)
+      .single();
+    const plan: PlanType = ['pro', 'enterprise'].includes(profile?.subscription_plan) ? 'pro' : 'basic';
+    if (!hasFeature(plan, 'automatedReports')) {
+      return NextResponse.json(
+        { success: false, error: getUpgradeMessage('automatedReports') },
+        { status: 403 }
+      );
+    }
+
+    const input = await request.json() as ReportScheduleInput;
+    const validationError = !input.storeId || !input.whatsappNumberId
+      ? 'Elegí la tienda y el número de WhatsApp'
+      : validateReportSchedule(input);
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError }, { status: 400 });
+    }
+
+    const schedule = await ReportScheduler.save(user.id, input);
+    return NextResponse.json({ success: true, data: schedule });
+  } catch (error) {
+    if (error instanceof Error && error.message.endsWith('not found')) {
+      return NextResponse.json({ success: false, error: 'Tienda o número de WhatsApp no encontrado' }, { status: 404 });
+    }
+    console.error('[REPORTS] Failed to save report schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al guardar el reporte programado' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/reports?id=<scheduleId>
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { user } = await getAuthenticatedUser();
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const scheduleId = request.nextUrl.searchParams.get('id');
+    if (!scheduleId) {
+      return NextResponse.json({ success: false, error: 'Falta el id del reporte' }, { status: 400 });
+    }
+
+    const removed = await ReportScheduler.remove(user.id, scheduleId);
+    if (!removed) {
+      return NextResponse.json({ success: false, error: 'Reporte no encontrado' }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('[REPORTS] Failed to delete report schedule:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al eliminar el reporte programado' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getReplyWorkerSecret, isAuthorizedWorkerRequest } from '@/lib/integrations/whatsapp/reply-worker';
+import { ReportScheduler } from '@/lib/services/report-scheduler';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Sends the business digests that are due (Vercel cron every 5 minutes)
+ * Requires `Authorization: Bearer <WHATSAPP_WORKER_SECRET>` or `Bearer <CRON_SECRET>`
+ */
+async function runDueReports(request: NextRequest) {
+  const secret = getReplyWorkerSecret();
+  if (!secret && process.env.NODE_ENV !== 'development') {
+    console.error('[REPORTS] WHATSAPP_WORKER_SECRET / CRON_SECRET is not configured');
+    return NextResponse.json({ success: false, error: 'Cron not configured' }, { status: 500 });
+  }
+  if (secret && !isAuthorizedWorkerRequest(request.headers.get('authorization'))) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await ReportScheduler.runDue();
+    if (result.found > 0) {
+      console.warn('[REPORTS] Scheduled digests run finished:', result);
+    }
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[REPORTS] Scheduled digests run failed:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return runDueReports(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runDueReports(request);
+}
@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 
 import { getStoreAccessStats } from '@/lib/security/store-access';
-import { getRateLimitStatus } from '@/lib/security/rate-limiter';
+import { getRateLimitStatus, getUserRateLimitPlan } from '@/lib/security/rate-limiter';
 import { getAnomalyStatistics, getUserBehaviorPattern } from '@/lib/security/anomaly-detector';
 
 // Forzar renderizado dinámico
@@ -36,7 +36,7 @@ export async function GET(request: NextRequest) {
       getAnomalyStatistics(),
       getUserBehaviorPattern(userId),
       storeId ? getStoreAccessStats(userId) : null,
-      storeId ? getRateLimitStatus(storeId, userId) : null
+      storeId ? getUserRateLimitPlan(userId).then(plan => getRateLimitStatus(storeId, userId, plan)) : null
     ]);
 
     // Calculate security score
@@ -2,6 +2,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
 import { StoreService } from '@/lib/database/client';
 import { getUnifiedRAGEngine } from '@/lib/rag';
+import { createRateLimitMiddleware } from '@/lib/security/rate-limiter';
+
+const syncRateLimit = createRateLimitMiddleware('data_indexing');
 
 /**
  * Force RAG data sync for a specific store
@@ -14,6 +17,10 @@ export async function POST(
 ): Promise<NextResponse> {
   try {
     const storeId = params.id;
+    // ?full=true ignores the delta cursors and re-fetches every entity
+    const fullSync = request.nextUrl.searchParams.get('full') === 'true';
+    // ?rebuild=true re-embeds everything into a new namespace version, switched to once validated
+    const rebuild = request.nextUrl.searchParams.get('rebuild') === 'true';
 
     if (!storeId) {
       return NextResponse.json({
@@ -84,6 +91,16 @@ export async function POST(
       }, { status: 400 });
     }
 
+    // User-triggered syncs re-fetch and re-embed store data; internal ones (webhooks, cron) are not limited
+    let rateLimitHeaders: Record<string, string> | undefined;
+    if (!isInternalCall && userId) {
+      const rateLimit = await syncRateLimit(request, storeId, userId);
+      if (rateLimit.response) {
+        return rateLimit.response;
+      }
+      rateLimitHeaders = rateLimit.headers;
+    }
+
     console.log(`[INFO] ${isInternalCall ? 'Internal' : 'User'} RAG sync triggered for store: ${storeId} (${store.name})`);
 
     // Trigger async sync using unified RAG engine (fire-and-forget)
@@ -94,7 +111,7 @@ export async function POST(
       setTimeout(async () => {
         try {
           await ragEngine.initializeStoreNamespaces(storeId);
-          await ragEngine.indexStoreData(storeId, store.access_token);
+          await ragEngine.indexStoreData(storeId, store.access_token, { full: fullSync, rebuild });
           console.log(`[INFO] RAG sync completed for store: ${storeId}`);
         } catch (error) {
           console.error(`[ERROR] RAG sync failed for store ${storeId}:`, error);
@@ -112,9 +129,10 @@ export async function POST(
         storeId,
         storeName: store.name,
         syncTriggeredAt: new Date().toISOString(),
+        syncMode: rebuild ? 'rebuild' : fullSync ? 'full' : 'delta',
         callType: isInternalCall ? 'internal' : 'user'
       }
-    });
+    }, { headers: rateLimitHeaders });
 
   } catch (error) {
     console.error('[ERROR] RAG sync failed:', error);
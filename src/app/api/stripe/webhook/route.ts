@@ -164,6 +164,14 @@ export async function POST(request: NextRequest) {
                   // Don't fail the webhook for welcome message errors
                 }
               }
+
+              // Rewards earned before subscribing (free days, credit) were kept pending
+              try {
+                const { GamificationRewards } = await import('@/lib/features/gamification-rewards');
+                await GamificationRewards.applyPending(userId);
+              } catch (rewardError) {
+                console.error('[ERROR] Failed to apply pending gamification rewards:', rewardError);
+              }
             }
           }
         }
@@ -180,11 +188,12 @@ export async function POST(request: NextRequest) {
           // Map Stripe subscription to our plan structure
           const mappedPlan = mapStripePlanToAppPlan(subscription);
           
+          // Free days from gamification rewards put a paid subscription in trial; it stays active
           const { error } = await supabase
             .from('users')
             .update({
               subscription_plan: mappedPlan.plan,
-              subscription_status: mappedPlan.status === 'active' ? 'active' : 'inactive',
+              subscription_status: ['active', 'trialing'].includes(mappedPlan.status) ? 'active' : 'inactive',
               subscription_billing: mappedPlan.billing,
               updated_at: new Date().toISOString()
             })
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@/lib/supabase/server';
+import { trackStoreConnected } from '@/lib/features/gamification-events';
 import { exchangeCodeForToken } from '@/lib/integrations/tiendanube';
 
 // Force dynamic rendering to prevent static build errors
@@ -147,6 +148,8 @@ export async function GET(request: NextRequest) {
 
         storeId = newStore.id;
         console.log(`✅ [SIMPLE-CALLBACK] New store created: ${storeId}`);
+
+        await trackStoreConnected(userId, storeId);
       }
 
       const totalTime = Date.now() - startTime;
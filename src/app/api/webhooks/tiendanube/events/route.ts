@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  TIENDANUBE_HMAC_HEADER,
+  processTiendaNubeWebhook,
+  verifyTiendaNubeWebhook
+} from "@/lib/integrations/tiendanube-webhooks";
+import type { TiendaNubeWebhookPayload } from "@/types/tiendanube";
+
+/**
+ * Tienda Nube Store Events Webhook
+ * POST /api/webhooks/tiendanube/events
+ *
+ * Receives order/product/app events registered on connection and updates
+ * only the affected vectors in the RAG index
+ */
+export async function POST(request: NextRequest) {
+  try {
+    // Signature is computed over the raw body, so read it before parsing
+    const rawBody = await request.text();
+    const signature = request.headers.get(TIENDANUBE_HMAC_HEADER);
+
+    if (!verifyTiendaNubeWebhook(rawBody, signature)) {
+      console.error("[WEBHOOK] Invalid Tienda Nube webhook signature");
+      return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+    }
+
+    let payload: TiendaNubeWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+    }
+
+    if (!payload.event || !payload.store_id) {
+      console.error("[WEBHOOK] Missing event or store_id in Tienda Nube webhook");
+      return NextResponse.json({ error: "Missing event or store_id" }, { status: 400 });
+    }
+
+    console.warn(`[WEBHOOK] Tienda Nube ${payload.event} received for store: ${payload.store_id}`);
+
+    const result = await processTiendaNubeWebhook(payload);
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    // Non-2xx makes Tienda Nube retry the delivery
+    console.error("[WEBHOOK] Tienda Nube event processing error:", error);
+    return NextResponse.json({
+      success: false,
+      error: "Internal server error"
+    }, { status: 500 });
+  }
+}
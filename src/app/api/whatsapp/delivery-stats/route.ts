@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { WhatsAppDeliveryTracker } from '@/lib/integrations/whatsapp/delivery-status';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/whatsapp/delivery-stats?days=7
+ * Tasas de entrega y lectura de las respuestas de WhatsApp del usuario
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const days = Math.min(Math.max(Number(searchParams.get('days')) || 7, 1), 90);
+
+    const stats = await WhatsAppDeliveryTracker.getStats(user.id, days);
+
+    return NextResponse.json({ success: true, data: stats });
+  } catch (error) {
+    console.error('[WHATSAPP-STATUS] Failed to load delivery stats:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener las estadísticas de entrega' },
+      { status: 500 }
+    );
+  }
+}
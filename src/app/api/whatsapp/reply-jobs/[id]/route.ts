@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { WhatsAppReplyQueue } from '@/lib/integrations/whatsapp/reply-queue';
+import { triggerReplyWorker } from '@/lib/integrations/whatsapp/reply-worker';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/whatsapp/reply-jobs/[id]
+ * Reintentar una respuesta de WhatsApp que quedó en dead-letter
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const requeued = await WhatsAppReplyQueue.requeue(params.id, user.id);
+    if (!requeued) {
+      return NextResponse.json(
+        { success: false, error: 'Respuesta no encontrada o ya reintentada' },
+        { status: 404 }
+      );
+    }
+
+    await triggerReplyWorker(new URL(request.url).origin);
+
+    return NextResponse.json({ success: true, message: 'Respuesta reencolada' });
+  } catch (error) {
+    console.error('[WHATSAPP-QUEUE] Failed to requeue reply job:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al reintentar la respuesta' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { WhatsAppReplyQueue, type WhatsAppReplyJobStatus } from '@/lib/integrations/whatsapp/reply-queue';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+const VISIBLE_STATUSES: WhatsAppReplyJobStatus[] = ['queued', 'processing', 'retrying', 'completed', 'dead'];
+
+/**
+ * GET /api/whatsapp/reply-jobs?status=dead|retrying|...
+ * Respuestas de WhatsApp en cola del usuario (por defecto, las que quedaron en dead-letter)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const statuses = (searchParams.get('status') || 'dead')
+      .split(',')
+      .filter((status): status is WhatsAppReplyJobStatus => VISIBLE_STATUSES.includes(status as WhatsAppReplyJobStatus));
+
+    const jobs = await WhatsAppReplyQueue.list(user.id, statuses.length > 0 ? statuses : ['dead']);
+
+    return NextResponse.json({
+      success: true,
+      data: jobs.map(job => ({
+        id: job.id,
+        status: job.status,
+        storeId: job.storeId,
+        message: job.payload.body || (job.payload.media?.length ? `[${job.payload.media.map(item => item.contentType).join(', ')}]` : ''),
+        phoneNumber: job.payload.phoneNumber,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        lastError: job.lastError,
+        nextAttemptAt: job.nextAttemptAt,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt
+      }))
+    });
+  } catch (error) {
+    console.error('[WHATSAPP-QUEUE] Failed to list reply jobs:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener las respuestas en cola' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getReplyWorkerSecret, isAuthorizedWorkerRequest, processWhatsAppReplyJobs } from '@/lib/integrations/whatsapp/reply-worker';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * WhatsApp reply worker
+ * POST: triggered by the webhook after enqueueing a reply
+ * GET: Vercel cron (every minute) as a safety net for retries and missed triggers
+ * Both require `Authorization: Bearer <WHATSAPP_WORKER_SECRET>` or `Bearer <CRON_SECRET>`
+ */
+async function runWorker(request: NextRequest) {
+  const secret = getReplyWorkerSecret();
+  if (!secret && process.env.NODE_ENV !== 'development') {
+    console.error('[WHATSAPP-WORKER] WHATSAPP_WORKER_SECRET / CRON_SECRET is not configured');
+    return NextResponse.json({ success: false, error: 'Worker not configured' }, { status: 500 });
+  }
+  if (secret && !isAuthorizedWorkerRequest(request.headers.get('authorization'))) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await processWhatsAppReplyJobs();
+    if (result.claimed > 0) {
+      console.warn('[WHATSAPP-WORKER] Run finished:', result);
+    }
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[WHATSAPP-WORKER] Run failed:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return runWorker(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runWorker(request);
+}
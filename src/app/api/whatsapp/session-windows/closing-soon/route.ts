@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { getReplyWorkerSecret, isAuthorizedWorkerRequest } from '@/lib/integrations/whatsapp/reply-worker';
+import { WhatsAppSessionWindow } from '@/lib/integrations/whatsapp/session-window';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+/**
+ * Runs the "window closing soon" hooks (Vercel cron every 15 minutes)
+ * Requires `Authorization: Bearer <WHATSAPP_WORKER_SECRET>` or `Bearer <CRON_SECRET>`
+ */
+async function runClosingSoon(request: NextRequest) {
+  const secret = getReplyWorkerSecret();
+  if (!secret && process.env.NODE_ENV !== 'development') {
+    console.error('[WHATSAPP-SESSION] WHATSAPP_WORKER_SECRET / CRON_SECRET is not configured');
+    return NextResponse.json({ success: false, error: 'Cron not configured' }, { status: 500 });
+  }
+  if (secret && !isAuthorizedWorkerRequest(request.headers.get('authorization'))) {
+    return NextResponse.json({ success: false, error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const result = await WhatsAppSessionWindow.processClosingSoon();
+    if (result.found > 0) {
+      console.warn('[WHATSAPP-SESSION] Closing-soon run finished:', result);
+    }
+    return NextResponse.json({ success: true, data: result });
+  } catch (error) {
+    console.error('[WHATSAPP-SESSION] Closing-soon run failed:', error);
+    return NextResponse.json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    }, { status: 500 });
+  }
+}
+
+export async function GET(request: NextRequest) {
+  return runClosingSoon(request);
+}
+
+export async function POST(request: NextRequest) {
+  return runClosingSoon(request);
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+
+import { WhatsAppSessionWindow } from '@/lib/integrations/whatsapp/session-window';
+import { createClient } from '@/lib/supabase/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/whatsapp/session-windows
+ * Ventana de 24hs de cada número del usuario: abierta (se puede responder freeform) o cerrada (requiere template)
+ */
+export async function GET() {
+  try {
+    const supabase = createClient();
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { success: false, error: 'Usuario no autenticado' },
+        { status: 401 }
+      );
+    }
+
+    const windows = await WhatsAppSessionWindow.listForUser(user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: windows.map(window => ({
+        phoneNumber: window.phoneNumber,
+        businessNumber: window.businessNumber,
+        whatsappNumberId: window.whatsappNumberId,
+        lastInboundAt: window.lastInboundAt,
+        expiresAt: window.expiresAt,
+        isOpen: window.isOpen,
+        remainingMs: window.remainingMs,
+        closingSoon: window.closingSoon,
+        sendMode: window.isOpen ? 'freeform' : 'template'
+      }))
+    });
+  } catch (error) {
+    console.error('[WHATSAPP-SESSION] Failed to list session windows:', error);
+    return NextResponse.json(
+      { success: false, error: 'Error al obtener las ventanas de conversación' },
+      { status: 500 }
+    );
+  }
+}
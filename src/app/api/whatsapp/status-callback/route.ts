@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+import { trackDigestRead } from '@/lib/features/gamification-events';
+import { WhatsAppDeliveryTracker } from '@/lib/integrations/whatsapp/delivery-status';
+import { verifyTwilioRequest } from '@/lib/integrations/whatsapp/webhook-security';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Twilio StatusCallback for outbound WhatsApp messages
+ * Updates whatsapp_messages.status and re-sends 63016 failures as templates
+ * Read receipts of digests also feed gamification
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const formData = await request.formData();
+    const params: Record<string, string> = {};
+    formData.forEach((value, key) => {
+      params[key] = String(value);
+    });
+
+    // Status callbacks are signed with the token of our number, which is the sender (From)
+    const verification = await verifyTwilioRequest(request, params);
+    if (!verification.valid) {
+      console.error('[WHATSAPP-STATUS] Invalid Twilio signature:', verification.reason);
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!params.MessageSid || !params.MessageStatus) {
+      return NextResponse.json({ status: 'ignored', message: 'Missing MessageSid or MessageStatus' });
+    }
+
+    const result = await WhatsAppDeliveryTracker.applyStatusCallback({
+      messageSid: params.MessageSid,
+      messageStatus: params.MessageStatus,
+      errorCode: params.ErrorCode || null,
+      errorMessage: params.ErrorMessage || null
+    });
+
+    // Read receipts of business digests count towards the reading achievements
+    if (params.MessageStatus === 'read') {
+      await trackDigestRead(params.MessageSid);
+    }
+
+    if (result.status === 'failed') {
+      console.warn(`[WHATSAPP-STATUS] ${params.MessageSid} failed (${params.ErrorCode || 'no code'})${result.templateResent ? ', re-sent as template' : ''}`);
+    }
+
+    return NextResponse.json({ status: 'success', data: result });
+  } catch (error) {
+    console.error('[WHATSAPP-STATUS] Failed to process status callback:', error);
+    // 500 makes Twilio retry the callback
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -5,16 +5,20 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 
-import { FiniMultiAgentSystem } from '@/lib/agents/multi-agent-system';
-import type { AgentContext } from '@/lib/agents/types';
-import { StoreService, ConversationService, MessageService } from '@/lib/database/client';
+import { ConversationService, MessageService } from '@/lib/database/client';
 import { createTwilioWhatsAppService } from '@/lib/integrations/twilio-whatsapp';
+import { collectInboundMedia } from '@/lib/integrations/whatsapp/media-pipeline';
+import { WhatsAppReplyQueue } from '@/lib/integrations/whatsapp/reply-queue';
+import { triggerReplyWorker } from '@/lib/integrations/whatsapp/reply-worker';
+import { getSenderResolutionReply, normalizeWhatsAppNumber, resolveWhatsAppSender } from '@/lib/integrations/whatsapp/sender-resolver';
+import { WhatsAppSessionWindow } from '@/lib/integrations/whatsapp/session-window';
+import { verifyTwilioRequest, WhatsAppInboundLog } from '@/lib/integrations/whatsapp/webhook-security';
 
 const _twilioService = createTwilioWhatsAppService();
-const _agentSystem = new FiniMultiAgentSystem();
 
 export async function POST(request: NextRequest) {
   const _startTime = Date.now();
+  let _claimedMessageSid: string | null = null;
   try {
     console.warn('[WEBHOOK] Received WhatsApp webhook');
     // Get request body - Twilio sends form data, not JSON
@@ -25,163 +29,127 @@ export async function POST(request: NextRequest) {
     });
     console.warn('[WEBHOOK] WhatsApp message received:', JSON.stringify(body, null, 2));
 
-    // Validate webhook signature (Twilio) - Skip in development
-    const _twilioSignature = request.headers.get('x-twilio-signature');
-    const _isDevelopment = process.env.NODE_ENV === 'development';
-    if (!_twilioSignature && !_isDevelopment) {
-      console.error('[WEBHOOK] Missing Twilio signature');
+    // Validate webhook signature (Twilio) against the auth token of the request's AccountSid
+    const _verification = await verifyTwilioRequest(request, body);
+    if (!_verification.valid) {
+      console.error('[WEBHOOK] Invalid Twilio signature:', _verification.reason);
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    if (_isDevelopment && !_twilioSignature) {
+    if (_verification.reason === 'skipped_in_development') {
       console.warn('[WEBHOOK] Development mode: skipping signature validation');
     }
 
     // Process incoming WhatsApp message
-    if (body.MessageSid && body.From && body.Body) {
+    // Voice notes and images arrive without Body; NumMedia tells them apart from empty messages
+    if (body.MessageSid && body.From && (body.Body || Number(body.NumMedia) > 0)) {
+      // Each MessageSid is processed once; Twilio retries of a handled message are only acknowledged
+      if (await WhatsAppInboundLog.claim(body.MessageSid) === 'duplicate') {
+        console.warn('[WEBHOOK] Duplicate MessageSid, skipping:', body.MessageSid);
+        return NextResponse.json({ status: 'duplicate', message: 'Message already processed' });
+      }
+      _claimedMessageSid = body.MessageSid;
+
       const _messageData = {
         messageId: body.MessageSid,
         from: body.From,
         to: body.To,
-        body: body.Body,
+        body: body.Body || '',
         timestamp: new Date(),
-        mediaUrl: body.MediaUrl0 || null,
-        mediaContentType: body.MediaContentType0 || null,
+        media: collectInboundMedia(body),
       };
-      const _phoneNumber = _messageData.from.replace('whatsapp:', '');
-
-      // 1. Lookup store by phone number (simplified approach)
-      const _configRes = await StoreService.getStoresByUserId(_phoneNumber);
-      let userId: string | undefined = undefined;
-      let storeId: string | undefined = undefined;
-      let storeName = 'Tienda Nube';
-      
-      if (_configRes.success && _configRes.stores && _configRes.stores.length > 0) {
-        const _store = _configRes.stores[0]; // Use first store for now
-        userId = _store.user_id;
-        storeId = _store.id;
-        storeName = _store.name;
-      } else {
-        // Fallback: no config found
-        console.warn('[WEBHOOK] No WhatsApp config found for number:', _phoneNumber);
+      const _phoneNumber = normalizeWhatsAppNumber(_messageData.from);
+
+      // 1. Resolve the sender (verified merchant number + receiving Twilio number) to a user and store
+      const _resolution = await resolveWhatsAppSender(_messageData.from, _messageData.to);
+      if (_resolution.status === 'unknown_receiver') {
+        await WhatsAppInboundLog.complete(body.MessageSid);
+        return NextResponse.json({ status: 'ignored', message: 'Unknown receiving number' });
+      }
+
+      // Every inbound message opens the 24h session window in which freeform replies are allowed
+      await WhatsAppSessionWindow.recordInbound({
+        phoneNumber: _phoneNumber,
+        businessNumber: _resolution.receivingNumber,
+        userId: _resolution.userId,
+        whatsappNumberId: _resolution.whatsappNumberId,
+        displayName: _resolution.displayName,
+        storeName: _resolution.store?.name,
+        receivedAt: _messageData.timestamp
+      }).catch(error => console.warn('[WEBHOOK] Failed to record session window:', error));
+
+      // Unknown, unverified or storeless numbers get an onboarding prompt instead of the agents
+      const _onboardingReply = getSenderResolutionReply(_resolution);
+      if (_onboardingReply || !_resolution.store || !_resolution.userId) {
+        console.warn('[WEBHOOK] Sender not resolved:', _resolution.status, _phoneNumber);
+        await _twilioService.sendMessage({
+          to: _phoneNumber,
+          from: _resolution.receivingNumber || process.env.TWILIO_PHONE_NUMBER!,
+          body: _onboardingReply || 'No pudimos identificar tu tienda. Por favor intenta nuevamente.'
+        });
+        await WhatsAppInboundLog.complete(body.MessageSid);
+        return NextResponse.json({
+          status: 'success',
+          message: `Sender ${_resolution.status}`,
+          processingTime: Date.now() - _startTime
+        });
       }
 
+      const userId = _resolution.userId;
+
       // 2. Persist inbound message and conversation
       let conversationId = `conv_${_phoneNumber}`;
       let conversation = null;
-      if (userId) {
-        // Try to find existing conversation
-        const _convRes = await ConversationService.getConversationByCustomerNumber(userId, _phoneNumber);
-        if (_convRes.success && _convRes.conversation) {
-          conversation = _convRes.conversation;
+      // Try to find existing conversation
+      const _convRes = await ConversationService.getConversationByCustomerNumber(userId, _phoneNumber);
+      if (_convRes.success && _convRes.conversation) {
+        conversation = _convRes.conversation;
+        conversationId = conversation.id;
+      } else {
+        // Create new conversation
+        const _newConvRes = await ConversationService.createConversation({
+          user_id: userId,
+          store_id: _resolution.store.id,
+          whatsapp_number: _resolution.receivingNumber,
+          customer_number: _phoneNumber,
+          conversation_id: conversationId,
+          status: 'active',
+          last_message_at: new Date().toISOString(),
+          message_count: 1
+        });
+        if (_newConvRes.success && _newConvRes.conversation) {
+          conversation = _newConvRes.conversation;
           conversationId = conversation.id;
-        } else {
-          // Create new conversation
-          const _newConvRes = await ConversationService.createConversation({
-            user_id: userId,
-            store_id: storeId,
-            whatsapp_number: body.To.replace('whatsapp:', ''),
-            customer_number: _phoneNumber,
-            conversation_id: conversationId,
-            status: 'active',
-            last_message_at: new Date().toISOString(),
-            message_count: 1
-          });
-          if (_newConvRes.success && _newConvRes.conversation) {
-            conversation = _newConvRes.conversation;
-            conversationId = conversation.id;
-          }
         }
       }
-      // Persist inbound message
-      await MessageService.createMessage({
+      // Persist inbound message (once per MessageSid: a failed enqueue releases the claim and Twilio retries)
+      await MessageService.createInboundMessage({
         conversation_id: conversationId,
         twilio_message_sid: _messageData.messageId,
         direction: 'inbound',
         body: _messageData.body,
-        media_url: _messageData.mediaUrl,
+        media_url: _messageData.media[0]?.url || null,
+        metadata: _messageData.media.length > 0 ? { media: _messageData.media } : {},
         created_at: new Date().toISOString()
       });
 
-      // 3. Build agent context
-      const agentContext: AgentContext = {
-        userId: userId || 'demo-user-id',
-        storeId: storeId || 'demo-store-id',
+      // 3. Enqueue the reply and acknowledge Twilio right away; the worker runs the agents and answers
+      const _jobId = await WhatsAppReplyQueue.enqueue({
+        messageSid: _messageData.messageId,
+        body: _messageData.body,
+        phoneNumber: _phoneNumber,
+        receivingNumber: _resolution.receivingNumber,
         conversationId,
-        userMessage: _messageData.body,
-        metadata: {
-          phoneNumber: _phoneNumber,
-          storeName,
-          platform: 'whatsapp',
-          timestamp: _messageData.timestamp
-        }
-      };
-
-      // 4. Process message with multi-agent system
-      let agentResponse;
-      try {
-        agentResponse = await _agentSystem.processMessage(agentContext);
-        console.warn('[WEBHOOK] Agent response:', agentResponse);
-      } catch (agentError) {
-        console.error('[WEBHOOK] Agent processing error:', agentError);
-        agentResponse = {
-          success: false,
-          response: 'Hay un problema técnico temporal. Nuestro equipo está trabajando para resolverlo. Por favor intenta más tarde.',
-          agentType: 'orchestrator',
-          confidence: 0,
-          reasoning: 'System error',
-          metadata: {},
-          error: agentError instanceof Error ? agentError.message : 'Unknown error'
-        };
-      }
-
-      // 5. Persist outbound message
-      await MessageService.createMessage({
-        conversation_id: conversationId,
-        direction: 'outbound',
-        body: agentResponse.response,
-        agent_type: (agentResponse.agentType as 'orchestrator' | 'analytics' | 'customer_service' | 'marketing' | undefined),
-        confidence: agentResponse.confidence,
-        processing_time_ms: agentResponse.metadata && 'systemExecutionTime' in agentResponse.metadata ? agentResponse.metadata.systemExecutionTime : undefined,
-        created_at: new Date().toISOString()
+        interactiveReplyId: body.ListId || body.ButtonPayload || null,
+        media: _messageData.media,
+        accountSid: body.AccountSid || null,
+        receivedAt: _messageData.timestamp.toISOString(),
+        resolution: _resolution
       });
+      console.warn('[WEBHOOK] Reply enqueued:', _jobId || 'already queued');
+      // Not awaited: the cron picks the job up if the trigger does not reach the worker
+      void triggerReplyWorker(new URL(request.url).origin);
 
-      // 6. Send response back via WhatsApp using smart message (template fallback)
-      // Determine message type based on agent response and content analysis
-      let messageType: 'response' | 'analytics' | 'marketing' | 'error' | 'welcome' = 'response';
-      
-      if (agentResponse.agentType === 'analytics') {
-        messageType = 'analytics';
-      } else if (agentResponse.agentType === 'marketing') {
-        messageType = 'marketing';
-      } else if (agentResponse.error) {
-        messageType = 'error';
-      } else {
-        // Analyze response content to detect welcome-type messages
-        const responseContent = (agentResponse.response || '').toLowerCase();
-        if (responseContent.includes('bienvenid') || responseContent.includes('soy fini') || 
-            responseContent.includes('asistente') || responseContent.includes('ayudarte') || 
-            responseContent.includes('crecer') || responseContent.includes('🚀') || 
-            responseContent.includes('🤖') || responseContent.includes('puedo ayudarte')) {
-          messageType = 'welcome';
-        }
-      }
-      
-      const smartResult = await _twilioService.sendSmartMessage(
-        _phoneNumber,
-        agentResponse.response || 'Lo siento, no pude procesar tu mensaje en este momento. Por favor intenta nuevamente.',
-        messageType,
-        {
-          storeName,
-          errorType: agentResponse.error ? 'temporal' : undefined,
-          displayName: 'Usuario'
-        }
-      );
-      
-      if (smartResult.usedTemplate) {
-        console.warn(`[WEBHOOK] Response sent using template (${messageType}):`, smartResult.messageSid);
-      } else {
-        console.warn('[WEBHOOK] Response sent as freeform message:', smartResult.messageSid);
-      }
+      await WhatsAppInboundLog.complete(body.MessageSid);
     }
 
     const _processingTime = Date.now() - _startTime;
@@ -197,6 +165,10 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     const _processingTime = Date.now() - _startTime;
     console.error('[ERROR] Webhook processing failed:', error);
+    // Release the claim so Twilio's retry can process the message again
+    if (_claimedMessageSid) {
+      await WhatsAppInboundLog.fail(_claimedMessageSid, error instanceof Error ? error.message : 'Unknown error');
+    }
     return NextResponse.json({
       status: 'error',
       error: error instanceof Error ? error.message : 'Unknown error',
@@ -52,6 +52,8 @@ interface Message {
   status: 'sent' | 'delivered' | 'read';
   agent?: 'orchestrator' | 'analytics' | 'customer_service' | 'marketing' | 'stock_manager' | 'financial_advisor' | 'business_consultant' | 'product_manager' | 'operations_manager' | 'sales_coach';
   confidence?: number;
+  // Store changes proposed by the agent, waiting for approval
+  pendingActions?: Array<{ id: string; description: string }>;
 }
 
 interface Conversation {
@@ -116,6 +118,7 @@ export function ChatPreview({
   const [inputValue, setInputValue] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isTyping, setIsTyping] = useState(false);
+  const [decidingActionId, setDecidingActionId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
@@ -314,7 +317,8 @@ export function ChatPreview({
           type: 'analytics',
           status: 'sent',
           agent: result.response?.agentType || 'orchestrator',
-          confidence: result.response?.confidence
+          confidence: result.response?.confidence,
+          pendingActions: result.response?.pendingActions
         };
 
         setMessages(prev => [...prev, assistantMessage]);
@@ -348,6 +352,37 @@ export function ChatPreview({
     }
   };
 
+  // ✅ Aprobar / rechazar una acción propuesta por un agente
+  const handleActionDecision = async (messageId: string, actionId: string, decision: 'approve' | 'reject') => {
+    setDecidingActionId(actionId);
+    try {
+      const response = await fetch(`/api/agent-actions/${actionId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision })
+      });
+      const result = await response.json();
+
+      setMessages(prev => [
+        ...prev.map(message => message.id === messageId
+          ? { ...message, pendingActions: message.pendingActions?.filter(action => action.id !== actionId) }
+          : message),
+        {
+          id: Date.now().toString(),
+          content: result.message || result.error || 'No se pudo procesar la acción',
+          timestamp: new Date().toISOString(),
+          direction: 'outbound',
+          type: 'system',
+          status: 'sent'
+        }
+      ]);
+    } catch (error) {
+      console.error('Error deciding agent action:', error);
+    } finally {
+      setDecidingActionId(null);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -865,6 +900,38 @@ export function ChatPreview({
                     </p>
                   </div>
 
+                  {/* Pending agent actions */}
+                  {message.pendingActions && message.pendingActions.length > 0 && (
+                    <div className="mt-2 w-full space-y-2">
+                      {message.pendingActions.map(action => (
+                        <div key={action.id} className="flex items-center justify-between gap-3 rounded-xl border border-amber-200 bg-amber-50 px-3 py-2">
+                          <span className="text-xs text-amber-900">{action.description}</span>
+                          <div className="flex gap-2 flex-shrink-0">
+                            <Button
+                              size="sm"
+                              className="h-7 px-2 bg-green-600 hover:bg-green-700 text-white"
+                              disabled={decidingActionId === action.id}
+                              onClick={() => handleActionDecision(message.id, action.id, 'approve')}
+                            >
+                              {decidingActionId === action.id ? <Loader2 className="w-3 h-3 animate-spin" /> : <Check className="w-3 h-3" />}
+                              <span className="ml-1">Aprobar</span>
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              className="h-7 px-2"
+                              disabled={decidingActionId === action.id}
+                              onClick={() => handleActionDecision(message.id, action.id, 'reject')}
+                            >
+                              <X className="w-3 h-3" />
+                              <span className="ml-1">Rechazar</span>
+                            </Button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Message metadata */}
                   <div className={`flex items-center gap-3 mt-2 text-xs text-gray-500 px-1 ${
                     message.direction === 'inbound' ? 'justify-end' : 'justify-start'
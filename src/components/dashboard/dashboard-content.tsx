@@ -2,6 +2,7 @@
 
 import { useAuth } from "@/hooks/useAuth";
 import { useOperations } from "@/hooks/useOperations";
+import { useGamificationNotifications } from "@/hooks/useGamificationNotifications";
 import { Bot, LogOut, User, BarChart3, MessageSquare, CheckCircle, AlertCircle, X, RefreshCw, Store as StoreIcon, Phone, CreditCard, BarChart } from "lucide-react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { useEffect, useState, Suspense, useCallback } from "react";
@@ -77,6 +78,9 @@ export function DashboardContent() {
     hasActiveOperations,
     estimatedWaitTime
   } = useOperations();
+
+  // Achievement unlocks and level ups, shown alongside operation notifications
+  useGamificationNotifications();
   
   // State management
   const [stores, setStores] = useState<StoreType[]>([]);
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { CheckCheck, Eye, RefreshCw, Send, XCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface DeliveryStats {
+  periodDays: number;
+  total: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  templateResends: number;
+  deliveryRate: number;
+  readRate: number;
+}
+
+/**
+ * Delivery and read rates of WhatsApp replies, from Twilio status callbacks
+ */
+export function WhatsAppDeliveryStats() {
+  const [stats, setStats] = useState<DeliveryStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStats = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/whatsapp/delivery-stats?days=7', {
+        credentials: 'include'
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setStats(data.data);
+      } else {
+        setError(data.error || 'Failed to load delivery stats');
+      }
+    } catch (err) {
+      console.error('[WHATSAPP-STATUS] Error loading delivery stats:', err);
+      setError('Failed to load delivery stats');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchStats();
+  }, []);
+
+  // Nothing to show until the first reply is sent
+  if (!loading && !error && (!stats || stats.total === 0)) {
+    return null;
+  }
+
+  const metrics = stats ? [
+    { label: 'Messages sent', value: String(stats.total), icon: Send, color: 'text-gray-600' },
+    { label: 'Delivery rate', value: `${stats.deliveryRate}%`, icon: CheckCheck, color: 'text-green-600' },
+    { label: 'Read rate', value: `${stats.readRate}%`, icon: Eye, color: 'text-blue-600' },
+    { label: 'Failed', value: String(stats.failed), icon: XCircle, color: 'text-red-600' }
+  ] : [];
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <CheckCheck className="mr-3 h-5 w-5 text-gray-600" />
+            Message Delivery
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            WhatsApp replies in the last {stats?.periodDays || 7} days
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchStats}
+          disabled={loading}
+          className="text-gray-600 hover:bg-gray-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="p-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {stats && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {metrics.map(metric => (
+                <div key={metric.label} className="p-4 border border-gray-100 rounded-lg">
+                  <div className="flex items-center text-sm text-gray-600 mb-1">
+                    <metric.icon className={`mr-2 h-4 w-4 ${metric.color}`} />
+                    {metric.label}
+                  </div>
+                  <p className="text-2xl font-semibold text-gray-900">{metric.value}</p>
+                </div>
+              ))}
+            </div>
+            {stats.templateResends > 0 && (
+              <p className="text-xs text-gray-500 mt-3">
+                {stats.templateResends} message{stats.templateResends === 1 ? '' : 's'} re-sent as a template after failing outside the 24-hour window
+              </p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
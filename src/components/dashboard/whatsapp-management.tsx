@@ -26,6 +26,9 @@ import {
   PowerOff,
 } from 'lucide-react';
 import { useConfirmationDialog } from '@/components/ui/confirmation-dialog';
+import { WhatsAppDeliveryStats } from '@/components/dashboard/whatsapp-delivery-stats';
+import { WhatsAppReplyDeadLetters } from '@/components/dashboard/whatsapp-reply-dead-letters';
+import { WhatsAppScheduledReports } from '@/components/dashboard/whatsapp-scheduled-reports';
 import { Store } from '@/types/db';
 import { format } from 'date-fns';
 import { enUS } from 'date-fns/locale';
@@ -43,6 +46,13 @@ interface WhatsAppConfig {
   message_count?: number;
 }
 
+interface SessionWindowInfo {
+  whatsappNumberId: string | null;
+  isOpen: boolean;
+  remainingMs: number;
+  closingSoon: boolean;
+}
+
 interface WhatsAppStats {
   totalNumbers: number;
   activeNumbers: number;
@@ -66,6 +76,7 @@ export function WhatsAppManagement({ stores }: WhatsAppManagementProps) {
   const [phoneValue, setPhoneValue] = useState<string>('');
   const [phoneError, setPhoneError] = useState<string | null>(null);
   const [hoveredConfig, setHoveredConfig] = useState<string | null>(null);
+  const [sessionWindows, setSessionWindows] = useState<SessionWindowInfo[]>([]);
   
   // OTP Verification states
   const [showOTPDialog, setShowOTPDialog] = useState(false);
@@ -81,6 +92,7 @@ export function WhatsAppManagement({ stores }: WhatsAppManagementProps) {
 
   useEffect(() => {
     fetchConfigs();
+    fetchSessionWindows();
   }, []);
 
   useEffect(() => {
@@ -173,6 +185,28 @@ export function WhatsAppManagement({ stores }: WhatsAppManagementProps) {
     }
   };
 
+  // 24h session windows: freeform replies are only possible while the window is open
+  const fetchSessionWindows = async () => {
+    try {
+      const response = await fetch('/api/whatsapp/session-windows', {
+        credentials: 'include'
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSessionWindows(data.data || []);
+      }
+    } catch (err) {
+      console.error('[WHATSAPP-MANAGEMENT] Error fetching session windows:', err);
+    }
+  };
+
+  const formatSessionWindow = (window: SessionWindowInfo) => {
+    if (!window.isOpen) return 'Session closed · templates only';
+    const hours = Math.floor(window.remainingMs / (60 * 60 * 1000));
+    const minutes = Math.floor((window.remainingMs % (60 * 60 * 1000)) / (60 * 1000));
+    return `Session open · ${hours > 0 ? `${hours}h ` : ''}${minutes}m left`;
+  };
+
   const handleAddNumber = async () => {
     console.log('[DEBUG] Starting handleAddNumber with values:', {
       phoneValue,
@@ -614,6 +648,7 @@ export function WhatsAppManagement({ stores }: WhatsAppManagementProps) {
               <div className="space-y-3">
               {configs.map((config) => {
                 const StatusIcon = getStatusIcon(config.is_active, config.is_configured);
+                const sessionWindow = sessionWindows.find(window => window.whatsappNumberId === config.id);
                 
                 return (
                   <div key={config.id} className="number-item"
@@ -673,6 +708,14 @@ export function WhatsAppManagement({ stores }: WhatsAppManagementProps) {
                                 Last: {format(new Date(config.last_activity), 'MMM d', { locale: enUS })}
                               </span>
                             )}
+                            {sessionWindow && (
+                              <span className={`flex items-center gap-1 ${
+                                !sessionWindow.isOpen ? 'text-gray-500' : sessionWindow.closingSoon ? 'text-amber-600' : 'text-green-700'
+                              }`}>
+                                <Signal className="h-3 w-3" />
+                                {formatSessionWindow(sessionWindow)}
+                              </span>
+                            )}
                           </div>
                         </div>
                       </div>
@@ -760,6 +803,20 @@ export function WhatsAppManagement({ stores }: WhatsAppManagementProps) {
         </div>
       </div>
 
+      {/* Delivery and read rates from Twilio status callbacks */}
+      <WhatsAppDeliveryStats />
+
+      {/* Replies that exhausted their retries */}
+      <WhatsAppReplyDeadLetters />
+
+      {/* Business digests sent on a schedule */}
+      <WhatsAppScheduledReports
+        stores={stores}
+        numbers={configs
+          .filter(config => config.is_verified && config.phone_numbers.length > 0)
+          .map(config => ({ id: config.id, phone: config.phone_numbers[0] }))}
+      />
+
              {/* Add/Edit WhatsApp Number Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
          <DialogContent className="sm:max-w-lg border-0 shadow-2xl">
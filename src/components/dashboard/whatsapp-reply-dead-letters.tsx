@@ -0,0 +1,152 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, RefreshCw, RotateCcw } from 'lucide-react';
+import { format } from 'date-fns';
+import { enUS } from 'date-fns/locale';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+
+interface DeadLetterJob {
+  id: string;
+  status: string;
+  message: string;
+  phoneNumber: string;
+  attempts: number;
+  maxAttempts: number;
+  lastError: string | null;
+  updatedAt: string;
+}
+
+/**
+ * WhatsApp replies that exhausted their retries (dead-letter queue), with a manual retry
+ */
+export function WhatsAppReplyDeadLetters() {
+  const [jobs, setJobs] = useState<DeadLetterJob[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchJobs = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/whatsapp/reply-jobs?status=dead', {
+        credentials: 'include'
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setJobs(data.data || []);
+      } else {
+        setError(data.error || 'Failed to load failed replies');
+      }
+    } catch (err) {
+      console.error('[WHATSAPP-QUEUE] Error loading dead-letter replies:', err);
+      setError('Failed to load failed replies');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const retryJob = async (jobId: string) => {
+    try {
+      setRetryingId(jobId);
+      setError(null);
+
+      const response = await fetch(`/api/whatsapp/reply-jobs/${jobId}`, {
+        method: 'POST',
+        credentials: 'include'
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setJobs(prev => prev.filter(job => job.id !== jobId));
+      } else {
+        setError(data.error || 'Failed to retry reply');
+      }
+    } catch (err) {
+      console.error('[WHATSAPP-QUEUE] Error retrying reply:', err);
+      setError('Failed to retry reply');
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, []);
+
+  // Nothing to show while everything is delivered
+  if (!loading && !error && jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <AlertTriangle className="mr-3 h-5 w-5 text-amber-500" />
+            Failed Replies
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            WhatsApp answers that could not be delivered after several attempts
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchJobs}
+          disabled={loading}
+          className="text-gray-600 hover:bg-gray-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="p-6 space-y-3">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {jobs.map(job => (
+          <div key={job.id} className="flex items-start justify-between p-4 border border-gray-100 rounded-lg">
+            <div className="min-w-0 flex-1 mr-4">
+              <div className="flex items-center space-x-2 mb-1">
+                <span className="text-sm font-medium text-gray-900">{job.phoneNumber}</span>
+                <Badge variant="outline" className="text-xs border-red-200 text-red-700">
+                  {job.attempts}/{job.maxAttempts} attempts
+                </Badge>
+              </div>
+              <p className="text-sm text-gray-700 truncate">&ldquo;{job.message}&rdquo;</p>
+              {job.lastError && (
+                <p className="text-xs text-red-600 mt-1 truncate">{job.lastError}</p>
+              )}
+              <p className="text-xs text-gray-400 mt-1">
+                {format(new Date(job.updatedAt), 'MMM d, HH:mm', { locale: enUS })}
+              </p>
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => retryJob(job.id)}
+              disabled={retryingId === job.id}
+              className="border-gray-200 text-gray-700 hover:bg-gray-50 flex-shrink-0"
+            >
+              {retryingId === job.id ? (
+                <RefreshCw className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RotateCcw className="mr-2 h-4 w-4" />
+              )}
+              Retry
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,339 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { CalendarClock, RefreshCw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { DigestSection } from '@/lib/services/business-digest';
+import type { ReportCadence, ReportDelivery, ReportSchedule } from '@/lib/services/report-scheduler';
+import { Store } from '@/types/db';
+
+interface ReportNumber {
+  id: string;
+  phone: string;
+}
+
+interface WhatsAppScheduledReportsProps {
+  stores: Store[];
+  // Verified WhatsApp numbers the digest can be sent to
+  numbers: ReportNumber[];
+}
+
+const CADENCE_LABELS: Record<ReportCadence, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly'
+};
+
+const SECTION_LABELS: Record<DigestSection, string> = {
+  sales: 'Sales vs previous period',
+  top_products: 'Top products',
+  low_stock: 'Low stock',
+  pending_orders: 'Pending orders'
+};
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const TIMEZONES = [
+  'America/Argentina/Buenos_Aires',
+  'America/Montevideo',
+  'America/Santiago',
+  'America/Bogota',
+  'America/Lima',
+  'America/Mexico_City',
+  'America/Sao_Paulo'
+];
+
+const selectClassName = 'w-full h-10 px-3 border border-gray-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 bg-white text-sm';
+
+/**
+ * Daily / weekly / monthly business digests sent to a verified WhatsApp number
+ */
+export function WhatsAppScheduledReports({ stores, numbers }: WhatsAppScheduledReportsProps) {
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [deliveries, setDeliveries] = useState<ReportDelivery[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [storeId, setStoreId] = useState(stores[0]?.id || '');
+  const [whatsappNumberId, setWhatsappNumberId] = useState(numbers[0]?.id || '');
+  const [cadence, setCadence] = useState<ReportCadence>('daily');
+  const [scheduleTime, setScheduleTime] = useState('09:00');
+  const [timezone, setTimezone] = useState(TIMEZONES[0]);
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [dayOfMonth, setDayOfMonth] = useState(1);
+  const [sections, setSections] = useState<DigestSection[]>(Object.keys(SECTION_LABELS) as DigestSection[]);
+
+  const fetchReports = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/reports', { credentials: 'include' });
+      const data = await response.json();
+
+      if (data.success) {
+        setSchedules(data.data.schedules);
+        setDeliveries(data.data.deliveries);
+      } else {
+        setError(data.error || 'Failed to load scheduled reports');
+      }
+    } catch (err) {
+      console.error('[REPORTS] Error loading scheduled reports:', err);
+      setError('Failed to load scheduled reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReports();
+  }, []);
+
+  useEffect(() => {
+    if (!storeId && stores[0]) setStoreId(stores[0].id);
+    if (!whatsappNumberId && numbers[0]) setWhatsappNumberId(numbers[0].id);
+  }, [stores, numbers, storeId, whatsappNumberId]);
+
+  const toggleSection = (section: DigestSection) => {
+    setSections(current => (current.includes(section)
+      ? current.filter(item => item !== section)
+      : [...current, section]));
+  };
+
+  const saveSchedule = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        credentials: 'include',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          storeId,
+          whatsappNumberId,
+          cadence,
+          scheduleTime,
+          timezone,
+          dayOfWeek: cadence === 'weekly' ? dayOfWeek : null,
+          dayOfMonth: cadence === 'monthly' ? dayOfMonth : null,
+          sections
+        })
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchReports();
+      } else {
+        setError(data.error || 'Failed to save the report');
+      }
+    } catch (err) {
+      console.error('[REPORTS] Error saving scheduled report:', err);
+      setError('Failed to save the report');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const removeSchedule = async (id: string) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/reports?id=${encodeURIComponent(id)}`, {
+        method: 'DELETE',
+        credentials: 'include'
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setSchedules(current => current.filter(schedule => schedule.id !== id));
+      } else {
+        setError(data.error || 'Failed to delete the report');
+      }
+    } catch (err) {
+      console.error('[REPORTS] Error deleting scheduled report:', err);
+      setError('Failed to delete the report');
+    }
+  };
+
+  const describeSchedule = (schedule: ReportSchedule) => {
+    const day = schedule.cadence === 'weekly' && schedule.dayOfWeek !== null
+      ? ` on ${WEEKDAYS[schedule.dayOfWeek]}`
+      : schedule.cadence === 'monthly' && schedule.dayOfMonth !== null
+        ? ` on day ${schedule.dayOfMonth}`
+        : '';
+    return `${CADENCE_LABELS[schedule.cadence]}${day} at ${schedule.scheduleTime.slice(0, 5)} (${schedule.timezone})`;
+  };
+
+  const storeName = (id: string) => stores.find(store => store.id === id)?.name || 'Store';
+
+  // Reports need a store and a verified number to send to
+  if (stores.length === 0 || numbers.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
+      <div className="px-6 py-4 border-b border-gray-100 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+            <CalendarClock className="mr-3 h-5 w-5 text-gray-600" />
+            Scheduled Reports
+          </h3>
+          <p className="text-sm text-gray-600 mt-1">
+            Business digests delivered to your WhatsApp on a schedule
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={fetchReports}
+          disabled={loading}
+          className="text-gray-600 hover:bg-gray-50"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+            {error}
+          </div>
+        )}
+
+        {schedules.length > 0 && (
+          <div className="divide-y divide-gray-100 border border-gray-100 rounded-lg">
+            {schedules.map(schedule => (
+              <div key={schedule.id} className="p-4 flex items-start justify-between">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {storeName(schedule.storeId)} · {describeSchedule(schedule)}
+                  </p>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {schedule.sections.map(section => SECTION_LABELS[section]).join(', ')}
+                    {schedule.nextRunAt && ` · Next: ${new Date(schedule.nextRunAt).toLocaleString()}`}
+                  </p>
+                  {schedule.lastError && (
+                    <p className="text-xs text-red-600 mt-1">Last run failed: {schedule.lastError}</p>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeSchedule(schedule.id)}
+                  className="text-gray-500 hover:text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="reportStore" className="block text-sm font-medium text-gray-700 mb-1">Store</label>
+            <select id="reportStore" value={storeId} onChange={(e) => setStoreId(e.target.value)} className={selectClassName}>
+              {stores.map(store => (
+                <option key={store.id} value={store.id}>{store.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="reportNumber" className="block text-sm font-medium text-gray-700 mb-1">Send to</label>
+            <select id="reportNumber" value={whatsappNumberId} onChange={(e) => setWhatsappNumberId(e.target.value)} className={selectClassName}>
+              {numbers.map(number => (
+                <option key={number.id} value={number.id}>{number.phone}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="reportCadence" className="block text-sm font-medium text-gray-700 mb-1">Frequency</label>
+            <select id="reportCadence" value={cadence} onChange={(e) => setCadence(e.target.value as ReportCadence)} className={selectClassName}>
+              {(Object.keys(CADENCE_LABELS) as ReportCadence[]).map(value => (
+                <option key={value} value={value}>{CADENCE_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+          {cadence === 'weekly' && (
+            <div>
+              <label htmlFor="reportWeekday" className="block text-sm font-medium text-gray-700 mb-1">Day of week</label>
+              <select id="reportWeekday" value={dayOfWeek} onChange={(e) => setDayOfWeek(Number(e.target.value))} className={selectClassName}>
+                {WEEKDAYS.map((weekday, index) => (
+                  <option key={weekday} value={index}>{weekday}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {cadence === 'monthly' && (
+            <div>
+              <label htmlFor="reportMonthDay" className="block text-sm font-medium text-gray-700 mb-1">Day of month</label>
+              <select id="reportMonthDay" value={dayOfMonth} onChange={(e) => setDayOfMonth(Number(e.target.value))} className={selectClassName}>
+                {Array.from({ length: 28 }, (_, index) => index + 1).map(day => (
+                  <option key={day} value={day}>{day}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div>
+            <label htmlFor="reportTime" className="block text-sm font-medium text-gray-700 mb-1">Time</label>
+            <Input id="reportTime" type="time" value={scheduleTime} onChange={(e) => setScheduleTime(e.target.value)} className="h-10" />
+          </div>
+          <div>
+            <label htmlFor="reportTimezone" className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+            <select id="reportTimezone" value={timezone} onChange={(e) => setTimezone(e.target.value)} className={selectClassName}>
+              {TIMEZONES.map(zone => (
+                <option key={zone} value={zone}>{zone.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Sections</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {(Object.keys(SECTION_LABELS) as DigestSection[]).map(section => (
+              <label key={section} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={sections.includes(section)}
+                  onChange={() => toggleSection(section)}
+                  className="mr-2 rounded border-gray-300 text-green-600 focus:ring-green-500"
+                />
+                {SECTION_LABELS[section]}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <Button
+            onClick={saveSchedule}
+            disabled={saving || !storeId || !whatsappNumberId || sections.length === 0}
+            className="bg-green-600 hover:bg-green-700 text-white"
+          >
+            {saving ? 'Saving...' : 'Save report'}
+          </Button>
+        </div>
+
+        {deliveries.length > 0 && (
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">Recent deliveries</p>
+            <div className="space-y-1">
+              {deliveries.slice(0, 5).map(delivery => (
+                <div key={delivery.id} className="flex items-center justify-between text-xs text-gray-600">
+                  <span>{storeName(delivery.storeId)} · {new Date(delivery.createdAt).toLocaleString()}</span>
+                  <span className={delivery.status === 'sent' ? 'text-green-600' : delivery.status === 'failed' ? 'text-red-600' : 'text-gray-500'}>
+                    {delivery.status}{delivery.errorMessage ? ` (${delivery.errorMessage})` : ''}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,63 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { operationManager } from '@/lib/operations/operation-manager';
+
+// Unlocks come from server-side product events (WhatsApp, digests, approvals), so they are polled
+const POLL_INTERVAL_MS = 60 * 1000;
+
+interface GamificationNotificationPayload {
+  id: string;
+  kind: 'achievement' | 'level_up' | 'streak';
+  title: string;
+  message: string;
+  createdAt: string;
+}
+
+/**
+ * Shows achievement unlocks, level ups and streak milestones as operation
+ * notifications in the dashboard. Mount once (DashboardContent)
+ */
+export function useGamificationNotifications(): void {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const response = await fetch('/api/gamification/notifications');
+        if (!response.ok) return;
+
+        const result = await response.json();
+        if (cancelled || !result.success) return;
+
+        (result.data?.notifications || []).forEach((notification: GamificationNotificationPayload) => {
+          operationManager.addExternalNotification({
+            id: `gamification-${notification.id}`,
+            source: `gamification-${notification.kind}`,
+            type: 'success',
+            title: notification.title,
+            message: notification.message,
+            timestamp: new Date(notification.createdAt),
+            autoHide: true,
+            duration: 8
+          });
+        });
+      } catch (error) {
+        console.warn('[GAMIFICATION] Could not load notifications:', error);
+      }
+    };
+
+    poll();
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [user?.id]);
+}
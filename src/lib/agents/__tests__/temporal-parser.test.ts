@@ -0,0 +1,78 @@
+import { parseTimeRange } from '@/lib/agents/temporal-parser';
+
+// Friday 15 March 2024, 12:30 in Buenos Aires (UTC-3)
+const NOW = new Date('2024-03-15T15:30:00.000Z');
+const OPTIONS = { now: NOW, timezone: 'America/Argentina/Buenos_Aires' };
+
+describe('parseTimeRange', () => {
+  it('reads "hoy" from the start of the local day until now', () => {
+    const parsed = parseTimeRange('¿Cuánto vendí hoy?', OPTIONS);
+
+    expect(parsed?.range).toEqual({
+      start: '2024-03-15T03:00:00.000Z',
+      end: NOW.toISOString(),
+      period: 'day'
+    });
+    expect(parsed?.comparison).toBeUndefined();
+  });
+
+  it('reads "ayer" as the whole previous local day', () => {
+    const parsed = parseTimeRange('ventas de ayer', OPTIONS);
+
+    expect(parsed?.label).toBe('ayer');
+    expect(parsed?.range).toEqual({
+      start: '2024-03-14T03:00:00.000Z',
+      end: '2024-03-15T02:59:59.999Z',
+      period: 'day'
+    });
+  });
+
+  it('counts today as one of the "últimos N días" and ends them now', () => {
+    expect(parseTimeRange('órdenes de los últimos 7 días', OPTIONS)?.range).toEqual({
+      start: '2024-03-09T03:00:00.000Z',
+      end: NOW.toISOString(),
+      period: 'week'
+    });
+    expect(parseTimeRange('últimos quince días', OPTIONS)?.range).toMatchObject({
+      start: '2024-03-01T03:00:00.000Z',
+      period: 'month'
+    });
+  });
+
+  it('compares this month with the same days of the previous month', () => {
+    const parsed = parseTimeRange('¿Cómo vengo este mes contra el mes pasado?', OPTIONS);
+
+    expect(parsed?.range).toEqual({
+      start: '2024-03-01T03:00:00.000Z',
+      end: NOW.toISOString(),
+      period: 'month'
+    });
+    expect(parsed?.comparisonLabel).toBe('el mismo período del mes anterior');
+    expect(parsed?.comparison).toEqual({
+      start: '2024-02-01T03:00:00.000Z',
+      end: '2024-02-15T15:30:00.000Z',
+      period: 'month'
+    });
+  });
+
+  it('keeps "el mes pasado" on its own as the whole calendar month', () => {
+    expect(parseTimeRange('facturación del mes pasado', OPTIONS)?.range).toEqual({
+      start: '2024-02-01T03:00:00.000Z',
+      end: '2024-03-01T02:59:59.999Z',
+      period: 'month'
+    });
+  });
+
+  it('ignores dates that do not exist', () => {
+    expect(parseTimeRange('ventas del 31 de febrero', OPTIONS)).toBeNull();
+    expect(parseTimeRange('pedidos del 10/20', OPTIONS)).toBeNull();
+    expect(parseTimeRange('atención 24/7', OPTIONS)).toBeNull();
+  });
+
+  it('falls back to the default store timezone for an invalid one', () => {
+    const parsed = parseTimeRange('hoy', { now: NOW, timezone: 'Not/AZone' });
+
+    expect(parsed?.timezone).toBe('America/Argentina/Buenos_Aires');
+    expect(parsed?.range.start).toBe('2024-03-15T03:00:00.000Z');
+  });
+});
@@ -0,0 +1,474 @@
+/**
+ * Agent Action Approval
+ * Human-in-the-loop flow for store mutations: agents propose an action, the
+ * merchant approves or rejects it (dashboard or SI/NO on WhatsApp) and only
+ * approved actions are executed. Every decision is kept in agent_actions.
+ */
+
+import type { TiendaNubeAPI } from '@/lib/integrations/tiendanube';
+import type { Database } from '@/types/database';
+import type { AgentToolName } from './tools';
+import type { AgentType } from './types';
+
+export type ApprovalChannel = 'dashboard' | 'whatsapp';
+
+export type AgentActionStatus =
+  | 'awaiting_approval'
+  | 'approved'
+  | 'rejected'
+  | 'expired'
+  | 'completed'
+  | 'failed';
+
+export interface ApprovalDecision {
+  // Dashboard user ID or WhatsApp number of whoever decided
+  decidedBy: string;
+  channel: ApprovalChannel;
+}
+
+export interface ProposedAgentAction {
+  id: string;
+  storeId: string;
+  conversationId: string | null;
+  agentType: string;
+  toolName: string;
+  description: string;
+  arguments: Record<string, unknown>;
+  status: AgentActionStatus;
+  idempotencyKey: string | null;
+  beforeState: unknown;
+  afterState: unknown;
+  result: unknown;
+  decidedBy: string | null;
+  decisionChannel: ApprovalChannel | null;
+  decidedAt: string | null;
+  executedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+export interface ApprovalResult {
+  success: boolean;
+  action?: ProposedAgentAction;
+  // Reply for the merchant (es-AR)
+  message: string;
+  error?: string;
+}
+
+interface ProposalInput {
+  storeId: string;
+  conversationId: string | null;
+  agentType: AgentType;
+  toolName: AgentToolName;
+  arguments: Record<string, unknown>;
+  idempotencyKey: string;
+}
+
+// Proposals nobody answered are not executed after this long
+const APPROVAL_TTL_MS = 24 * 60 * 60 * 1000;
+// A proposal with the same key in one of these statuses can be asked again;
+// approved ones may still be executing and completed ones are already applied
+const REPROPOSABLE_STATUSES: AgentActionStatus[] = ['rejected', 'expired', 'failed'];
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type AgentActionRow = Database['public']['Tables']['agent_actions']['Row'];
+
+interface AgentActionData {
+  description?: string;
+  payload?: { tool?: string; arguments?: Record<string, unknown> };
+}
+
+// Dynamic import so agents stay loadable outside a request scope
+const getSupabase = async () => {
+  const { createServiceClient } = await import('@/lib/supabase/server');
+  return createServiceClient();
+};
+
+/**
+ * Normalize a chat reply to 'approve' | 'reject' when it is a plain SI/NO
+ */
+export function parseApprovalReply(message: string): 'approve' | 'reject' | null {
+  const normalized = message
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[.!¡]+/g, '')
+    .trim();
+
+  if (normalized === 'si') return 'approve';
+  if (normalized === 'no') return 'reject';
+  return null;
+}
+
+/**
+ * Current values of whatever the mutation touches, for the before/after log
+ */
+async function captureState(api: TiendaNubeAPI, toolName: string, args: Record<string, unknown>): Promise<unknown> {
+  try {
+    if (toolName === 'update_stock' || toolName === 'update_price') {
+      const product = await api.getProduct(Number(args.product_id));
+      const variant = (product.variants || []).find(item => item.id === Number(args.variant_id));
+      const name = typeof product.name === 'object' && product.name !== null
+        ? (product.name as Record<string, string>).es || Object.values(product.name as Record<string, string>)[0]
+        : product.name;
+
+      return variant
+        ? { product: name, sku: variant.sku, price: variant.price, promotional_price: variant.promotional_price, stock: variant.stock_management ? variant.stock : null }
+        : null;
+    }
+
+    if (['mark_order_packed', 'mark_order_fulfilled', 'add_order_note'].includes(toolName)) {
+      const order = await api.getOrder(Number(args.order_id));
+      return { number: order.number, status: order.status, shipping_status: order.shipping_status, owner_note: order.owner_note || null };
+    }
+  } catch (error) {
+    console.warn(`[AGENT-APPROVAL] ⚠️ Could not read current state for ${toolName}:`, error);
+  }
+
+  return null;
+}
+
+/**
+ * Human readable summary of a proposed mutation (es-AR)
+ */
+export function describeAction(toolName: string, args: Record<string, unknown>, before?: unknown): string {
+  const state = (before || {}) as Record<string, unknown>;
+  const product = state.product ? `${state.product}${state.sku ? ` (SKU ${state.sku})` : ''}` : `variante ${args.variant_id} del producto ${args.product_id}`;
+  const order = state.number ? `#${state.number}` : `${args.order_id}`;
+
+  switch (toolName) {
+    case 'update_stock':
+      return `Cambiar stock de ${product}: ${state.stock !== undefined ? `${state.stock ?? 'ilimitado'} → ` : ''}${args.stock === null ? 'ilimitado' : args.stock}`;
+    case 'update_price': {
+      const promo = args.promotional_price === null
+        ? ' y quitar precio promocional'
+        : args.promotional_price !== undefined ? ` (promo $${args.promotional_price})` : '';
+      return `Cambiar precio de ${product}: ${state.price !== undefined ? `$${state.price} → ` : ''}$${args.price}${promo}`;
+    }
+    case 'create_coupon': {
+      const value = args.type === 'percentage' ? `${args.value}% OFF` : args.type === 'absolute' ? `$${args.value} OFF` : 'envío gratis';
+      return `Crear cupón ${String(args.code || '').toUpperCase()} (${value})`;
+    }
+    case 'mark_order_packed':
+      return `Marcar la orden ${order} como empaquetada`;
+    case 'mark_order_fulfilled':
+      return `Marcar la orden ${order} como enviada${args.tracking_number ? ` (seguimiento ${args.tracking_number})` : ''}`;
+    case 'add_order_note':
+      return `Agregar nota a la orden ${order}: "${args.note}"`;
+    default:
+      return `${toolName} ${JSON.stringify(args)}`;
+  }
+}
+
+/**
+ * Confirmation prompt shown after an agent proposes actions
+ */
+export function formatApprovalRequest(actions: Array<{ description: string }>): string {
+  if (actions.length === 0) return '';
+
+  const lines = actions.map(action => `• ${action.description}`).join('\n');
+  const answer = actions.length > 1
+    ? 'Respondé *SI* para confirmar todas o *NO* para cancelarlas.'
+    : 'Respondé *SI* para confirmar o *NO* para cancelar.';
+  return `⏳ Necesito tu aprobación para:\n${lines}\n\n${answer}`;
+}
+
+function mapRow(row: AgentActionRow): ProposedAgentAction {
+  const data = (row.action_data || {}) as AgentActionData;
+  return {
+    id: row.id,
+    storeId: row.store_id ?? '',
+    conversationId: row.conversation_id,
+    agentType: row.agent_type,
+    toolName: row.tool_name ?? '',
+    description: data.description ?? '',
+    arguments: data.payload?.arguments || {},
+    status: row.status as AgentActionStatus,
+    idempotencyKey: row.idempotency_key,
+    beforeState: row.before_state,
+    afterState: row.after_state,
+    result: row.result,
+    decidedBy: row.decided_by,
+    decisionChannel: row.decision_channel,
+    decidedAt: row.decided_at,
+    executedAt: row.executed_at,
+    expiresAt: row.expires_at,
+    createdAt: row.created_at
+  };
+}
+
+export class AgentActionApproval {
+  /**
+   * Record a mutation as awaiting approval instead of executing it.
+   * A proposal already waiting, approved or done with the same key is returned
+   * as is; only a rejected, expired or failed one is asked again.
+   */
+  static async propose(input: ProposalInput, api: TiendaNubeAPI): Promise<ProposedAgentAction> {
+    const supabase = await getSupabase();
+
+    const { data: existing } = await supabase
+      .from('agent_actions')
+      .select('*')
+      .eq('store_id', input.storeId)
+      .eq('idempotency_key', input.idempotencyKey)
+      .maybeSingle();
+
+    const reusable = !existing
+      || REPROPOSABLE_STATUSES.includes(existing.status)
+      || (existing.status === 'awaiting_approval' && AgentActionApproval.isExpired(existing.expires_at));
+    if (existing && !reusable) {
+      return mapRow(existing);
+    }
+
+    const beforeState = await captureState(api, input.toolName, input.arguments);
+    const row = {
+      store_id: input.storeId,
+      conversation_id: input.conversationId && UUID_PATTERN.test(input.conversationId) ? input.conversationId : null,
+      agent_type: input.agentType,
+      action_type: 'store_mutation',
+      tool_name: input.toolName,
+      action_data: {
+        description: describeAction(input.toolName, input.arguments, beforeState),
+        payload: { tool: input.toolName, arguments: input.arguments }
+      },
+      status: 'awaiting_approval',
+      result: null,
+      idempotency_key: input.idempotencyKey,
+      dry_run: false,
+      before_state: beforeState,
+      after_state: null,
+      decided_by: null,
+      decision_channel: null,
+      decided_at: null,
+      executed_at: null,
+      expires_at: new Date(Date.now() + APPROVAL_TTL_MS).toISOString()
+    };
+
+    // A rejected, expired or failed proposal keeps the key; ask again on the same row.
+    // The status guard loses the race against a concurrent approve() instead of undoing it
+    const { data, error } = existing
+      ? await supabase
+        .from('agent_actions')
+        .update(row)
+        .eq('id', existing.id)
+        .eq('status', existing.status)
+        .select('*')
+        .maybeSingle()
+      : await supabase.from('agent_actions').insert(row).select('*').single();
+
+    if (existing && !error && !data) {
+      const current = await AgentActionApproval.get(existing.id);
+      if (current) return current;
+    }
+
+    if (error || !data) {
+      throw new Error(`Failed to save proposed action: ${error?.message || 'unknown error'}`);
+    }
+
+    console.warn(`[AGENT-APPROVAL] ${input.agentType} proposed ${input.toolName} for store ${input.storeId} (${data.id})`);
+    return mapRow(data);
+  }
+
+  /**
+   * Actions waiting for a decision, newest first
+   */
+  static async listPending(storeId: string, conversationId?: string): Promise<ProposedAgentAction[]> {
+    const supabase = await getSupabase();
+    let query = supabase
+      .from('agent_actions')
+      .select('*')
+      .eq('store_id', storeId)
+      .eq('status', 'awaiting_approval')
+      .gt('expires_at', new Date().toISOString())
+      .order('created_at', { ascending: false });
+
+    if (conversationId) {
+      query = query.eq('conversation_id', conversationId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.warn(`[AGENT-APPROVAL] ⚠️ Failed to list pending actions for store ${storeId}:`, error.message);
+      return [];
+    }
+
+    return (data || []).map(mapRow);
+  }
+
+  /**
+   * Recent actions of a store in any status (audit view)
+   */
+  static async listRecent(storeId: string, limit = 50): Promise<ProposedAgentAction[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('agent_actions')
+      .select('*')
+      .eq('store_id', storeId)
+      .eq('action_type', 'store_mutation')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.warn(`[AGENT-APPROVAL] ⚠️ Failed to list actions for store ${storeId}:`, error.message);
+      return [];
+    }
+
+    return (data || []).map(mapRow);
+  }
+
+  static async get(actionId: string): Promise<ProposedAgentAction | null> {
+    const supabase = await getSupabase();
+    const { data } = await supabase.from('agent_actions').select('*').eq('id', actionId).maybeSingle();
+    return data ? mapRow(data) : null;
+  }
+
+  /**
+   * Approve and execute an action
+   */
+  static async approve(actionId: string, decision: ApprovalDecision): Promise<ApprovalResult> {
+    const claimed = await AgentActionApproval.decide(actionId, 'approved', decision);
+    if (!claimed.success || !claimed.action) return claimed;
+
+    const action = claimed.action;
+    const supabase = await getSupabase();
+
+    try {
+      const { UniversalTokenManager } = await import('@/lib/integrations/tiendanube-token-manager');
+      const { TiendaNubeAPI } = await import('@/lib/integrations/tiendanube');
+      const { AGENT_TOOLS } = await import('./tools');
+
+      const store = await UniversalTokenManager.getValidStoreData(action.storeId);
+      if (!store?.access_token || !store.platform_store_id) {
+        throw new Error('No valid Tienda Nube connection for this store');
+      }
+
+      const tool = AGENT_TOOLS[action.toolName as AgentToolName];
+      if (!tool?.mutation) {
+        throw new Error(`Unknown store action: ${action.toolName}`);
+      }
+
+      const api = new TiendaNubeAPI(store.access_token, store.platform_store_id);
+      const result = await tool.execute(api, action.arguments, { idempotencyKey: action.idempotencyKey || actionId });
+      const afterState = action.toolName === 'create_coupon'
+        ? (result as Record<string, unknown>)?.data ?? null
+        : await captureState(api, action.toolName, action.arguments);
+
+      const { data: updated } = await supabase
+        .from('agent_actions')
+        .update({ status: 'completed', result, after_state: afterState, executed_at: new Date().toISOString() })
+        .eq('id', actionId)
+        .select('*')
+        .single();
+
+      console.warn(`[AGENT-APPROVAL] ✅ ${action.toolName} (${actionId}) approved by ${decision.decidedBy} via ${decision.channel} and executed`);
+      const { trackActionApproved } = await import('@/lib/features/gamification-events');
+      await trackActionApproved(action.storeId, actionId, action.toolName);
+
+      return {
+        success: true,
+        action: updated ? mapRow(updated) : action,
+        message: `✅ Listo: ${action.description}`
+      };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      await supabase
+        .from('agent_actions')
+        .update({ status: 'failed', result: { error: message }, executed_at: new Date().toISOString() })
+        .eq('id', actionId);
+
+      console.error(`[AGENT-APPROVAL] ❌ ${action.toolName} (${actionId}) failed after approval:`, message);
+      return {
+        success: false,
+        action: { ...action, status: 'failed' },
+        message: `❌ No pude aplicar "${action.description}": ${message}`,
+        error: message
+      };
+    }
+  }
+
+  /**
+   * Reject an action; it will not be executed
+   */
+  static async reject(actionId: string, decision: ApprovalDecision): Promise<ApprovalResult> {
+    const result = await AgentActionApproval.decide(actionId, 'rejected', decision);
+    if (!result.success || !result.action) return result;
+
+    console.warn(`[AGENT-APPROVAL] ${result.action.toolName} (${actionId}) rejected by ${decision.decidedBy} via ${decision.channel}`);
+    return { ...result, message: `🚫 Cancelado: ${result.action.description}` };
+  }
+
+  /**
+   * Apply a SI/NO chat reply to every pending action of the conversation, oldest
+   * first (the confirmation prompt lists them all under a single SI/NO).
+   * Returns the reply to send, or null when the message is not an approval answer.
+   */
+  static async handleReply(
+    storeId: string,
+    conversationId: string,
+    message: string,
+    decision: ApprovalDecision
+  ): Promise<string | null> {
+    const answer = parseApprovalReply(message);
+    if (!answer || !UUID_PATTERN.test(conversationId)) return null;
+
+    const pending = await AgentActionApproval.listPending(storeId, conversationId);
+    if (pending.length === 0) return null;
+
+    // listPending is newest first; apply them in the order they were proposed
+    const messages: string[] = [];
+    for (const action of [...pending].reverse()) {
+      const result = answer === 'approve'
+        ? await AgentActionApproval.approve(action.id, decision)
+        : await AgentActionApproval.reject(action.id, decision);
+      messages.push(result.message);
+    }
+
+    return messages.join('\n');
+  }
+
+  /**
+   * Move an awaiting action to approved/rejected. The status filter makes the
+   * update atomic, so a second decision on the same action is refused.
+   */
+  private static async decide(
+    actionId: string,
+    status: 'approved' | 'rejected',
+    decision: ApprovalDecision
+  ): Promise<ApprovalResult> {
+    const current = await AgentActionApproval.get(actionId);
+    if (!current) {
+      return { success: false, message: 'No encontré esa acción.', error: 'Action not found' };
+    }
+
+    if (current.status === 'awaiting_approval' && AgentActionApproval.isExpired(current.expiresAt)) {
+      const supabase = await getSupabase();
+      await supabase.from('agent_actions').update({ status: 'expired' }).eq('id', actionId).eq('status', 'awaiting_approval');
+      return { success: false, action: { ...current, status: 'expired' }, message: `⌛ La acción "${current.description}" venció. Pedímela de nuevo si todavía la necesitás.`, error: 'Action expired' };
+    }
+
+    const supabase = await getSupabase();
+    const { data } = await supabase
+      .from('agent_actions')
+      .update({
+        status,
+        decided_by: decision.decidedBy,
+        decision_channel: decision.channel,
+        decided_at: new Date().toISOString()
+      })
+      .eq('id', actionId)
+      .eq('status', 'awaiting_approval')
+      .select('*')
+      .maybeSingle();
+
+    if (!data) {
+      return { success: false, action: current, message: `La acción "${current.description}" ya fue resuelta.`, error: 'Action already decided' };
+    }
+
+    return { success: true, action: mapRow(data), message: '' };
+  }
+
+  private static isExpired(expiresAt: string | null): boolean {
+    return !!expiresAt && new Date(expiresAt).getTime() <= Date.now();
+  }
+}
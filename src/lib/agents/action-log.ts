@@ -0,0 +1,77 @@
+/**
+ * Agent Action Log
+ * Persists store mutations made by agents to agent_actions so every change
+ * can be audited: what was changed, on which store and by which agent.
+ * Proposals awaiting approval are handled by AgentActionApproval.
+ */
+
+import type { AgentAction } from './types';
+
+// Dynamic import so agents stay loadable outside a request scope
+const getSupabase = async () => {
+  const { createServiceClient } = await import('@/lib/supabase/server');
+  return createServiceClient();
+};
+
+// Chat flows may pass placeholders such as 'new' before the conversation exists
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export class AgentActionLog {
+  /**
+   * Insert an action and return its row ID (null if it couldn't be saved)
+   */
+  static async record(storeId: string, conversationId: string | null, action: AgentAction): Promise<string | null> {
+    try {
+      const supabase = await getSupabase();
+      const { data, error } = await supabase
+        .from('agent_actions')
+        .insert({
+          store_id: storeId,
+          conversation_id: conversationId && UUID_PATTERN.test(conversationId) ? conversationId : null,
+          agent_type: action.agentType || 'orchestrator',
+          action_type: action.type,
+          action_data: { description: action.description, payload: action.payload },
+          status: action.status,
+          result: action.result ?? null,
+          // Dry runs don't claim the key, so the real write can use it later
+          idempotency_key: action.dryRun ? null : action.idempotencyKey || null,
+          dry_run: action.dryRun || false
+        })
+        .select('id')
+        .single();
+
+      if (error) {
+        console.warn(`[AGENT-ACTIONS] ⚠️ Failed to record ${action.description}:`, error.message);
+        return null;
+      }
+
+      return data.id;
+    } catch (error) {
+      console.warn(`[AGENT-ACTIONS] ⚠️ Failed to record ${action.description}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Action previously recorded with an idempotency key, if any
+   */
+  static async findByIdempotencyKey(
+    storeId: string,
+    idempotencyKey: string
+  ): Promise<{ id: string; status: string; result: unknown } | null> {
+    try {
+      const supabase = await getSupabase();
+      const { data } = await supabase
+        .from('agent_actions')
+        .select('id, status, result')
+        .eq('store_id', storeId)
+        .eq('idempotency_key', idempotencyKey)
+        .maybeSingle();
+
+      return data || null;
+    } catch (error) {
+      console.warn(`[AGENT-ACTIONS] ⚠️ Failed to look up idempotency key ${idempotencyKey}:`, error);
+      return null;
+    }
+  }
+}
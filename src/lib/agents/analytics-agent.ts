@@ -3,10 +3,38 @@
  * Specialized agent for data analysis, sales metrics, and business insights
  */
 
+import type { MetricsDateRange } from '@/lib/services/order-metrics';
 import { BaseAgent } from './base-agent';
 import { ANALYTICS_CONFIG, ROUTING_KEYWORDS } from './config';
+import { createFollowUpSuggestions, type FollowUpQuestion } from './suggestions';
+import { parseTimeRange, toDateRange, type ParsedTimeRange } from './temporal-parser';
+import type { AgentToolSession } from './tools';
 import type { AgentContext, AgentResponse } from './types';
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// One-tap follow-ups offered after each kind of analytics answer
+const FOLLOW_UP_QUESTIONS: Record<string, FollowUpQuestion[]> = {
+  sales_summary: [
+    { title: 'Productos top', message: '¿Cuáles fueron mis productos más vendidos?' },
+    { title: 'Vs. período anterior', message: 'Compará mis ventas con el período anterior' },
+    { title: 'Ticket promedio', message: '¿Cuál es mi ticket promedio?' }
+  ],
+  product_analysis: [
+    { title: 'Ventas totales', message: '¿Cuánto vendí en total este mes?' },
+    { title: 'Precios', message: '¿Cuáles son los precios de mis productos más vendidos?' }
+  ],
+  comparison: [
+    { title: 'Productos top', message: '¿Cuáles fueron mis productos más vendidos?' },
+    { title: 'Tendencia', message: '¿Cómo vienen mis ventas en los últimos 3 meses?' }
+  ],
+  default: [
+    { title: 'Ventas de hoy', message: '¿Cuánto vendí hoy?' },
+    { title: 'Esta semana', message: '¿Cuánto vendí esta semana?' },
+    { title: 'Productos top', message: '¿Cuáles son mis productos más vendidos?' }
+  ]
+};
+
 export class AnalyticsAgent extends BaseAgent {
   constructor() {
     super(
@@ -56,6 +84,8 @@ export class AnalyticsAgent extends BaseAgent {
     try {
       // Get relevant context from RAG
       const ragContext = await this.getRelevantContext(context.userMessage, context);
+      const tools = this.createToolSession(context);
+      const timeRange = await this.resolveTimeRange(context);
       
       // Identify the type of analytics request
       const queryType = this.identifyQueryType(context.userMessage);
@@ -67,42 +97,42 @@ export class AnalyticsAgent extends BaseAgent {
 
       switch (queryType.type) {
         case 'product_pricing':
-          response = await this.generateProductPricing(context, ragContext);
+          response = await this.generateProductPricing(context, ragContext, tools, timeRange);
           confidence = 0.95;
           break;
         case 'sales_summary':
-          response = await this.generateSalesSummary(context, ragContext);
+          response = await this.generateSalesSummary(context, ragContext, tools, timeRange);
           confidence = 0.9;
           break;
         case 'product_analysis':
-          response = await this.generateProductAnalysis(context, ragContext);
+          response = await this.generateProductAnalysis(context, ragContext, tools, timeRange);
           confidence = 0.85;
           break;
         case 'customer_insights':
-          response = await this.generateCustomerInsights(context, ragContext);
+          response = await this.generateCustomerInsights(context, ragContext, tools, timeRange);
           confidence = 0.8;
           break;
         case 'financial_report':
-          response = await this.generateFinancialReport(context, ragContext);
+          response = await this.generateFinancialReport(context, ragContext, tools, timeRange);
           confidence = 0.85;
           break;
         case 'trend_analysis':
-          response = await this.generateTrendAnalysis(context, ragContext);
+          response = await this.generateTrendAnalysis(context, ragContext, tools, timeRange);
           confidence = 0.75;
           break;
         case 'comparison':
-          response = await this.generateComparison(context, ragContext);
+          response = await this.generateComparison(context, ragContext, tools, timeRange);
           confidence = 0.8;
           break;
         default:
-          response = await this.generateGeneralAnalytics(context, ragContext);
+          response = await this.generateGeneralAnalytics(context, ragContext, tools, timeRange);
           confidence = 0.6;
       }
 
       const executionTime = Date.now() - startTime;
       this.log('info', `Analytics response generated in ${executionTime}ms`);
 
-      return this.createResponse(
+      const analyticsResponse = this.createResponse(
         true,
         response,
         confidence,
@@ -110,6 +140,9 @@ export class AnalyticsAgent extends BaseAgent {
         ragContext,
         executionTime
       );
+      analyticsResponse.suggestions = createFollowUpSuggestions(FOLLOW_UP_QUESTIONS[queryType.type] || FOLLOW_UP_QUESTIONS.default);
+
+      return this.attachToolActions(analyticsResponse, tools);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -171,6 +204,9 @@ Estoy solucionando el problema técnico. ¿Hay algún aspecto específico de ana
     if (lowerMessage.includes('producto') && lowerMessage.includes('más')) {
       score += 0.2;
     }
+    if (parseTimeRange(userMessage)) {
+      score += 0.1;
+    }
 
     const confidence = Math.min(score, 1.0);
     const reasoning = keywordCheck.found ? 
@@ -228,15 +264,19 @@ Estoy solucionando el problema técnico. ¿Hay algún aspecto específico de ana
     return { type: 'general', reasoning: 'General analytics query', confidence: 0.5 };
   }
 
-  private async generateSalesSummary(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateSalesSummary(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
       context: ragContext || 'No hay datos específicos disponibles'
     });
+    const _metrics = timeRange ? await this.loadScopedMetrics(tools, timeRange) : null;
 
     const enhancedPrompt = `${userPrompt}
-
+${_metrics ? `
+MÉTRICAS EXACTAS (calculadas de las órdenes reales, citá estos valores tal cual, no los estimes):
+${_metrics}
+` : ''}
 Proporciona un resumen de ventas detallado que incluya:
 - Cifras específicas de ventas (si están disponibles)
 - Comparaciones con períodos anteriores
@@ -245,16 +285,16 @@ Proporciona un resumen de ventas detallado que incluya:
 
 Formato de respuesta profesional en español.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async generateProductAnalysis(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateProductAnalysis(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     
     // Check if we have actual product data
     const hasData = ragContext && ragContext.length > 50 && !ragContext.includes('No hay datos') && !ragContext.includes('ESTADO DE DATOS');
     
-    if (!hasData) {
+    if (!hasData && !tools.hasTools()) {
       return `📊 **Sincronizando productos...**
 
 No encuentro productos para analizar. Esto es normal si:
@@ -286,16 +326,16 @@ Realiza un análisis de productos que incluya:
 
 Usa datos específicos cuando estén disponibles y proporciona recomendaciones accionables.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async generateProductPricing(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateProductPricing(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     
     // Check if we have actual product data
     const hasData = ragContext && ragContext.length > 50 && !ragContext.includes('No hay datos') && !ragContext.includes('ESTADO DE DATOS');
     
-    if (!hasData) {
+    if (!hasData && !tools.hasTools()) {
       // 🔥 AUTO-SYNC: Trigger immediate RAG sync when no product data found
       console.warn(`[ANALYTICS-AGENT] No product data found for pricing query. Triggering sync for store: ${context.storeId}`);
       
@@ -348,10 +388,10 @@ Formato esperado de respuesta:
 
 IMPORTANTE: Usa números y nombres EXACTOS del contexto, NO inventes información.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async generateCustomerInsights(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateCustomerInsights(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -369,18 +409,22 @@ Proporciona insights de clientes que incluyan:
 
 Enfócate en insights accionables para el negocio.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async generateFinancialReport(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateFinancialReport(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
       context: ragContext || 'No hay datos financieros disponibles'
     });
+    const _metrics = timeRange ? await this.loadScopedMetrics(tools, timeRange) : null;
 
     const enhancedPrompt = `${userPrompt}
-
+${_metrics ? `
+MÉTRICAS EXACTAS (calculadas de las órdenes reales, citá estos valores tal cual, no los estimes):
+${_metrics}
+` : ''}
 Genera un reporte financiero que incluya:
 - Métricas clave de revenue y profit
 - Análisis de márgenes y costos
@@ -390,18 +434,38 @@ Genera un reporte financiero que incluya:
 
 Presenta datos claros con contexto y recomendaciones.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async generateTrendAnalysis(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateTrendAnalysis(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
       context: ragContext || 'No hay datos de tendencias disponibles'
     });
 
-    const enhancedPrompt = `${userPrompt}
+    // Requested period with a series sized to its length; otherwise the last
+    // 8 weeks in weekly buckets, plus last 4 weeks vs the 4 before
+    let _metrics: string | null;
+    if (timeRange) {
+      const _range = toDateRange(timeRange.range);
+      const _days = (_range.end.getTime() - _range.start.getTime()) / DAY_MS;
+      _metrics = await this.loadExactMetrics(tools, _range, {
+        previousRange: timeRange.comparison ? toDateRange(timeRange.comparison) : undefined,
+        seriesRange: _range,
+        bucketDays: _days <= 14 ? 1 : _days <= 120 ? 7 : 30
+      });
+    } else {
+      const _end = new Date();
+      const _range: MetricsDateRange = { start: new Date(_end.getTime() - 56 * DAY_MS), end: _end };
+      _metrics = await this.loadExactMetrics(tools, { start: new Date(_end.getTime() - 28 * DAY_MS), end: _end }, { seriesRange: _range, bucketDays: 7 });
+    }
 
+    const enhancedPrompt = `${userPrompt}
+${_metrics ? `
+MÉTRICAS EXACTAS (calculadas de las órdenes reales, citá estos valores tal cual, no los estimes):
+${_metrics}
+` : ''}
 Realiza un análisis de tendencias que incluya:
 - Identificación de patrones y tendencias
 - Análisis estacional si aplica
@@ -411,18 +475,26 @@ Realiza un análisis de tendencias que incluya:
 
 Proporciona insights prospectivos para la toma de decisiones.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async generateComparison(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateComparison(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
       context: ragContext || 'No hay datos para comparación disponibles'
     });
 
-    const enhancedPrompt = `${userPrompt}
+    // Requested periods, or the last 30 days vs the previous 30 days
+    const _metrics = timeRange
+      ? await this.loadScopedMetrics(tools, timeRange)
+      : await this.loadExactMetrics(tools, { start: new Date(Date.now() - 30 * DAY_MS), end: new Date() });
 
+    const enhancedPrompt = `${userPrompt}
+${_metrics ? `
+MÉTRICAS EXACTAS (calculadas de las órdenes reales, citá estos valores tal cual, no los estimes):
+${_metrics}
+` : ''}
 Realiza una comparación detallada que incluya:
 - Comparación de métricas específicas
 - Análisis de diferencias y cambios
@@ -432,10 +504,10 @@ Realiza una comparación detallada que incluya:
 
 Presenta datos comparativos de manera clara y con insights valiosos.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async generateGeneralAnalytics(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateGeneralAnalytics(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -453,6 +525,6 @@ Proporciona un análisis general que incluya:
 
 Si no hay datos específicos, proporciona un framework de análisis útil.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 } 
\ No newline at end of file
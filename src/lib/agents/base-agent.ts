@@ -3,7 +3,20 @@
  * Abstract base class for all AI agents in the system
  */
 
+import { TiendaNubeAPI } from '@/lib/integrations/tiendanube';
+import {
+  compareOrderMetrics,
+  computeMetricsSeries,
+  formatCurrency,
+  formatMetricsForPrompt,
+  getPreviousRange,
+  type MetricsDateRange
+} from '@/lib/services/order-metrics';
 import { AGENT_CONFIG } from './config';
+import { DEFAULT_STORE_TIMEZONE, describeTimeRange, parseTimeRange, toDateRange, type ParsedTimeRange } from './temporal-parser';
+import { formatApprovalRequest } from './action-approval';
+import { createApprovalSuggestions } from './suggestions';
+import { AgentToolSession } from './tools';
 import type { 
   Agent, 
   AgentContext, 
@@ -13,6 +26,11 @@ import type {
   AgentTypeConfig 
 } from './types';
 
+// Page caps on the store data read for exact metrics: each agent runs once per
+// store in all-stores mode, inside the reply worker's time budget
+const MAX_METRICS_ORDERS = 2000;
+const MAX_METRICS_PRODUCTS = 1000;
+
 // Dynamic import to avoid Pinecone initialization during build
 const getRagEngine = async () => {
   try {
@@ -290,13 +308,188 @@ export abstract class BaseAgent implements Agent {
    */
   protected abstract calculateHandlingScore(context: AgentContext): Promise<{ confidence: number; reasoning: string }>;
 
+  /**
+   * Create a per-request tool session with the tools enabled for this agent
+   */
+  protected createToolSession(context: AgentContext): AgentToolSession {
+    const messageId = typeof context.metadata?.messageId === 'string' ? context.metadata.messageId : undefined;
+    return new AgentToolSession(context.storeId, this.type, this.config.tools || [], context.conversationId || null, messageId);
+  }
+
+  /**
+   * Attach the tool calls made while answering to the response
+   */
+  protected attachToolActions(response: AgentResponse, tools: AgentToolSession): AgentResponse {
+    if (tools.actions.length === 0) return response;
+
+    // Proposed mutations always end with an explicit SI/NO request
+    const pendingActions = tools.actions.flatMap(action =>
+      action.status === 'awaiting_approval' && action.id ? [{ ...action, id: action.id }] : []
+    );
+    const approvalRequest = formatApprovalRequest(pendingActions);
+
+    return {
+      ...response,
+      response: approvalRequest && response.response ? `${response.response}\n\n${approvalRequest}` : response.response,
+      actions: [...(response.actions || []), ...tools.actions],
+      // Confirm / cancel buttons for the SI/NO request take the place of any follow-ups
+      suggestions: pendingActions.length > 0
+        ? pendingActions.flatMap(action => createApprovalSuggestions({ id: action.id, description: action.description }))
+        : response.suggestions,
+      metadata: {
+        ...response.metadata,
+        toolCalls: tools.actions.length,
+        ...(pendingActions.length > 0 ? {
+          pendingActions: pendingActions.map(action => ({ id: action.id, description: action.description }))
+        } : {})
+      }
+    };
+  }
+
+  /**
+   * Extract the period the user is asking about ("el mes pasado", "últimos 15 días")
+   * in the store's timezone. Returns null when the message has no date reference.
+   */
+  protected async resolveTimeRange(context: AgentContext): Promise<ParsedTimeRange | null> {
+    const timezone = await this.getStoreTimezone(context);
+    const parsed = parseTimeRange(context.userMessage, { timezone });
+
+    if (parsed) {
+      this.log('debug', `Time range "${parsed.matchedText}" → ${parsed.range.start} a ${parsed.range.end}`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Store timezone from the request metadata or the stores table
+   */
+  protected async getStoreTimezone(context: AgentContext): Promise<string> {
+    if (typeof context.metadata?.storeTimezone === 'string') {
+      return context.metadata.storeTimezone;
+    }
+
+    try {
+      const { createServiceClient } = await import('@/lib/supabase/server');
+      const supabase = createServiceClient();
+      const { data } = await supabase
+        .from('stores')
+        .select('timezone')
+        .eq('id', context.storeId)
+        .single();
+
+      return data?.timezone || DEFAULT_STORE_TIMEZONE;
+    } catch (error) {
+      this.log('debug', 'Store timezone lookup failed, using default:', error);
+      return DEFAULT_STORE_TIMEZONE;
+    }
+  }
+
+  /**
+   * Append the requested period to a prompt so answers and tool calls stay within it
+   */
+  protected withTimeScope(prompt: string, timeRange: ParsedTimeRange | null): string {
+    if (!timeRange) return prompt;
+    return `${prompt}
+
+${describeTimeRange(timeRange)}`;
+  }
+
+  /**
+   * Compute period-over-period metrics from raw orders for the prompt.
+   * Compares against `previousRange` (default: the period right before) and
+   * optionally adds a revenue series over `seriesRange` in buckets of `bucketDays`.
+   * Returns null when store data can't be fetched.
+   */
+  protected async loadExactMetrics(
+    tools: AgentToolSession,
+    range: MetricsDateRange,
+    options: { previousRange?: MetricsDateRange; seriesRange?: MetricsDateRange; bucketDays?: number } = {}
+  ): Promise<string | null> {
+    try {
+      const api = await tools.getAPI();
+      if (!api) return null;
+
+      const { seriesRange, bucketDays } = options;
+      const _previousRange = options.previousRange || getPreviousRange(range);
+      const _fetchStart = new Date(Math.min(
+        range.start.getTime(),
+        _previousRange.start.getTime(),
+        seriesRange ? seriesRange.start.getTime() : Infinity
+      ));
+      const _fetchEnd = new Date(Math.max(range.end.getTime(), _previousRange.end.getTime()));
+
+      // Only the resolved span is read, up to the page caps; the catalog is only needed for categories
+      const [_orders, products] = await Promise.all([
+        TiendaNubeAPI.collect(api.iterateOrders({
+          created_at_min: _fetchStart.toISOString(),
+          created_at_max: _fetchEnd.toISOString(),
+          maxItems: MAX_METRICS_ORDERS
+        })),
+        TiendaNubeAPI.collect(api.iterateProducts({ fields: 'id,categories', maxItems: MAX_METRICS_PRODUCTS })).catch(() => [])
+      ]);
+
+      const _currency = _orders[0]?.currency || 'ARS';
+      const comparison = compareOrderMetrics(_orders, range, _previousRange, products);
+
+      tools.actions.push({
+        type: 'calculation',
+        description: 'Métricas de órdenes período contra período',
+        payload: { range: comparison.current.range, previousRange: comparison.previous.range, orders: _orders.length },
+        status: 'completed',
+        result: comparison.deltas
+      });
+
+      let block = formatMetricsForPrompt(comparison.current, comparison, _currency);
+      if (_orders.length >= MAX_METRICS_ORDERS) {
+        block += `\n\n(Calculado sobre las primeras ${MAX_METRICS_ORDERS} órdenes del período consultado)`;
+      }
+      block += `\n\nPeríodo anterior (${comparison.previous.range.start.slice(0, 10)} a ${comparison.previous.range.end.slice(0, 10)}): facturación ${formatCurrency(comparison.previous.revenue, _currency)}, ${comparison.previous.paidOrders} órdenes pagas`;
+
+      if (seriesRange && bucketDays) {
+        const series = computeMetricsSeries(_orders, seriesRange, bucketDays);
+        block += `\n\nSerie (cada ${bucketDays} días):\n${series
+          .map(point => `- ${point.start.slice(0, 10)}: ${formatCurrency(point.revenue, _currency)} en ${point.paidOrders} órdenes (AOV ${formatCurrency(point.averageOrderValue, _currency)})`)
+          .join('\n')}`;
+      }
+
+      return block;
+    } catch (error) {
+      this.log('error', 'Exact metrics computation failed, continuing with RAG context:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Exact metrics for the period the user asked about, against the requested
+   * comparison period or the one right before
+   */
+  protected loadScopedMetrics(tools: AgentToolSession, timeRange: ParsedTimeRange): Promise<string | null> {
+    return this.loadExactMetrics(tools, toDateRange(timeRange.range), {
+      previousRange: timeRange.comparison ? toDateRange(timeRange.comparison) : undefined
+    });
+  }
+
   /**
    * Generate OpenAI chat completion
+   * When a tool session is given, the model may call live store tools before answering
    */
-  protected async generateResponse(systemPrompt: string, userPrompt: string, context?: string): Promise<string> {
+  protected async generateResponse(
+    systemPrompt: string,
+    userPrompt: string,
+    context?: string,
+    tools?: AgentToolSession
+  ): Promise<string> {
     try {
-      const messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }> = [
-        { role: 'system', content: systemPrompt }
+      const _useTools = !!tools?.hasTools();
+      let _systemContent = systemPrompt;
+      if (_useTools) {
+        _systemContent += '\n\nTenés herramientas para consultar datos en vivo de la tienda. Usalas siempre que necesites cifras exactas (ventas, órdenes, stock, precios) y citá los valores que devuelven.';
+      }
+      if (_useTools && tools.hasMutations()) {
+        _systemContent += '\n\nAlgunas herramientas modifican la tienda. Usalas solo si el usuario pidió el cambio explícitamente; si falta un dato o hay dudas, usá dry_run: true y pedí confirmación. Informá siempre qué se cambió.';
+      }
+      const messages: Array<Record<string, unknown>> = [
+        { role: 'system', content: _systemContent }
       ];
 
       if (context) {
@@ -308,28 +501,49 @@ export abstract class BaseAgent implements Agent {
         messages.push({ role: 'user', content: userPrompt });
       }
 
-      // Use OpenAI API directly (we'll need to install it)
-      const _response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4',
-          messages,
-          max_tokens: this.config.responseConfig.maxLength,
-          temperature: 0.7,
-          stream: false
-        })
-      });
+      for (let round = 0; round <= AGENT_CONFIG.maxToolRounds; round++) {
+        // Last round forces a final answer without further tool calls
+        const _offerTools = _useTools && round < AGENT_CONFIG.maxToolRounds;
+
+        // Use OpenAI API directly (we'll need to install it)
+        const _response = await fetch('https://api.openai.com/v1/chat/completions', {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${process.env.OPENAI_API_KEY}`,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({
+            model: 'gpt-4',
+            messages,
+            max_tokens: this.config.responseConfig.maxLength,
+            temperature: 0.7,
+            stream: false,
+            ...(_offerTools ? { tools: tools.getDefinitions(), tool_choice: 'auto' } : {})
+          })
+        });
+
+        if (!_response.ok) {
+          throw new Error(`OpenAI API error: ${_response.status} ${_response.statusText}`);
+        }
+
+        const _data = await _response.json();
+        const _message = _data.choices[0]?.message;
+        const _toolCalls: Array<{ id: string; function: { name: string; arguments: string } }> = _message?.tool_calls || [];
 
-      if (!_response.ok) {
-        throw new Error(`OpenAI API error: ${_response.status} ${_response.statusText}`);
+        if (!_offerTools || _toolCalls.length === 0) {
+          return _message?.content || 'No pude generar una respuesta.';
+        }
+
+        this.log('debug', `Model requested ${_toolCalls.length} tool call(s)`, _toolCalls.map(call => call.function.name));
+        messages.push(_message);
+
+        for (const _call of _toolCalls) {
+          const _output = await tools.execute(_call.function.name, _call.function.arguments);
+          messages.push({ role: 'tool', tool_call_id: _call.id, content: _output });
+        }
       }
 
-      const _data = await _response.json();
-      return _data.choices[0]?.message?.content || 'No pude generar una respuesta.';
+      return 'No pude generar una respuesta.';
     } catch (error) {
       console.error(`[ERROR] Agent ${this.type} response generation failed:`, error);
       throw new Error(`Failed to generate response: ${error instanceof Error ? error.message : 'Unknown error'}`);
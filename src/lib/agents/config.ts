@@ -12,6 +12,7 @@ export const AGENT_CONFIG: AgentConfig = {
   ragThreshold: 0.3, // 🔥 LOWERED from 0.7 to 0.3 for better recall
   fallbackEnabled: true,
   debugMode: process.env.NODE_ENV === 'development',
+  maxToolRounds: 3, // Max function-calling round trips per response
 };
 
 export const ORCHESTRATOR_CONFIG: AgentTypeConfig = {
@@ -126,6 +127,7 @@ Mientras sincronizo tus datos específicos, aquí tienes métricas clave para mo
     threshold: 0.3,
     maxResults: 10
   },
+  tools: ['get_revenue', 'get_orders', 'get_top_products', 'get_pending_orders', 'get_products'],
   responseConfig: {
     maxLength: 1000,
     tone: 'professional',
@@ -605,6 +607,19 @@ export const ROUTING_THRESHOLDS = {
   fallback_threshold: 0.2
 };
 
+// Multi-agent fan-out for cross-functional queries
+export const MULTI_AGENT_CONFIG = {
+  enabled: true,
+  maxAgents: 3,
+  timeout: 25000, // Shared deadline for all agents in a fan-out
+  minAgentScore: 0.8, // Secondary agents need the score that routes to them directly in single-agent mode
+  // Only queries with one of these (whole words) fan out
+  crossFunctionalCues: [
+    'dado', 'dada', 'considerando', 'teniendo en cuenta', 'en base a', 'según mi', 'segun mi',
+    'conviene', 'vale la pena', 'impacto', 'y mi', 'y el', 'y los', 'y las', 'además'
+  ]
+};
+
 // Agent priorities (higher number = higher priority)
 export const AGENT_PRIORITIES = {
   orchestrator: 10,
@@ -668,6 +683,7 @@ INSTRUCCIONES:
     threshold: 0.7,
     maxResults: 10
   },
+  tools: ['get_products', 'get_top_products', 'get_orders', 'update_stock', 'update_price'],
   responseConfig: {
     maxLength: 350,
     tone: 'professional',
@@ -724,6 +740,7 @@ INSTRUCCIONES:
     threshold: 0.7,
     maxResults: 8
   },
+  tools: ['get_revenue', 'get_orders', 'get_top_products', 'get_products', 'update_price', 'create_coupon'],
   responseConfig: {
     maxLength: 350,
     tone: 'professional',
@@ -837,6 +854,7 @@ Sincronizando datos del catálogo. Estrategias clave mientras tanto:
     threshold: 0.3,
     maxResults: 8
   },
+  tools: ['get_products', 'update_price'],
   responseConfig: {
     maxLength: 400, // 🔥 REDUCED: from 900 to 400 for more concise responses
     tone: 'professional',
@@ -893,6 +911,7 @@ INSTRUCCIONES:
     threshold: 0.7,
     maxResults: 8
   },
+  tools: ['get_orders', 'get_pending_orders', 'mark_order_packed', 'mark_order_fulfilled', 'add_order_note'],
   responseConfig: {
     maxLength: 350,
     tone: 'professional',
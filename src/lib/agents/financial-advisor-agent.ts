@@ -5,6 +5,8 @@
 
 import { BaseAgent } from './base-agent';
 import { FINANCIAL_ADVISOR_CONFIG, ROUTING_KEYWORDS } from './config';
+import type { ParsedTimeRange } from './temporal-parser';
+import type { AgentToolSession } from './tools';
 import type { AgentContext, AgentResponse } from './types';
 
 export class FinancialAdvisorAgent extends BaseAgent {
@@ -62,6 +64,8 @@ export class FinancialAdvisorAgent extends BaseAgent {
     try {
       // Get relevant context from RAG
       const ragContext = await this.getRelevantContext(context.userMessage, context);
+      const tools = this.createToolSession(context);
+      const timeRange = await this.resolveTimeRange(context);
       
       // Identify the type of financial request
       const queryType = this.identifyQueryType(context.userMessage);
@@ -73,49 +77,49 @@ export class FinancialAdvisorAgent extends BaseAgent {
 
       switch (queryType.type) {
         case 'profitability':
-          response = await this.analyzeProfitability(context, ragContext);
+          response = await this.analyzeProfitability(context, ragContext, tools, timeRange);
           confidence = 0.9;
           break;
         case 'cash_flow':
-          response = await this.analyzeCashFlow(context, ragContext);
+          response = await this.analyzeCashFlow(context, ragContext, tools, timeRange);
           confidence = 0.9;
           break;
         case 'pricing':
-          response = await this.optimizePricing(context, ragContext);
+          response = await this.optimizePricing(context, ragContext, tools, timeRange);
           confidence = 0.85;
           break;
         case 'financial_planning':
-          response = await this.createFinancialPlan(context, ragContext);
+          response = await this.createFinancialPlan(context, ragContext, tools, timeRange);
           confidence = 0.85;
           break;
         case 'cost_analysis':
-          response = await this.analyzeCosts(context, ragContext);
+          response = await this.analyzeCosts(context, ragContext, tools, timeRange);
           confidence = 0.8;
           break;
         case 'financial_kpis':
-          response = await this.analyzeFinancialKPIs(context, ragContext);
+          response = await this.analyzeFinancialKPIs(context, ragContext, tools, timeRange);
           confidence = 0.85;
           break;
         case 'investment_analysis':
-          response = await this.analyzeInvestment(context, ragContext);
+          response = await this.analyzeInvestment(context, ragContext, tools, timeRange);
           confidence = 0.8;
           break;
         default:
-          response = await this.generateGeneralFinancialAdvice(context, ragContext);
+          response = await this.generateGeneralFinancialAdvice(context, ragContext, tools, timeRange);
           confidence = 0.6;
       }
 
       const executionTime = Date.now() - startTime;
       this.log('info', `Financial analysis response generated in ${executionTime}ms`);
 
-      return this.createResponse(
+      return this.attachToolActions(this.createResponse(
         true,
         response,
         confidence,
         `Financial analysis completed: ${queryType.reasoning}`,
         ragContext,
         executionTime
-      );
+      ), tools);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -216,15 +220,19 @@ export class FinancialAdvisorAgent extends BaseAgent {
     return { type: 'general', reasoning: 'General financial inquiry', confidence: 0.5 };
   }
 
-  private async analyzeProfitability(context: AgentContext, ragContext: string): Promise<string> {
+  private async analyzeProfitability(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
       context: ragContext || 'No hay datos financieros específicos disponibles'
     });
+    const _metrics = timeRange ? await this.loadScopedMetrics(tools, timeRange) : null;
 
     const enhancedPrompt = `${userPrompt}
-
+${_metrics ? `
+MÉTRICAS EXACTAS DEL PERÍODO (calculadas de las órdenes reales, citá estos valores tal cual, no los estimes):
+${_metrics}
+` : ''}
 Realiza un análisis profundo de rentabilidad que incluya:
 - Cálculo de rentabilidad real por producto incluyendo TODOS los costos ocultos
 - Análisis de márgenes brutos, operativos y netos con contexto argentino
@@ -237,18 +245,22 @@ Realiza un análisis profundo de rentabilidad que incluya:
 
 Incluye cálculos específicos, porcentajes exactos y recomendaciones accionables.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async analyzeCashFlow(context: AgentContext, ragContext: string): Promise<string> {
+  private async analyzeCashFlow(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
       context: ragContext || 'No hay datos de flujo de caja disponibles'
     });
+    const _metrics = timeRange ? await this.loadScopedMetrics(tools, timeRange) : null;
 
     const enhancedPrompt = `${userPrompt}
-
+${_metrics ? `
+MÉTRICAS EXACTAS DEL PERÍODO (calculadas de las órdenes reales, citá estos valores tal cual, no los estimes):
+${_metrics}
+` : ''}
 Desarrolla un análisis completo de flujo de caja que incluya:
 - Proyección de cash flow para próximos 3-6 meses con múltiples escenarios
 - Análisis de patrones de cobros y pagos actuales
@@ -261,10 +273,10 @@ Desarrolla un análisis completo de flujo de caja que incluya:
 
 Proporciona proyecciones específicas con fechas y montos, incluyendo escenarios pesimista, realista y optimista.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async optimizePricing(context: AgentContext, ragContext: string): Promise<string> {
+  private async optimizePricing(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -286,10 +298,10 @@ Desarrolla una estrategia de pricing integral que incluya:
 
 Incluye recomendaciones específicas de precios, cronograma de implementación y métricas de seguimiento.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async createFinancialPlan(context: AgentContext, ragContext: string): Promise<string> {
+  private async createFinancialPlan(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -311,10 +323,10 @@ Crea un plan financiero estratégico que incluya:
 
 Proporciona un roadmap financiero específico con hitos, fechas y métricas de control.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async analyzeCosts(context: AgentContext, ragContext: string): Promise<string> {
+  private async analyzeCosts(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -336,18 +348,22 @@ Realiza un análisis exhaustivo de costos que incluya:
 
 Incluye porcentajes específicos de ahorro, cronograma de implementación y métricas de seguimiento.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async analyzeFinancialKPIs(context: AgentContext, ragContext: string): Promise<string> {
+  private async analyzeFinancialKPIs(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
       context: ragContext || 'No hay datos suficientes para análisis de KPIs'
     });
+    const _metrics = timeRange ? await this.loadScopedMetrics(tools, timeRange) : null;
 
     const enhancedPrompt = `${userPrompt}
-
+${_metrics ? `
+MÉTRICAS EXACTAS DEL PERÍODO (calculadas de las órdenes reales, citá estos valores tal cual, no los estimes):
+${_metrics}
+` : ''}
 Desarrolla un análisis completo de KPIs financieros que incluya:
 - Dashboard de métricas financieras clave con valores actuales vs objetivos
 - Análisis de tendencias y evolución histórica de KPIs críticos
@@ -360,10 +376,10 @@ Desarrolla un análisis completo de KPIs financieros que incluya:
 
 Incluye valores específicos, porcentajes de mejora esperados y acciones concretas para cada KPI.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async analyzeInvestment(context: AgentContext, ragContext: string): Promise<string> {
+  private async analyzeInvestment(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -385,10 +401,10 @@ Realiza una evaluación completa de inversión que incluya:
 
 Proporciona análisis cuantitativo detallado con cálculos específicos y recomendación clara de proceder o no.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 
-  private async generateGeneralFinancialAdvice(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateGeneralFinancialAdvice(context: AgentContext, ragContext: string, tools: AgentToolSession, timeRange: ParsedTimeRange | null): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -409,6 +425,6 @@ Proporciona asesoramiento financiero integral que incluya:
 
 Adapta las recomendaciones al contexto específico y capacidades del usuario.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, this.withTimeScope(enhancedPrompt, timeRange), ragContext, tools);
   }
 } 
\ No newline at end of file
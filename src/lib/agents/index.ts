@@ -24,12 +24,32 @@ export {
   SALES_COACH_CONFIG,
   ROUTING_KEYWORDS,
   ROUTING_THRESHOLDS,
+  MULTI_AGENT_CONFIG,
   AGENT_PRIORITIES
 } from './config';
 
 // Base Agent
 export { BaseAgent } from './base-agent';
 
+// Tools
+export { AGENT_TOOLS, AgentToolSession } from './tools';
+export type { AgentTool, AgentToolName, AgentToolDefinition } from './tools';
+export { AgentActionLog } from './action-log';
+export { AgentActionApproval, parseApprovalReply, formatApprovalRequest } from './action-approval';
+export type { ApprovalChannel, ApprovalDecision, ApprovalResult, ProposedAgentAction } from './action-approval';
+export {
+  createFollowUpSuggestions,
+  createApprovalSuggestions,
+  createAgentChoiceSuggestions,
+  parseActionSuggestionId,
+  findSuggestion
+} from './suggestions';
+export type { FollowUpQuestion } from './suggestions';
+
+// Temporal parsing
+export { parseTimeRange, describeTimeRange, DEFAULT_STORE_TIMEZONE } from './temporal-parser';
+export type { ParsedTimeRange, TemporalParserOptions } from './temporal-parser';
+
 // Specialized Agents
 export { OrchestratorAgent } from './orchestrator-agent';
 export { AnalyticsAgent } from './analytics-agent';
@@ -55,6 +55,9 @@ export class FiniMultiAgentSystem implements IMultiAgentSystem {
       this.agents.set('operations_manager', new OperationsManagerAgent());
       this.agents.set('sales_coach', new SalesCoachAgent());
 
+      // Give the orchestrator access to the specialists it routes to
+      (this.agents.get('orchestrator') as OrchestratorAgent).registerAgents(this.agents);
+
       this.logger.info('Agents registered', { agents: Array.from(this.agents.keys()) });
     } catch (error) {
       this.logger.critical('Failed to initialize agents', { error: error instanceof Error ? error.message : error });
@@ -79,28 +82,16 @@ export class FiniMultiAgentSystem implements IMultiAgentSystem {
     try {
       // Use orchestrator to route the message
       const _orchestrator = this.getAgent('orchestrator') as OrchestratorAgent;
-      const _decision = await _orchestrator.routeMessage(context);
+      // A specialist picked by the merchant (agent choice suggestion) skips routing
+      const _preferredAgent = context.metadata?.preferredAgent as AgentType | undefined;
+      const _decision = _preferredAgent && this.agents.has(_preferredAgent)
+        ? this.createPreferredAgentDecision(_preferredAgent)
+        : await _orchestrator.routeMessage(context);
       
       console.warn(`[MULTI-AGENT] Routing decision:`, _decision);
 
-      let finalResponse: AgentResponse;
-
-      if (_decision.selectedAgent && _decision.confidence >= 0.4) {
-        // Route to specialized agent
-        const _selectedAgent = this.getAgent(_decision.selectedAgent);
-        
-        if (_selectedAgent) {
-          console.warn(`[MULTI-AGENT] Routing to ${_decision.selectedAgent} agent`);
-          finalResponse = await _selectedAgent.process(context);
-        } else {
-          console.warn(`[MULTI-AGENT] Agent ${_decision.selectedAgent} not found, using orchestrator`);
-          finalResponse = await _orchestrator.process(context);
-        }
-      } else {
-        // Use orchestrator for low confidence or unclear queries
-        console.warn(`[MULTI-AGENT] Using orchestrator for low confidence query`);
-        finalResponse = await _orchestrator.process(context);
-      }
+      // Orchestrator invokes the selected specialist (or its own fallback)
+      const finalResponse: AgentResponse = await _orchestrator.dispatch(context, _decision);
 
       // Add system metadata
       const _executionTime = timer.end();
@@ -134,6 +125,30 @@ export class FiniMultiAgentSystem implements IMultiAgentSystem {
     }
   }
 
+  /**
+   * Routing decision for a specialist chosen explicitly by the merchant
+   */
+  private createPreferredAgentDecision(agentType: AgentType): OrchestratorDecision {
+    return {
+      selectedAgent: agentType,
+      confidence: 1,
+      reasoning: 'Specialist selected by the user',
+      mode: 'single',
+      routingRules: {
+        analyticsScore: 0,
+        customerServiceScore: 0,
+        marketingScore: 0,
+        stockManagerScore: 0,
+        financialAdvisorScore: 0,
+        businessConsultantScore: 0,
+        productManagerScore: 0,
+        operationsManagerScore: 0,
+        salesCoachScore: 0,
+        generalScore: 0
+      }
+    };
+  }
+
   /**
    * Route message to appropriate agent (exposed for external use)
    */
@@ -5,6 +5,7 @@
 
 import { BaseAgent } from './base-agent';
 import { OPERATIONS_MANAGER_CONFIG, ROUTING_KEYWORDS } from './config';
+import type { AgentToolSession } from './tools';
 import type { AgentContext, AgentResponse } from './types';
 
 export class OperationsManagerAgent extends BaseAgent {
@@ -66,6 +67,7 @@ export class OperationsManagerAgent extends BaseAgent {
     try {
       // Get relevant context from RAG
       const ragContext = await this.getRelevantContext(context.userMessage, context);
+      const tools = this.createToolSession(context);
       
       // Identify the type of operations request
       const queryType = this.identifyQueryType(context.userMessage);
@@ -77,45 +79,45 @@ export class OperationsManagerAgent extends BaseAgent {
 
       switch (queryType.type) {
         case 'process_optimization':
-          response = await this.generateProcessOptimization(context, ragContext);
+          response = await this.generateProcessOptimization(context, ragContext, tools);
           confidence = 0.9;
           break;
         case 'logistics_management':
-          response = await this.generateLogisticsManagement(context, ragContext);
+          response = await this.generateLogisticsManagement(context, ragContext, tools);
           confidence = 0.85;
           break;
         case 'supply_chain':
-          response = await this.generateSupplyChain(context, ragContext);
+          response = await this.generateSupplyChain(context, ragContext, tools);
           confidence = 0.8;
           break;
         case 'quality_control':
-          response = await this.generateQualityControl(context, ragContext);
+          response = await this.generateQualityControl(context, ragContext, tools);
           confidence = 0.85;
           break;
         case 'cost_optimization':
-          response = await this.generateCostOptimization(context, ragContext);
+          response = await this.generateCostOptimization(context, ragContext, tools);
           confidence = 0.8;
           break;
         case 'automation':
-          response = await this.generateAutomation(context, ragContext);
+          response = await this.generateAutomation(context, ragContext, tools);
           confidence = 0.75;
           break;
         default:
-          response = await this.generateGeneralOperations(context, ragContext);
+          response = await this.generateGeneralOperations(context, ragContext, tools);
           confidence = 0.6;
       }
 
       const executionTime = Date.now() - startTime;
       this.log('info', `Operations response generated in ${executionTime}ms`);
 
-      return this.createResponse(
+      return this.attachToolActions(this.createResponse(
         true,
         response,
         confidence,
         `Operations query processed: ${queryType.reasoning}`,
         ragContext,
         executionTime
-      );
+      ), tools);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -202,7 +204,7 @@ export class OperationsManagerAgent extends BaseAgent {
     return { type: 'general', reasoning: 'General operations query', confidence: 0.5 };
   }
 
-  private async generateProcessOptimization(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateProcessOptimization(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const enhancedPrompt = `${this.config.prompts.userPrompt}
 
@@ -215,10 +217,10 @@ Enfoque específico: OPTIMIZACIÓN DE PROCESOS
 Consulta del usuario: ${context.userMessage}
 Contexto: ${ragContext || 'No hay datos específicos disponibles'}`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateLogisticsManagement(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateLogisticsManagement(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const enhancedPrompt = `${this.config.prompts.userPrompt}
 
@@ -231,10 +233,10 @@ Enfoque específico: GESTIÓN LOGÍSTICA
 Consulta del usuario: ${context.userMessage}
 Contexto: ${ragContext || 'No hay datos específicos disponibles'}`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateSupplyChain(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateSupplyChain(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const enhancedPrompt = `${this.config.prompts.userPrompt}
 
@@ -247,10 +249,10 @@ Enfoque específico: CADENA DE SUMINISTRO
 Consulta del usuario: ${context.userMessage}
 Contexto: ${ragContext || 'No hay datos específicos disponibles'}`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateQualityControl(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateQualityControl(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const enhancedPrompt = `${this.config.prompts.userPrompt}
 
@@ -263,10 +265,10 @@ Enfoque específico: CONTROL DE CALIDAD
 Consulta del usuario: ${context.userMessage}
 Contexto: ${ragContext || 'No hay datos específicos disponibles'}`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateCostOptimization(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateCostOptimization(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const enhancedPrompt = `${this.config.prompts.userPrompt}
 
@@ -279,10 +281,10 @@ Enfoque específico: OPTIMIZACIÓN DE COSTOS
 Consulta del usuario: ${context.userMessage}
 Contexto: ${ragContext || 'No hay datos específicos disponibles'}`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateAutomation(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateAutomation(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const enhancedPrompt = `${this.config.prompts.userPrompt}
 
@@ -295,10 +297,10 @@ Enfoque específico: AUTOMATIZACIÓN
 Consulta del usuario: ${context.userMessage}
 Contexto: ${ragContext || 'No hay datos específicos disponibles'}`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateGeneralOperations(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateGeneralOperations(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const enhancedPrompt = `${this.config.prompts.userPrompt}
 
@@ -311,6 +313,6 @@ Enfoque: CONSULTA GENERAL OPERATIVA
 Consulta del usuario: ${context.userMessage}
 Contexto: ${ragContext || 'No hay datos específicos disponibles'}`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 } 
\ No newline at end of file
@@ -4,10 +4,28 @@
  */
 
 import { BaseAgent } from './base-agent';
-import { ORCHESTRATOR_CONFIG, ROUTING_KEYWORDS, ROUTING_THRESHOLDS } from './config';
-import type { AgentContext, AgentResponse, OrchestratorDecision, AgentType } from './types';
+import { MULTI_AGENT_CONFIG, ORCHESTRATOR_CONFIG, ROUTING_KEYWORDS, ROUTING_THRESHOLDS } from './config';
+import { createAgentChoiceSuggestions } from './suggestions';
+import type { Agent, AgentContext, AgentResponse, OrchestratorDecision, AgentType } from './types';
+
+/**
+ * Whether the message contains one of the cues as whole words ("dado" must not
+ * match "cuidado", "y el" must not match "hoy el")
+ */
+function hasCrossFunctionalCue(message: string, cues: string[]): boolean {
+  const toWords = (text: string) => (text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[a-z0-9]+/g) || []).join(' ');
+
+  const words = ` ${toWords(message)} `;
+  return cues.some(cue => words.includes(` ${toWords(cue)} `));
+}
 
 export class OrchestratorAgent extends BaseAgent {
+  private agents: Map<AgentType, Agent> = new Map();
+
   constructor() {
     super(
       'orchestrator',
@@ -38,55 +56,293 @@ export class OrchestratorAgent extends BaseAgent {
   }
 
   async process(context: AgentContext): Promise<AgentResponse> {
-    const _startTime = Date.now();
     this.log('info', `Processing message: "${context.userMessage}"`);
 
     try {
       // Get routing decision
       const _decision = await this.routeMessage(context);
-      const _executionTime = Date.now() - _startTime;
+      return await this.dispatch(context, _decision);
+    } catch (error) {
+      const _errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', `Processing failed: ${_errorMessage}`);
+      return this.createFallbackResponse(_errorMessage);
+    }
+  }
 
-      if (_decision.selectedAgent && _decision.confidence >= 0.4) {
-        // For now, we'll return the routing decision
-        // In the full implementation, this would call the selected agent
-        const _response = `🎯 **Analizando tu consulta...**
+  /**
+   * Register the specialized agents the orchestrator can delegate to.
+   * Called by FiniMultiAgentSystem once all agents are instantiated.
+   */
+  registerAgents(agents: Map<AgentType, Agent>): void {
+    this.agents = agents;
+    this.log('debug', `Registered ${agents.size} agents for dispatch`);
+  }
 
-He clasificado tu mensaje como: **${_decision.selectedAgent.toUpperCase()}**
+  /**
+   * Execute a routing decision: invoke the selected specialist and merge its
+   * response, or fall back to a general answer when no agent was selected
+   */
+  async dispatch(context: AgentContext, decision: OrchestratorDecision): Promise<AgentResponse> {
+    const _startTime = Date.now();
 
-${_decision.reasoning}
+    if (decision.mode === 'multi') {
+      const _coordinatedAgents = this.resolveCoordinatedAgents(decision);
+      if (_coordinatedAgents.length > 1) {
+        return this.dispatchToMultipleAgents(context, decision, _coordinatedAgents);
+      }
+    }
 
-**Confianza del análisis: ${Math.round(_decision.confidence * 100)}%**
+    const _targetAgent = this.resolveTargetAgent(decision);
+
+    if (_targetAgent) {
+      this.log('info', `Dispatching to ${_targetAgent.type} agent`);
+
+      let _agentResponse: AgentResponse;
+      try {
+        _agentResponse = await _targetAgent.process(context);
+      } catch (error) {
+        const _errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        this.log('error', `Agent ${_targetAgent.type} failed during dispatch: ${_errorMessage}`);
+        _agentResponse = {
+          success: false,
+          agentType: _targetAgent.type,
+          response: this.generateIntelligentFallback(context.userMessage, decision),
+          confidence: 0.3,
+          reasoning: `Specialist agent failed: ${_errorMessage}`,
+          metadata: { fallbackUsed: true, ragUsed: false },
+          error: _errorMessage
+        };
+      }
 
-🚀 **Análisis Inteligente Activado**: Tu consulta será procesada por el agente especializado en ${_decision.selectedAgent} para darte la respuesta más precisa y útil.
+      return this.mergeAgentResponse(_agentResponse, decision, Date.now() - _startTime);
+    }
 
-*En la implementación completa, esto se enrutaría automáticamente al agente especializado correspondiente.*`;
+    // 🔥 ENHANCED: Provide useful fallback response based on query analysis
+    const _enhancedFallback = this.generateIntelligentFallback(context.userMessage, decision);
+    const _response = this.createResponse(
+      true, // Changed to true since we're providing a useful response
+      _enhancedFallback,
+      0.6, // Higher confidence for fallback
+      `Fallback response with general e-commerce guidance: ${decision.reasoning}`,
+      undefined,
+      Date.now() - _startTime
+    );
+    // Inconclusive routing: offer the most likely specialists as one-tap choices
+    _response.suggestions = createAgentChoiceSuggestions(this.getCandidateAgents(decision), context.userMessage);
 
-        return this.createResponse(
-          true,
-          _response,
-          _decision.confidence,
-          _decision.reasoning,
-          undefined,
-          _executionTime
-        );
-      } else {
-        // 🔥 ENHANCED: Provide useful fallback response based on query analysis
-        const _enhancedFallback = this.generateIntelligentFallback(context.userMessage, _decision);
-
-        return this.createResponse(
-          true, // Changed to true since we're providing a useful response
-          _enhancedFallback,
-          0.6, // Higher confidence for fallback
-          `Fallback response with general e-commerce guidance: ${_decision.reasoning}`,
-          undefined,
-          _executionTime
-        );
+    return this.mergeAgentResponse(_response, decision, Date.now() - _startTime);
+  }
+
+  /**
+   * Registered specialists with the best routing scores (a default set when nothing scored)
+   */
+  private getCandidateAgents(decision: OrchestratorDecision): AgentType[] {
+    const _scores: Array<[AgentType, number]> = [
+      ['analytics', decision.routingRules?.analyticsScore || 0],
+      ['customer_service', decision.routingRules?.customerServiceScore || 0],
+      ['marketing', decision.routingRules?.marketingScore || 0],
+      ['stock_manager', decision.routingRules?.stockManagerScore || 0],
+      ['financial_advisor', decision.routingRules?.financialAdvisorScore || 0],
+      ['business_consultant', decision.routingRules?.businessConsultantScore || 0],
+      ['product_manager', decision.routingRules?.productManagerScore || 0],
+      ['operations_manager', decision.routingRules?.operationsManagerScore || 0],
+      ['sales_coach', decision.routingRules?.salesCoachScore || 0]
+    ];
+
+    const _candidates = _scores
+      .filter(([type, score]) => score > 0 && this.agents.has(type))
+      .sort((a, b) => b[1] - a[1])
+      .map(([type]) => type);
+
+    return (_candidates.length > 0 ? _candidates : ['analytics', 'product_manager', 'marketing'] as AgentType[]).slice(0, 3);
+  }
+
+  /**
+   * Resolve the registered agents named in a multi-agent decision
+   */
+  private resolveCoordinatedAgents(decision: OrchestratorDecision): Agent[] {
+    const _types = Array.from(new Set(decision.selectedAgents || []))
+      .filter(type => type !== 'orchestrator')
+      .slice(0, MULTI_AGENT_CONFIG.maxAgents);
+
+    return _types
+      .map(type => this.agents.get(type))
+      .filter((agent): agent is Agent => !!agent);
+  }
+
+  /**
+   * Run several specialists in parallel under a shared timeout and
+   * synthesize their answers into a single reply
+   */
+  private async dispatchToMultipleAgents(
+    context: AgentContext,
+    decision: OrchestratorDecision,
+    agents: Agent[]
+  ): Promise<AgentResponse> {
+    const _startTime = Date.now();
+    this.log('info', `Fan-out to ${agents.map(agent => agent.type).join(', ')}`);
+
+    let _timer: ReturnType<typeof setTimeout> | undefined;
+    const _deadline = new Promise<null>(resolve => {
+      _timer = setTimeout(() => resolve(null), MULTI_AGENT_CONFIG.timeout);
+    });
+
+    const _results = await Promise.all(
+      agents.map(async agent => {
+        const _response = await Promise.race([
+          agent.process(context).catch(error => {
+            this.log('error', `Agent ${agent.type} failed during fan-out:`, error);
+            return null;
+          }),
+          _deadline
+        ]);
+        return { agent, response: _response };
+      })
+    );
+    clearTimeout(_timer);
+
+    const _answered = _results.filter(
+      (result): result is { agent: Agent; response: AgentResponse } =>
+        !!result.response && result.response.success && !!result.response.response
+    );
+    const _missing = _results
+      .filter(result => !_answered.includes(result as { agent: Agent; response: AgentResponse }))
+      .map(result => result.agent.type);
+
+    if (_missing.length > 0) {
+      this.log('info', `Agents without answer in fan-out: ${_missing.join(', ')}`);
+    }
+
+    // Nothing to synthesize: degrade to the general fallback answer
+    if (_answered.length === 0) {
+      const _fallback = this.createResponse(
+        true,
+        this.generateIntelligentFallback(context.userMessage, decision),
+        0.4,
+        `No specialist answered within ${MULTI_AGENT_CONFIG.timeout}ms: ${decision.reasoning}`,
+        undefined,
+        Date.now() - _startTime
+      );
+      _fallback.metadata.fallbackUsed = true;
+      return this.mergeAgentResponse(_fallback, decision, Date.now() - _startTime);
+    }
+    if (_answered.length === 1) {
+      return this.mergeAgentResponse(_answered[0].response, decision, Date.now() - _startTime);
+    }
+
+    const _synthesis = await this.synthesizeResponses(context, _answered);
+    const _confidence = _answered.reduce((sum, result) => sum + result.response.confidence, 0) / _answered.length;
+
+    const _response: AgentResponse = {
+      success: true,
+      agentType: this.type,
+      response: _synthesis,
+      confidence: _confidence,
+      reasoning: `Respuesta coordinada entre ${_answered.map(result => result.agent.type).join(', ')}: ${decision.reasoning}`,
+      actions: _answered.flatMap(result => result.response.actions || []),
+      contextUsed: _answered.map(result => ({ agentType: result.agent.type, context: result.response.contextUsed })),
+      metadata: {
+        executionTime: Date.now() - _startTime,
+        ragUsed: _answered.some(result => result.response.metadata?.ragUsed),
+        fallbackUsed: false,
+        coordination: {
+          agents: _answered.map(result => ({
+            agentType: result.agent.type,
+            confidence: result.response.confidence,
+            executionTime: result.response.metadata?.executionTime
+          })),
+          missingAgents: _missing
+        }
+      }
+    };
+
+    return this.mergeAgentResponse(_response, decision, Date.now() - _startTime);
+  }
+
+  /**
+   * Merge specialist answers into one reply with a section per agent,
+   * prefixed by an integrated conclusion when OpenAI is available
+   */
+  private async synthesizeResponses(
+    context: AgentContext,
+    results: Array<{ agent: Agent; response: AgentResponse }>
+  ): Promise<string> {
+    const _sections = results
+      .map(result => `**${this.getAgentDisplayName(result.agent.type)}**\n${result.response.response}`)
+      .join('\n\n');
+
+    let _conclusion = '';
+    if (process.env.OPENAI_API_KEY) {
+      try {
+        const systemPrompt = `Eres el coordinador de Fini AI. Recibís respuestas de varios agentes especializados sobre la misma consulta de un dueño de tienda argentina.
+
+Escribí una CONCLUSIÓN INTEGRADA de máximo 3 oraciones que:
+- Combine los hallazgos de todos los agentes
+- Resuelva contradicciones entre ellos
+- Termine con una recomendación concreta
+
+No repitas las respuestas completas. Usá español argentino.`;
+        const userPrompt = `Consulta: "${context.userMessage}"\n\nRespuestas de los agentes:\n\n${_sections}`;
+
+        _conclusion = await this.generateResponse(systemPrompt, userPrompt);
+      } catch (error) {
+        this.log('error', 'Synthesis step failed, returning sections only:', error);
       }
-    } catch (error) {
-      const _errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.log('error', `Processing failed: ${_errorMessage}`);
-      return this.createFallbackResponse(_errorMessage);
     }
+
+    const _header = `🤝 **Análisis coordinado** (${results.length} especialistas)`;
+    return _conclusion
+      ? `${_header}\n\n🎯 **Conclusión**\n${_conclusion}\n\n---\n\n${_sections}`
+      : `${_header}\n\n${_sections}`;
+  }
+
+  /**
+   * Pick the registered specialist for a decision, if any qualifies
+   */
+  private resolveTargetAgent(decision: OrchestratorDecision): Agent | null {
+    if (!decision.selectedAgent || decision.selectedAgent === 'orchestrator') {
+      return null;
+    }
+
+    if (decision.confidence < 0.4) {
+      return null;
+    }
+
+    const _agent = this.agents.get(decision.selectedAgent);
+    if (!_agent) {
+      this.log('error', `Agent ${decision.selectedAgent} not registered, using orchestrator fallback`);
+      return null;
+    }
+
+    return _agent;
+  }
+
+  /**
+   * Attach the routing decision to the final response metadata
+   */
+  private mergeAgentResponse(
+    response: AgentResponse,
+    decision: OrchestratorDecision,
+    executionTime: number
+  ): AgentResponse {
+    const _delegated = response.agentType !== this.type;
+
+    return {
+      ...response,
+      metadata: {
+        ...response.metadata,
+        orchestratorExecutionTime: executionTime,
+        routing: {
+          mode: decision.mode || 'single',
+          selectedAgent: decision.selectedAgent,
+          selectedAgents: decision.selectedAgents,
+          handledBy: response.agentType,
+          delegated: _delegated,
+          confidence: decision.confidence,
+          reasoning: decision.reasoning
+        }
+      }
+    };
   }
 
   /**
@@ -184,10 +440,12 @@ AGENTES DISPONIBLES Y SUS ESPECIALIDADES:
 IMPORTANTE: 
 - "¿cuál es el producto más CARO?" → product_manager (información del catálogo)
 - "¿cuáles son mis productos más VENDIDOS?" → analytics (performance de ventas)
+- Si la consulta cruza varias áreas (ej: "¿conviene bajar el precio de X dado mi stock y margen?"), indicá los agentes adicionales en "additional_agents" (máximo 2). Si no, dejalo vacío.
 
 RESPONDE SOLO EN JSON:
 {
   "agent": "nombre_del_agente",
+  "additional_agents": [],
   "confidence": 0.95,
   "reasoning": "Explicación de por qué este agente"
 }
@@ -223,10 +481,19 @@ Confidence: 0.9+ (muy seguro), 0.7+ (seguro), 0.5+ (moderado), <0.5 (inseguro)`;
         generalScore: this.calculateGeneralScore(_lowerMessage)
       };
 
+      const _additionalAgents: AgentType[] = MULTI_AGENT_CONFIG.enabled && Array.isArray(analysis.additional_agents)
+        ? (analysis.additional_agents as AgentType[]).filter(agent =>
+            agent !== selectedAgent && agent !== 'orchestrator' && this.agents.has(agent)
+          )
+        : [];
+      const _selectedAgents = [selectedAgent, ..._additionalAgents].slice(0, MULTI_AGENT_CONFIG.maxAgents);
+
       return {
         selectedAgent,
         confidence,
         reasoning,
+        mode: _selectedAgents.length > 1 ? 'multi' : 'single',
+        selectedAgents: _selectedAgents.length > 1 ? _selectedAgents : undefined,
         routingRules: _routingRules,
         fallbackMessage: confidence < 0.5 ? 
           'No pude determinar con certeza cómo ayudarte. ¿Podrías ser más específico sobre lo que necesitas?' : 
@@ -372,10 +639,18 @@ Confidence: 0.9+ (muy seguro), 0.7+ (seguro), 0.5+ (moderado), <0.5 (inseguro)`;
       reasoning = `❓ Consulta poco clara (${Math.round(confidence * 100)}%) - Necesita más contexto`;
     }
 
+    // Cross-functional queries: involve every agent that scores close enough
+    const _coordinatedAgents = selectedAgent ? this.selectCoordinatedAgents(_lowerMessage, _scores) : [];
+    if (_coordinatedAgents.length > 1) {
+      reasoning += ` + coordinación con ${_coordinatedAgents.slice(1).map(agent => this.getAgentDisplayName(agent)).join(', ')}`;
+    }
+
     const decision: OrchestratorDecision = {
       selectedAgent,
       confidence,
       reasoning,
+      mode: _coordinatedAgents.length > 1 ? 'multi' : 'single',
+      selectedAgents: _coordinatedAgents.length > 1 ? _coordinatedAgents : undefined,
       routingRules: _routingRules,
       fallbackMessage: confidence < 0.4 ? 
         '🤖 No estoy seguro de cómo ayudarte mejor. ¿Podrías reformular tu consulta? Puedo ayudarte con:\n\n📊 **Analytics**: ventas, métricas, reportes\n🛒 **Productos**: catálogo, inventario, precios\n👥 **Clientes**: atención, consultas, soporte\n📈 **Marketing**: estrategias, promociones, campañas\n💰 **Finanzas**: ingresos, gastos, rentabilidad\n🏢 **Consultoría**: estrategia, crecimiento, optimización' : 
@@ -386,6 +661,28 @@ Confidence: 0.9+ (muy seguro), 0.7+ (seguro), 0.5+ (moderado), <0.5 (inseguro)`;
     return decision;
   }
 
+  /**
+   * Select the agents for a cross-functional query (best agent first).
+   * Returns a single agent unless the query has a cross-functional cue and
+   * other agents score as high as a confident single-agent route.
+   */
+  private selectCoordinatedAgents(message: string, scores: Array<{ agent: AgentType; score: number }>): AgentType[] {
+    if (!MULTI_AGENT_CONFIG.enabled || scores.length === 0) {
+      return [];
+    }
+
+    if (!hasCrossFunctionalCue(message, MULTI_AGENT_CONFIG.crossFunctionalCues)) {
+      return [scores[0].agent];
+    }
+
+    const _secondary = scores
+      .slice(1)
+      .filter(item => item.score >= MULTI_AGENT_CONFIG.minAgentScore)
+      .map(item => item.agent);
+
+    return [scores[0].agent, ..._secondary].slice(0, MULTI_AGENT_CONFIG.maxAgents);
+  }
+
   /**
    * Calculate handling score for this agent
    */
@@ -5,6 +5,7 @@
 
 import { BaseAgent } from './base-agent';
 import { PRODUCT_MANAGER_CONFIG, ROUTING_KEYWORDS } from './config';
+import type { AgentToolSession } from './tools';
 import type { AgentContext, AgentResponse } from './types';
 
 export class ProductManagerAgent extends BaseAgent {
@@ -86,6 +87,8 @@ export class ProductManagerAgent extends BaseAgent {
         }
       }
 
+      const tools = this.createToolSession(context);
+
       // Identify the type of query to provide focused response
       const queryType = this.identifyQueryType(context.userMessage);
       this.log('debug', `Query classified as: ${queryType.type} (confidence: ${queryType.confidence})`);
@@ -98,7 +101,7 @@ export class ProductManagerAgent extends BaseAgent {
           response = await this.generateCatalogAnalysis(context, ragContext);
           break;
         case 'pricing_strategy':
-          response = await this.generatePricingStrategy(context, ragContext);
+          response = await this.generatePricingStrategy(context, ragContext, tools);
           break;
         case 'product_recommendations':
           response = await this.generateProductRecommendations(context, ragContext);
@@ -119,14 +122,14 @@ export class ProductManagerAgent extends BaseAgent {
       const executionTime = Date.now() - startTime;
       this.log('info', `Product management response generated in ${executionTime}ms`);
 
-      return this.createResponse(
+      return this.attachToolActions(this.createResponse(
         true,
         response,
         queryType.confidence,
         queryType.reasoning,
         ragContext,
         executionTime
-      );
+      ), tools);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       this.log('error', `Product management processing failed: ${errorMessage}`);
@@ -302,7 +305,12 @@ ${ragContext}
 Análisis completado - información específica de tu catálogo disponible.`;
   }
 
-  private async generatePricingStrategy(context: AgentContext, ragContext: string): Promise<string> {
+  private async generatePricingStrategy(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
+    // Explicit price changes are proposed through the update_price tool and wait for approval
+    if (/\b(cambi[aá]|cambiar|sub[ií]|subir|baj[aá]|bajar|pon[eé]|poner|actualiz[aá]|actualizar)\b.*\bprecio/i.test(context.userMessage)) {
+      return await this.generatePriceChangeProposal(context, ragContext, tools);
+    }
+
     const hasData = ragContext && ragContext.length > 50 && !ragContext.includes('ESTADO DE DATOS') && !ragContext.includes('No hay datos');
     
     if (!hasData) {
@@ -362,6 +370,23 @@ ${ragContext}
 Análisis de precios completado con datos específicos de tu tienda.`;
   }
 
+  /**
+   * Find the variant with get_products and propose the new price with
+   * update_price. Nothing changes until the merchant approves it.
+   */
+  private async generatePriceChangeProposal(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
+    const systemPrompt = this.config.prompts.systemPrompt;
+    const enhancedPrompt = `El usuario quiere cambiar precios: "${context.userMessage}"
+
+INSTRUCCIONES:
+- Buscá el producto y la variante con get_products (usá los IDs exactos que devuelve)
+- Proponé el cambio con update_price; queda pendiente hasta que el usuario lo apruebe
+- Si el pedido es ambiguo (varios productos o variantes posibles), preguntá antes de proponer
+- Indicá precio actual y precio nuevo`;
+
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
+  }
+
   /**
    * 🚀 ENHANCED: Get relevant context using LangChain RAG system
    */
@@ -5,6 +5,7 @@
 
 import { BaseAgent } from './base-agent';
 import { STOCK_MANAGER_CONFIG, ROUTING_KEYWORDS } from './config';
+import type { AgentToolSession } from './tools';
 import type { AgentContext, AgentResponse } from './types';
 
 export class StockManagerAgent extends BaseAgent {
@@ -56,6 +57,7 @@ export class StockManagerAgent extends BaseAgent {
     try {
       // Get relevant context from RAG
       const ragContext = await this.getRelevantContext(context.userMessage, context);
+      const tools = this.createToolSession(context);
       
       // Identify the type of inventory request
       const queryType = this.identifyQueryType(context.userMessage);
@@ -67,45 +69,45 @@ export class StockManagerAgent extends BaseAgent {
 
       switch (queryType.type) {
         case 'stock_levels':
-          response = await this.analyzeStockLevels(context, ragContext);
+          response = await this.analyzeStockLevels(context, ragContext, tools);
           confidence = 0.9;
           break;
         case 'replenishment':
-          response = await this.generateReplenishmentPlan(context, ragContext);
+          response = await this.generateReplenishmentPlan(context, ragContext, tools);
           confidence = 0.9;
           break;
         case 'slow_moving':
-          response = await this.analyzeSlowMovingStock(context, ragContext);
+          response = await this.analyzeSlowMovingStock(context, ragContext, tools);
           confidence = 0.85;
           break;
         case 'alerts':
-          response = await this.generateStockAlerts(context, ragContext);
+          response = await this.generateStockAlerts(context, ragContext, tools);
           confidence = 0.9;
           break;
         case 'demand_forecast':
-          response = await this.generateDemandForecast(context, ragContext);
+          response = await this.generateDemandForecast(context, ragContext, tools);
           confidence = 0.8;
           break;
         case 'inventory_optimization':
-          response = await this.optimizeInventory(context, ragContext);
+          response = await this.optimizeInventory(context, ragContext, tools);
           confidence = 0.85;
           break;
         default:
-          response = await this.generateGeneralInventoryAdvice(context, ragContext);
+          response = await this.generateGeneralInventoryAdvice(context, ragContext, tools);
           confidence = 0.6;
       }
 
       const executionTime = Date.now() - startTime;
       this.log('info', `Stock management response generated in ${executionTime}ms`);
 
-      return this.createResponse(
+      return this.attachToolActions(this.createResponse(
         true,
         response,
         confidence,
         `Inventory analysis completed: ${queryType.reasoning}`,
         ragContext,
         executionTime
-      );
+      ), tools);
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -195,7 +197,7 @@ export class StockManagerAgent extends BaseAgent {
     return { type: 'general', reasoning: 'General inventory inquiry', confidence: 0.5 };
   }
 
-  private async analyzeStockLevels(context: AgentContext, ragContext: string): Promise<string> {
+  private async analyzeStockLevels(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -214,10 +216,10 @@ Proporciona un análisis detallado de niveles de stock que incluya:
 
 Incluye datos específicos, cronogramas y acciones concretas.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateReplenishmentPlan(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateReplenishmentPlan(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -235,12 +237,13 @@ Desarrolla un plan de reposición integral que incluya:
 - Estrategias para optimizar capital de trabajo
 - Proveedores recomendados y términos de compra
 
-Proporciona un plan de acción específico con fechas y cantidades.`;
+Proporciona un plan de acción específico con fechas y cantidades.
+Si el usuario pide cargar o corregir stock, proponé el cambio con update_stock (queda pendiente de su aprobación).`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async analyzeSlowMovingStock(context: AgentContext, ragContext: string): Promise<string> {
+  private async analyzeSlowMovingStock(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -260,10 +263,10 @@ Analiza productos de movimiento lento y proporciona:
 
 Incluye estrategias creativas y realistas para el mercado argentino.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateStockAlerts(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateStockAlerts(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -283,10 +286,10 @@ Genera alertas proactivas de inventario que incluyan:
 
 Proporciona alertas específicas, accionables y priorizadas por impacto.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateDemandForecast(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateDemandForecast(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -306,10 +309,10 @@ Desarrolla proyecciones de demanda que incluyan:
 
 Considera especialmente la estacionalidad del mercado argentino.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async optimizeInventory(context: AgentContext, ragContext: string): Promise<string> {
+  private async optimizeInventory(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -330,10 +333,10 @@ Proporciona estrategias de optimización de inventario que incluyan:
 
 Enfócate en mejoras que generen impacto inmediato y sostenible.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 
-  private async generateGeneralInventoryAdvice(context: AgentContext, ragContext: string): Promise<string> {
+  private async generateGeneralInventoryAdvice(context: AgentContext, ragContext: string, tools: AgentToolSession): Promise<string> {
     const systemPrompt = this.config.prompts.systemPrompt;
     const userPrompt = this.formatPrompt(this.config.prompts.userPrompt, {
       userMessage: context.userMessage,
@@ -352,6 +355,6 @@ Proporciona asesoramiento general de inventario que incluya:
 
 Adapta las recomendaciones al contexto específico del usuario.`;
 
-    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext);
+    return await this.generateResponse(systemPrompt, enhancedPrompt, ragContext, tools);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,119 @@
+/**
+ * Agent Suggestions
+ * Structured options attached to an agent answer: follow-up questions, action
+ * confirmations and specialist choices. Channels render them (WhatsApp buttons
+ * or list pickers, numbered text as a fallback) and send the picked ID back.
+ */
+
+import type { AgentSuggestion, AgentType } from './types';
+
+export const FOLLOW_UP_SUGGESTION_PREFIX = 'sugerencia:';
+export const APPROVE_SUGGESTION_PREFIX = 'accion:aprobar:';
+export const REJECT_SUGGESTION_PREFIX = 'accion:rechazar:';
+export const AGENT_SUGGESTION_PREFIX = 'agente:';
+
+const MAX_FOLLOW_UPS = 3;
+
+export const AGENT_SUGGESTION_LABELS: Record<AgentType, string> = {
+  orchestrator: 'Asistente general',
+  analytics: 'Ventas y métricas',
+  customer_service: 'Atención al cliente',
+  marketing: 'Marketing',
+  stock_manager: 'Inventario',
+  financial_advisor: 'Finanzas',
+  business_consultant: 'Estrategia',
+  product_manager: 'Productos',
+  operations_manager: 'Operaciones',
+  sales_coach: 'Coaching de ventas'
+};
+
+export interface FollowUpQuestion {
+  // Short button label
+  title: string;
+  // Question processed when the merchant taps it
+  message: string;
+}
+
+/**
+ * Follow-up questions the merchant can ask with one tap
+ */
+export function createFollowUpSuggestions(questions: Array<string | FollowUpQuestion>): AgentSuggestion[] {
+  return questions
+    .map(question => (typeof question === 'string' ? { title: question, message: question } : question))
+    .filter(question => question.message.trim().length > 0)
+    .slice(0, MAX_FOLLOW_UPS)
+    .map((question, index) => ({
+      id: `${FOLLOW_UP_SUGGESTION_PREFIX}${index + 1}`,
+      kind: 'follow_up',
+      title: question.title.trim(),
+      message: question.message.trim()
+    }));
+}
+
+/**
+ * Confirm / cancel options for an action awaiting approval (same effect as SI / NO)
+ */
+export function createApprovalSuggestions(action: { id: string; description: string }): AgentSuggestion[] {
+  return [
+    {
+      id: `${APPROVE_SUGGESTION_PREFIX}${action.id}`,
+      kind: 'action_confirmation',
+      title: '✅ Confirmar',
+      description: action.description,
+      actionId: action.id,
+      decision: 'approve'
+    },
+    {
+      id: `${REJECT_SUGGESTION_PREFIX}${action.id}`,
+      kind: 'action_confirmation',
+      title: '❌ Cancelar',
+      description: action.description,
+      actionId: action.id,
+      decision: 'reject'
+    }
+  ];
+}
+
+/**
+ * Let the merchant choose which specialist answers an ambiguous message
+ */
+export function createAgentChoiceSuggestions(agentTypes: AgentType[], message: string): AgentSuggestion[] {
+  return Array.from(new Set(agentTypes))
+    .filter(agentType => agentType !== 'orchestrator')
+    .map(agentType => ({
+      id: `${AGENT_SUGGESTION_PREFIX}${agentType}`,
+      kind: 'agent_choice',
+      title: AGENT_SUGGESTION_LABELS[agentType] || agentType,
+      message,
+      agentType
+    }));
+}
+
+/**
+ * Decode an approval option ID, so a confirmation works even without the original suggestions
+ */
+export function parseActionSuggestionId(id: string | null | undefined): { actionId: string; decision: 'approve' | 'reject' } | null {
+  if (id?.startsWith(APPROVE_SUGGESTION_PREFIX)) {
+    return { actionId: id.slice(APPROVE_SUGGESTION_PREFIX.length), decision: 'approve' };
+  }
+  if (id?.startsWith(REJECT_SUGGESTION_PREFIX)) {
+    return { actionId: id.slice(REJECT_SUGGESTION_PREFIX.length), decision: 'reject' };
+  }
+  return null;
+}
+
+/**
+ * Option picked by a button / list reply (by ID) or by typing its number in the text fallback
+ */
+export function findSuggestion(
+  suggestions: AgentSuggestion[],
+  message: string,
+  interactiveReplyId?: string | null
+): AgentSuggestion | null {
+  if (interactiveReplyId) {
+    return suggestions.find(suggestion => suggestion.id === interactiveReplyId) || null;
+  }
+
+  const number = (message || '').trim().match(/^(\d{1,2})\.?$/);
+  return number ? suggestions[Number(number[1]) - 1] || null : null;
+}
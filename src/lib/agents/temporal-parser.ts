@@ -0,0 +1,443 @@
+/**
+ * Temporal Parser
+ * Turns es-AR date expressions in user queries ("el mes pasado", "últimos 15 días",
+ * "semana del 3 de marzo", "comparado con el año pasado") into TimeRange values,
+ * with day boundaries computed in the store's timezone
+ */
+
+import type { TimeRange } from '@/types/agents';
+
+export const DEFAULT_STORE_TIMEZONE = 'America/Argentina/Buenos_Aires';
+
+export interface ParsedTimeRange {
+  range: TimeRange;
+  comparison?: TimeRange;
+  label: string;
+  comparisonLabel?: string;
+  matchedText: string;
+  timezone: string;
+}
+
+export interface TemporalParserOptions {
+  timezone?: string;
+  now?: Date;
+}
+
+// Calendar date in the store timezone (month is 0-based)
+export interface LocalDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+interface LocalRange {
+  start: LocalDate;
+  end: LocalDate; // Inclusive
+  label: string;
+  matchedText: string;
+  // Comparison of a range that runs up to now: its last day ends at the current time of day
+  partialLastDay?: boolean;
+}
+
+const MONTHS: Record<string, number> = {
+  enero: 0, febrero: 1, marzo: 2, abril: 3, mayo: 4, junio: 5, julio: 6,
+  agosto: 7, septiembre: 8, setiembre: 8, octubre: 9, noviembre: 10, diciembre: 11
+};
+
+const MONTH_NAMES = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+
+const NUMBER_WORDS: Record<string, number> = {
+  un: 1, una: 1, uno: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8,
+  nueve: 9, diez: 10, once: 11, doce: 12, quince: 15, veinte: 20, treinta: 30, sesenta: 60, noventa: 90
+};
+
+const MONTH_PATTERN = Object.keys(MONTHS).join('|');
+const NUMBER_PATTERN = `\\d{1,3}|${Object.keys(NUMBER_WORDS).join('|')}`;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ================================================
+// TIMEZONE HELPERS
+// ================================================
+
+/**
+ * Offset (ms) between the wall clock in `timezone` and UTC at a given instant
+ */
+function getTimezoneOffset(instant: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant);
+
+  const value = (type: string) => Number(parts.find(part => part.type === type)?.value);
+  const wallClock = Date.UTC(value('year'), value('month') - 1, value('day'), value('hour'), value('minute'), value('second'));
+
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * UTC instant of a wall-clock time in `timezone`
+ */
+function toInstant(date: LocalDate, timezone: string, endOfDay = false): Date {
+  const wallClock = endOfDay
+    ? Date.UTC(date.year, date.month, date.day, 23, 59, 59, 999)
+    : Date.UTC(date.year, date.month, date.day);
+  const offset = getTimezoneOffset(new Date(wallClock), timezone);
+  return new Date(wallClock - offset);
+}
+
+/**
+ * UTC instant of a wall-clock time of day in `timezone`
+ */
+export function zonedTimeToInstant(date: LocalDate, hour: number, minute: number, timezone: string): Date {
+  const wallClock = Date.UTC(date.year, date.month, date.day, hour, minute);
+  const offset = getTimezoneOffset(new Date(wallClock), timezone);
+  return new Date(wallClock - offset);
+}
+
+export function toLocalDate(instant: Date, timezone: string): LocalDate {
+  const shifted = new Date(instant.getTime() + getTimezoneOffset(instant, timezone));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+}
+
+export function addDays(date: LocalDate, days: number): LocalDate {
+  const shifted = new Date(Date.UTC(date.year, date.month, date.day) + days * DAY_MS);
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth(), day: shifted.getUTCDate() };
+}
+
+function addMonths(date: LocalDate, months: number): LocalDate {
+  const target = new Date(Date.UTC(date.year, date.month + months, 1));
+  const lastDay = daysInMonth(target.getUTCFullYear(), target.getUTCMonth());
+  return { year: target.getUTCFullYear(), month: target.getUTCMonth(), day: Math.min(date.day, lastDay) };
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function startOfWeek(date: LocalDate): LocalDate {
+  // Weeks start on Monday (es-AR)
+  const weekday = new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay();
+  return addDays(date, -((weekday + 6) % 7));
+}
+
+function compareDates(a: LocalDate, b: LocalDate): number {
+  return Date.UTC(a.year, a.month, a.day) - Date.UTC(b.year, b.month, b.day);
+}
+
+function formatLocalDate(date: LocalDate): string {
+  return `${date.day} de ${MONTH_NAMES[date.month]} de ${date.year}`;
+}
+
+// ================================================
+// PARSING
+// ================================================
+
+function normalize(message: string): string {
+  return message
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/\s+/g, ' ');
+}
+
+function toNumber(token: string): number {
+  return NUMBER_WORDS[token] ?? parseInt(token, 10);
+}
+
+function isValidDate(date: LocalDate): boolean {
+  return date.month >= 0 && date.month <= 11 && date.day >= 1 && date.day <= daysInMonth(date.year, date.month);
+}
+
+/**
+ * Resolve a day/month mentioned without year: the most recent occurrence.
+ * Null when the date does not exist ("31 de febrero", "10/20")
+ */
+function resolveYear(month: number, day: number, today: LocalDate, explicitYear?: string): LocalDate | null {
+  if (explicitYear) {
+    const date = { year: parseInt(explicitYear, 10), month, day };
+    return isValidDate(date) ? date : null;
+  }
+  const candidate = { year: today.year, month, day };
+  const resolved = compareDates(candidate, today) > 0 ? { ...candidate, year: today.year - 1 } : candidate;
+  return isValidDate(resolved) ? resolved : null;
+}
+
+function periodFor(start: LocalDate, end: LocalDate): TimeRange['period'] {
+  const days = Math.round(compareDates(end, start) / DAY_MS) + 1;
+  if (days <= 1) return 'day';
+  if (days <= 7) return 'week';
+  if (days <= 31) return 'month';
+  if (days <= 92) return 'quarter';
+  return 'year';
+}
+
+function matchRange(text: string, today: LocalDate): LocalRange | null {
+  let match: RegExpMatchArray | null;
+
+  // "del 1 al 15 de marzo", "entre el 1 y el 15 de marzo"
+  match = text.match(new RegExp(`(?:del|entre el) (\\d{1,2}) (?:al|y el) (\\d{1,2}) de (${MONTH_PATTERN})(?: (?:de |del )?(\\d{4}))?`));
+  if (match) {
+    const start = resolveYear(MONTHS[match[3]], parseInt(match[1], 10), today, match[4]);
+    if (!start) return null;
+    const end = { ...start, day: parseInt(match[2], 10) };
+    if (!isValidDate(end) || compareDates(end, start) < 0) return null;
+    return { start, end, label: `del ${match[1]} al ${match[2]} de ${match[3]} de ${start.year}`, matchedText: match[0] };
+  }
+
+  // "semana del 3 de marzo"
+  match = text.match(new RegExp(`semana del (\\d{1,2}) de (${MONTH_PATTERN})(?: (?:de |del )?(\\d{4}))?`));
+  if (match) {
+    const reference = resolveYear(MONTHS[match[2]], parseInt(match[1], 10), today, match[3]);
+    if (!reference) return null;
+    const start = startOfWeek(reference);
+    return { start, end: addDays(start, 6), label: `semana del ${formatLocalDate(reference)}`, matchedText: match[0] };
+  }
+
+  // "desde el 1 de marzo"
+  match = text.match(new RegExp(`desde el (\\d{1,2}) de (${MONTH_PATTERN})(?: (?:de |del )?(\\d{4}))?`));
+  if (match) {
+    const start = resolveYear(MONTHS[match[2]], parseInt(match[1], 10), today, match[3]);
+    if (!start) return null;
+    return { start, end: today, label: `desde el ${formatLocalDate(start)}`, matchedText: match[0] };
+  }
+
+  // "últimos 15 días", "las últimas dos semanas", "últimos 3 meses"
+  match = text.match(new RegExp(`ultim[oa]s (${NUMBER_PATTERN}) (dias|semanas|meses|anos)`));
+  if (match) {
+    const amount = toNumber(match[1]);
+    if (!(amount >= 1)) return null;
+    const unit = match[2];
+    const start = unit === 'dias' ? addDays(today, -(amount - 1))
+      : unit === 'semanas' ? addDays(today, -(amount * 7 - 1))
+      : unit === 'meses' ? addDays(addMonths(today, -amount), 1)
+      : addDays(addMonths(today, -amount * 12), 1);
+    return { start, end: today, label: `${unit === 'semanas' ? 'últimas' : 'últimos'} ${amount} ${unit.replace('dias', 'días').replace('anos', 'años')}`, matchedText: match[0] };
+  }
+
+  // "última semana", "último mes", "último año" (rolling)
+  match = text.match(/ultim[oa] (semana|mes|ano|trimestre)/);
+  if (match) {
+    const months = { mes: 1, trimestre: 3, ano: 12 }[match[1] as 'mes' | 'trimestre' | 'ano'];
+    const start = match[1] === 'semana' ? addDays(today, -6) : addDays(addMonths(today, -months), 1);
+    return { start, end: today, label: match[0].replace('ultim', 'últim').replace('ano', 'año'), matchedText: match[0] };
+  }
+
+  // Single dates: "el 3 de marzo", "3/3", "03/03/2024"
+  match = text.match(new RegExp(`(?:el )?(\\d{1,2}) de (${MONTH_PATTERN})(?: (?:de |del )?(\\d{4}))?`));
+  if (match) {
+    const date = resolveYear(MONTHS[match[2]], parseInt(match[1], 10), today, match[3]);
+    if (!date) return null;
+    return { start: date, end: date, label: `el ${formatLocalDate(date)}`, matchedText: match[0] };
+  }
+  match = text.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}))?\b/);
+  if (match) {
+    // "24/7" is an opening hours expression, not the 24th of July
+    const date = match[0] === '24/7' ? null : resolveYear(parseInt(match[2], 10) - 1, parseInt(match[1], 10), today, match[3]);
+    if (!date) return null;
+    return { start: date, end: date, label: `el ${formatLocalDate(date)}`, matchedText: match[0] };
+  }
+
+  // Relative days
+  if (/\banteayer\b/.test(text)) {
+    const date = addDays(today, -2);
+    return { start: date, end: date, label: 'anteayer', matchedText: 'anteayer' };
+  }
+  if (/\bayer\b/.test(text)) {
+    const date = addDays(today, -1);
+    return { start: date, end: date, label: 'ayer', matchedText: 'ayer' };
+  }
+  if (/\bhoy\b/.test(text)) {
+    return { start: today, end: today, label: 'hoy', matchedText: 'hoy' };
+  }
+
+  // Calendar weeks
+  if (/semana pasada|semana anterior/.test(text)) {
+    const start = addDays(startOfWeek(today), -7);
+    return { start, end: addDays(start, 6), label: 'la semana pasada', matchedText: 'semana pasada' };
+  }
+  if (/esta semana/.test(text)) {
+    return { start: startOfWeek(today), end: today, label: 'esta semana', matchedText: 'esta semana' };
+  }
+
+  // Calendar months
+  if (/mes pasado|mes anterior/.test(text)) {
+    const start = { year: today.year, month: today.month, day: 1 };
+    const previous = addMonths(start, -1);
+    return { start: previous, end: { ...previous, day: daysInMonth(previous.year, previous.month) }, label: 'el mes pasado', matchedText: 'mes pasado' };
+  }
+  if (/este mes|en lo que va del mes/.test(text)) {
+    return { start: { ...today, day: 1 }, end: today, label: 'este mes', matchedText: 'este mes' };
+  }
+
+  // Quarters
+  if (/trimestre pasado|trimestre anterior/.test(text)) {
+    const currentQuarterStart = { year: today.year, month: Math.floor(today.month / 3) * 3, day: 1 };
+    const start = addMonths(currentQuarterStart, -3);
+    const endMonth = addMonths(start, 2);
+    return { start, end: { ...endMonth, day: daysInMonth(endMonth.year, endMonth.month) }, label: 'el trimestre pasado', matchedText: 'trimestre pasado' };
+  }
+  if (/este trimestre/.test(text)) {
+    return { start: { year: today.year, month: Math.floor(today.month / 3) * 3, day: 1 }, end: today, label: 'este trimestre', matchedText: 'este trimestre' };
+  }
+
+  // Calendar years
+  if (/ano pasado|ano anterior/.test(text)) {
+    return { start: { year: today.year - 1, month: 0, day: 1 }, end: { year: today.year - 1, month: 11, day: 31 }, label: `el año pasado (${today.year - 1})`, matchedText: 'ano pasado' };
+  }
+  if (/este ano|en lo que va del ano/.test(text)) {
+    return { start: { year: today.year, month: 0, day: 1 }, end: today, label: 'este año', matchedText: 'este ano' };
+  }
+
+  // Month names: "en marzo", "marzo de 2024"
+  match = text.match(new RegExp(`\\b(${MONTH_PATTERN})(?: (?:de |del )?(\\d{4}))?\\b`));
+  if (match) {
+    const month = MONTHS[match[1]];
+    const start = resolveYear(month, 1, today, match[2]);
+    if (!start) return null;
+    return {
+      start,
+      end: { ...start, day: daysInMonth(start.year, month) },
+      label: `${match[1]} de ${start.year}`,
+      matchedText: match[0]
+    };
+  }
+
+  return null;
+}
+
+const COMPARISON_PATTERN = /\bcompar\w*|\bvs\.?(?=\s|$)|\bversus\b|\bcontra\b|\brespecto\b|\bfrente a\b/;
+
+/**
+ * Comparison range from the text after the comparison keyword
+ * ("comparado con el año pasado", "vs ayer", "contra marzo")
+ */
+function matchComparison(text: string, range: LocalRange, today: LocalDate): LocalRange {
+  // A range up to today ("este mes") is compared with the same stretch of the other period
+  const toDate = compareDates(range.end, today) === 0;
+  const shiftBy = (months: number, label: string): LocalRange => ({
+    start: addMonths(range.start, months),
+    end: addMonths(range.end, months),
+    label,
+    matchedText: text,
+    partialLastDay: toDate
+  });
+
+  if (/ano pasado|ano anterior|mismo periodo del ano/.test(text)) {
+    return shiftBy(-12, 'el mismo período del año pasado');
+  }
+  if (/mes pasado|mes anterior/.test(text) && (toDate || periodFor(range.start, range.end) !== 'month')) {
+    return shiftBy(-1, 'el mismo período del mes anterior');
+  }
+
+  const explicit = matchRange(text, today);
+  if (explicit) {
+    return explicit;
+  }
+
+  // Whole calendar months: the same number of months right before
+  if (range.start.day === 1 && range.end.day === daysInMonth(range.end.year, range.end.month)) {
+    const months = (range.end.year - range.start.year) * 12 + range.end.month - range.start.month + 1;
+    const start = addMonths(range.start, -months);
+    const endMonth = addMonths(range.start, -1);
+    return { start, end: { ...endMonth, day: daysInMonth(endMonth.year, endMonth.month) }, label: 'el período anterior', matchedText: text };
+  }
+
+  // Default: the period of equal length right before
+  const lengthDays = Math.round(compareDates(range.end, range.start) / DAY_MS) + 1;
+  const end = addDays(range.start, -1);
+  return { start: addDays(end, -(lengthDays - 1)), end, label: 'el período anterior', matchedText: text, partialLastDay: toDate };
+}
+
+/**
+ * Instants of a local range. Ranges never end after now, so "hoy" or
+ * "últimos 7 días" stop at the current time instead of the end of the day.
+ */
+function toTimeRange(range: LocalRange, timezone: string, now: Date): TimeRange {
+  const elapsedToday = now.getTime() - toInstant(toLocalDate(now, timezone), timezone).getTime();
+  const end = range.partialLastDay
+    ? new Date(toInstant(range.end, timezone).getTime() + elapsedToday)
+    : toInstant(range.end, timezone, true);
+  return {
+    start: toInstant(range.start, timezone).toISOString(),
+    end: (end > now ? now : end).toISOString(),
+    period: periodFor(range.start, range.end)
+  };
+}
+
+/**
+ * Parse the first time expression in a message.
+ * Returns null when the message has no recognizable date reference.
+ */
+export function parseTimeRange(message: string, options: TemporalParserOptions = {}): ParsedTimeRange | null {
+  const timezone = options.timezone || DEFAULT_STORE_TIMEZONE;
+  const now = options.now || new Date();
+  const text = normalize(message);
+
+  let today: LocalDate;
+  try {
+    today = toLocalDate(now, timezone);
+  } catch {
+    // Invalid timezone identifier: fall back to the default store timezone
+    return timezone === DEFAULT_STORE_TIMEZONE ? null : parseTimeRange(message, { ...options, timezone: DEFAULT_STORE_TIMEZONE });
+  }
+
+  const comparisonMatch = text.match(COMPARISON_PATTERN);
+  if (!comparisonMatch) {
+    const range = matchRange(text, today);
+    return range ? buildResult(range, null, timezone, now) : null;
+  }
+
+  const before = text.slice(0, comparisonMatch.index);
+  const after = text.slice(comparisonMatch.index + comparisonMatch[0].length);
+
+  // Primary range comes before the keyword; "comparado con el año pasado"
+  // alone means this year to date
+  const range = matchRange(before, today) ||
+    (/ano/.test(after) ? { start: { year: today.year, month: 0, day: 1 }, end: today, label: 'este año', matchedText: '' } : null) ||
+    (/mes/.test(after) ? { start: { ...today, day: 1 }, end: today, label: 'este mes', matchedText: '' } : null) ||
+    matchRange(after, today);
+
+  if (!range) {
+    return null;
+  }
+
+  return buildResult(range, matchComparison(after, range, today), timezone, now);
+}
+
+function buildResult(range: LocalRange, comparison: LocalRange | null, timezone: string, now: Date): ParsedTimeRange {
+  return {
+    range: toTimeRange(range, timezone, now),
+    comparison: comparison ? toTimeRange(comparison, timezone, now) : undefined,
+    label: range.label,
+    comparisonLabel: comparison?.label,
+    matchedText: range.matchedText,
+    timezone
+  };
+}
+
+/**
+ * Human-readable description of a parsed range, for prompts
+ */
+export function describeTimeRange(parsed: ParsedTimeRange): string {
+  const lines = [
+    `PERÍODO CONSULTADO: ${parsed.label} (${parsed.range.start} a ${parsed.range.end}, zona horaria ${parsed.timezone})`
+  ];
+  if (parsed.comparison) {
+    lines.push(`PERÍODO DE COMPARACIÓN: ${parsed.comparisonLabel} (${parsed.comparison.start} a ${parsed.comparison.end})`);
+  }
+  lines.push('Usá exclusivamente datos de estos períodos al responder y al consultar herramientas.');
+  return lines.join('\n');
+}
+
+/**
+ * Convert a parsed TimeRange into Date bounds for metric calculations
+ */
+export function toDateRange(range: TimeRange): { start: Date; end: Date } {
+  return { start: new Date(range.start), end: new Date(range.end) };
+}
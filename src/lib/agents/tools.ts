@@ -0,0 +1,577 @@
+/**
+ * Agent Tools
+ * Typed registry of live Tienda Nube queries that agents can call through
+ * the LLM function-calling interface
+ */
+
+import crypto from 'crypto';
+
+import { TiendaNubeAPI } from '@/lib/integrations/tiendanube';
+import type { TiendaNubeWriteOptions, TiendaNubeWriteResult } from '@/lib/integrations/tiendanube';
+import type { TiendaNubeCouponType, TiendaNubeOrder, TiendaNubeProduct } from '@/types/tiendanube';
+import { AgentActionLog } from './action-log';
+import type { AgentAction, AgentType } from './types';
+
+export type AgentToolName =
+  | 'get_orders'
+  | 'get_products'
+  | 'get_revenue'
+  | 'get_top_products'
+  | 'get_pending_orders'
+  | 'update_stock'
+  | 'update_price'
+  | 'create_coupon'
+  | 'mark_order_packed'
+  | 'mark_order_fulfilled'
+  | 'add_order_note';
+
+export interface AgentTool {
+  name: AgentToolName;
+  description: string;
+  // JSON schema for the tool arguments (OpenAI function-calling format)
+  parameters: {
+    type: 'object';
+    properties: Record<string, unknown>;
+    required?: string[];
+  };
+  // Writes to the store: recorded in agent_actions and run with an idempotency key
+  mutation?: boolean;
+  execute(api: TiendaNubeAPI, args: Record<string, unknown>, options?: TiendaNubeWriteOptions): Promise<unknown>;
+}
+
+// OpenAI chat completions tool definition
+export interface AgentToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: AgentTool['parameters'];
+  };
+}
+
+const MAX_TOOL_RESULT_ITEMS = 50;
+const PERIOD_PARAMETER = {
+  type: 'string',
+  enum: ['day', 'week', 'month'],
+  description: 'Período a consultar: day (últimas 24h), week (últimos 7 días), month (último mes)'
+};
+const DRY_RUN_PARAMETER = {
+  type: 'boolean',
+  description: 'true para simular el cambio sin aplicarlo (mostrar al usuario qué se haría)'
+};
+
+/**
+ * Reduce an order to the fields the LLM needs to quote exact figures
+ */
+function summarizeOrder(order: TiendaNubeOrder) {
+  return {
+    id: order.id,
+    number: order.number,
+    status: order.status,
+    payment_status: order.payment_status,
+    total: order.total,
+    currency: order.currency,
+    created_at: order.created_at,
+    customer: order.customer?.name,
+    products: (order.products || []).map(product => ({
+      name: product.name,
+      sku: product.sku,
+      quantity: product.quantity,
+      price: product.price
+    }))
+  };
+}
+
+/**
+ * Reduce a product to name, prices and stock per variant
+ */
+function summarizeProduct(product: TiendaNubeProduct) {
+  const name = typeof product.name === 'object' && product.name !== null
+    ? (product.name as Record<string, string>).es || Object.values(product.name as Record<string, string>)[0]
+    : product.name;
+
+  return {
+    id: product.id,
+    name,
+    published: product.published,
+    variants: (product.variants || []).map(variant => ({
+      id: variant.id,
+      sku: variant.sku,
+      price: variant.price,
+      promotional_price: variant.promotional_price,
+      stock: variant.stock_management ? variant.stock : null
+    }))
+  };
+}
+
+function toLimit(value: unknown, fallback: number): number {
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit <= 0) return fallback;
+  return Math.min(Math.floor(limit), MAX_TOOL_RESULT_ITEMS);
+}
+
+function toPeriod(value: unknown): 'day' | 'week' | 'month' {
+  return value === 'day' || value === 'month' ? value : 'week';
+}
+
+function toOptionalNumber(value: unknown): number | undefined {
+  return value === undefined || value === null || value === '' ? undefined : Number(value);
+}
+
+/**
+ * Reduce a write result to what the LLM needs to confirm the change
+ */
+function summarizeWrite(result: TiendaNubeWriteResult<unknown>, data?: unknown) {
+  return {
+    dryRun: result.dryRun,
+    replayed: result.replayed,
+    request: result.request,
+    ...(result.data !== undefined ? { data: data ?? result.data } : {})
+  };
+}
+
+export const AGENT_TOOLS: Record<AgentToolName, AgentTool> = {
+  get_orders: {
+    name: 'get_orders',
+    description: 'Obtiene órdenes de la tienda, opcionalmente filtradas por fecha y estado. Usar para preguntas sobre ventas u órdenes específicas. count es el total de órdenes que cumplen el filtro; orders trae solo las primeras.',
+    parameters: {
+      type: 'object',
+      properties: {
+        created_at_min: { type: 'string', description: 'Fecha ISO 8601 mínima de creación' },
+        created_at_max: { type: 'string', description: 'Fecha ISO 8601 máxima de creación' },
+        status: { type: 'string', enum: ['open', 'closed', 'cancelled', 'any'] },
+        payment_status: { type: 'string', enum: ['pending', 'authorized', 'paid', 'voided', 'refunded'] },
+        limit: { type: 'number', description: `Cantidad máxima de órdenes (máx ${MAX_TOOL_RESULT_ITEMS})` }
+      }
+    },
+    async execute(api, args) {
+      const filters = {
+        created_at_min: args.created_at_min as string | undefined,
+        created_at_max: args.created_at_max as string | undefined,
+        status: args.status as string | undefined,
+        payment_status: args.payment_status as string | undefined
+      };
+      const limit = toLimit(args.limit, 25);
+
+      // Only the orders the LLM gets are read; the total comes from the count header
+      const [orders, total] = await Promise.all([
+        TiendaNubeAPI.collect(api.iterateOrders({ ...filters, maxItems: limit, perPage: limit })),
+        api.countOrders(filters)
+      ]);
+
+      return {
+        count: total ?? orders.length,
+        ...(total === null && orders.length >= limit ? { count_truncated: true } : {}),
+        orders: orders.map(summarizeOrder)
+      };
+    }
+  },
+
+  get_products: {
+    name: 'get_products',
+    description: 'Obtiene productos del catálogo con precios y stock por variante. Usar para precios, stock o información de catálogo.',
+    parameters: {
+      type: 'object',
+      properties: {
+        published: { type: 'boolean', description: 'Filtrar por productos publicados' },
+        limit: { type: 'number', description: `Cantidad máxima de productos (máx ${MAX_TOOL_RESULT_ITEMS})` }
+      }
+    },
+    async execute(api, args) {
+      const products = await api.getProducts({
+        published: typeof args.published === 'boolean' ? args.published : undefined,
+        limit: toLimit(args.limit, MAX_TOOL_RESULT_ITEMS)
+      });
+      const validProducts = Array.isArray(products) ? products : [];
+      return { count: validProducts.length, products: validProducts.map(summarizeProduct) };
+    }
+  },
+
+  get_revenue: {
+    name: 'get_revenue',
+    description: 'Calcula facturación total, cantidad de órdenes pagas y ticket promedio para un período.',
+    parameters: {
+      type: 'object',
+      properties: { period: PERIOD_PARAMETER },
+      required: ['period']
+    },
+    async execute(api, args) {
+      const revenue = await api.getRevenue(toPeriod(args.period));
+      return {
+        period: revenue.period,
+        totalRevenue: revenue.totalRevenue,
+        totalOrders: revenue.totalOrders,
+        averageOrderValue: revenue.averageOrderValue
+      };
+    }
+  },
+
+  get_top_products: {
+    name: 'get_top_products',
+    description: 'Devuelve los productos más vendidos de un período ordenados por facturación.',
+    parameters: {
+      type: 'object',
+      properties: {
+        period: PERIOD_PARAMETER,
+        limit: { type: 'number', description: 'Cantidad de productos a devolver' }
+      }
+    },
+    async execute(api, args) {
+      const topProducts = await api.getTopProducts(toPeriod(args.period), toLimit(args.limit, 5));
+      return topProducts.map(item => ({
+        product_id: item.product.product_id,
+        name: item.product.name,
+        sku: item.product.sku,
+        quantity: item.quantity,
+        revenue: item.revenue
+      }));
+    }
+  },
+
+  get_pending_orders: {
+    name: 'get_pending_orders',
+    description: 'Lista las órdenes pendientes de la tienda.',
+    parameters: {
+      type: 'object',
+      properties: {}
+    },
+    async execute(api) {
+      const orders = await api.getPendingOrders();
+      return { count: orders.length, orders: orders.slice(0, MAX_TOOL_RESULT_ITEMS).map(summarizeOrder) };
+    }
+  },
+
+  update_stock: {
+    name: 'update_stock',
+    description: 'Actualiza el stock de una variante de producto. Usar solo cuando el usuario pide explícitamente cambiar el stock.',
+    mutation: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        product_id: { type: 'number' },
+        variant_id: { type: 'number' },
+        stock: { type: ['number', 'null'], description: 'Nuevo stock (entero >= 0). null = stock infinito' },
+        dry_run: DRY_RUN_PARAMETER
+      },
+      required: ['product_id', 'variant_id', 'stock']
+    },
+    async execute(api, args, options) {
+      const stock = args.stock === null ? null : Number(args.stock);
+      const result = await api.updateVariantStock(Number(args.product_id), Number(args.variant_id), stock, options);
+      return summarizeWrite(result);
+    }
+  },
+
+  update_price: {
+    name: 'update_price',
+    description: 'Actualiza el precio (y opcionalmente el precio promocional) de una variante. Usar solo cuando el usuario pide explícitamente cambiar precios.',
+    mutation: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        product_id: { type: 'number' },
+        variant_id: { type: 'number' },
+        price: { type: 'number', description: 'Nuevo precio de lista' },
+        promotional_price: { type: ['number', 'null'], description: 'Precio promocional (menor al precio). null para quitarlo' },
+        dry_run: DRY_RUN_PARAMETER
+      },
+      required: ['product_id', 'variant_id', 'price']
+    },
+    async execute(api, args, options) {
+      const result = await api.updateVariantPrice(Number(args.product_id), Number(args.variant_id), {
+        price: Number(args.price),
+        promotional_price: args.promotional_price === null ? null : toOptionalNumber(args.promotional_price)
+      }, options);
+      return summarizeWrite(result);
+    }
+  },
+
+  create_coupon: {
+    name: 'create_coupon',
+    description: 'Crea un cupón de descuento en la tienda. Usar solo cuando el usuario pide explícitamente crear un cupón.',
+    mutation: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        code: { type: 'string', description: 'Código del cupón (letras, números, - o _)' },
+        type: { type: 'string', enum: ['percentage', 'absolute', 'shipping'] },
+        value: { type: 'number', description: 'Porcentaje (1-100) o monto fijo. No aplica a envío gratis' },
+        max_uses: { type: 'number', description: 'Cantidad máxima de usos' },
+        min_price: { type: 'number', description: 'Monto mínimo de compra' },
+        start_date: { type: 'string', description: 'Fecha de inicio YYYY-MM-DD' },
+        end_date: { type: 'string', description: 'Fecha de fin YYYY-MM-DD' },
+        dry_run: DRY_RUN_PARAMETER
+      },
+      required: ['code', 'type']
+    },
+    async execute(api, args, options) {
+      const result = await api.createCoupon({
+        code: String(args.code || ''),
+        type: args.type as TiendaNubeCouponType,
+        value: toOptionalNumber(args.value),
+        max_uses: toOptionalNumber(args.max_uses),
+        min_price: toOptionalNumber(args.min_price),
+        start_date: args.start_date as string | undefined,
+        end_date: args.end_date as string | undefined
+      }, options);
+      return summarizeWrite(result);
+    }
+  },
+
+  mark_order_packed: {
+    name: 'mark_order_packed',
+    description: 'Marca una orden como empaquetada.',
+    mutation: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        order_id: { type: 'number' },
+        dry_run: DRY_RUN_PARAMETER
+      },
+      required: ['order_id']
+    },
+    async execute(api, args, options) {
+      const result = await api.markOrderPacked(Number(args.order_id), options);
+      return summarizeWrite(result, result.data && summarizeOrder(result.data));
+    }
+  },
+
+  mark_order_fulfilled: {
+    name: 'mark_order_fulfilled',
+    description: 'Marca una orden como enviada, opcionalmente con código y URL de seguimiento.',
+    mutation: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        order_id: { type: 'number' },
+        tracking_number: { type: 'string', description: 'Código de seguimiento del envío' },
+        tracking_url: { type: 'string', description: 'URL de seguimiento del envío' },
+        notify_customer: { type: 'boolean', description: 'Avisar al cliente por email (por defecto true)' },
+        dry_run: DRY_RUN_PARAMETER
+      },
+      required: ['order_id']
+    },
+    async execute(api, args, options) {
+      const result = await api.markOrderFulfilled(Number(args.order_id), {
+        shipping_tracking_number: args.tracking_number as string | undefined,
+        shipping_tracking_url: args.tracking_url as string | undefined,
+        notify_customer: typeof args.notify_customer === 'boolean' ? args.notify_customer : undefined
+      }, options);
+      return summarizeWrite(result, result.data && summarizeOrder(result.data));
+    }
+  },
+
+  add_order_note: {
+    name: 'add_order_note',
+    description: 'Agrega una nota interna a una orden (no la ve el cliente).',
+    mutation: true,
+    parameters: {
+      type: 'object',
+      properties: {
+        order_id: { type: 'number' },
+        note: { type: 'string' },
+        dry_run: DRY_RUN_PARAMETER
+      },
+      required: ['order_id', 'note']
+    },
+    async execute(api, args, options) {
+      const result = await api.addOrderNote(Number(args.order_id), String(args.note || ''), options);
+      return summarizeWrite(result, result.data && { id: result.data.id, owner_note: result.data.owner_note });
+    }
+  }
+};
+
+/**
+ * Per-request tool session: resolves the store API lazily and records every
+ * call as an AgentAction so answers can be audited. Store mutations are also
+ * persisted to agent_actions.
+ */
+export class AgentToolSession {
+  public readonly actions: AgentAction[] = [];
+  private apiPromise: Promise<TiendaNubeAPI | null> | null = null;
+
+  constructor(
+    private readonly storeId: string,
+    private readonly agentType: AgentType,
+    private readonly toolNames: AgentToolName[],
+    private readonly conversationId: string | null = null,
+    // Inbound message this session answers (Twilio MessageSid, chat message ID)
+    private readonly turnId: string = crypto.randomUUID()
+  ) {}
+
+  /**
+   * Whether the session exposes any tool to the LLM
+   */
+  hasTools(): boolean {
+    return this.toolNames.length > 0;
+  }
+
+  /**
+   * Whether the session can change the store (stock, prices, coupons, orders)
+   */
+  hasMutations(): boolean {
+    return this.toolNames.some(name => AGENT_TOOLS[name]?.mutation);
+  }
+
+  /**
+   * Tool definitions to send in the chat completion request
+   */
+  getDefinitions(): AgentToolDefinition[] {
+    return this.toolNames.map(name => ({
+      type: 'function',
+      function: {
+        name: AGENT_TOOLS[name].name,
+        description: AGENT_TOOLS[name].description,
+        parameters: AGENT_TOOLS[name].parameters
+      }
+    }));
+  }
+
+  /**
+   * Execute a tool call requested by the LLM. Always resolves to a JSON
+   * string so failures are reported back to the model instead of thrown.
+   */
+  async execute(name: string, rawArguments: string): Promise<string> {
+    const action: AgentAction = {
+      type: 'api_call',
+      description: `${this.agentType} → ${name}`,
+      payload: { tool: name, arguments: rawArguments },
+      status: 'pending'
+    };
+    this.actions.push(action);
+
+    try {
+      if (!this.toolNames.includes(name as AgentToolName)) {
+        throw new Error(`Tool ${name} not available for agent ${this.agentType}`);
+      }
+
+      let args: Record<string, unknown> = {};
+      if (rawArguments) {
+        args = JSON.parse(rawArguments);
+      }
+      action.payload = { tool: name, arguments: args };
+
+      const api = await this.getAPI();
+      if (!api) {
+        throw new Error('No valid Tienda Nube connection for this store');
+      }
+
+      const tool = AGENT_TOOLS[name as AgentToolName];
+      const result = tool.mutation
+        ? await this.executeMutation(tool, api, args, action)
+        : await tool.execute(api, args);
+      if (action.status === 'pending') {
+        action.status = 'completed';
+      }
+      action.result = result;
+
+      console.warn(`[AGENT-TOOLS] ${this.agentType} called ${name} for store ${this.storeId}`);
+      return JSON.stringify(result);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      action.status = 'failed';
+      action.result = { error: message };
+
+      console.error(`[AGENT-TOOLS] ${name} failed for store ${this.storeId}:`, message);
+      return JSON.stringify({ error: message });
+    }
+  }
+
+  /**
+   * Write tools never run straight away: the call is saved as an action
+   * awaiting the merchant's approval. Dry runs execute (they change nothing)
+   * and a call already applied while answering this message (a retried job,
+   * another agent of the same fan-out) is replayed, not repeated.
+   */
+  private async executeMutation(
+    tool: AgentTool,
+    api: TiendaNubeAPI,
+    args: Record<string, unknown>,
+    action: AgentAction
+  ): Promise<unknown> {
+    const dryRun = args.dry_run === true;
+    const idempotencyKey = this.getIdempotencyKey(tool.name, args);
+    Object.assign(action, { type: 'store_mutation', agentType: this.agentType, idempotencyKey, dryRun });
+
+    if (dryRun) {
+      const result = await tool.execute(api, args, { dryRun, idempotencyKey });
+      action.status = 'completed';
+      action.result = result;
+      action.id = await AgentActionLog.record(this.storeId, this.conversationId, action) || undefined;
+      return result;
+    }
+
+    const previous = await AgentActionLog.findByIdempotencyKey(this.storeId, idempotencyKey);
+    if (previous?.status === 'completed') {
+      action.id = previous.id;
+      console.warn(`[AGENT-TOOLS] ${tool.name} already applied for store ${this.storeId}, replaying result`);
+      return { replayed: true, result: previous.result };
+    }
+
+    const { AgentActionApproval } = await import('./action-approval');
+    const proposal = await AgentActionApproval.propose({
+      storeId: this.storeId,
+      conversationId: this.conversationId,
+      agentType: this.agentType,
+      toolName: tool.name,
+      arguments: Object.fromEntries(Object.entries(args).filter(([key]) => key !== 'dry_run')),
+      idempotencyKey
+    }, api);
+
+    action.id = proposal.id;
+    action.description = proposal.description;
+
+    if (proposal.status !== 'awaiting_approval') {
+      // Already approved (and maybe executing) for this message: never ask twice
+      action.status = 'completed';
+      return { status: proposal.status, action_id: proposal.id, description: proposal.description, result: proposal.result };
+    }
+    action.status = 'awaiting_approval';
+
+    return {
+      status: 'awaiting_approval',
+      action_id: proposal.id,
+      description: proposal.description,
+      message: 'El cambio NO se aplicó todavía: quedó pendiente de aprobación del usuario. Explicale qué vas a cambiar y pedile que responda SI o NO.'
+    };
+  }
+
+  /**
+   * Same tool + arguments while answering the same message → same key.
+   * Asking for the same change again in a later message is a new action
+   */
+  private getIdempotencyKey(name: string, args: Record<string, unknown>): string {
+    const stableArgs = Object.keys(args)
+      .filter(key => key !== 'dry_run')
+      .sort()
+      .map(key => `${key}=${JSON.stringify(args[key])}`)
+      .join('&');
+
+    const hash = crypto
+      .createHash('sha256')
+      .update(`${this.storeId}:${this.turnId}:${name}:${stableArgs}`)
+      .digest('hex');
+
+    return `${name}:${hash.substring(0, 32)}`;
+  }
+
+  /**
+   * Store API client for this session (null when the store has no valid token)
+   */
+  getAPI(): Promise<TiendaNubeAPI | null> {
+    if (!this.apiPromise) {
+      this.apiPromise = (async () => {
+        const { UniversalTokenManager } = await import('@/lib/integrations/tiendanube-token-manager');
+        const store = await UniversalTokenManager.getValidStoreData(this.storeId);
+
+        if (!store?.access_token || !store.platform_store_id) {
+          return null;
+        }
+
+        return new TiendaNubeAPI(store.access_token, store.platform_store_id);
+      })();
+    }
+
+    return this.apiPromise;
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import type { RAGResult } from '@/lib/rag/types';
+import type { AgentToolName } from './tools';
 
 export type AgentType = 'orchestrator' | 'analytics' | 'customer_service' | 'marketing' | 'stock_manager' | 'financial_advisor' | 'business_consultant' | 'product_manager' | 'operations_manager' | 'sales_coach';
 
@@ -42,6 +43,8 @@ export interface AgentResponse {
   confidence: number;
   reasoning?: string;
   actions?: AgentAction[];
+  // Options the merchant can pick instead of typing (buttons / list on WhatsApp)
+  suggestions?: AgentSuggestion[];
   contextUsed?: unknown;
   metadata?: {
     executionTime?: number;
@@ -53,11 +56,33 @@ export interface AgentResponse {
 }
 
 export interface AgentAction {
-  type: 'api_call' | 'data_fetch' | 'calculation' | 'notification' | 'suggestion';
+  type: 'api_call' | 'data_fetch' | 'calculation' | 'notification' | 'suggestion' | 'store_mutation';
   description: string;
   payload?: unknown;
-  status: 'pending' | 'completed' | 'failed';
+  status: 'pending' | 'awaiting_approval' | 'completed' | 'failed';
   result?: unknown;
+  // Set for store mutations, which are persisted to agent_actions
+  id?: string;
+  agentType?: AgentType;
+  idempotencyKey?: string;
+  dryRun?: boolean;
+}
+
+export type AgentSuggestionKind = 'follow_up' | 'action_confirmation' | 'agent_choice' | 'store_choice';
+
+export interface AgentSuggestion {
+  // Payload returned by the button or list item; unique within a response
+  id: string;
+  kind: AgentSuggestionKind;
+  title: string;
+  description?: string;
+  // follow_up / agent_choice: message processed when the option is picked
+  message?: string;
+  // agent_choice: specialist that answers `message`
+  agentType?: AgentType;
+  // action_confirmation: agent_actions row and decision
+  actionId?: string;
+  decision?: 'approve' | 'reject';
 }
 
 export interface AgentCapability {
@@ -88,6 +113,9 @@ export interface OrchestratorDecision {
   confidence: number;
   reasoning: string;
   fallbackMessage?: string;
+  // Cross-functional queries fan out to several agents in parallel
+  mode?: 'single' | 'multi';
+  selectedAgents?: AgentType[];
   routingRules: {
     analyticsScore: number;
     customerServiceScore: number;
@@ -109,6 +137,7 @@ export interface AgentConfig {
   ragThreshold: number;
   fallbackEnabled: boolean;
   debugMode: boolean;
+  maxToolRounds: number;
 }
 
 export interface ConversationSession {
@@ -186,6 +215,8 @@ export interface AgentTypeConfig {
     threshold: number;
     maxResults: number;
   };
+  // Live Tienda Nube tools the agent may call via function calling
+  tools?: AgentToolName[];
   responseConfig: {
     maxLength: number;
     tone: 'formal' | 'casual' | 'professional' | 'friendly';
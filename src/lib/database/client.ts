@@ -725,6 +725,29 @@ export class MessageService {
     }
   }
 
+  /**
+   * Store an inbound WhatsApp message once; a retried webhook for the same MessageSid is a no-op
+   */
+  static async createInboundMessage(messageData: Partial<Message> & { twilio_message_sid: string }): Promise<{ success: boolean; message?: Message; error?: string }> {
+    try {
+      const { data, error } = await _supabaseAdmin
+        .from('messages')
+        .upsert([messageData], { onConflict: 'twilio_message_sid', ignoreDuplicates: true })
+        .select()
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return { success: true, message: data || undefined };
+    } catch (error) {
+      console.warn('[ERROR] Create inbound message failed:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   static async getMessagesByConversationId(conversationId: string): Promise<{ success: boolean; messages?: Message[]; error?: string }> {
     try {
       const { data, error } = await _supabaseAdmin
@@ -62,6 +62,7 @@ export interface Conversation {
   id: string;
   user_id: string;
   store_id?: string;
+  store_scope?: 'single' | 'all';
   whatsapp_number: string;
   customer_number: string;
   conversation_id: string;
@@ -84,6 +85,7 @@ export interface Message {
   confidence?: number;
   processing_time_ms?: number;
   reasoning?: string;  // 🔥 NEW: Agent reasoning for transparency
+  metadata?: Record<string, unknown>;  // Original media, transcriptions, image descriptions and offered suggestions
   created_at: string;
 }
 
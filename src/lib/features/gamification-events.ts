@@ -0,0 +1,83 @@
+/**
+ * Gamification Events
+ * Product events that move achievements and streaks forward. Callers are
+ * webhooks and user flows that must never fail because of gamification, so
+ * every helper swallows (and logs) its errors. Server only.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+
+import type { GamificationEventType } from './gamification-repository';
+import { gamificationSystem } from './gamification-system';
+
+async function track(
+  userId: string,
+  event: GamificationEventType,
+  dedupeKey: string,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  try {
+    await gamificationSystem.trackEvent(userId, event, dedupeKey, metadata);
+  } catch (error) {
+    console.warn(`[GAMIFICATION] Failed to track ${event} for user ${userId}:`, error);
+  }
+}
+
+/**
+ * A store was connected for the first time (reconnections of the same store don't count again)
+ */
+export async function trackStoreConnected(userId: string, storeId: string): Promise<void> {
+  await track(userId, 'store_connected', storeId, { storeId });
+}
+
+/**
+ * The merchant sent a WhatsApp message to Fini (keyed by Twilio message SID)
+ */
+export async function trackWhatsAppMessage(userId: string, messageSid: string, storeId?: string): Promise<void> {
+  await track(userId, 'whatsapp_message', messageSid, { storeId });
+}
+
+/**
+ * Twilio reported a message as read: counts as an opened digest when it was one
+ */
+export async function trackDigestRead(messageSid: string): Promise<void> {
+  try {
+    const supabase = createServiceClient();
+    const { data: delivery } = await supabase
+      .from('automated_report_deliveries')
+      .select('id, user_id, store_id, report_id')
+      .eq('message_sid', messageSid)
+      .eq('status', 'sent')
+      .maybeSingle();
+
+    if (!delivery?.user_id) {
+      return;
+    }
+
+    await track(delivery.user_id, 'digest_opened', delivery.id, { storeId: delivery.store_id, reportId: delivery.report_id });
+  } catch (error) {
+    console.warn(`[GAMIFICATION] Failed to track digest read for ${messageSid}:`, error);
+  }
+}
+
+/**
+ * The store owner approved an agent action (dashboard or WhatsApp)
+ */
+export async function trackActionApproved(storeId: string, actionId: string, toolName?: string): Promise<void> {
+  try {
+    const supabase = createServiceClient();
+    const { data: store } = await supabase
+      .from('stores')
+      .select('user_id')
+      .eq('id', storeId)
+      .maybeSingle();
+
+    if (!store?.user_id) {
+      return;
+    }
+
+    await track(store.user_id, 'action_approved', actionId, { storeId, toolName });
+  } catch (error) {
+    console.warn(`[GAMIFICATION] Failed to track approval of ${actionId}:`, error);
+  }
+}
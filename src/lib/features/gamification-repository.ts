@@ -0,0 +1,505 @@
+/**
+ * Gamification Repository
+ * Persistence for GamificationSystem: per-user stats, achievement progress,
+ * streaks, the product events already counted, the reward ledger and the
+ * unlock notifications waiting for the dashboard. Server only (service role).
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+import type { Streak, UserAchievement } from './gamification-system';
+
+export type GamificationEventType = 'store_connected' | 'whatsapp_message' | 'digest_opened' | 'action_approved';
+export type GamificationRewardType = 'free_days' | 'credit' | 'discount' | 'feature_unlock' | 'badge' | 'title';
+export type GamificationRewardStatus = 'pending' | 'applying' | 'applied' | 'failed';
+export type GamificationNotificationKind = 'achievement' | 'level_up' | 'streak';
+
+export interface StoredGamificationStats {
+  userId: string;
+  level: number;
+  experience: number;
+  totalPoints: number;
+  achievementsUnlocked: number;
+  badgesEarned: number;
+  badges: string[];
+  unlockedFeatures: string[];
+  title: string | null;
+}
+
+export interface GamificationReward {
+  id: string;
+  userId: string;
+  source: string;
+  type: GamificationRewardType;
+  value: unknown;
+  status: GamificationRewardStatus;
+  stripeReference: string | null;
+  errorMessage: string | null;
+  appliedAt: string | null;
+  createdAt: string;
+}
+
+export interface GamificationNotification {
+  id: string;
+  userId: string;
+  kind: GamificationNotificationKind;
+  title: string;
+  message: string;
+  icon: string | null;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+type Tables = Database['public']['Tables'];
+
+function toStats(row: Tables['user_gamification_stats']['Row']): StoredGamificationStats {
+  return {
+    userId: row.user_id,
+    level: row.level,
+    experience: row.experience,
+    totalPoints: row.total_points,
+    achievementsUnlocked: row.achievements_unlocked,
+    badgesEarned: row.badges_earned,
+    badges: row.badges || [],
+    unlockedFeatures: row.unlocked_features || [],
+    title: row.title
+  };
+}
+
+function toUserAchievement(row: Tables['user_achievements']['Row']): UserAchievement {
+  return {
+    id: row.id,
+    achievementId: row.achievement_id,
+    userId: row.user_id,
+    unlockedAt: row.unlocked_at ? new Date(row.unlocked_at) : new Date(row.created_at),
+    progress: Number(row.progress) || 0,
+    isCompleted: row.is_completed,
+    notificationSent: row.notification_sent
+  };
+}
+
+function toStreak(row: Tables['user_streaks']['Row']): Streak {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    type: row.type as Streak['type'],
+    currentStreak: row.current_streak,
+    longestStreak: row.longest_streak,
+    lastActivity: new Date(row.last_activity),
+    isActive: row.is_active,
+    rewards: []
+  };
+}
+
+function toReward(row: Tables['gamification_rewards']['Row']): GamificationReward {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    source: row.source,
+    type: row.reward_type,
+    value: row.reward_value,
+    status: row.status,
+    stripeReference: row.stripe_reference,
+    errorMessage: row.error_message,
+    appliedAt: row.applied_at,
+    createdAt: row.created_at
+  };
+}
+
+function toNotification(row: Tables['gamification_notifications']['Row']): GamificationNotification {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    kind: row.kind,
+    title: row.title,
+    message: row.message,
+    icon: row.icon,
+    metadata: (row.metadata || {}) as Record<string, unknown>,
+    createdAt: row.created_at
+  };
+}
+
+export class GamificationRepository {
+  // ===== STATS =====
+
+  static async getStats(userId: string): Promise<StoredGamificationStats | null> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('user_gamification_stats')
+      .select('*')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load gamification stats: ${error.message}`);
+    }
+    return data ? toStats(data) : null;
+  }
+
+  /**
+   * Save level, badges, features and title. Experience and points only change
+   * through awardExperience, so concurrent unlocks can't overwrite each other
+   */
+  static async saveStats(stats: Pick<StoredGamificationStats, 'userId' | 'level' | 'badgesEarned' | 'badges' | 'unlockedFeatures' | 'title'>): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('user_gamification_stats')
+      .upsert({
+        user_id: stats.userId,
+        level: stats.level,
+        badges_earned: stats.badgesEarned,
+        badges: stats.badges,
+        unlocked_features: stats.unlockedFeatures,
+        title: stats.title
+      }, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(`Failed to save gamification stats: ${error.message}`);
+    }
+  }
+
+  /**
+   * Add experience atomically; returns the experience before and after
+   */
+  static async awardExperience(userId: string, points: number, achievements = 0): Promise<{ oldExperience: number; newExperience: number }> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc('award_gamification_experience', {
+      p_user_id: userId,
+      p_points: points,
+      p_achievements: achievements
+    });
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (error || !row) {
+      throw new Error(`Failed to award experience: ${error?.message || 'no stats row'}`);
+    }
+    return { oldExperience: row.old_experience, newExperience: row.new_experience };
+  }
+
+  /**
+   * Position in the leaderboard for a given experience (1 = first)
+   */
+  static async getRank(experience: number): Promise<number> {
+    const supabase = createServiceClient();
+    const { count } = await supabase
+      .from('user_gamification_stats')
+      .select('user_id', { count: 'exact', head: true })
+      .gt('experience', experience);
+
+    return (count || 0) + 1;
+  }
+
+  static async getLeaderboard(limit: number): Promise<Array<StoredGamificationStats & { userName: string | null }>> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('user_gamification_stats')
+      .select('*, users(name)')
+      .order('experience', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load leaderboard: ${error.message}`);
+    }
+    const rows = (data || []) as Array<Tables['user_gamification_stats']['Row'] & { users: { name: string | null } | null }>;
+    return rows.map(row => ({ ...toStats(row), userName: row.users?.name || null }));
+  }
+
+  // ===== ACHIEVEMENTS =====
+
+  static async getAchievement(userId: string, achievementId: string): Promise<UserAchievement | null> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('achievement_id', achievementId)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load achievement progress: ${error.message}`);
+    }
+    return data ? toUserAchievement(data) : null;
+  }
+
+  static async listAchievements(userId: string): Promise<UserAchievement[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .select('*')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list achievements: ${error.message}`);
+    }
+    return (data || []).map(toUserAchievement);
+  }
+
+  /**
+   * Save progress of an achievement that is still locked. Completed rows are
+   * never touched, so a late event can't reopen an unlocked achievement
+   */
+  static async saveAchievementProgress(userAchievement: UserAchievement): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('user_achievements')
+      .upsert({
+        user_id: userAchievement.userId,
+        achievement_id: userAchievement.achievementId,
+        progress: userAchievement.progress
+      }, { onConflict: 'user_id,achievement_id', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to save achievement progress: ${error.message}`);
+    }
+
+    await supabase
+      .from('user_achievements')
+      .update({ progress: userAchievement.progress })
+      .eq('user_id', userAchievement.userId)
+      .eq('achievement_id', userAchievement.achievementId)
+      .eq('is_completed', false);
+  }
+
+  /**
+   * Mark an achievement completed. Only one caller wins for a given user and
+   * achievement, and only the winner goes on to award points and rewards
+   */
+  static async claimAchievementUnlock(userAchievement: UserAchievement): Promise<boolean> {
+    await GamificationRepository.saveAchievementProgress(userAchievement);
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('user_achievements')
+      .update({ is_completed: true, unlocked_at: new Date().toISOString() })
+      .eq('user_id', userAchievement.userId)
+      .eq('achievement_id', userAchievement.achievementId)
+      .eq('is_completed', false)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to unlock achievement: ${error.message}`);
+    }
+    return (data?.length || 0) > 0;
+  }
+
+  static async markAchievementNotified(userId: string, achievementId: string): Promise<void> {
+    const supabase = createServiceClient();
+    await supabase
+      .from('user_achievements')
+      .update({ notification_sent: true })
+      .eq('user_id', userId)
+      .eq('achievement_id', achievementId);
+  }
+
+  // ===== STREAKS =====
+
+  static async getStreak(userId: string, type: string): Promise<Streak | null> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('user_streaks')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('type', type)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load streak: ${error.message}`);
+    }
+    return data ? toStreak(data) : null;
+  }
+
+  static async listStreaks(userId: string): Promise<Streak[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('user_streaks')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (error) {
+      throw new Error(`Failed to list streaks: ${error.message}`);
+    }
+    return (data || []).map(toStreak);
+  }
+
+  static async saveStreak(streak: Streak): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('user_streaks')
+      .upsert({
+        user_id: streak.userId,
+        type: streak.type,
+        current_streak: streak.currentStreak,
+        longest_streak: streak.longestStreak,
+        last_activity: streak.lastActivity.toISOString(),
+        is_active: streak.isActive
+      }, { onConflict: 'user_id,type' });
+
+    if (error) {
+      throw new Error(`Failed to save streak: ${error.message}`);
+    }
+  }
+
+  // ===== EVENTS =====
+
+  /**
+   * Record a product event; false when it was already counted
+   */
+  static async recordEvent(
+    userId: string,
+    event: GamificationEventType,
+    dedupeKey: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<boolean> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('gamification_events')
+      .upsert(
+        { user_id: userId, event, dedupe_key: dedupeKey, metadata },
+        { onConflict: 'user_id,event,dedupe_key', ignoreDuplicates: true }
+      )
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to record gamification event: ${error.message}`);
+    }
+    return (data?.length || 0) > 0;
+  }
+
+  // ===== REWARDS =====
+
+  /**
+   * Add a reward to the ledger; null when this source already granted it
+   */
+  static async createReward(userId: string, source: string, type: GamificationRewardType, value: unknown): Promise<GamificationReward | null> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('gamification_rewards')
+      .upsert(
+        { user_id: userId, source, reward_type: type, reward_value: value },
+        { onConflict: 'user_id,source,reward_type', ignoreDuplicates: true }
+      )
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to record reward: ${error.message}`);
+    }
+    return data && data.length > 0 ? toReward(data[0]) : null;
+  }
+
+  static async listRewards(userId: string, status?: GamificationRewardStatus): Promise<GamificationReward[]> {
+    const supabase = createServiceClient();
+    let query = supabase
+      .from('gamification_rewards')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list rewards: ${error.message}`);
+    }
+    return (data || []).map(toReward);
+  }
+
+  /**
+   * Take a pending reward to apply it. Only one caller gets it
+   */
+  static async claimReward(rewardId: string): Promise<boolean> {
+    const supabase = createServiceClient();
+    const { data } = await supabase
+      .from('gamification_rewards')
+      .update({ status: 'applying' })
+      .eq('id', rewardId)
+      .eq('status', 'pending')
+      .select('id');
+
+    return (data?.length || 0) > 0;
+  }
+
+  /**
+   * Finish a claimed reward: applied, failed, or back to pending when it can't be applied yet
+   */
+  static async settleReward(
+    rewardId: string,
+    status: Exclude<GamificationRewardStatus, 'applying'>,
+    details: { stripeReference?: string | null; errorMessage?: string | null } = {}
+  ): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('gamification_rewards')
+      .update({
+        status,
+        stripe_reference: details.stripeReference || null,
+        error_message: details.errorMessage || null,
+        applied_at: status === 'applied' ? new Date().toISOString() : null
+      })
+      .eq('id', rewardId)
+      .eq('status', 'applying');
+
+    if (error) {
+      throw new Error(`Failed to settle reward ${rewardId}: ${error.message}`);
+    }
+  }
+
+  // ===== NOTIFICATIONS =====
+
+  static async createNotification(
+    userId: string,
+    notification: { kind: GamificationNotificationKind; title: string; message: string; icon?: string; metadata?: Record<string, unknown> }
+  ): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('gamification_notifications')
+      .insert({
+        user_id: userId,
+        kind: notification.kind,
+        title: notification.title,
+        message: notification.message,
+        icon: notification.icon || null,
+        metadata: notification.metadata || {}
+      });
+
+    if (error) {
+      throw new Error(`Failed to create gamification notification: ${error.message}`);
+    }
+  }
+
+  /**
+   * Notifications not yet shown to the user, marked delivered as they are returned
+   */
+  static async takeUndeliveredNotifications(userId: string, limit = 10): Promise<GamificationNotification[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('gamification_notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .is('delivered_at', null)
+      .order('created_at', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to load gamification notifications: ${error.message}`);
+    }
+    if (!data || data.length === 0) {
+      return [];
+    }
+
+    // Another tab may have taken some of them in between; return only the ones this call claimed
+    const { data: claimed } = await supabase
+      .from('gamification_notifications')
+      .update({ delivered_at: new Date().toISOString() })
+      .in('id', data.map(row => row.id))
+      .is('delivered_at', null)
+      .select('*');
+
+    return (claimed || [])
+      .map(toNotification)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Gamification Rewards
+ * Rewards granted by achievements and streaks go through a ledger
+ * (gamification_rewards) so each one is applied exactly once. Billing rewards
+ * land on the user's Stripe subscription: free days push the next charge back,
+ * credit goes to the customer balance, discounts become a one-off coupon
+ * added next to the ones already on the subscription. Stripe calls are keyed
+ * by the reward id, so a retried reward is not applied twice.
+ * Users without a subscription keep them pending until checkout completes.
+ * Server only.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+
+import { GamificationRepository, type GamificationReward, type GamificationRewardType } from './gamification-repository';
+
+export interface RewardDefinition {
+  type: GamificationRewardType;
+  value: unknown;
+}
+
+const BILLING_REWARDS: GamificationRewardType[] = ['free_days', 'credit', 'discount'];
+
+export class GamificationRewards {
+  /**
+   * Record a reward for a source (achievement, streak milestone) and apply it.
+   * A source that already granted this reward type is ignored
+   */
+  static async grant(userId: string, source: string, reward: RewardDefinition): Promise<GamificationReward | null> {
+    const created = await GamificationRepository.createReward(userId, source, reward.type, reward.value);
+    if (!created) {
+      return null;
+    }
+
+    await GamificationRewards.apply(created);
+    return created;
+  }
+
+  /**
+   * Apply the rewards still pending for a user (e.g. after their first subscription)
+   */
+  static async applyPending(userId: string): Promise<number> {
+    const pending = await GamificationRepository.listRewards(userId, 'pending');
+    let applied = 0;
+
+    for (const reward of pending) {
+      if (await GamificationRewards.apply(reward)) {
+        applied++;
+      }
+    }
+
+    if (applied > 0) {
+      console.warn(`[GAMIFICATION] Applied ${applied} pending reward(s) for user ${userId}`);
+    }
+    return applied;
+  }
+
+  /**
+   * Apply one pending reward (unless another caller already took it).
+   * Billing rewards without a subscription go back to pending
+   */
+  private static async apply(reward: GamificationReward): Promise<boolean> {
+    if (!await GamificationRepository.claimReward(reward.id)) {
+      return false;
+    }
+
+    try {
+      if (BILLING_REWARDS.includes(reward.type)) {
+        return await GamificationRewards.applyBillingReward(reward);
+      }
+      return await GamificationRewards.applyProfileReward(reward);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[GAMIFICATION] Failed to apply ${reward.type} reward ${reward.id}:`, message);
+      await GamificationRepository.settleReward(reward.id, 'failed', { errorMessage: message });
+      return false;
+    }
+  }
+
+  private static async applyBillingReward(reward: GamificationReward): Promise<boolean> {
+    const supabase = createServiceClient();
+    const { data: user } = await supabase
+      .from('users')
+      .select('stripe_customer_id, stripe_subscription_id')
+      .eq('id', reward.userId)
+      .maybeSingle();
+
+    if (!user?.stripe_subscription_id) {
+      // Picked up by applyPending once the user subscribes
+      await GamificationRepository.settleReward(reward.id, 'pending');
+      return false;
+    }
+
+    const {
+      addCustomerCredit,
+      applyOneTimeDiscount,
+      extendSubscriptionFreeDays,
+      getSubscription
+    } = await import('@/lib/integrations/stripe');
+
+    const description = `Fini - recompensa ${reward.source}`;
+    let stripeReference: string;
+
+    switch (reward.type) {
+      case 'free_days': {
+        const subscription = await extendSubscriptionFreeDays(user.stripe_subscription_id, Number(reward.value), reward.id);
+        stripeReference = subscription.id;
+        break;
+      }
+
+      case 'credit': {
+        const subscription = await getSubscription(user.stripe_subscription_id);
+        const customerId = user.stripe_customer_id || (subscription?.customer as string | undefined);
+        if (!subscription || !customerId) {
+          throw new Error('Subscription not found for credit reward');
+        }
+        const transaction = await addCustomerCredit({
+          customerId,
+          amount: Number(reward.value),
+          currency: subscription.currency,
+          description,
+          idempotencyKey: reward.id
+        });
+        stripeReference = transaction.id;
+        break;
+      }
+
+      case 'discount': {
+        const coupon = await applyOneTimeDiscount(user.stripe_subscription_id, Number(reward.value), description, reward.id);
+        stripeReference = coupon.id;
+        break;
+      }
+
+      default:
+        throw new Error(`Unsupported billing reward: ${reward.type}`);
+    }
+
+    await GamificationRepository.settleReward(reward.id, 'applied', { stripeReference });
+    console.warn(`[GAMIFICATION] ${reward.type} reward (${JSON.stringify(reward.value)}) applied to user ${reward.userId}: ${stripeReference}`);
+    return true;
+  }
+
+  /**
+   * Badges, titles and feature unlocks are kept on the user's gamification stats
+   */
+  private static async applyProfileReward(reward: GamificationReward): Promise<boolean> {
+    const stats = await GamificationRepository.getStats(reward.userId);
+    const value = String(reward.value);
+
+    const badges = stats?.badges || [];
+    const unlockedFeatures = stats?.unlockedFeatures || [];
+
+    if (reward.type === 'badge' && !badges.includes(value)) {
+      badges.push(value);
+    }
+    if (reward.type === 'feature_unlock' && !unlockedFeatures.includes(value)) {
+      unlockedFeatures.push(value);
+    }
+
+    await GamificationRepository.saveStats({
+      userId: reward.userId,
+      level: stats?.level || 1,
+      badgesEarned: badges.length,
+      badges,
+      unlockedFeatures,
+      title: reward.type === 'title' ? value : stats?.title || null
+    });
+
+    await GamificationRepository.settleReward(reward.id, 'applied');
+    return true;
+  }
+}
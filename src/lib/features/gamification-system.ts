@@ -1,10 +1,22 @@
 /**
  * Gamification System - Sistema de Gamificación
  * Aumenta el engagement con achievements, badges, streaks y challenges
+ *
+ * El progreso se guarda en Supabase (gamification-repository) y avanza con
+ * eventos reales del producto (trackEvent): tienda conectada, mensajes por
+ * WhatsApp, resúmenes leídos y acciones aprobadas. Los desbloqueos quedan como
+ * notificaciones para el dashboard y las recompensas se aplican a la
+ * suscripción de Stripe (gamification-rewards).
  */
 
 import { logger } from '@/lib/logger';
 
+import type { GamificationEventType } from './gamification-repository';
+
+// Server-only modules, loaded lazily so client bundles that import the definitions don't pull them
+const getRepository = async () => (await import('./gamification-repository')).GamificationRepository;
+const getRewards = async () => (await import('./gamification-rewards')).GamificationRewards;
+
 export interface Achievement {
   id: string;
   name: string;
@@ -20,7 +32,8 @@ export interface Achievement {
     timeframe?: 'daily' | 'weekly' | 'monthly' | 'all_time';
   };
   rewards?: {
-    type: 'discount' | 'feature_unlock' | 'badge' | 'title' | 'credit';
+    // free_days: días sin cargo en la suscripción; credit: saldo en la moneda de la suscripción; discount: % en la próxima factura
+    type: 'discount' | 'feature_unlock' | 'badge' | 'title' | 'credit' | 'free_days';
     value: any;
   }[];
   isSecret?: boolean;
@@ -113,11 +126,21 @@ export interface LevelInfo {
   color: string;
 }
 
+// Métricas que avanza cada evento del producto
+const EVENT_METRICS: Record<GamificationEventType, string[]> = {
+  store_connected: ['stores_connected'],
+  whatsapp_message: ['whatsapp_messages_sent', 'daily_chat'],
+  digest_opened: ['digests_opened'],
+  action_approved: ['agent_actions_approved']
+};
+
+// Días de racha que dan recompensa: una insignia, nunca saldo ni descuentos en Stripe
+const STREAK_MILESTONES = [7, 14, 30, 60, 100];
+
 export class GamificationSystem {
   private static instance: GamificationSystem;
   private achievements: Map<string, Achievement> = new Map();
   private levels: LevelInfo[] = [];
-  private userStats: Map<string, UserStats> = new Map();
 
   private constructor() {
     this.initializeAchievements();
@@ -191,6 +214,102 @@ export class GamificationSystem {
         ]
       },
 
+      // Achievements de producto (eventos reales)
+      {
+        id: 'store_connected',
+        name: 'Tienda Conectada',
+        description: 'Conecta tu tienda de Tienda Nube',
+        icon: '🏪',
+        category: 'milestone',
+        rarity: 'common',
+        points: 100,
+        criteria: {
+          type: 'count',
+          target: 1,
+          metric: 'stores_connected'
+        }
+      },
+      {
+        id: 'first_whatsapp_message',
+        name: 'Primer Mensaje',
+        description: 'Envía tu primer mensaje a Fini por WhatsApp',
+        icon: '📲',
+        category: 'engagement',
+        rarity: 'common',
+        points: 150,
+        criteria: {
+          type: 'count',
+          target: 1,
+          metric: 'whatsapp_messages_sent'
+        },
+        rewards: [
+          { type: 'free_days', value: 3 }
+        ]
+      },
+      {
+        id: 'whatsapp_streak_7',
+        name: 'Charla Diaria',
+        description: 'Habla con Fini por WhatsApp 7 días seguidos',
+        icon: '🗓️',
+        category: 'engagement',
+        rarity: 'rare',
+        points: 350,
+        criteria: {
+          type: 'streak',
+          target: 7,
+          metric: 'daily_chat'
+        }
+      },
+      {
+        id: 'digest_reader',
+        name: 'Lector de Resúmenes',
+        description: 'Lee 10 resúmenes de tu negocio por WhatsApp',
+        icon: '📰',
+        category: 'engagement',
+        rarity: 'rare',
+        points: 300,
+        criteria: {
+          type: 'count',
+          target: 10,
+          metric: 'digests_opened'
+        },
+        rewards: [
+          { type: 'free_days', value: 7 }
+        ]
+      },
+      {
+        id: 'first_action_approved',
+        name: 'Primera Acción',
+        description: 'Aprueba la primera acción propuesta por un agente',
+        icon: '✅',
+        category: 'learning',
+        rarity: 'common',
+        points: 150,
+        criteria: {
+          type: 'count',
+          target: 1,
+          metric: 'agent_actions_approved'
+        }
+      },
+      {
+        id: 'autopilot',
+        name: 'Piloto Automático',
+        description: 'Aprueba 25 acciones propuestas por los agentes',
+        icon: '🤖',
+        category: 'milestone',
+        rarity: 'epic',
+        points: 800,
+        criteria: {
+          type: 'count',
+          target: 25,
+          metric: 'agent_actions_approved'
+        },
+        rewards: [
+          { type: 'free_days', value: 14 },
+          { type: 'title', value: 'Piloto Automático' }
+        ]
+      },
+
       // Achievements de engagement
       {
         id: 'daily_user',
@@ -408,6 +527,28 @@ export class GamificationSystem {
     ];
   }
 
+  /**
+   * Registra un evento del producto y avanza sus métricas. Cada evento cuenta
+   * una sola vez por dedupeKey (reintentos de Twilio, reconexiones de tienda)
+   */
+  async trackEvent(
+    userId: string,
+    event: GamificationEventType,
+    dedupeKey: string,
+    metadata: Record<string, unknown> = {}
+  ): Promise<boolean> {
+    const repository = await getRepository();
+    const isNew = await repository.recordEvent(userId, event, dedupeKey, metadata);
+    if (!isNew) {
+      return false;
+    }
+
+    for (const metric of EVENT_METRICS[event]) {
+      await this.updateUserProgress(userId, metric, 1);
+    }
+    return true;
+  }
+
   /**
    * Actualiza el progreso de un usuario en una métrica específica
    */
@@ -417,6 +558,11 @@ export class GamificationSystem {
     value: number,
     operation: 'increment' | 'set' = 'increment'
   ): Promise<void> {
+    // Actualizar streaks primero, así los achievements de racha ven el día de hoy
+    if (metric.includes('daily_')) {
+      await this.updateStreak(userId, metric);
+    }
+
     // Obtener achievements relevantes
     const relevantAchievements = Array.from(this.achievements.values())
       .filter(achievement => achievement.criteria.metric === metric);
@@ -425,11 +571,6 @@ export class GamificationSystem {
       await this.checkAchievementProgress(userId, achievement, value, operation);
     }
 
-    // Actualizar streaks si aplica
-    if (metric.includes('daily_')) {
-      await this.updateStreak(userId, metric);
-    }
-
     // Log progress
     logger.info('[GAMIFICATION] Progress updated', {
       event: 'Gamification Progress Updated',
@@ -482,16 +623,21 @@ export class GamificationSystem {
         userAchievement.progress = value;
         break;
         
-      case 'streak':
+      case 'streak': {
         // Los streaks se manejan separadamente
         const streak = await this.getUserStreak(userId, achievement.criteria.metric);
         userAchievement.progress = streak?.currentStreak || 0;
         break;
+      }
     }
 
-    // Verificar si se completó el achievement
+    // Verificar si se completó el achievement; solo quien lo marca como completado entrega la recompensa
     if (userAchievement.progress >= achievement.criteria.target) {
-      await this.unlockAchievement(userId, achievement, userAchievement);
+      const repository = await getRepository();
+      if (await repository.claimAchievementUnlock(userAchievement)) {
+        await this.unlockAchievement(userId, achievement, userAchievement);
+      }
+      return;
     }
 
     await this.saveUserAchievement(userAchievement);
@@ -509,12 +655,12 @@ export class GamificationSystem {
     userAchievement.unlockedAt = new Date();
 
     // Otorgar experiencia
-    await this.awardExperience(userId, achievement.points);
+    await this.awardExperience(userId, achievement.points, 1);
 
     // Aplicar recompensas
     if (achievement.rewards) {
       for (const reward of achievement.rewards) {
-        await this.applyReward(userId, reward);
+        await this.applyReward(userId, reward, `achievement:${achievement.id}`);
       }
     }
 
@@ -539,21 +685,21 @@ export class GamificationSystem {
   /**
    * Otorga experiencia al usuario
    */
-  private async awardExperience(userId: string, points: number): Promise<void> {
-    const stats = await this.getUserStats(userId);
-    
-    const oldLevel = this.getLevelForExperience(stats.experience);
-    stats.experience += points;
-    stats.totalPoints += points;
-    
-    const newLevel = this.getLevelForExperience(stats.experience);
+  private async awardExperience(userId: string, points: number, achievements = 0): Promise<void> {
+    const repository = await getRepository();
+    const { oldExperience, newExperience } = await repository.awardExperience(userId, points, achievements);
+
+    const oldLevel = this.getLevelForExperience(oldExperience);
+    const newLevel = this.getLevelForExperience(newExperience);
     
     // Verificar subida de nivel
     if (newLevel.level > oldLevel.level) {
+      const stats = await this.getUserStats(userId);
+      stats.level = newLevel.level;
+      await this.saveUserStats(stats);
+
       await this.levelUp(userId, newLevel);
     }
-
-    await this.saveUserStats(stats);
   }
 
   /**
@@ -596,8 +742,8 @@ export class GamificationSystem {
       };
     } else {
       const today = new Date();
-      const lastActivity = new Date(streak.lastActivity);
-      const daysDiff = Math.floor((today.getTime() - lastActivity.getTime()) / (1000 * 60 * 60 * 24));
+      // Días de calendario (hora de Argentina), no bloques de 24 horas
+      const daysDiff = Math.round((GamificationSystem.calendarDay(today) - GamificationSystem.calendarDay(streak.lastActivity)) / (1000 * 60 * 60 * 24));
 
       if (daysDiff === 1) {
         // Continúa la racha
@@ -613,6 +759,7 @@ export class GamificationSystem {
         streak.lastActivity = today;
       }
       // Si daysDiff === 0, ya se actualizó hoy
+      if (daysDiff <= 0) return;
     }
 
     await this.saveUserStreak(streak);
@@ -622,19 +769,34 @@ export class GamificationSystem {
   }
 
   /**
-   * Verifica recompensas de streak
+   * Medianoche (UTC-3) del día de una fecha, en milisegundos
+   */
+  private static calendarDay(date: Date): number {
+    const local = new Date(date.getTime() - 3 * 60 * 60 * 1000);
+    return Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate());
+  }
+
+  /**
+   * Verifica recompensas de streak (cada hito se premia una sola vez por usuario)
    */
   private async checkStreakRewards(userId: string, streak: Streak): Promise<void> {
-    const milestones = [7, 14, 30, 60, 100];
-    
-    for (const milestone of milestones) {
+    for (const milestone of STREAK_MILESTONES) {
       if (streak.currentStreak === milestone) {
         const reward = {
-          type: 'credit',
-          value: milestone * 2 // 2 créditos por día de streak
+          type: 'badge',
+          value: `streak_${streak.type}_${milestone}`
         };
         
-        await this.applyReward(userId, reward);
+        await this.applyReward(userId, reward, `streak:${streak.type}:${milestone}`);
+
+        const repository = await getRepository();
+        await repository.createNotification(userId, {
+          kind: 'streak',
+          title: `🔥 ¡Racha de ${milestone} días!`,
+          message: `Llevás ${milestone} días seguidos. Ganaste una nueva insignia.`,
+          icon: '🔥',
+          metadata: { streakType: streak.type, milestone }
+        });
         
         logger.info('[GAMIFICATION] Streak milestone reached', {
           event: 'Streak Milestone Reached',
@@ -654,17 +816,24 @@ export class GamificationSystem {
    * Obtiene estadísticas del usuario
    */
   async getUserStats(userId: string): Promise<UserStats> {
-    // Implementar lógica de base de datos
+    const repository = await getRepository();
+    const [stored, streaks] = await Promise.all([
+      repository.getStats(userId),
+      repository.listStreaks(userId)
+    ]);
+    const experience = stored?.experience || 0;
+
     return {
       userId,
-      level: 1,
-      experience: 0,
-      totalPoints: 0,
-      achievementsUnlocked: 0,
-      badgesEarned: 0,
-      currentStreaks: [],
+      level: stored?.level || this.getLevelForExperience(experience).level,
+      experience,
+      totalPoints: stored?.totalPoints || 0,
+      achievementsUnlocked: stored?.achievementsUnlocked || 0,
+      badgesEarned: stored?.badgesEarned || 0,
+      currentStreaks: streaks.filter(streak => streak.isActive),
       activeChallenges: [],
-      rank: 1000
+      rank: await repository.getRank(experience),
+      title: stored?.title || undefined
     };
   }
 
@@ -681,8 +850,15 @@ export class GamificationSystem {
    * Obtiene achievements desbloqueados por el usuario
    */
   async getUserAchievements(userId: string): Promise<UserAchievement[]> {
-    // Implementar lógica de base de datos
-    return [];
+    const repository = await getRepository();
+    return repository.listAchievements(userId);
+  }
+
+  /**
+   * Definición de un achievement
+   */
+  getAchievement(achievementId: string): Achievement | undefined {
+    return this.achievements.get(achievementId);
   }
 
   /**
@@ -696,75 +872,120 @@ export class GamificationSystem {
     achievementsCount: number;
     rank: number;
   }>> {
-    // Implementar lógica de leaderboard
-    return [];
+    const repository = await getRepository();
+    const rows = await repository.getLeaderboard(limit);
+
+    return rows.map((row, index) => ({
+      userId: row.userId,
+      userName: row.userName || 'Usuario',
+      level: this.getLevelForExperience(row.experience).level,
+      experience: row.experience,
+      achievementsCount: row.achievementsUnlocked,
+      rank: index + 1
+    }));
   }
 
   /**
-   * Métodos de base de datos (implementar según tu ORM)
+   * Métodos de base de datos (gamification-repository)
    */
   private async getUserAchievement(userId: string, achievementId: string): Promise<UserAchievement | null> {
-    return null;
+    const repository = await getRepository();
+    return repository.getAchievement(userId, achievementId);
   }
 
   private async saveUserAchievement(userAchievement: UserAchievement): Promise<void> {
-    // Implementar guardado
+    const repository = await getRepository();
+    await repository.saveAchievementProgress(userAchievement);
   }
 
   private async getUserStreak(userId: string, type: string): Promise<Streak | null> {
-    return null;
+    const repository = await getRepository();
+    return repository.getStreak(userId, type);
   }
 
   private async saveUserStreak(streak: Streak): Promise<void> {
-    // Implementar guardado
+    const repository = await getRepository();
+    await repository.saveStreak(streak);
   }
 
   private async saveUserStats(stats: UserStats): Promise<void> {
-    // Implementar guardado
+    const repository = await getRepository();
+    const stored = await repository.getStats(stats.userId);
+
+    await repository.saveStats({
+      userId: stats.userId,
+      level: stats.level,
+      badgesEarned: stored?.badgesEarned || 0,
+      badges: stored?.badges || [],
+      unlockedFeatures: stored?.unlockedFeatures || [],
+      title: stats.title || stored?.title || null
+    });
   }
 
-  private async applyReward(userId: string, reward: any): Promise<void> {
-    console.log(`Applying reward to user ${userId}:`, reward);
+  private async applyReward(userId: string, reward: { type: string; value: any }, source: string): Promise<void> {
+    const rewards = await getRewards();
+    await rewards.grant(userId, source, reward as NonNullable<Achievement['rewards']>[number]);
   }
 
   private async sendAchievementNotification(userId: string, achievement: Achievement): Promise<void> {
-    // Implementar notificación
+    const repository = await getRepository();
+    const rewardText = (achievement.rewards || [])
+      .map(reward => reward.type === 'free_days' ? `${reward.value} días gratis en tu suscripción` : null)
+      .filter(Boolean)
+      .join(', ');
+
+    await repository.createNotification(userId, {
+      kind: 'achievement',
+      title: `${achievement.icon} ¡Logro desbloqueado: ${achievement.name}!`,
+      message: `${achievement.description}. +${achievement.points} puntos${rewardText ? ` y ${rewardText}` : ''}.`,
+      icon: achievement.icon,
+      metadata: { achievementId: achievement.id, rarity: achievement.rarity, points: achievement.points }
+    });
+    await repository.markAchievementNotified(userId, achievement.id);
   }
 
   private async sendLevelUpNotification(userId: string, level: LevelInfo): Promise<void> {
-    // Implementar notificación
+    const repository = await getRepository();
+    await repository.createNotification(userId, {
+      kind: 'level_up',
+      title: `${level.badge} ¡Subiste a nivel ${level.level}: ${level.name}!`,
+      message: level.benefits.join(' · '),
+      icon: level.badge,
+      metadata: { level: level.level }
+    });
   }
 }
 
 // Instancia singleton
 export const gamificationSystem = GamificationSystem.getInstance();
 
-// Hook para React
+// Hook para React: lee el progreso del usuario autenticado desde /api/gamification.
+// El progreso avanza en el servidor con eventos del producto (trackEvent)
 export const useGamification = () => {
-  const updateProgress = async (metric: string, value: number, operation?: 'increment' | 'set') => {
-    // Obtener userId del contexto de autenticación
-    const userId = 'current-user'; // Implementar según tu sistema de auth
-    return await gamificationSystem.updateUserProgress(userId, metric, value, operation);
+  const fetchGamification = async (query: string = '') => {
+    const response = await fetch(`/api/gamification${query}`);
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'No se pudo cargar el progreso');
+    }
+    return result.data;
   };
 
-  const getStats = async () => {
-    const userId = 'current-user';
-    return await gamificationSystem.getUserStats(userId);
+  const getStats = async (): Promise<UserStats> => {
+    return (await fetchGamification()).stats;
   };
 
-  const getAchievements = async () => {
-    const userId = 'current-user';
-    return await gamificationSystem.getUserAchievements(userId);
+  const getAchievements = async (): Promise<UserAchievement[]> => {
+    return (await fetchGamification()).achievements;
   };
 
   const getLeaderboard = async (limit?: number) => {
-    return await gamificationSystem.getLeaderboard(limit);
+    return (await fetchGamification(`?leaderboard=${limit || 50}`)).leaderboard;
   };
 
   return {
-    updateProgress,
     getStats,
     getAchievements,
     getLeaderboard
   };
-}; 
\ No newline at end of file
+};
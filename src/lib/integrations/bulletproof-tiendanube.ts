@@ -107,7 +107,7 @@ export class BulletproofTiendaNube {
       console.log(`✅ [BULLETPROOF] ULTRA-FAST connection completed in ${totalTime}ms (reconnection: ${isReconnection})`);
 
       // 5. 🔒 ENHANCED: Lock-aware background operations with reconnection detection
-      this.triggerBackgroundOperations(saveResult.store!.id, access_token, data.userId, isReconnection);
+      this.triggerBackgroundOperations(saveResult.store!.id, access_token, data.userId, isReconnection, storeData.platform_store_id);
 
       return {
         success: true,
@@ -277,7 +277,7 @@ export class BulletproofTiendaNube {
   /**
    * 🔥 ENHANCED: Background operations with monitoring and error recovery
    */
-  private static triggerBackgroundOperations(storeId: string, accessToken: string, userId: string, isReconnection = false): void {
+  private static triggerBackgroundOperations(storeId: string, accessToken: string, userId: string, isReconnection = false, platformStoreId = ''): void {
     console.log(`[BULLETPROOF] 🚀 Triggering monitored background operations for store: ${storeId}`);
     
     // Create a unique operation ID for tracking
@@ -287,7 +287,7 @@ export class BulletproofTiendaNube {
     setTimeout(async () => {
       try {
         console.log(`[BULLETPROOF] 🔄 Starting background operation: ${operationId}`);
-        await this.executeMonitoredBackgroundOperations(storeId, accessToken, userId, isReconnection, operationId);
+        await this.executeMonitoredBackgroundOperations(storeId, accessToken, userId, isReconnection, operationId, platformStoreId);
         console.log(`[BULLETPROOF] ✅ Background operation completed: ${operationId}`);
       } catch (error) {
         console.error(`[BULLETPROOF] ❌ Background operation failed: ${operationId}`, error);
@@ -311,7 +311,8 @@ export class BulletproofTiendaNube {
     accessToken: string, 
     userId: string, 
     isReconnection = false,
-    operationId: string
+    operationId: string,
+    platformStoreId = ''
   ): Promise<void> {
     const startTime = Date.now();
     const operations: { 
@@ -434,6 +435,32 @@ export class BulletproofTiendaNube {
         console.error(`[BULLETPROOF] ❌ ${operationId}: Store status update failed:`, error);
       }
 
+      // OPERATION 4: Webhook Registration (also on reconnection, URLs may have changed)
+      operation = { name: 'webhook_registration', status: 'pending' };
+      operations.push(operation);
+
+      try {
+        const opStart = Date.now();
+        console.log(`[BULLETPROOF] 🔔 ${operationId}: Registering store webhooks...`);
+
+        const { registerStoreWebhooks } = await import('./tiendanube-webhooks');
+        const webhookResult = await registerStoreWebhooks(accessToken, platformStoreId);
+        operation.duration = Date.now() - opStart;
+
+        if (webhookResult.failed.length === 0) {
+          operation.status = 'success';
+          console.log(`[BULLETPROOF] ✅ ${operationId}: Webhooks registered (${webhookResult.created.length} new, ${operation.duration}ms)`);
+        } else {
+          operation.status = 'failed';
+          operation.error = webhookResult.failed.map(item => `${item.event}: ${item.error}`).join(', ');
+          console.warn(`[BULLETPROOF] ⚠️ ${operationId}: Webhook registration partial failure: ${operation.error}`);
+        }
+      } catch (error) {
+        operation.status = 'failed';
+        operation.error = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`[BULLETPROOF] ❌ ${operationId}: Webhook registration failed:`, error);
+      }
+
       // Final Summary
       const totalDuration = Date.now() - startTime;
       const successCount = operations.filter(op => op.status === 'success').length;
@@ -175,6 +175,85 @@ export async function updateSubscription(
   return subscription;
 }
 
+/**
+ * Give free days on a subscription by pushing its next charge back.
+ * Uses trial_end, so nothing is prorated and the plan stays the same
+ */
+export async function extendSubscriptionFreeDays(
+  subscriptionId: string,
+  days: number,
+  idempotencyKey: string
+): Promise<Stripe.Subscription> {
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+  // Already extended by an earlier attempt (the new trial end would differ from the one sent then)
+  if (subscription.metadata?.last_free_days_key === idempotencyKey) {
+    return subscription;
+  }
+
+  const periodEnd = subscription.items.data[0]?.current_period_end || Math.floor(Date.now() / 1000);
+  const nextCharge = Math.max(subscription.trial_end || 0, periodEnd);
+
+  return stripe.subscriptions.update(subscriptionId, {
+    trial_end: nextCharge + Math.round(days * 24 * 60 * 60),
+    proration_behavior: 'none',
+    metadata: { last_free_days_key: idempotencyKey },
+  }, { idempotencyKey: `${idempotencyKey}:free_days` });
+}
+
+/**
+ * Credit a customer's balance; applied to their next invoices
+ */
+export async function addCustomerCredit(params: {
+  customerId: string;
+  amount: number; // In the major unit of `currency`
+  currency: string;
+  description: string;
+  idempotencyKey: string;
+}): Promise<Stripe.CustomerBalanceTransaction> {
+  return stripe.customers.createBalanceTransaction(params.customerId, {
+    amount: -Math.round(params.amount * 100),
+    currency: params.currency,
+    description: params.description,
+  }, { idempotencyKey: `${params.idempotencyKey}:credit` });
+}
+
+/**
+ * Apply a one-off percentage discount to the next invoice of a subscription,
+ * on top of the discounts already on it
+ */
+export async function applyOneTimeDiscount(
+  subscriptionId: string,
+  percentOff: number,
+  name: string,
+  idempotencyKey: string
+): Promise<Stripe.Coupon> {
+  const coupon = await stripe.coupons.create({
+    percent_off: percentOff,
+    duration: 'once',
+    name,
+  }, { idempotencyKey: `${idempotencyKey}:coupon` });
+
+  const subscription = await stripe.subscriptions.retrieve(subscriptionId, {
+    expand: ['discounts'],
+  });
+  const existing = (subscription.discounts || []).filter(
+    (discount): discount is Stripe.Discount => typeof discount !== 'string'
+  );
+  // Added by an earlier attempt
+  if (existing.some(discount => discount.coupon?.id === coupon.id)) {
+    return coupon;
+  }
+
+  await stripe.subscriptions.update(subscriptionId, {
+    discounts: [
+      ...existing.map(discount => ({ discount: discount.id })),
+      { coupon: coupon.id },
+    ],
+  }, { idempotencyKey: `${idempotencyKey}:discount` });
+
+  return coupon;
+}
+
 /**
  * Get price details
  */
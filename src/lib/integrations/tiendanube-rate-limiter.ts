@@ -0,0 +1,110 @@
+/**
+ * Tienda Nube Rate Limiter
+ * Token bucket shared by every TiendaNubeAPI instance of the same store.
+ * Tienda Nube uses a leaky bucket (40 requests, drained at 2 per second) and
+ * reports its state in the x-rate-limit-* response headers.
+ */
+
+const DEFAULT_BUCKET_SIZE = 40;
+const DEFAULT_REFILL_PER_SECOND = 2;
+// Keep a couple of requests in reserve for concurrent callers in other lambdas
+const SAFETY_MARGIN = 2;
+
+export class TiendaNubeTokenBucket {
+  private tokens: number;
+  private capacity: number;
+  private lastRefill: number = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly storeId: string,
+    capacity: number = DEFAULT_BUCKET_SIZE,
+    private readonly refillPerSecond: number = DEFAULT_REFILL_PER_SECOND
+  ) {
+    this.capacity = capacity;
+    this.tokens = capacity;
+  }
+
+  /**
+   * Wait until a request can be sent. Callers are served in order.
+   */
+  acquire(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn.catch(() => undefined);
+    return turn;
+  }
+
+  /**
+   * Sync the bucket with the limits Tienda Nube reports for the store
+   */
+  updateFromHeaders(headers: Headers): void {
+    const limit = Number(headers.get('x-rate-limit-limit'));
+    const remaining = Number(headers.get('x-rate-limit-remaining'));
+
+    if (Number.isFinite(limit) && limit > 0) {
+      this.capacity = limit;
+    }
+    if (headers.has('x-rate-limit-remaining') && Number.isFinite(remaining)) {
+      this.refill();
+      this.tokens = Math.min(this.tokens, Math.max(0, remaining - SAFETY_MARGIN));
+    }
+  }
+
+  /**
+   * Stop sending requests after a 429. `x-rate-limit-reset` is the time in ms
+   * until the bucket is empty again.
+   */
+  pauseFromHeaders(headers: Headers): number {
+    const reset = Number(headers.get('x-rate-limit-reset'));
+    const waitMs = Number.isFinite(reset) && reset > 0 ? reset : 1000 / this.refillPerSecond;
+
+    this.tokens = 0;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + waitMs);
+    console.warn(`[TIENDANUBE] Rate limited for store ${this.storeId}, pausing ${waitMs}ms`);
+    return waitMs;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  private async waitForToken(): Promise<void> {
+    for (;;) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000));
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+const buckets = new Map<string, TiendaNubeTokenBucket>();
+
+/**
+ * Bucket for a store, shared across API client instances in this process
+ */
+export function getTiendaNubeRateLimiter(storeId: string): TiendaNubeTokenBucket {
+  let bucket = buckets.get(storeId);
+  if (!bucket) {
+    bucket = new TiendaNubeTokenBucket(storeId);
+    buckets.set(storeId, bucket);
+  }
+  return bucket;
+}
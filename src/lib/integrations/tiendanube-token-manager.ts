@@ -211,11 +211,16 @@ export class UniversalTokenManager {
       const isUUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i.test(storeId);
       const searchField = isUUID ? 'id' : 'platform_store_id';
       
+      // A Tienda Nube store id can match several rows (reconnections, several users):
+      // prefer the active, most recently updated one
       const { data: store, error } = await supabase
         .from('stores')
         .select('*')
         .eq(searchField, storeId)
-        .single();
+        .order('is_active', { ascending: false })
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
       if (error || !store) {
         console.warn(`[UNIVERSAL-TOKEN] Store not found: ${storeId}`);
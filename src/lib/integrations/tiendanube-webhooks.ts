@@ -0,0 +1,179 @@
+/**
+ * Tienda Nube Webhooks
+ * Registration, HMAC verification and handling of store events so product and
+ * order changes reach the RAG index without a full resync
+ */
+
+import crypto from 'crypto';
+
+import { createServiceClient } from '@/lib/supabase/server';
+import type { TiendaNubeWebhookPayload } from '@/types/tiendanube';
+import { TiendaNubeAPI } from './tiendanube';
+
+export const TIENDANUBE_WEBHOOK_EVENTS = [
+  'order/created',
+  'order/paid',
+  'order/cancelled',
+  'product/created',
+  'product/updated',
+  'product/deleted',
+  'app/uninstalled'
+] as const;
+
+export type TiendaNubeWebhookEvent = typeof TIENDANUBE_WEBHOOK_EVENTS[number];
+
+export const TIENDANUBE_HMAC_HEADER = 'x-linkedstore-hmac-sha256';
+
+export interface WebhookRegistrationResult {
+  created: string[];
+  updated: string[];
+  existing: string[];
+  failed: Array<{ event: string; error: string }>;
+}
+
+export interface WebhookProcessingResult {
+  event: string;
+  storeId?: string;
+  action: 'order_indexed' | 'product_indexed' | 'product_removed' | 'store_uninstalled' | 'ignored';
+  vectorsRemoved?: number;
+}
+
+/**
+ * URL Tienda Nube posts every store event to
+ */
+export function getTiendaNubeWebhookUrl(): string {
+  const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://fini-tn.vercel.app';
+  return `${baseUrl}/api/webhooks/tiendanube/events`;
+}
+
+/**
+ * Verify the HMAC-SHA256 signature Tienda Nube computes over the raw body
+ * with the app secret
+ */
+export function verifyTiendaNubeWebhook(rawBody: string, signature: string | null): boolean {
+  const secret = process.env.TIENDANUBE_CLIENT_SECRET;
+
+  if (!secret) {
+    console.error('[TIENDANUBE-WEBHOOK] TIENDANUBE_CLIENT_SECRET not configured, rejecting webhook');
+    return false;
+  }
+  if (!signature) {
+    return false;
+  }
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody, 'utf8').digest('hex');
+  const received = Buffer.from(signature.trim(), 'hex');
+
+  return received.length === expected.length / 2 &&
+    crypto.timingSafeEqual(received, Buffer.from(expected, 'hex'));
+}
+
+/**
+ * Make sure every event we handle is registered for the store and points to
+ * our current URL. Safe to call on every (re)connection.
+ */
+export async function registerStoreWebhooks(accessToken: string, platformStoreId: string): Promise<WebhookRegistrationResult> {
+  const api = new TiendaNubeAPI(accessToken, platformStoreId);
+  const url = getTiendaNubeWebhookUrl();
+  const result: WebhookRegistrationResult = { created: [], updated: [], existing: [], failed: [] };
+
+  const registered = await api.getWebhooks();
+
+  for (const event of TIENDANUBE_WEBHOOK_EVENTS) {
+    try {
+      const current = registered.find(webhook => webhook.event === event);
+
+      if (!current) {
+        await api.createWebhook(event, url);
+        result.created.push(event);
+      } else if (current.url !== url) {
+        await api.updateWebhook(current.id, url);
+        result.updated.push(event);
+      } else {
+        result.existing.push(event);
+      }
+    } catch (error) {
+      result.failed.push({ event, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+
+  console.warn(`[TIENDANUBE-WEBHOOK] Store ${platformStoreId}: ${result.created.length} created, ${result.updated.length} updated, ${result.existing.length} existing, ${result.failed.length} failed`);
+  return result;
+}
+
+/**
+ * Apply a verified webhook to the RAG index: upsert the affected order or
+ * product, or drop it when deleted
+ */
+export async function processTiendaNubeWebhook(payload: TiendaNubeWebhookPayload): Promise<WebhookProcessingResult> {
+  const event = payload.event;
+  const platformStoreId = payload.store_id?.toString();
+
+  if (!TIENDANUBE_WEBHOOK_EVENTS.includes(event as TiendaNubeWebhookEvent) || !platformStoreId) {
+    console.warn(`[TIENDANUBE-WEBHOOK] Ignoring event ${event} for store ${platformStoreId}`);
+    return { event, action: 'ignored' };
+  }
+
+  if (event === 'app/uninstalled') {
+    return handleAppUninstalled(platformStoreId);
+  }
+
+  const { UniversalTokenManager } = await import('./tiendanube-token-manager');
+  const store = await UniversalTokenManager.getValidStoreData(platformStoreId);
+
+  if (!store?.access_token) {
+    console.warn(`[TIENDANUBE-WEBHOOK] No valid connection for store ${platformStoreId}, ignoring ${event}`);
+    return { event, action: 'ignored' };
+  }
+
+  const { getUnifiedRAGEngine } = await import('@/lib/rag/unified-rag-engine');
+  const ragEngine = getUnifiedRAGEngine();
+  const api = new TiendaNubeAPI(store.access_token, store.platform_store_id);
+
+  if (event.startsWith('order/')) {
+    const order = await api.getOrder(payload.id);
+    await ragEngine.upsertOrder(store.id, order);
+    console.warn(`[TIENDANUBE-WEBHOOK] ${event}: order ${payload.id} indexed for store ${store.id}`);
+    return { event, storeId: store.id, action: 'order_indexed' };
+  }
+
+  if (event === 'product/deleted') {
+    const vectorsRemoved = await ragEngine.removeProduct(store.id, payload.id);
+    console.warn(`[TIENDANUBE-WEBHOOK] ${event}: product ${payload.id} removed (${vectorsRemoved} vectors) for store ${store.id}`);
+    return { event, storeId: store.id, action: 'product_removed', vectorsRemoved };
+  }
+
+  const product = await api.getProduct(payload.id);
+  await ragEngine.upsertProduct(store.id, product);
+  console.warn(`[TIENDANUBE-WEBHOOK] ${event}: product ${payload.id} indexed for store ${store.id}`);
+  return { event, storeId: store.id, action: 'product_indexed' };
+}
+
+/**
+ * The merchant removed the app: deactivate the store and clear its vectors
+ */
+async function handleAppUninstalled(platformStoreId: string): Promise<WebhookProcessingResult> {
+  const supabase = createServiceClient();
+
+  const { data: stores, error } = await supabase
+    .from('stores')
+    .update({ is_active: false, updated_at: new Date().toISOString() })
+    .eq('platform', 'tiendanube')
+    .eq('platform_store_id', platformStoreId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to deactivate store ${platformStoreId}: ${error.message}`);
+  }
+
+  const { getUnifiedRAGEngine } = await import('@/lib/rag/unified-rag-engine');
+  const ragEngine = getUnifiedRAGEngine();
+
+  // Indexed chunks live in the store's versioned namespaces, which are dropped with every version kept
+  for (const store of stores || []) {
+    await ragEngine.deleteStoreNamespaces(store.id);
+  }
+
+  console.warn(`[TIENDANUBE-WEBHOOK] app/uninstalled: deactivated ${stores?.length || 0} store(s) for ${platformStoreId}`);
+  return { event: 'app/uninstalled', storeId: stores?.[0]?.id, action: 'store_uninstalled' };
+}
@@ -4,8 +4,15 @@ import type {
   TiendaNubeOrder, 
   TiendaNubeAuthResponse,
   TiendaNubeCustomer,
-  TiendaNubeOrderProduct
+  TiendaNubeOrderProduct,
+  TiendaNubeWebhook,
+  TiendaNubeVariant,
+  TiendaNubeCoupon,
+  TiendaNubeCouponInput,
+  TiendaNubeVariantPriceInput,
+  TiendaNubeFulfillmentInput
 } from '@/types/tiendanube';
+import { getTiendaNubeRateLimiter } from './tiendanube-rate-limiter';
 
 const TIENDA_NUBE_API_BASE = 'https://api.tiendanube.com/v1';
 const CLIENT_ID = process.env.TIENDANUBE_CLIENT_ID || "";
@@ -18,8 +25,15 @@ const NETWORK_CONFIG = {
   RETRY_ATTEMPTS: 3,          // Number of retry attempts
   RETRY_DELAY_BASE: 1000,     // Base retry delay (1 second)
   CONNECT_TIMEOUT: 10000,     // 10 seconds for connection establishment
+  RATE_LIMIT_RETRIES: 3,      // Attempts when Tienda Nube answers 429
 };
 
+// Tienda Nube's maximum page size for list endpoints
+const MAX_PER_PAGE = 200;
+// How long a write result is kept for replays with the same idempotency key
+const IDEMPOTENCY_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ORDER_NOTE_LENGTH = 1000;
+
 /**
  * 🔥 ENHANCED: Network-aware error types for better error handling
  */
@@ -148,6 +162,52 @@ async function retryWithBackoff<T>(
   throw lastError!;
 }
 
+export interface TiendaNubePaginationOptions {
+  // Stop after this many items (default: every page)
+  maxItems?: number;
+  // Page size, capped at Tienda Nube's maximum of 200
+  perPage?: number;
+  created_at_min?: string;
+  created_at_max?: string;
+  updated_at_min?: string;
+  updated_at_max?: string;
+}
+
+export interface TiendaNubeWriteOptions {
+  // Validate and build the request without sending it
+  dryRun?: boolean;
+  // Calls repeated with the same key return the first result instead of writing again
+  idempotencyKey?: string;
+}
+
+export interface TiendaNubeWriteResult<T> {
+  dryRun: boolean;
+  // True when the result comes from an earlier call with the same idempotency key
+  replayed: boolean;
+  idempotencyKey?: string;
+  request: {
+    method: 'POST' | 'PUT';
+    endpoint: string;
+    body: Record<string, unknown>;
+  };
+  data?: T;
+}
+
+// Writes by `${storeId}:${idempotencyKey}`, shared by every client in this process
+const idempotentWrites = new Map<string, { expiresAt: number; result: Promise<TiendaNubeWriteResult<unknown>> }>();
+
+function assertId(value: number, label: string): void {
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+}
+
+function assertAmount(value: number, label: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid ${label}: ${value}`);
+  }
+}
+
 /**
  * Tienda Nube API Client
  * 🔥 ENHANCED: Implements comprehensive network error handling and retry logic
@@ -166,6 +226,14 @@ export class TiendaNubeAPI {
    * 🔥 ENHANCED: Comprehensive timeout handling, retry logic, and error classification
    */
   private async makeRequest<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const { data } = await this.makeRequestWithHeaders<T>(endpoint, options);
+    return data;
+  }
+
+  /**
+   * Same as makeRequest but also returns the response headers (Link, rate limits)
+   */
+  private async makeRequestWithHeaders<T>(endpoint: string, options: RequestInit = {}): Promise<{ data: T; headers: Headers }> {
     if (!this.accessToken) {
       console.warn(`[TIENDANUBE] No access token available for store ${this.storeId}`);
       throw new Error('No access token available');
@@ -211,9 +279,20 @@ export class TiendaNubeAPI {
     console.log(`[DEBUG] TiendaNube API request: ${config.method || 'GET'} ${url}`);
 
     // 🔥 NEW: Wrap the entire request in retry logic
+    const rateLimiter = getTiendaNubeRateLimiter(this.storeId);
+
     return retryWithBackoff(async () => {
       try {
-        const response = await fetchWithTimeout(url, config, NETWORK_CONFIG.REQUEST_TIMEOUT);
+        // Wait for the shared bucket; on 429 pause for x-rate-limit-reset and try again
+        let response: Response;
+        for (let attempt = 1; ; attempt++) {
+          await rateLimiter.acquire();
+          response = await fetchWithTimeout(url, config, NETWORK_CONFIG.REQUEST_TIMEOUT);
+          rateLimiter.updateFromHeaders(response.headers);
+
+          if (response.status !== 429 || attempt >= NETWORK_CONFIG.RATE_LIMIT_RETRIES) break;
+          rateLimiter.pauseFromHeaders(response.headers);
+        }
 
         if (!response.ok) {
           // Handle specific error cases
@@ -238,7 +317,7 @@ export class TiendaNubeAPI {
         const data = await response.json();
         console.log(`[DEBUG] TiendaNube API response: ${JSON.stringify(data).substring(0, 200)}...`);
         
-        return data;
+        return { data, headers: response.headers };
       } catch (error) {
         // 🔥 NEW: Enhanced error logging with network classification
         if (error instanceof Error) {
@@ -383,6 +462,7 @@ export class TiendaNubeAPI {
     since_id?: number;
     created_at_min?: string;
     created_at_max?: string;
+    updated_at_min?: string;
     limit?: number;
     page?: number;
   }): Promise<TiendaNubeCustomer[]> {
@@ -636,6 +716,367 @@ export class TiendaNubeAPI {
       };
     }
   }
+
+  // ================================================
+  // PAGINATED ITERATORS
+  // ================================================
+
+  /**
+   * Iterate every product page by page, following the Link header
+   */
+  iterateProducts(options: TiendaNubePaginationOptions & {
+    published?: boolean;
+    fields?: string;
+  } = {}): AsyncGenerator<TiendaNubeProduct> {
+    return this.paginate<TiendaNubeProduct>('/products', options);
+  }
+
+  /**
+   * Iterate every order page by page, following the Link header
+   */
+  iterateOrders(options: TiendaNubePaginationOptions & {
+    status?: string;
+    payment_status?: string;
+    shipping_status?: string;
+    fields?: string;
+  } = {}): AsyncGenerator<TiendaNubeOrder> {
+    return this.paginate<TiendaNubeOrder>('/orders', options);
+  }
+
+  /**
+   * Number of orders matching the filters, from the x-total-count header of a one-item page.
+   * Returns null when the header is missing.
+   */
+  async countOrders(filters: {
+    created_at_min?: string;
+    created_at_max?: string;
+    status?: string;
+    payment_status?: string;
+  } = {}): Promise<number | null> {
+    const searchParams = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, value);
+      }
+    });
+    searchParams.set('per_page', '1');
+    searchParams.set('fields', 'id');
+
+    try {
+      const { headers } = await this.makeRequestWithHeaders<TiendaNubeOrder[]>(`/orders?${searchParams.toString()}`);
+      const total = Number(headers.get('x-total-count'));
+      return headers.has('x-total-count') && Number.isFinite(total) ? total : null;
+    } catch (error) {
+      // Tienda Nube answers 404 for an empty list
+      if (error instanceof Error && error.message === 'Resource not found') return 0;
+      throw error;
+    }
+  }
+
+  /**
+   * Iterate every customer page by page, following the Link header
+   */
+  iterateCustomers(options: TiendaNubePaginationOptions & {
+    fields?: string;
+  } = {}): AsyncGenerator<TiendaNubeCustomer> {
+    return this.paginate<TiendaNubeCustomer>('/customers', options);
+  }
+
+  /**
+   * Drain one of the iterators into an array
+   */
+  static async collect<T>(iterator: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = [];
+    for await (const item of iterator) {
+      items.push(item);
+    }
+    return items;
+  }
+
+  private async *paginate<T>(
+    path: string,
+    options: TiendaNubePaginationOptions
+  ): AsyncGenerator<T> {
+    const { maxItems, perPage, ...filters } = options;
+    const searchParams = new URLSearchParams();
+
+    // Endpoint-specific filters (status, published, fields...) are passed through as-is
+    Object.entries(filters as Record<string, string | number | boolean | undefined>).forEach(([key, value]) => {
+      if (value !== undefined) {
+        searchParams.append(key, value.toString());
+      }
+    });
+    searchParams.set('per_page', Math.min(perPage || MAX_PER_PAGE, MAX_PER_PAGE).toString());
+    searchParams.set('page', '1');
+
+    let endpoint: string | null = `${path}?${searchParams.toString()}`;
+    let yielded = 0;
+
+    while (endpoint) {
+      let page: { data: T[]; headers: Headers };
+      try {
+        page = await this.makeRequestWithHeaders<T[]>(endpoint);
+      } catch (error) {
+        // Tienda Nube answers 404 for an empty list or a page past the last one
+        if (error instanceof Error && error.message === 'Resource not found') return;
+        throw error;
+      }
+
+      const items = Array.isArray(page.data) ? page.data : [];
+      for (const item of items) {
+        yield item;
+        yielded++;
+        if (maxItems !== undefined && yielded >= maxItems) return;
+      }
+
+      endpoint = items.length > 0 ? this.getNextPageEndpoint(page.headers.get('link')) : null;
+    }
+  }
+
+  /**
+   * Endpoint of the rel="next" page from a Link header, relative to this store
+   */
+  private getNextPageEndpoint(linkHeader: string | null): string | null {
+    if (!linkHeader) return null;
+
+    const next = linkHeader
+      .split(',')
+      .find(part => /rel="?next"?/.test(part));
+    const url = next?.match(/<([^>]+)>/)?.[1];
+    if (!url) return null;
+
+    const storePath = new URL(`${TIENDA_NUBE_API_BASE}/${this.storeId}`).pathname;
+    const { pathname, search } = new URL(url, TIENDA_NUBE_API_BASE);
+
+    // Never follow links outside this store's API
+    return pathname.startsWith(`${storePath}/`) ? `${pathname.slice(storePath.length)}${search}` : null;
+  }
+
+  // ================================================
+  // WRITE OPERATIONS
+  // ================================================
+
+  /**
+   * Set the stock of a variant. `null` means unlimited stock.
+   */
+  async updateVariantStock(
+    productId: number,
+    variantId: number,
+    stock: number | null,
+    options: TiendaNubeWriteOptions = {}
+  ): Promise<TiendaNubeWriteResult<TiendaNubeVariant>> {
+    assertId(productId, 'product id');
+    assertId(variantId, 'variant id');
+    if (stock !== null && (!Number.isInteger(stock) || stock < 0)) {
+      throw new Error(`Invalid stock: ${stock}. Must be a non-negative integer or null`);
+    }
+
+    return this.executeWrite<TiendaNubeVariant>('PUT', `/products/${productId}/variants/${variantId}`, { stock }, options);
+  }
+
+  /**
+   * Set the price (and optionally the promotional price) of a variant
+   */
+  async updateVariantPrice(
+    productId: number,
+    variantId: number,
+    input: TiendaNubeVariantPriceInput,
+    options: TiendaNubeWriteOptions = {}
+  ): Promise<TiendaNubeWriteResult<TiendaNubeVariant>> {
+    assertId(productId, 'product id');
+    assertId(variantId, 'variant id');
+    assertAmount(input.price, 'price');
+    if (input.price === 0) {
+      throw new Error('Invalid price: must be greater than 0');
+    }
+
+    const body: Record<string, unknown> = { price: input.price.toFixed(2) };
+
+    if (input.promotional_price !== undefined) {
+      if (input.promotional_price !== null) {
+        assertAmount(input.promotional_price, 'promotional price');
+        if (input.promotional_price >= input.price) {
+          throw new Error(`Invalid promotional price: ${input.promotional_price} must be lower than price ${input.price}`);
+        }
+      }
+      body.promotional_price = input.promotional_price === null ? null : input.promotional_price.toFixed(2);
+    }
+
+    return this.executeWrite<TiendaNubeVariant>('PUT', `/products/${productId}/variants/${variantId}`, body, options);
+  }
+
+  /**
+   * Create a discount coupon
+   */
+  async createCoupon(
+    input: TiendaNubeCouponInput,
+    options: TiendaNubeWriteOptions = {}
+  ): Promise<TiendaNubeWriteResult<TiendaNubeCoupon>> {
+    const code = input.code?.trim().toUpperCase();
+    if (!code || !/^[A-Z0-9_-]{3,30}$/.test(code)) {
+      throw new Error(`Invalid coupon code: ${input.code}. Use 3-30 letters, numbers, - or _`);
+    }
+    if (!['percentage', 'absolute', 'shipping'].includes(input.type)) {
+      throw new Error(`Invalid coupon type: ${input.type}`);
+    }
+
+    const body: Record<string, unknown> = { code, type: input.type };
+
+    if (input.type !== 'shipping') {
+      assertAmount(input.value as number, 'coupon value');
+      if (!input.value || (input.type === 'percentage' && input.value > 100)) {
+        throw new Error(`Invalid coupon value: ${input.value}`);
+      }
+      body.value = input.value.toFixed(2);
+    }
+    if (input.max_uses !== undefined) {
+      assertId(input.max_uses, 'max uses');
+      body.max_uses = input.max_uses;
+    }
+    if (input.min_price !== undefined) {
+      assertAmount(input.min_price, 'minimum price');
+      body.min_price = input.min_price.toFixed(2);
+    }
+
+    for (const field of ['start_date', 'end_date'] as const) {
+      if (input[field] === undefined) continue;
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(input[field] as string) || Number.isNaN(Date.parse(input[field] as string))) {
+        throw new Error(`Invalid ${field}: ${input[field]}. Use YYYY-MM-DD`);
+      }
+      body[field] = input[field];
+    }
+    if (body.start_date && body.end_date && (body.end_date as string) < (body.start_date as string)) {
+      throw new Error('Invalid coupon dates: end_date is before start_date');
+    }
+
+    return this.executeWrite<TiendaNubeCoupon>('POST', '/coupons', body, options);
+  }
+
+  /**
+   * Mark an order as packed
+   */
+  async markOrderPacked(orderId: number, options: TiendaNubeWriteOptions = {}): Promise<TiendaNubeWriteResult<TiendaNubeOrder>> {
+    assertId(orderId, 'order id');
+    return this.executeWrite<TiendaNubeOrder>('POST', `/orders/${orderId}/pack`, {}, options);
+  }
+
+  /**
+   * Mark an order as fulfilled (shipped), optionally with tracking info
+   */
+  async markOrderFulfilled(
+    orderId: number,
+    input: TiendaNubeFulfillmentInput = {},
+    options: TiendaNubeWriteOptions = {}
+  ): Promise<TiendaNubeWriteResult<TiendaNubeOrder>> {
+    assertId(orderId, 'order id');
+    if (input.shipping_tracking_url) {
+      try {
+        new URL(input.shipping_tracking_url);
+      } catch {
+        throw new Error(`Invalid tracking URL: ${input.shipping_tracking_url}`);
+      }
+    }
+
+    const body: Record<string, unknown> = { notify_customer: input.notify_customer ?? true };
+    if (input.shipping_tracking_number) body.shipping_tracking_number = input.shipping_tracking_number.trim();
+    if (input.shipping_tracking_url) body.shipping_tracking_url = input.shipping_tracking_url;
+
+    return this.executeWrite<TiendaNubeOrder>('POST', `/orders/${orderId}/fulfill`, body, options);
+  }
+
+  /**
+   * Append a note to the order's internal (owner) notes
+   */
+  async addOrderNote(orderId: number, note: string, options: TiendaNubeWriteOptions = {}): Promise<TiendaNubeWriteResult<TiendaNubeOrder>> {
+    assertId(orderId, 'order id');
+    const text = note?.trim();
+    if (!text) {
+      throw new Error('Invalid note: cannot be empty');
+    }
+
+    // Notes are a single field, so keep whatever was already there
+    const order = await this.getOrder(orderId);
+    const ownerNote = order.owner_note ? `${order.owner_note}\n${text}` : text;
+    if (ownerNote.length > MAX_ORDER_NOTE_LENGTH) {
+      throw new Error(`Invalid note: order notes cannot exceed ${MAX_ORDER_NOTE_LENGTH} characters`);
+    }
+
+    return this.executeWrite<TiendaNubeOrder>('PUT', `/orders/${orderId}`, { owner_note: ownerNote }, options);
+  }
+
+  /**
+   * Send a validated write, honouring dry-run and idempotency keys
+   */
+  private async executeWrite<T>(
+    method: 'POST' | 'PUT',
+    endpoint: string,
+    body: Record<string, unknown>,
+    options: TiendaNubeWriteOptions
+  ): Promise<TiendaNubeWriteResult<T>> {
+    const request = { method, endpoint, body };
+    const idempotencyKey = options.idempotencyKey;
+
+    if (options.dryRun) {
+      console.warn(`[TIENDANUBE] Dry run ${method} ${endpoint} for store ${this.storeId}`);
+      return { dryRun: true, replayed: false, idempotencyKey, request };
+    }
+
+    const cacheKey = idempotencyKey ? `${this.storeId}:${idempotencyKey}` : null;
+    if (cacheKey) {
+      const previous = idempotentWrites.get(cacheKey);
+      if (previous && previous.expiresAt > Date.now()) {
+        console.warn(`[TIENDANUBE] Replaying write ${idempotencyKey} for store ${this.storeId}`);
+        const result = await previous.result as TiendaNubeWriteResult<T>;
+        return { ...result, replayed: true };
+      }
+    }
+
+    const result = this.makeRequest<T>(endpoint, { method, body: JSON.stringify(body) })
+      .then(data => ({ dryRun: false, replayed: false, idempotencyKey, request, data }));
+
+    if (cacheKey) {
+      for (const [key, entry] of idempotentWrites) {
+        if (entry.expiresAt <= Date.now()) idempotentWrites.delete(key);
+      }
+      idempotentWrites.set(cacheKey, { expiresAt: Date.now() + IDEMPOTENCY_TTL_MS, result });
+      // A failed write can be retried with the same key
+      result.catch(() => idempotentWrites.delete(cacheKey));
+    }
+
+    return result;
+  }
+
+  // ================================================
+  // WEBHOOKS
+  // ================================================
+
+  /**
+   * List webhooks registered by our app for this store
+   */
+  async getWebhooks(): Promise<TiendaNubeWebhook[]> {
+    const webhooks = await this.makeRequest<TiendaNubeWebhook[]>('/webhooks');
+    return Array.isArray(webhooks) ? webhooks : [];
+  }
+
+  /**
+   * Register a webhook for an event (e.g. "order/paid")
+   */
+  async createWebhook(event: string, url: string): Promise<TiendaNubeWebhook> {
+    return this.makeRequest<TiendaNubeWebhook>('/webhooks', {
+      method: 'POST',
+      body: JSON.stringify({ event, url })
+    });
+  }
+
+  /**
+   * Point an existing webhook to a new URL
+   */
+  async updateWebhook(webhookId: number, url: string): Promise<TiendaNubeWebhook> {
+    return this.makeRequest<TiendaNubeWebhook>(`/webhooks/${webhookId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ url })
+    });
+  }
 }
 
 // ================================================
@@ -5,11 +5,26 @@
 
 import twilio from 'twilio';
 
+import type { AgentSuggestion } from '@/lib/agents/types';
+
+import {
+  INTERACTIVE_MAX_BODY_LENGTH,
+  LIST_PICKER_MAX_ITEMS,
+  buildInteractiveVariables,
+  formatSuggestionsAsText,
+  getInteractiveContentSid,
+  getInteractiveLayout
+} from './whatsapp/interactive-messages';
+import { formatWhatsAppMessage, markdownToWhatsApp } from './whatsapp/message-formatter';
+import { WhatsAppSessionWindow } from './whatsapp/session-window';
+
 export interface TwilioConfig {
   accountSid: string;
   authToken: string;
   phoneNumber: string;
   webhookUrl: string;
+  // Twilio posts sent/delivered/read/failed events here
+  statusCallbackUrl?: string;
 }
 
 export interface WhatsAppMessage {
@@ -19,6 +34,23 @@ export interface WhatsAppMessage {
   mediaUrl?: string;
 }
 
+export interface WhatsAppSendResult {
+  success: boolean;
+  // Last message sent
+  messageSid?: string;
+  // Every message sent, in order: long answers go out as several parts
+  messageSids?: string[];
+  // Parts of the answer Twilio accepted so far, including the ones skipped on a resume
+  partsSent?: number;
+  error?: string;
+  usedTemplate?: boolean;
+}
+
+export interface WhatsAppSendOptions {
+  // Parts already sent by a previous attempt, resumed after instead of sent again
+  skipParts?: number;
+}
+
 export interface WhatsAppWebhook {
   MessageSid: string;
   From: string;
@@ -115,34 +147,54 @@ export class TwilioWhatsAppService {
   /**
    * Send a WhatsApp message - Now with smart template/freeform selection
    */
-  async sendMessage(message: WhatsAppMessage): Promise<{ success: boolean; messageSid?: string; error?: string }> {
-    try {
-      console.warn(`[WHATSAPP] Sending message to ${message.to}`);
+  async sendMessage(message: WhatsAppMessage, options: WhatsAppSendOptions = {}): Promise<WhatsAppSendResult> {
+    // Agents answer in markdown: render it for WhatsApp and send long answers as ordered parts
+    const parts = formatWhatsAppMessage(message.body);
+    const skipParts = Math.min(options.skipParts || 0, parts.length);
+    const messageSids: string[] = [];
 
-      const twilioMessage = await this.client.messages.create({
-        body: message.body,
-        from: `whatsapp:${message.from}`,
-        to: `whatsapp:${message.to}`,
-        ...(message.mediaUrl && { mediaUrl: [message.mediaUrl] })
-      });
+    try {
+      console.warn(`[WHATSAPP] Sending message to ${message.to}${skipParts > 0 ? ` (resuming after part ${skipParts})` : ''}`);
+
+      for (const [index, body] of parts.entries()) {
+        if (index < skipParts) continue;
+        const twilioMessage = await this.client.messages.create({
+          body,
+          from: `whatsapp:${message.from}`,
+          to: `whatsapp:${message.to}`,
+          ...(index === 0 && message.mediaUrl && { mediaUrl: [message.mediaUrl] }),
+          ...(this.config.statusCallbackUrl && { statusCallback: this.config.statusCallbackUrl })
+        });
+        messageSids.push(twilioMessage.sid);
+      }
 
-      console.warn(`[WHATSAPP] Message sent successfully: ${twilioMessage.sid}`);
+      console.warn(`[WHATSAPP] Message sent successfully: ${messageSids.join(', ')}${parts.length > 1 ? ` (${parts.length} parts)` : ''}`);
 
       return {
         success: true,
-        messageSid: twilioMessage.sid
+        messageSid: messageSids[messageSids.length - 1],
+        messageSids,
+        partsSent: parts.length
       };
     } catch (error) {
       console.error('[ERROR] Twilio send message failed:', error);
-      
+      const partsSent = skipParts + messageSids.length;
+
       // If error 63016 (freeform outside window), attempt template fallback
       if (error instanceof Error && error.message.includes('63016')) {
         console.warn('[WHATSAPP] Freeform failed (63016), attempting template fallback...');
-        return await this.sendWithTemplateFallback(message);
+        const fallback = await this.sendWithTemplateFallback(message);
+        return {
+          ...fallback,
+          messageSids: [...messageSids, ...(fallback.messageSid ? [fallback.messageSid] : [])],
+          partsSent
+        };
       }
-      
+
       return {
         success: false,
+        messageSids,
+        partsSent,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
@@ -155,18 +207,36 @@ export class TwilioWhatsAppService {
     phoneNumber: string, 
     messageContent: string, 
     messageType: 'response' | 'analytics' | 'marketing' | 'error' | 'welcome' = 'response',
-    templateData?: Record<string, string>
-  ): Promise<{ success: boolean; messageSid?: string; error?: string; usedTemplate?: boolean }> {
+    templateData?: Record<string, string>,
+    suggestions: AgentSuggestion[] = [],
+    options: WhatsAppSendOptions = {}
+  ): Promise<WhatsAppSendResult> {
     
+    // Outside the merchant's 24h session window freeform fails with 63016: go straight to the template
+    try {
+      if (await WhatsAppSessionWindow.getSendMode(phoneNumber, this.config.phoneNumber) === 'template') {
+        console.warn('[WHATSAPP] Session window closed, sending template');
+        return await this.sendTemplateByType(phoneNumber, messageType, templateData);
+      }
+    } catch (error) {
+      console.warn('[WHATSAPP] Session window lookup failed, trying freeform first:', error);
+    }
+
     // First try freeform message (works within 24h window)
     try {
-      const result = await this.sendMessage({
-        to: phoneNumber,
-        from: this.config.phoneNumber,
-        body: messageContent
-      });
+      const result = suggestions.length > 0
+        ? await this.sendInteractiveMessage(phoneNumber, messageContent, suggestions, options)
+        : await this.sendMessage({
+            to: phoneNumber,
+            from: this.config.phoneNumber,
+            body: messageContent
+          }, options);
       
       if (result.success) {
+        return { usedTemplate: false, ...result };
+      }
+      // Part of the answer is already out: let the caller retry and resume it, not replace it with a template
+      if ((result.partsSent || 0) > 0) {
         return { ...result, usedTemplate: false };
       }
     } catch (error) {
@@ -177,6 +247,82 @@ export class TwilioWhatsAppService {
     return await this.sendTemplateByType(phoneNumber, messageType, templateData);
   }
 
+  /**
+   * Send an answer with its suggestions as quick-reply buttons or a list picker.
+   * Falls back to the answer with numbered options when the interactive message can't be sent.
+   */
+  async sendInteractiveMessage(
+    phoneNumber: string,
+    body: string,
+    suggestions: AgentSuggestion[],
+    sendOptions: WhatsAppSendOptions = {}
+  ): Promise<WhatsAppSendResult> {
+    const options = suggestions.slice(0, LIST_PICKER_MAX_ITEMS);
+    const layout = getInteractiveLayout(options);
+    const skipParts = sendOptions.skipParts || 0;
+    // Interactive bodies are capped at 1024 chars: long answers go first as plain text
+    const longAnswer = markdownToWhatsApp(body).length > INTERACTIVE_MAX_BODY_LENGTH;
+    let answer: WhatsAppSendResult | null = null;
+
+    // A short answer only has parts when it already fell back to text: finish that text
+    if (skipParts > 0 && !longAnswer) {
+      return await this.sendMessage({
+        to: phoneNumber,
+        from: this.config.phoneNumber,
+        body: formatSuggestionsAsText(body, options)
+      }, { skipParts });
+    }
+
+    try {
+      const contentSid = await getInteractiveContentSid(this.client, layout, options.length);
+
+      let interactiveBody = markdownToWhatsApp(body);
+      if (longAnswer) {
+        answer = await this.sendMessage({ to: phoneNumber, from: this.config.phoneNumber, body }, { skipParts });
+        if (!answer.success) return answer;
+        interactiveBody = '¿Qué querés hacer ahora?';
+      }
+
+      const twilioMessage = await this.client.messages.create({
+        from: `whatsapp:${this.config.phoneNumber}`,
+        to: `whatsapp:${phoneNumber}`,
+        contentSid,
+        contentVariables: JSON.stringify(buildInteractiveVariables(layout, interactiveBody, options)),
+        ...(this.config.statusCallbackUrl && { statusCallback: this.config.statusCallbackUrl })
+      });
+
+      console.warn(`[WHATSAPP] Interactive ${layout} sent successfully: ${twilioMessage.sid}`);
+
+      return {
+        success: true,
+        messageSid: twilioMessage.sid,
+        messageSids: [...(answer?.messageSids || []), twilioMessage.sid],
+        partsSent: (answer?.partsSent || 0) + 1
+      };
+    } catch (error) {
+      console.warn('[WHATSAPP] Interactive message failed, sending numbered options as text:', error);
+      if (!answer) {
+        return await this.sendMessage({
+          to: phoneNumber,
+          from: this.config.phoneNumber,
+          body: formatSuggestionsAsText(body, options)
+        }, { skipParts });
+      }
+
+      // The answer went out already: only the options are missing, and a retry resumes after the answer
+      const fallback = await this.sendMessage({
+        to: phoneNumber,
+        from: this.config.phoneNumber,
+        body: formatSuggestionsAsText('', options).trim()
+      });
+      return {
+        ...fallback,
+        messageSids: [...(answer.messageSids || []), ...(fallback.messageSids || [])],
+        partsSent: answer.partsSent
+      };
+    }
+  }
+
   /**
    * Send template message by type
    */
@@ -241,7 +387,8 @@ export class TwilioWhatsAppService {
         from: `whatsapp:${this.config.phoneNumber}`,
         to: `whatsapp:${phoneNumber}`,
         contentSid: templateConfig.contentSid,
-        contentVariables: JSON.stringify(variables)
+        contentVariables: JSON.stringify(variables),
+        ...(this.config.statusCallbackUrl && { statusCallback: this.config.statusCallbackUrl })
       });
 
       console.warn(`[WHATSAPP] Template sent successfully: ${twilioMessage.sid}`);
@@ -684,6 +831,14 @@ ${suggestions.map((suggestion, index) => `${index + 1}. ${suggestion}`).join('\n
   }
 }
 
+/**
+ * Status callback endpoint, only when the public URL of the app is known
+ */
+export function getStatusCallbackUrl(): string | undefined {
+  const baseUrl = process.env.TWILIO_WEBHOOK_BASE_URL || process.env.NEXT_PUBLIC_APP_URL;
+  return baseUrl ? `${baseUrl.replace(/\/$/, '')}/api/whatsapp/status-callback` : undefined;
+}
+
 /**
  * Create Twilio WhatsApp service instance
  */
@@ -692,7 +847,8 @@ export function createTwilioWhatsAppService(): TwilioWhatsAppService {
     accountSid: process.env.TWILIO_ACCOUNT_SID || "",
     authToken: process.env.TWILIO_AUTH_TOKEN || "",
     phoneNumber: process.env.TWILIO_PHONE_NUMBER || "",
-    webhookUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/whatsapp/webhook`
+    webhookUrl: `${process.env.NEXT_PUBLIC_APP_URL}/api/whatsapp/webhook`,
+    statusCallbackUrl: getStatusCallbackUrl()
   };
 
   return new TwilioWhatsAppService(config);
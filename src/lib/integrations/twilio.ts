@@ -2,6 +2,8 @@ import twilio from 'twilio';
 
 import type { TwilioWhatsAppMessage } from '@/types/whatsapp';
 
+import { formatWhatsAppMessage } from './whatsapp/message-formatter';
+
 const _accountSid = process.env.TWILIO_ACCOUNT_SID || "";
 const _authToken = process.env.TWILIO_AUTH_TOKEN || "";
 const _whatsappNumber = process.env.TWILIO_WHATSAPP_NUMBER || "";
@@ -35,7 +37,10 @@ export class TwilioWhatsAppService {
   /**
    * Send a simple text message via WhatsApp
    */
-  async sendMessage(to: string, body: string): Promise<{ success: true; messageId: string } | { success: false; error: string }> {
+  async sendMessage(to: string, body: string): Promise<
+    | { success: true; messageId: string; messageIds: string[] }
+    | { success: false; error: string; messageIds?: string[] }
+  > {
     // Development mode simulation
     if (_isDevelopmentMode) {
       console.warn(`[DEV] Simulating WhatsApp message to ${to}: "${body}"`);
@@ -47,7 +52,8 @@ export class TwilioWhatsAppService {
       
       return {
         success: true,
-        messageId: _developmentMessageId
+        messageId: _developmentMessageId,
+        messageIds: [_developmentMessageId]
       };
     }
 
@@ -56,22 +62,30 @@ export class TwilioWhatsAppService {
       return { success: false, error: 'WhatsApp service not configured' };
     }
 
+    // SIDs of every part, so the ones already delivered are known when a later part fails
+    const _messageIds: string[] = [];
+
     try {
       console.warn(`[INFO] Sending WhatsApp message to ${to}`);
       
-      const _message = await twilioClient.messages.create({
-        from: _whatsappNumber,
-        to: `whatsapp:${to}`,
-        body,
-      });
+      // Markdown rendered for WhatsApp; long answers go out as ordered parts
+      for (const part of formatWhatsAppMessage(body)) {
+        const _message = await twilioClient.messages.create({
+          from: _whatsappNumber,
+          to: `whatsapp:${to}`,
+          body: part,
+        });
+        _messageIds.push(_message.sid);
+      }
 
-      console.warn(`[INFO] WhatsApp message sent successfully. SID: ${_message.sid}`);
-      return { success: true, messageId: _message.sid };
+      console.warn(`[INFO] WhatsApp message sent successfully. SID(s): ${_messageIds.join(', ')}`);
+      return { success: true, messageId: _messageIds[_messageIds.length - 1], messageIds: _messageIds };
     } catch (error) {
-      console.warn('[ERROR] Failed to send WhatsApp message:', error);
+      console.warn(`[ERROR] Failed to send WhatsApp message (${_messageIds.length} part(s) sent):`, error);
       return { 
         success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error occurred' 
+        error: error instanceof Error ? error.message : 'Unknown error occurred',
+        messageIds: _messageIds
       };
     }
   }
@@ -0,0 +1,108 @@
+import {
+  collectInboundMedia,
+  configureMediaProviders,
+  getMediaKind,
+  processInboundMedia,
+  StubImageDescriptionProvider,
+  StubProductMatcher,
+  StubSpeechToTextProvider
+} from '@/lib/integrations/whatsapp/media-pipeline';
+
+jest.mock('@/lib/integrations/whatsapp/webhook-security', () => ({
+  getTwilioAuthToken: jest.fn().mockResolvedValue('auth-token')
+}));
+
+const OPTIONS = { storeId: 'store-1', userId: 'user-1', accountSid: 'AC123' };
+
+function mediaResponse(bytes: number, init: { ok?: boolean; status?: number } = {}) {
+  return {
+    ok: init.ok ?? true,
+    status: init.status ?? 200,
+    statusText: init.ok === false ? 'Not Found' : 'OK',
+    headers: { get: (name: string) => (name === 'content-length' ? String(bytes) : null) },
+    arrayBuffer: async () => new ArrayBuffer(bytes)
+  };
+}
+
+describe('media pipeline', () => {
+  const fetchMock = jest.fn();
+
+  beforeEach(() => {
+    global.fetch = fetchMock as unknown as typeof fetch;
+    fetchMock.mockResolvedValue(mediaResponse(128));
+    configureMediaProviders({
+      speechToText: new StubSpeechToTextProvider('¿Cuánto vendí ayer?'),
+      imageDescription: new StubImageDescriptionProvider('Remera de algodón color negro.'),
+      productMatcher: new StubProductMatcher([{ productId: '42', name: 'Remera básica negra', score: 0.91 }])
+    });
+  });
+
+  it('collects the media items of a Twilio webhook', () => {
+    expect(collectInboundMedia({
+      NumMedia: '2',
+      MediaUrl0: 'https://api.twilio.com/media/0',
+      MediaContentType0: 'audio/ogg',
+      MediaUrl1: 'https://api.twilio.com/media/1'
+    })).toEqual([
+      { url: 'https://api.twilio.com/media/0', contentType: 'audio/ogg' },
+      { url: 'https://api.twilio.com/media/1', contentType: 'application/octet-stream' }
+    ]);
+    expect(collectInboundMedia({ NumMedia: '8', MediaUrl0: 'a', MediaUrl1: 'b', MediaUrl2: 'c', MediaUrl3: 'd', MediaUrl4: 'e', MediaUrl5: 'f' })).toHaveLength(5);
+    expect(getMediaKind('audio/ogg; codecs=opus')).toBe('audio');
+    expect(getMediaKind('image/jpeg')).toBe('image');
+    expect(getMediaKind('application/pdf')).toBe('other');
+  });
+
+  it('adds the transcription of a voice note to the message text', async () => {
+    const result = await processInboundMedia('', [{ url: 'https://api.twilio.com/media/0', contentType: 'audio/ogg' }], OPTIONS);
+
+    expect(result.text).toBe('¿Cuánto vendí ayer?');
+    expect(result.media[0]).toMatchObject({ kind: 'audio', transcription: '¿Cuánto vendí ayer?' });
+    expect(fetchMock).toHaveBeenCalledWith('https://api.twilio.com/media/0', {
+      headers: { Authorization: `Basic ${Buffer.from('AC123:auth-token').toString('base64')}` }
+    });
+  });
+
+  it('describes images and lists the matching products', async () => {
+    const result = await processInboundMedia('¿Tengo stock de esto?', [{ url: 'https://api.twilio.com/media/0', contentType: 'image/jpeg' }], OPTIONS);
+
+    expect(result.media[0].matchedProducts).toEqual([{ productId: '42', name: 'Remera básica negra', score: 0.91 }]);
+    expect(result.text).toBe(
+      '¿Tengo stock de esto?\n\n[Imagen enviada: Remera de algodón color negro. Productos similares del catálogo: Remera básica negra (ID 42).]'
+    );
+  });
+
+  it('keeps the description when product matching fails', async () => {
+    const matcher = new StubProductMatcher();
+    jest.spyOn(matcher, 'match').mockRejectedValue(new Error('RAG unavailable'));
+    configureMediaProviders({ productMatcher: matcher });
+
+    const result = await processInboundMedia('', [{ url: 'https://api.twilio.com/media/0', contentType: 'image/png' }], OPTIONS);
+
+    expect(result.media[0]).toMatchObject({ description: 'Remera de algodón color negro.', matchedProducts: [] });
+    expect(result.media[0].error).toBeUndefined();
+  });
+
+  it('records failed downloads on the item instead of throwing', async () => {
+    fetchMock
+      .mockResolvedValueOnce(mediaResponse(0, { ok: false, status: 404 }))
+      .mockResolvedValueOnce(mediaResponse(17 * 1024 * 1024));
+
+    const result = await processInboundMedia('Hola', [
+      { url: 'https://api.twilio.com/media/0', contentType: 'audio/ogg' },
+      { url: 'https://api.twilio.com/media/1', contentType: 'image/jpeg' }
+    ], OPTIONS);
+
+    expect(result.text).toBe('Hola');
+    expect(result.media[0].error).toBe('Media download failed: 404 Not Found');
+    expect(result.media[1].error).toBe(`Media too large: ${17 * 1024 * 1024} bytes`);
+  });
+
+  it('ignores media that is neither audio nor an image', async () => {
+    const result = await processInboundMedia('Te paso el PDF', [{ url: 'https://api.twilio.com/media/0', contentType: 'application/pdf' }], OPTIONS);
+
+    expect(result.text).toBe('Te paso el PDF');
+    expect(result.media[0]).toEqual({ url: 'https://api.twilio.com/media/0', contentType: 'application/pdf', kind: 'other' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
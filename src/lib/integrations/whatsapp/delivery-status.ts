@@ -0,0 +1,271 @@
+/**
+ * WhatsApp Delivery Status
+ * Records outbound replies in whatsapp_messages and applies Twilio status callbacks
+ * (sent → delivered → read, or failed). Freeform messages rejected outside the 24h
+ * window (63016) are re-sent once through SmartTemplateService's template fallback.
+ */
+
+import type { AgentType } from '@/lib/agents/types';
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+import { smartTemplateService } from './smart-template-service';
+
+export type DeliveryStatus = 'sent' | 'delivered' | 'read' | 'failed';
+
+type WhatsAppMessageRow = Database['public']['Tables']['whatsapp_messages']['Row'];
+
+export interface OutboundMessageRecord {
+  messageSid: string;
+  userId: string;
+  storeId: string | null;
+  phoneNumber: string;
+  body: string;
+  agentType?: string;
+  usedTemplate: boolean;
+  storeName?: string;
+  displayName?: string;
+  // Set on template re-sends: MessageSid of the freeform message that failed
+  fallbackFor?: string;
+  // Multipart replies: inbound MessageSid the parts answer, and the 1-based part number
+  replyTo?: string | null;
+  part?: number;
+}
+
+export interface StatusCallbackEvent {
+  messageSid: string;
+  // Raw Twilio MessageStatus (queued, sent, delivered, read, undelivered, failed...)
+  messageStatus: string;
+  errorCode?: string | null;
+  errorMessage?: string | null;
+}
+
+export interface StatusCallbackResult {
+  status: DeliveryStatus | null;
+  updated: boolean;
+  templateResent: boolean;
+}
+
+export interface DeliveryStats {
+  periodDays: number;
+  total: number;
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  templateResends: number;
+  // Percentages over all outbound messages; read messages count as delivered
+  deliveryRate: number;
+  readRate: number;
+}
+
+// Error 63016: freeform message outside the 24h customer service window
+export const OUTSIDE_SESSION_WINDOW_ERROR = '63016';
+
+const TWILIO_STATUS_MAP: Record<string, DeliveryStatus> = {
+  accepted: 'sent',
+  scheduled: 'sent',
+  queued: 'sent',
+  sending: 'sent',
+  sent: 'sent',
+  delivered: 'delivered',
+  read: 'read',
+  undelivered: 'failed',
+  failed: 'failed'
+};
+
+// Callbacks can arrive out of order; a status only replaces the ones listed here
+const PREVIOUS_STATUSES: Record<DeliveryStatus, DeliveryStatus[]> = {
+  sent: [],
+  delivered: ['sent'],
+  read: ['sent', 'delivered'],
+  failed: ['sent']
+};
+
+export function mapTwilioStatus(messageStatus: string): DeliveryStatus | null {
+  return TWILIO_STATUS_MAP[(messageStatus || '').toLowerCase()] || null;
+}
+
+export class WhatsAppDeliveryTracker {
+  /**
+   * Record an outbound message right after Twilio accepted it
+   */
+  static async recordOutbound(record: OutboundMessageRecord): Promise<void> {
+    const supabase = createServiceClient();
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('whatsapp_messages')
+      .upsert({
+        message_id: record.messageSid,
+        user_id: record.userId,
+        store_id: record.storeId,
+        phone_number: record.phoneNumber,
+        direction: 'outbound',
+        message_type: record.usedTemplate ? 'template' : 'text',
+        content: {
+          body: record.body,
+          agentType: record.agentType || null,
+          storeName: record.storeName || null,
+          displayName: record.displayName || null,
+          ...(record.fallbackFor ? { fallbackFor: record.fallbackFor } : {}),
+          ...(record.replyTo ? { replyTo: record.replyTo, part: record.part || 1 } : {})
+        },
+        status: 'sent',
+        status_updated_at: now,
+        timestamp: now
+      }, { onConflict: 'message_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.warn(`[WHATSAPP-STATUS] Failed to record outbound message ${record.messageSid}:`, error.message);
+    }
+  }
+
+  /**
+   * Apply a Twilio status callback to the message row
+   */
+  static async applyStatusCallback(event: StatusCallbackEvent): Promise<StatusCallbackResult> {
+    const status = mapTwilioStatus(event.messageStatus);
+    if (!status || status === 'sent') {
+      return { status, updated: false, templateResent: false };
+    }
+
+    const now = new Date().toISOString();
+    const update: Record<string, unknown> = { status, status_updated_at: now };
+    if (status === 'delivered') update.delivered_at = now;
+    if (status === 'read') update.read_at = now;
+    if (status === 'failed') {
+      update.error_code = event.errorCode || null;
+      update.error_message = event.errorMessage || null;
+    }
+
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('whatsapp_messages')
+      .update(update)
+      .eq('message_id', event.messageSid)
+      .in('status', PREVIOUS_STATUSES[status])
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to update status of ${event.messageSid}: ${error.message}`);
+    }
+
+    const row = (data || [])[0] as WhatsAppMessageRow | undefined;
+    if (!row) {
+      // Unknown message (OTP, onboarding prompts) or a stale callback
+      return { status, updated: false, templateResent: false };
+    }
+
+    const templateResent = status === 'failed'
+      && event.errorCode === OUTSIDE_SESSION_WINDOW_ERROR
+      && row.message_type !== 'template'
+      && await WhatsAppDeliveryTracker.resendAsTemplate(row);
+
+    return { status, updated: true, templateResent };
+  }
+
+  /**
+   * Re-send a failed freeform message as a template (at most once per reply: when
+   * several parts of a multipart reply fail, they share a single template)
+   */
+  private static async resendAsTemplate(row: WhatsAppMessageRow): Promise<boolean> {
+    const supabase = createServiceClient();
+    const content = (row.content || {}) as Record<string, string | null>;
+
+    // Twilio may post the failure more than once, once per part too; only one callback gets to re-send
+    let claim = supabase
+      .from('whatsapp_messages')
+      .update({ fallback_status: 'pending' })
+      .is('fallback_status', null);
+    claim = content.replyTo && row.user_id
+      ? claim.eq('user_id', row.user_id).eq('content->>replyTo', content.replyTo)
+      : claim.eq('id', row.id);
+    const { data: claimed } = await claim.select('id');
+
+    if (!claimed || claimed.length === 0 || !row.user_id || !row.phone_number) {
+      return false;
+    }
+
+    const result = await smartTemplateService.resendAsTemplate(
+      { phoneNumber: row.phone_number, storeId: row.store_id || '', userId: row.user_id },
+      (content.agentType || 'orchestrator') as AgentType,
+      content.body || '',
+      { displayName: content.displayName || undefined, storeName: content.storeName || undefined }
+    );
+
+    await supabase
+      .from('whatsapp_messages')
+      .update({
+        fallback_status: result.success ? 'sent' : 'failed',
+        fallback_message_id: result.messageSid || null
+      })
+      .in('id', claimed.map(claimedRow => claimedRow.id));
+
+    if (!result.success || !result.messageSid) {
+      console.error(`[WHATSAPP-STATUS] Template re-send of ${row.message_id} failed:`, result.error);
+      return false;
+    }
+
+    console.warn(`[WHATSAPP-STATUS] ${row.message_id} failed outside the 24h window, re-sent as template${result.fallbackUsed ? ` (${result.fallbackUsed})` : ''}:`, result.messageSid);
+    await WhatsAppDeliveryTracker.recordOutbound({
+      messageSid: result.messageSid,
+      userId: row.user_id,
+      storeId: row.store_id,
+      phoneNumber: row.phone_number,
+      body: content.body || '',
+      agentType: content.agentType || undefined,
+      usedTemplate: true,
+      storeName: content.storeName || undefined,
+      displayName: content.displayName || undefined,
+      fallbackFor: row.message_id || undefined
+    });
+    return true;
+  }
+
+  /**
+   * Delivery and read rates of a user's outbound messages over the last days
+   */
+  static async getStats(userId: string, periodDays: number = 7): Promise<DeliveryStats> {
+    const supabase = createServiceClient();
+    const since = new Date(Date.now() - periodDays * 24 * 60 * 60 * 1000).toISOString();
+
+    const countMessages = async (filter?: { column: string; values: string[] }) => {
+      let query = supabase
+        .from('whatsapp_messages')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', userId)
+        .eq('direction', 'outbound')
+        .gte('created_at', since);
+      if (filter) query = query.in(filter.column, filter.values);
+
+      const { count, error } = await query;
+      if (error) {
+        throw new Error(`Failed to count WhatsApp messages: ${error.message}`);
+      }
+      return count || 0;
+    };
+
+    const [total, sent, delivered, read, failed, templateResends] = await Promise.all([
+      countMessages(),
+      countMessages({ column: 'status', values: ['sent'] }),
+      countMessages({ column: 'status', values: ['delivered'] }),
+      countMessages({ column: 'status', values: ['read'] }),
+      countMessages({ column: 'status', values: ['failed'] }),
+      countMessages({ column: 'fallback_status', values: ['sent'] })
+    ]);
+
+    const percentage = (value: number) => (total > 0 ? Math.round((value / total) * 1000) / 10 : 0);
+
+    return {
+      periodDays,
+      total,
+      sent,
+      delivered,
+      read,
+      failed,
+      templateResends,
+      deliveryRate: percentage(delivered + read),
+      readRate: percentage(read)
+    };
+  }
+}
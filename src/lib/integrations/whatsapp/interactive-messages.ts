@@ -0,0 +1,222 @@
+/**
+ * WhatsApp Interactive Messages
+ * Renders agent suggestions as Content API quick-reply buttons (up to 3) or a
+ * list picker (up to 10), with a numbered text fallback. Content templates are
+ * created once per layout and option count and filled with variables, so every
+ * answer reuses the same few Content SIDs. Replies come back as ButtonPayload /
+ * ListId (or as the typed option number) and are matched to the suggestions
+ * stored on the outbound message.
+ */
+
+import type twilio from 'twilio';
+
+import { findSuggestion } from '@/lib/agents/suggestions';
+import type { AgentSuggestion, AgentSuggestionKind } from '@/lib/agents/types';
+import { createServiceClient } from '@/lib/supabase/server';
+
+export type InteractiveLayout = 'quick_reply' | 'list_picker';
+
+// WhatsApp limits for interactive session messages
+export const QUICK_REPLY_MAX_BUTTONS = 3;
+export const QUICK_REPLY_MAX_TITLE_LENGTH = 20;
+export const LIST_PICKER_MAX_ITEMS = 10;
+export const LIST_PICKER_MAX_ITEM_LENGTH = 24;
+export const LIST_PICKER_MAX_DESCRIPTION_LENGTH = 72;
+export const INTERACTIVE_MAX_BODY_LENGTH = 1024;
+
+const LIST_PICKER_BUTTON = 'Ver opciones';
+const CONTENT_LANGUAGE = 'es';
+const CONTENT_VERSION = 'v1';
+const RECENT_SUGGESTION_MESSAGES = 5;
+
+const KIND_DESCRIPTIONS: Record<AgentSuggestionKind, string> = {
+  follow_up: 'Pregunta sugerida',
+  action_confirmation: 'Acción pendiente',
+  agent_choice: 'Especialista',
+  store_choice: 'Tienda'
+};
+
+// Content SIDs by friendly name, resolved once per instance
+const contentSidCache = new Map<string, string>();
+
+function truncate(value: string, maxLength: number): string {
+  const text = value.trim();
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+}
+
+/**
+ * Buttons when the options fit in them, otherwise a list picker
+ */
+export function getInteractiveLayout(suggestions: AgentSuggestion[]): InteractiveLayout {
+  const fitsButtons = suggestions.length <= QUICK_REPLY_MAX_BUTTONS
+    && suggestions.every(suggestion => suggestion.title.length <= QUICK_REPLY_MAX_TITLE_LENGTH);
+  return fitsButtons ? 'quick_reply' : 'list_picker';
+}
+
+/**
+ * Numbered options below the answer, for channels or senders without interactive support
+ */
+export function formatSuggestionsAsText(body: string, suggestions: AgentSuggestion[]): string {
+  if (suggestions.length === 0) return body;
+
+  const lines = suggestions.map((suggestion, index) => `${index + 1}. ${suggestion.title}`);
+  return [body, '', ...lines, '', 'Respondé con el número de la opción.'].join('\n');
+}
+
+// Variable keys of each option: {{1}} is the body, then title / id / description per option
+function optionKeys(index: number) {
+  const base = 2 + index * 3;
+  return { title: String(base), id: String(base + 1), description: String(base + 2) };
+}
+
+function getFriendlyName(layout: InteractiveLayout, optionCount: number): string {
+  return `fini_${layout}_${optionCount}_${CONTENT_VERSION}`;
+}
+
+function buildContentDefinition(layout: InteractiveLayout, optionCount: number) {
+  const variables: Record<string, string> = { '1': 'Mensaje' };
+  const options = Array.from({ length: optionCount }, (_, index) => {
+    const keys = optionKeys(index);
+    variables[keys.title] = `Opción ${index + 1}`;
+    variables[keys.id] = `opcion_${index + 1}`;
+    if (layout === 'list_picker') variables[keys.description] = 'Descripción';
+    return keys;
+  });
+
+  const types = layout === 'quick_reply'
+    ? {
+        'twilio/quick-reply': {
+          body: '{{1}}',
+          actions: options.map(keys => ({ title: `{{${keys.title}}}`, id: `{{${keys.id}}}` }))
+        }
+      }
+    : {
+        'twilio/list-picker': {
+          body: '{{1}}',
+          button: LIST_PICKER_BUTTON,
+          items: options.map(keys => ({
+            item: `{{${keys.title}}}`,
+            id: `{{${keys.id}}}`,
+            description: `{{${keys.description}}}`
+          }))
+        }
+      };
+
+  return {
+    friendly_name: getFriendlyName(layout, optionCount),
+    language: CONTENT_LANGUAGE,
+    variables,
+    types: {
+      ...types,
+      // Channels without interactive support show the body only
+      'twilio/text': { body: '{{1}}' }
+    }
+  };
+}
+
+/**
+ * Content variables for an interactive message with these options
+ */
+export function buildInteractiveVariables(
+  layout: InteractiveLayout,
+  body: string,
+  suggestions: AgentSuggestion[]
+): Record<string, string> {
+  const variables: Record<string, string> = { '1': truncate(body, INTERACTIVE_MAX_BODY_LENGTH) };
+
+  suggestions.forEach((suggestion, index) => {
+    const keys = optionKeys(index);
+    variables[keys.id] = suggestion.id;
+    if (layout === 'quick_reply') {
+      variables[keys.title] = truncate(suggestion.title, QUICK_REPLY_MAX_TITLE_LENGTH);
+    } else {
+      variables[keys.title] = truncate(suggestion.title, LIST_PICKER_MAX_ITEM_LENGTH);
+      variables[keys.description] = truncate(
+        suggestion.description || KIND_DESCRIPTIONS[suggestion.kind],
+        LIST_PICKER_MAX_DESCRIPTION_LENGTH
+      );
+    }
+  });
+
+  return variables;
+}
+
+/**
+ * Content SID of the template for a layout and option count, creating it on first use
+ */
+export async function getInteractiveContentSid(
+  client: twilio.Twilio,
+  layout: InteractiveLayout,
+  optionCount: number
+): Promise<string> {
+  const friendlyName = getFriendlyName(layout, optionCount);
+  const cached = contentSidCache.get(friendlyName);
+  if (cached) return cached;
+
+  const existing = (await client.content.v1.contents.list({ limit: 200 }))
+    .find(content => content.friendlyName === friendlyName);
+  if (existing) {
+    contentSidCache.set(friendlyName, existing.sid);
+    return existing.sid;
+  }
+
+  console.warn(`[WHATSAPP-INTERACTIVE] Creating content template ${friendlyName}`);
+
+  // Note: Using HTTP API directly since SDK create method isn't available in current version
+  const basicAuth = Buffer.from(`${process.env.TWILIO_ACCOUNT_SID}:${process.env.TWILIO_AUTH_TOKEN}`).toString('base64');
+  const response = await fetch('https://content.twilio.com/v1/Content', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${basicAuth}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(buildContentDefinition(layout, optionCount))
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to create ${friendlyName}: HTTP ${response.status} ${await response.text()}`);
+  }
+
+  const content = await response.json();
+  contentSidCache.set(friendlyName, content.sid);
+  return content.sid;
+}
+
+/**
+ * Suggestions offered in the latest replies of a conversation, newest first
+ */
+export async function loadRecentSuggestions(conversationId: string | null): Promise<AgentSuggestion[][]> {
+  if (!conversationId) return [];
+
+  const supabase = createServiceClient();
+  const { data, error } = await supabase
+    .from('messages')
+    .select('metadata')
+    .eq('conversation_id', conversationId)
+    .eq('direction', 'outbound')
+    .order('created_at', { ascending: false })
+    .limit(RECENT_SUGGESTION_MESSAGES);
+
+  if (error) {
+    console.warn(`[WHATSAPP-INTERACTIVE] Failed to load suggestions for ${conversationId}:`, error.message);
+    return [];
+  }
+
+  return (data || []).map(row => ((row.metadata as { suggestions?: AgentSuggestion[] } | null)?.suggestions) || []);
+}
+
+/**
+ * Suggestion picked by an inbound message. A button or list reply can answer any
+ * recent message; a typed number only refers to the options of the latest reply.
+ */
+export async function findPickedSuggestion(
+  conversationId: string | null,
+  message: string,
+  interactiveReplyId?: string | null
+): Promise<AgentSuggestion | null> {
+  const recent = await loadRecentSuggestions(conversationId);
+  if (interactiveReplyId) {
+    return findSuggestion(recent.flat(), message, interactiveReplyId);
+  }
+  return recent.length > 0 ? findSuggestion(recent[0], message) : null;
+}
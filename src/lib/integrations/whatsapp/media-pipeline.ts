@@ -0,0 +1,344 @@
+/**
+ * WhatsApp Media Pipeline
+ * Turns inbound Twilio media into text the agents can work with:
+ * - Voice notes → speech-to-text transcription
+ * - Images → short description + matching products from the `products` namespace
+ * Providers sit behind interfaces so a local stub can replace OpenAI
+ * (WHATSAPP_MEDIA_PROVIDER=stub or configureMediaProviders()).
+ */
+
+import { getTwilioAuthToken } from './webhook-security';
+
+export type InboundMediaKind = 'audio' | 'image' | 'other';
+
+export interface InboundMedia {
+  url: string;
+  contentType: string;
+}
+
+export interface MatchedProduct {
+  productId: string;
+  name: string;
+  score: number;
+}
+
+export interface ProcessedMedia extends InboundMedia {
+  kind: InboundMediaKind;
+  transcription?: string;
+  description?: string;
+  matchedProducts?: MatchedProduct[];
+  error?: string;
+}
+
+export interface MediaPipelineResult {
+  // Text for AgentContext.userMessage (original body + derived text)
+  text: string;
+  media: ProcessedMedia[];
+}
+
+export interface SpeechToTextProvider {
+  readonly name: string;
+  transcribe(audio: Buffer, contentType: string): Promise<string>;
+}
+
+export interface ImageDescriptionProvider {
+  readonly name: string;
+  describe(image: Buffer, contentType: string): Promise<string>;
+}
+
+export interface ProductMatcher {
+  readonly name: string;
+  match(storeId: string, userId: string, description: string): Promise<MatchedProduct[]>;
+}
+
+export interface MediaProviders {
+  speechToText: SpeechToTextProvider;
+  imageDescription: ImageDescriptionProvider;
+  productMatcher: ProductMatcher;
+}
+
+// WhatsApp caps media at 16MB; Twilio bills every item, so only process the first few
+const MAX_MEDIA_BYTES = 16 * 1024 * 1024;
+const MAX_MEDIA_ITEMS = 5;
+const PRODUCT_MATCH_LIMIT = 3;
+
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/ogg': 'ogg',
+  'audio/mpeg': 'mp3',
+  'audio/mp4': 'm4a',
+  'audio/amr': 'amr',
+  'audio/aac': 'aac',
+  'audio/wav': 'wav',
+  'audio/webm': 'webm'
+};
+
+// ============================================================================
+// OPENAI PROVIDERS
+// ============================================================================
+
+export class OpenAISpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'openai-whisper';
+
+  async transcribe(audio: Buffer, contentType: string): Promise<string> {
+    const baseType = contentType.split(';')[0].trim();
+    const form = new FormData();
+    form.append('file', new Blob([audio], { type: baseType }), `voice-note.${AUDIO_EXTENSIONS[baseType] || 'ogg'}`);
+    form.append('model', process.env.OPENAI_TRANSCRIPTION_MODEL || 'whisper-1');
+    form.append('language', 'es');
+
+    const response = await fetch('https://api.openai.com/v1/audio/transcriptions', {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` },
+      body: form
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI transcription error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.text || '').trim();
+  }
+}
+
+export class OpenAIImageDescriptionProvider implements ImageDescriptionProvider {
+  readonly name = 'openai-vision';
+
+  async describe(image: Buffer, contentType: string): Promise<string> {
+    const response = await fetch('https://api.openai.com/v1/chat/completions', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        model: process.env.OPENAI_VISION_MODEL || 'gpt-4o-mini',
+        max_tokens: 200,
+        messages: [{
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: 'Describí en una o dos oraciones, en español, qué muestra esta imagen enviada por el dueño de una tienda online. Si es un producto, mencioná tipo, color, material y marca visible para poder buscarlo en el catálogo. Si es una captura o un documento, resumí el texto relevante.'
+            },
+            {
+              type: 'image_url',
+              image_url: { url: `data:${contentType.split(';')[0].trim()};base64,${image.toString('base64')}` }
+            }
+          ]
+        }]
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI vision error: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    return (data.choices?.[0]?.message?.content || '').trim();
+  }
+}
+
+/**
+ * Semantic search of the image description in the store's products namespace
+ */
+export class RAGProductMatcher implements ProductMatcher {
+  readonly name = 'rag-products';
+
+  async match(storeId: string, userId: string, description: string): Promise<MatchedProduct[]> {
+    const { getUnifiedRAGEngine } = await import('@/lib/rag/unified-rag-engine');
+    const result = await getUnifiedRAGEngine().search({
+      query: description,
+      context: { storeId, userId, agentType: 'product_manager' },
+      options: { topK: PRODUCT_MATCH_LIMIT, scoreThreshold: 0.5, includeSources: true },
+      filters: { dataTypes: ['products'] }
+    });
+
+    const matches = new Map<string, MatchedProduct>();
+    for (const source of result.sources) {
+      const productId = source.metadata?.productId;
+      if (!productId || matches.has(String(productId))) continue;
+      matches.set(String(productId), {
+        productId: String(productId),
+        name: String(source.metadata?.productName || 'Producto'),
+        score: Number(source.metadata?.score) || 0
+      });
+    }
+
+    return Array.from(matches.values()).slice(0, PRODUCT_MATCH_LIMIT);
+  }
+}
+
+// ============================================================================
+// LOCAL STUBS
+// ============================================================================
+
+export class StubSpeechToTextProvider implements SpeechToTextProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly transcript: string = '¿Cuánto vendí esta semana?') {}
+
+  async transcribe(): Promise<string> {
+    return this.transcript;
+  }
+}
+
+export class StubImageDescriptionProvider implements ImageDescriptionProvider {
+  readonly name = 'stub';
+
+  constructor(private readonly description: string = 'Remera de algodón color negro') {}
+
+  async describe(): Promise<string> {
+    return this.description;
+  }
+}
+
+export class StubProductMatcher implements ProductMatcher {
+  readonly name = 'stub';
+
+  constructor(private readonly products: MatchedProduct[] = []) {}
+
+  async match(): Promise<MatchedProduct[]> {
+    return this.products;
+  }
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+let providers: MediaProviders | null = null;
+
+function createDefaultProviders(): MediaProviders {
+  if (process.env.WHATSAPP_MEDIA_PROVIDER === 'stub') {
+    return {
+      speechToText: new StubSpeechToTextProvider(),
+      imageDescription: new StubImageDescriptionProvider(),
+      productMatcher: new StubProductMatcher()
+    };
+  }
+
+  return {
+    speechToText: new OpenAISpeechToTextProvider(),
+    imageDescription: new OpenAIImageDescriptionProvider(),
+    productMatcher: new RAGProductMatcher()
+  };
+}
+
+export function getMediaProviders(): MediaProviders {
+  if (!providers) providers = createDefaultProviders();
+  return providers;
+}
+
+/**
+ * Override one or more providers (e.g. stubs in local tests)
+ */
+export function configureMediaProviders(overrides: Partial<MediaProviders>): void {
+  providers = { ...getMediaProviders(), ...overrides };
+}
+
+export function getMediaKind(contentType: string): InboundMediaKind {
+  if (contentType.startsWith('audio/')) return 'audio';
+  if (contentType.startsWith('image/')) return 'image';
+  return 'other';
+}
+
+/**
+ * Media items of a Twilio webhook (NumMedia, MediaUrl{n}, MediaContentType{n})
+ */
+export function collectInboundMedia(params: Record<string, string>): InboundMedia[] {
+  const count = Math.min(Number(params.NumMedia) || 0, MAX_MEDIA_ITEMS);
+  const media: InboundMedia[] = [];
+
+  for (let index = 0; index < count; index++) {
+    const url = params[`MediaUrl${index}`];
+    if (url) {
+      media.push({ url, contentType: params[`MediaContentType${index}`] || 'application/octet-stream' });
+    }
+  }
+
+  return media;
+}
+
+/**
+ * Download a media item. Twilio media URLs require the account credentials.
+ */
+export async function downloadTwilioMedia(url: string, accountSid: string, authToken: string): Promise<Buffer> {
+  const response = await fetch(url, {
+    headers: { Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString('base64')}` }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Media download failed: ${response.status} ${response.statusText}`);
+  }
+
+  const declaredLength = Number(response.headers.get('content-length'));
+  if (declaredLength > MAX_MEDIA_BYTES) {
+    throw new Error(`Media too large: ${declaredLength} bytes`);
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer());
+  if (buffer.length > MAX_MEDIA_BYTES) {
+    throw new Error(`Media too large: ${buffer.length} bytes`);
+  }
+  return buffer;
+}
+
+function describeImageForAgent(item: ProcessedMedia): string {
+  const matches = item.matchedProducts && item.matchedProducts.length > 0
+    ? ` Productos similares del catálogo: ${item.matchedProducts.map(product => `${product.name} (ID ${product.productId})`).join(', ')}.`
+    : '';
+  return `[Imagen enviada: ${(item.description || '').replace(/[.\s]+$/, '')}.${matches}]`;
+}
+
+/**
+ * Process the media of an inbound message and build the text for the agents.
+ * Failures of individual items are recorded on the item and never throw.
+ */
+export async function processInboundMedia(
+  body: string,
+  media: InboundMedia[],
+  options: { storeId: string; userId: string; accountSid?: string }
+): Promise<MediaPipelineResult> {
+  const { speechToText, imageDescription, productMatcher } = getMediaProviders();
+  const accountSid = options.accountSid || process.env.TWILIO_ACCOUNT_SID || '';
+  const authToken = await getTwilioAuthToken(accountSid) || '';
+
+  const processed: ProcessedMedia[] = [];
+  for (const item of media) {
+    const kind = getMediaKind(item.contentType);
+    const result: ProcessedMedia = { ...item, kind };
+
+    try {
+      if (kind === 'audio') {
+        const audio = await downloadTwilioMedia(item.url, accountSid, authToken);
+        result.transcription = await speechToText.transcribe(audio, item.contentType);
+        console.warn(`[WHATSAPP-MEDIA] Voice note transcribed with ${speechToText.name} (${result.transcription.length} chars)`);
+      } else if (kind === 'image') {
+        const image = await downloadTwilioMedia(item.url, accountSid, authToken);
+        result.description = await imageDescription.describe(image, item.contentType);
+        if (result.description) {
+          result.matchedProducts = await productMatcher.match(options.storeId, options.userId, result.description)
+            .catch(error => {
+              console.warn('[WHATSAPP-MEDIA] Product matching failed:', error);
+              return [];
+            });
+        }
+        console.warn(`[WHATSAPP-MEDIA] Image described with ${imageDescription.name}, ${result.matchedProducts?.length || 0} product match(es)`);
+      }
+    } catch (error) {
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[WHATSAPP-MEDIA] Failed to process ${item.contentType}:`, result.error);
+    }
+
+    processed.push(result);
+  }
+
+  const parts = [body.trim()];
+  for (const item of processed) {
+    if (item.transcription) parts.push(item.transcription);
+    if (item.description) parts.push(describeImageForAgent(item));
+  }
+
+  return { text: parts.filter(Boolean).join('\n\n'), media: processed };
+}
@@ -0,0 +1,216 @@
+/**
+ * WhatsApp Message Formatter
+ * Agents answer in GitHub-style markdown; WhatsApp shows it as raw symbols.
+ * This renders markdown with WhatsApp syntax (*bold*, _italic_, ~strike~,
+ * ```monospace```), flattens tables into lists and splits long answers into
+ * ordered parts at paragraph / line / sentence boundaries with "(1/3)" markers.
+ * Every freeform WhatsApp send goes through formatWhatsAppMessage.
+ */
+
+// Twilio rejects WhatsApp bodies over 1600 chars (WhatsApp itself allows 4096)
+export const WHATSAPP_MAX_MESSAGE_LENGTH = 1600;
+export const WHATSAPP_MAX_TEXT_LENGTH = 4096;
+
+const CODE_FENCE = '```';
+// Room kept in every part for the "(n/m)" marker and a re-opened code fence
+const PART_MARKER_RESERVE = 20;
+
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/\|$/, '')
+    .split('|')
+    .map(cell => cell.trim());
+}
+
+/**
+ * Two-column tables become "• key: value"; wider ones one bullet per row
+ * with the remaining columns as "Header: value" lines below it
+ */
+function flattenTable(lines: string[]): string[] {
+  const [header, , ...rows] = lines.map(splitTableRow);
+  if (rows.length === 0) return [header.join(' · ')];
+
+  if (header.length <= 2) {
+    return rows.map(cells => `• ${cells[0]}${cells[1] ? `: ${cells[1]}` : ''}`);
+  }
+
+  return rows.flatMap(cells => [
+    `• *${cells[0]}*`,
+    ...cells.slice(1)
+      .map((cell, index) => (cell ? `   ${header[index + 1] || ''}: ${cell}` : ''))
+      .filter(Boolean)
+  ]);
+}
+
+function isTableStart(lines: string[], index: number): boolean {
+  return lines[index].trim().startsWith('|')
+    && index + 1 < lines.length
+    && TABLE_SEPARATOR_PATTERN.test(lines[index + 1]);
+}
+
+/**
+ * Inline markdown of a single line (outside code blocks)
+ */
+function formatInline(line: string): string {
+  const code: string[] = [];
+
+  return line
+    // Inline code (markdown `x` or WhatsApp ```x```) is kept verbatim as monospace
+    .replace(/```([^`\n]+)```|`([^`\n]+)`/g, (_, fenced: string, text: string) => `@@CODE${code.push(fenced || text) - 1}@@`)
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, '$2')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, text: string, url: string) => (text === url ? url : `${text} (${url})`))
+    .replace(/(\*\*\*|___)(?=\S)(.+?)(?<=\S)\1/g, '*_$2_*')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '*$2*')
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, '~$1~')
+    .replace(/@@CODE(\d+)@@/g, (_, index: string) => `${CODE_FENCE}${code[Number(index)]}${CODE_FENCE}`);
+}
+
+/**
+ * Block-level markdown of a line: headers, bullets, rules
+ */
+function formatLine(line: string): string {
+  const header = line.match(/^\s{0,3}#{1,6}\s+(.+?)\s*#*\s*$/);
+  if (header) {
+    // Headers become bold lines; drop bold markers inside so they don't cancel out
+    return `*${formatInline(header[1]).replace(/\*/g, '')}*`;
+  }
+
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) return '';
+
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+  if (bullet) {
+    const nested = bullet[1].replace(/\t/g, '  ').length >= 2;
+    return `${nested ? '   ◦' : '•'} ${formatInline(bullet[2])}`;
+  }
+
+  return formatInline(line);
+}
+
+/**
+ * Render GitHub-style markdown with WhatsApp formatting.
+ * Single asterisks are left as they are: they already mean bold on WhatsApp,
+ * which is what our own replies use, so formatting is safe to apply twice.
+ */
+export function markdownToWhatsApp(markdown: string): string {
+  const lines = (markdown || '').replace(/\r\n?/g, '\n').split('\n');
+  const output: string[] = [];
+  let inCodeBlock = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (line.trim().startsWith(CODE_FENCE)) {
+      // Language tags ("```ts") mean nothing on WhatsApp
+      output.push(CODE_FENCE);
+      inCodeBlock = !inCodeBlock;
+      continue;
+    }
+    if (inCodeBlock) {
+      output.push(line);
+      continue;
+    }
+
+    if (isTableStart(lines, index)) {
+      const table: string[] = [];
+      while (index < lines.length && lines[index].trim().startsWith('|')) {
+        table.push(lines[index]);
+        index++;
+      }
+      index--;
+      output.push(...flattenTable(table));
+      continue;
+    }
+
+    output.push(formatLine(line));
+  }
+
+  if (inCodeBlock) output.push(CODE_FENCE);
+
+  return output
+    .join('\n')
+    .replace(/[ \t]+$/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Break a piece of text into units no longer than maxLength, trying each separator in turn
+ */
+function splitUnits(text: string, maxLength: number, separators: RegExp[]): string[] {
+  if (text.length <= maxLength) return [text];
+
+  const [separator, ...rest] = separators;
+  if (!separator) {
+    const slices: string[] = [];
+    for (let start = 0; start < text.length; start += maxLength) {
+      slices.push(text.slice(start, start + maxLength));
+    }
+    return slices;
+  }
+
+  // Keep each separator attached to the piece before it, so joining restores the text
+  const pieces = text.split(separator).filter(piece => piece.length > 0);
+  const units: string[] = [];
+  let current = '';
+
+  for (const piece of pieces) {
+    if (current.length + piece.length <= maxLength) {
+      current += piece;
+      continue;
+    }
+    if (current) units.push(current);
+    if (piece.length > maxLength) {
+      units.push(...splitUnits(piece, maxLength, rest));
+      current = '';
+    } else {
+      current = piece;
+    }
+  }
+  if (current) units.push(current);
+
+  return units;
+}
+
+/**
+ * Close a code block left open at the end of a part and re-open it in the next one
+ */
+function balanceCodeFences(parts: string[]): string[] {
+  let carryOpen = false;
+
+  return parts.map(part => {
+    const text = carryOpen ? `${CODE_FENCE}\n${part}` : part;
+    const isOpen = (text.split(CODE_FENCE).length - 1) % 2 === 1;
+    carryOpen = isOpen;
+    return isOpen ? `${text}\n${CODE_FENCE}` : text;
+  });
+}
+
+/**
+ * Split a message into ordered parts that fit in one WhatsApp message each,
+ * preferring paragraph, then line, then sentence, then word boundaries
+ */
+export function splitWhatsAppMessage(text: string, maxLength: number = WHATSAPP_MAX_MESSAGE_LENGTH): string[] {
+  if (text.length <= maxLength) return [text];
+
+  const parts = splitUnits(text, maxLength - PART_MARKER_RESERVE, [
+    /(?<=\n\n)/,
+    /(?<=\n)/,
+    /(?<=[.!?…]\s)/,
+    /(?<=\s)/
+  ])
+    .map(part => part.trim())
+    .filter(Boolean);
+
+  return balanceCodeFences(parts).map((part, index, all) => `${part}\n\n(${index + 1}/${all.length})`);
+}
+
+/**
+ * Markdown answer → WhatsApp-formatted parts ready to send in order
+ */
+export function formatWhatsAppMessage(markdown: string, maxLength: number = WHATSAPP_MAX_MESSAGE_LENGTH): string[] {
+  return splitWhatsAppMessage(markdownToWhatsApp(markdown), maxLength);
+}
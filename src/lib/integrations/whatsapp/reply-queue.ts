@@ -0,0 +1,264 @@
+/**
+ * WhatsApp Reply Queue
+ * Durable job table (whatsapp_reply_jobs) between the Twilio webhook and the
+ * reply worker. Survives serverless restarts, keeps per-conversation ordering
+ * and retries failed jobs with RetryManager backoff until they are dead-lettered.
+ */
+
+import type { AgentResponse } from '@/lib/agents/types';
+import { RetryConfigs, RetryManager } from '@/lib/resilience/retry-manager';
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+import type { InboundMedia } from './media-pipeline';
+import type { SenderResolution } from './sender-resolver';
+
+export type WhatsAppReplyJobStatus = 'queued' | 'processing' | 'retrying' | 'completed' | 'dead';
+
+export interface WhatsAppReplyJobPayload {
+  messageSid: string;
+  body: string;
+  phoneNumber: string;
+  receivingNumber: string;
+  conversationId: string;
+  // ListId / ButtonPayload of interactive replies
+  interactiveReplyId: string | null;
+  // Voice notes / images, processed by the media pipeline in the worker
+  media: InboundMedia[];
+  accountSid: string | null;
+  receivedAt: string;
+  resolution: SenderResolution;
+}
+
+export interface WhatsAppReplyJob {
+  id: string;
+  userId: string | null;
+  storeId: string | null;
+  conversationId: string | null;
+  conversationKey: string;
+  messageSid: string | null;
+  payload: WhatsAppReplyJobPayload;
+  status: WhatsAppReplyJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string | null;
+  lastError: string | null;
+  response: AgentResponse | null;
+  partsSent: number;
+  completedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Locks older than this belong to a worker that hit maxDuration (60s) or crashed
+const LOCK_TIMEOUT_SECONDS = 75;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type WhatsAppReplyJobRow = Database['public']['Tables']['whatsapp_reply_jobs']['Row'];
+
+function toJob(row: WhatsAppReplyJobRow): WhatsAppReplyJob {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    storeId: row.store_id,
+    conversationId: row.conversation_id,
+    conversationKey: row.conversation_key,
+    messageSid: row.message_sid,
+    payload: row.payload as WhatsAppReplyJobPayload,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lastError: row.last_error,
+    response: row.response as AgentResponse | null,
+    partsSent: row.parts_sent || 0,
+    completedAt: row.completed_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class WhatsAppReplyQueue {
+  /**
+   * Enqueue the reply for an inbound message (idempotent by MessageSid)
+   */
+  static async enqueue(payload: WhatsAppReplyJobPayload): Promise<string | null> {
+    const supabase = createServiceClient();
+    const conversationUuid = UUID_PATTERN.test(payload.conversationId) ? payload.conversationId : null;
+
+    const { data, error } = await supabase
+      .from('whatsapp_reply_jobs')
+      .upsert({
+        user_id: payload.resolution.userId || null,
+        store_id: payload.resolution.store?.id || null,
+        conversation_id: conversationUuid,
+        conversation_key: conversationUuid || payload.phoneNumber,
+        message_sid: payload.messageSid,
+        payload,
+        max_attempts: RetryConfigs.WHATSAPP_REPLY.maxAttempts
+      }, { onConflict: 'message_sid', ignoreDuplicates: true })
+      .select('id')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to enqueue WhatsApp reply for ${payload.messageSid}: ${error.message}`);
+    }
+
+    return data?.id || null;
+  }
+
+  /**
+   * Lock the next ready jobs for a worker (oldest unfinished job of each conversation only)
+   */
+  static async claim(workerId: string, limit: number): Promise<WhatsAppReplyJob[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase.rpc('claim_whatsapp_reply_jobs', {
+      p_worker_id: workerId,
+      p_limit: limit,
+      p_lock_timeout_seconds: LOCK_TIMEOUT_SECONDS
+    });
+
+    if (error) {
+      throw new Error(`Failed to claim WhatsApp reply jobs: ${error.message}`);
+    }
+
+    return (data || []).map(toJob);
+  }
+
+  /**
+   * Keep the agent response so a retry only re-sends it
+   */
+  static async saveResponse(jobId: string, response: AgentResponse): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('whatsapp_reply_jobs')
+      .update({ response })
+      .eq('id', jobId);
+
+    if (error) {
+      console.warn(`[WHATSAPP-QUEUE] Failed to save response for job ${jobId}:`, error.message);
+    }
+  }
+
+  /**
+   * Keep how many parts of the reply went out so a retry does not send them again
+   */
+  static async saveProgress(jobId: string, partsSent: number): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('whatsapp_reply_jobs')
+      .update({ parts_sent: partsSent })
+      .eq('id', jobId);
+
+    if (error) {
+      console.warn(`[WHATSAPP-QUEUE] Failed to save progress for job ${jobId}:`, error.message);
+    }
+  }
+
+  static async complete(jobId: string): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('whatsapp_reply_jobs')
+      .update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        locked_at: null,
+        locked_by: null,
+        last_error: null
+      })
+      .eq('id', jobId);
+
+    if (error) {
+      console.warn(`[WHATSAPP-QUEUE] Failed to complete job ${jobId}:`, error.message);
+    }
+  }
+
+  /**
+   * Schedule a retry with exponential backoff, or dead-letter the job when it
+   * ran out of attempts or the error is not retryable
+   */
+  static async fail(job: WhatsAppReplyJob, error: Error): Promise<WhatsAppReplyJobStatus> {
+    const retryManager = RetryManager.getInstance();
+    const config = { ...RetryConfigs.WHATSAPP_REPLY, maxAttempts: job.maxAttempts };
+    const retryable = retryManager.isRetryableError(error, config) && job.attempts < job.maxAttempts;
+    const status: WhatsAppReplyJobStatus = retryable ? 'retrying' : 'dead';
+    const nextAttemptAt = retryable
+      ? new Date(Date.now() + retryManager.getRetryDelay(job.attempts, config)).toISOString()
+      : null;
+
+    const supabase = createServiceClient();
+    const { error: updateError } = await supabase
+      .from('whatsapp_reply_jobs')
+      .update({
+        status,
+        next_attempt_at: nextAttemptAt,
+        locked_at: null,
+        locked_by: null,
+        last_error: error.message.slice(0, 1000)
+      })
+      .eq('id', job.id);
+
+    if (updateError) {
+      console.warn(`[WHATSAPP-QUEUE] Failed to record failure for job ${job.id}:`, updateError.message);
+    }
+
+    if (status === 'dead') {
+      console.error(`[WHATSAPP-QUEUE] Job ${job.id} dead-lettered after ${job.attempts} attempt(s):`, error.message);
+    } else {
+      console.warn(`[WHATSAPP-QUEUE] Job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying at ${nextAttemptAt}:`, error.message);
+    }
+
+    return status;
+  }
+
+  /**
+   * Jobs of a user, dead-lettered ones by default
+   */
+  static async list(
+    userId: string,
+    statuses: WhatsAppReplyJobStatus[] = ['dead'],
+    limit: number = 50
+  ): Promise<WhatsAppReplyJob[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('whatsapp_reply_jobs')
+      .select('*')
+      .eq('user_id', userId)
+      .in('status', statuses)
+      .order('updated_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list WhatsApp reply jobs: ${error.message}`);
+    }
+
+    return (data || []).map(toJob);
+  }
+
+  /**
+   * Put a dead-lettered job back in the queue with a fresh set of attempts
+   */
+  static async requeue(jobId: string, userId: string): Promise<boolean> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('whatsapp_reply_jobs')
+      .update({
+        status: 'queued',
+        attempts: 0,
+        parts_sent: 0,
+        next_attempt_at: new Date().toISOString(),
+        last_error: null
+      })
+      .eq('id', jobId)
+      .eq('user_id', userId)
+      .eq('status', 'dead')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to requeue WhatsApp reply job ${jobId}: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+}
@@ -0,0 +1,407 @@
+/**
+ * WhatsApp Reply Worker
+ * Drains whatsapp_reply_jobs: runs the agents for each inbound message and sends
+ * the answer through TwilioWhatsAppService.sendSmartMessage. Triggered by the
+ * webhook right after enqueueing and by a cron as a safety net.
+ */
+
+import crypto from 'crypto';
+
+import { AgentActionApproval } from '@/lib/agents/action-approval';
+import { FiniMultiAgentSystem } from '@/lib/agents/multi-agent-system';
+import { parseActionSuggestionId } from '@/lib/agents/suggestions';
+import type { AgentContext, AgentResponse } from '@/lib/agents/types';
+import { MessageService } from '@/lib/database/client';
+import { trackWhatsAppMessage } from '@/lib/features/gamification-events';
+import { createTwilioWhatsAppService, type WhatsAppSendResult } from '@/lib/integrations/twilio-whatsapp';
+import { RetryConfigs, RetryManager } from '@/lib/resilience/retry-manager';
+import { createServiceClient } from '@/lib/supabase/server';
+
+import { WhatsAppDeliveryTracker } from './delivery-status';
+import { findPickedSuggestion } from './interactive-messages';
+import { processInboundMedia, type MediaPipelineResult, type ProcessedMedia } from './media-pipeline';
+import { WhatsAppReplyQueue, type WhatsAppReplyJob } from './reply-queue';
+import type { SenderResolution } from './sender-resolver';
+import {
+  applyStoreCommand,
+  getStoreSelection,
+  labelStoreResponse,
+  parseStoreCommand,
+  processCrossStoreMessage
+} from './store-selector';
+
+export type SmartMessageType = 'response' | 'analytics' | 'marketing' | 'error' | 'welcome';
+
+export interface ReplyWorkerResult {
+  workerId: string;
+  claimed: number;
+  completed: number;
+  retrying: number;
+  dead: number;
+}
+
+const DEFAULT_BATCH_SIZE = 5;
+// Stop claiming new jobs before the serverless function hits maxDuration (60s)
+const DEFAULT_TIME_BUDGET_MS = 40000;
+const WORKER_TRIGGER_TIMEOUT_MS = 1500;
+
+let agentSystem: FiniMultiAgentSystem | null = null;
+const getAgentSystem = () => {
+  if (!agentSystem) agentSystem = new FiniMultiAgentSystem();
+  return agentSystem;
+};
+
+const twilioService = createTwilioWhatsAppService();
+
+/**
+ * Template category for sendSmartMessage, based on the agent and the content of the answer
+ */
+export function getSmartMessageType(agentResponse: AgentResponse & { error?: string }): SmartMessageType {
+  if (agentResponse.agentType === 'analytics') return 'analytics';
+  if (agentResponse.agentType === 'marketing') return 'marketing';
+  if (agentResponse.error) return 'error';
+
+  // Analyze response content to detect welcome-type messages
+  const responseContent = (agentResponse.response || '').toLowerCase();
+  const isWelcome = ['bienvenid', 'soy fini', 'asistente', 'ayudarte', 'crecer', '🚀', '🤖', 'puedo ayudarte']
+    .some(keyword => responseContent.includes(keyword));
+  return isWelcome ? 'welcome' : 'response';
+}
+
+async function loadConversation(conversationId: string | null) {
+  if (!conversationId) return null;
+
+  const supabase = createServiceClient();
+  const { data } = await supabase
+    .from('conversations')
+    .select('id, store_id, store_scope')
+    .eq('id', conversationId)
+    .maybeSingle();
+
+  return data;
+}
+
+/**
+ * Keep the derived text and the processed media on the inbound message
+ */
+async function saveInboundMedia(messageSid: string, originalBody: string, result: MediaPipelineResult): Promise<void> {
+  const supabase = createServiceClient();
+  const { error } = await supabase
+    .from('messages')
+    .update({
+      // Voice-only messages have no body; show the transcription instead
+      ...(originalBody.trim() ? {} : { body: result.text }),
+      metadata: { media: result.media, derivedText: result.text }
+    })
+    .eq('twilio_message_sid', messageSid);
+
+  if (error) {
+    console.warn(`[WHATSAPP-WORKER] Failed to save media metadata for ${messageSid}:`, error.message);
+  }
+}
+
+/**
+ * Approve or reject the action behind a tapped confirm / cancel button
+ */
+async function decideSuggestedAction(
+  choice: { actionId: string; decision: 'approve' | 'reject' },
+  resolution: SenderResolution,
+  phoneNumber: string
+): Promise<string> {
+  // Button IDs carry the action ID: only decide actions of the sender's own stores
+  const action = await AgentActionApproval.get(choice.actionId);
+  if (!action || !resolution.stores.some(store => store.id === action.storeId)) {
+    return 'No encontré esa acción.';
+  }
+
+  const decision = { decidedBy: phoneNumber, channel: 'whatsapp' as const };
+  const result = choice.decision === 'approve'
+    ? await AgentActionApproval.approve(action.id, decision)
+    : await AgentActionApproval.reject(action.id, decision);
+  return result.message;
+}
+
+/**
+ * Run the agents (or answer a store command / SI-NO approval / picked suggestion) for a queued message
+ */
+async function generateResponse(job: WhatsAppReplyJob): Promise<AgentResponse & { error?: string }> {
+  const { payload } = job;
+  const { resolution } = payload;
+  const { userId } = resolution;
+  // Only resolved senders are enqueued; a job without a user has no one to answer as
+  if (!userId) {
+    throw new Error(`Reply job ${job.id} has no resolved user`);
+  }
+  const conversation = await loadConversation(job.conversationId);
+
+  // Active store for this conversation (chosen with /tienda or the store list), read at processing time
+  const selection = getStoreSelection(conversation, resolution);
+
+  // Voice notes and images become text for the agents; the original media stays in the message metadata
+  let userMessage = payload.body;
+  let media: ProcessedMedia[] = [];
+  if (payload.media?.length > 0) {
+    const mediaResult = await processInboundMedia(payload.body, payload.media, {
+      storeId: selection.store.id,
+      userId,
+      accountSid: payload.accountSid || undefined
+    });
+    userMessage = mediaResult.text;
+    media = mediaResult.media;
+    await saveInboundMedia(payload.messageSid, payload.body, mediaResult);
+
+    if (!userMessage) {
+      return {
+        success: false,
+        response: 'No pude entender el audio o la imagen que enviaste 😕 ¿Me lo podés escribir?',
+        agentType: 'orchestrator',
+        confidence: 0,
+        reasoning: 'Media could not be processed',
+        metadata: { media }
+      };
+    }
+  }
+
+  // A tapped button / list row, or the number of an option typed back, picks a suggestion of a previous reply
+  const picked = await findPickedSuggestion(payload.conversationId, userMessage, payload.interactiveReplyId);
+  if (picked?.message && (picked.kind === 'follow_up' || picked.kind === 'agent_choice')) {
+    userMessage = picked.message;
+  }
+
+  const agentContext: AgentContext = {
+    userId,
+    storeId: selection.store.id,
+    conversationId: payload.conversationId,
+    userMessage,
+    metadata: {
+      phoneNumber: payload.phoneNumber,
+      messageId: payload.messageSid,
+      storeName: selection.store.name,
+      platform: 'whatsapp',
+      timestamp: payload.receivedAt,
+      ...(media.length > 0 ? { media } : {}),
+      ...(picked?.kind === 'agent_choice' && picked.agentType ? { preferredAgent: picked.agentType } : {})
+    }
+  };
+
+  try {
+    const actionChoice = picked?.kind === 'action_confirmation' && picked.actionId && picked.decision
+      ? { actionId: picked.actionId, decision: picked.decision }
+      : parseActionSuggestionId(payload.interactiveReplyId);
+    if (actionChoice) {
+      const reply = await decideSuggestedAction(actionChoice, resolution, payload.phoneNumber);
+      return { success: true, response: reply, agentType: 'orchestrator', confidence: 1, reasoning: 'Agent action approval button', metadata: {} };
+    }
+
+    // Store switching commands and SI/NO approvals are answered without running the agents
+    const storeCommand = parseStoreCommand(userMessage, picked?.kind === 'store_choice' ? picked.id : payload.interactiveReplyId);
+    const storeResult = storeCommand
+      ? await applyStoreCommand(conversation ? conversation.id : null, storeCommand, resolution, selection)
+      : null;
+    let systemReply = storeResult ? storeResult.reply : null;
+    const approvalStores = selection.scope === 'all' ? resolution.stores : [selection.store];
+    for (const store of approvalStores) {
+      if (systemReply) break;
+      systemReply = await AgentActionApproval.handleReply(store.id, payload.conversationId, userMessage, { decidedBy: payload.phoneNumber, channel: 'whatsapp' });
+    }
+
+    if (systemReply) {
+      return {
+        success: true,
+        response: systemReply,
+        agentType: 'orchestrator',
+        confidence: 1,
+        reasoning: storeCommand ? 'Store selection command' : 'Agent action approval reply',
+        suggestions: storeResult?.suggestions,
+        metadata: {}
+      };
+    }
+    if (selection.scope === 'all') {
+      return await processCrossStoreMessage(agentContext, resolution.stores, context => getAgentSystem().processMessage(context));
+    }
+
+    const agentResponse = await getAgentSystem().processMessage(agentContext);
+    agentResponse.response = labelStoreResponse(agentResponse.response || '', selection.store, resolution.stores);
+    return agentResponse;
+  } catch (agentError) {
+    console.error('[WHATSAPP-WORKER] Agent processing error:', agentError);
+    return {
+      success: false,
+      response: 'Hay un problema técnico temporal. Nuestro equipo está trabajando para resolverlo. Por favor intenta más tarde.',
+      agentType: 'orchestrator',
+      confidence: 0,
+      reasoning: 'System error',
+      metadata: {},
+      error: agentError instanceof Error ? agentError.message : 'Unknown error'
+    };
+  }
+}
+
+/**
+ * Process one claimed job. A retry reuses the stored response and only re-sends it.
+ */
+async function processJob(job: WhatsAppReplyJob): Promise<void> {
+  let agentResponse = job.response as (AgentResponse & { error?: string }) | null;
+
+  if (!agentResponse) {
+    agentResponse = await generateResponse(job);
+
+    await MessageService.createMessage({
+      conversation_id: job.payload.conversationId,
+      direction: 'outbound',
+      body: agentResponse.response,
+      agent_type: (agentResponse.agentType as 'orchestrator' | 'analytics' | 'customer_service' | 'marketing' | undefined),
+      confidence: agentResponse.confidence,
+      processing_time_ms: agentResponse.metadata && typeof agentResponse.metadata.systemExecutionTime === 'number' ? agentResponse.metadata.systemExecutionTime : undefined,
+      // Options sent with the reply, so a button tap or typed number can be matched later
+      ...(agentResponse.suggestions?.length ? { metadata: { suggestions: agentResponse.suggestions } } : {}),
+      created_at: new Date().toISOString()
+    });
+    await WhatsAppReplyQueue.saveResponse(job.id, agentResponse);
+  }
+
+  const reply = agentResponse;
+  const messageType = getSmartMessageType(reply);
+  const storeName = job.payload.resolution.store?.name || 'Tienda Nube';
+  // Parts of a long reply already accepted by Twilio: attempts resume after them instead of repeating them
+  let partsSent = job.partsSent;
+  let messageSidsSent = 0;
+
+  const recordSent = async (result: WhatsAppSendResult) => {
+    if (!job.payload.resolution.userId) return;
+    // Status callbacks update these rows (delivered, read, failed → template re-send)
+    for (const messageSid of result.messageSids || []) {
+      messageSidsSent++;
+      await WhatsAppDeliveryTracker.recordOutbound({
+        messageSid,
+        userId: job.payload.resolution.userId,
+        storeId: job.storeId,
+        phoneNumber: job.payload.phoneNumber,
+        body: reply.response || '',
+        agentType: reply.agentType,
+        usedTemplate: !!result.usedTemplate,
+        storeName,
+        displayName: job.payload.resolution.displayName,
+        replyTo: job.messageSid,
+        part: job.partsSent + messageSidsSent
+      });
+    }
+  };
+
+  const sendResult = await RetryManager.getInstance().executeWithRetry(async () => {
+    const result = await twilioService.sendSmartMessage(
+      job.payload.phoneNumber,
+      reply.response || 'Lo siento, no pude procesar tu mensaje en este momento. Por favor intenta nuevamente.',
+      messageType,
+      {
+        storeName,
+        errorType: reply.error ? 'temporal' : undefined,
+        displayName: job.payload.resolution.displayName || 'Usuario'
+      },
+      reply.suggestions || [],
+      { skipParts: partsSent }
+    );
+    await recordSent(result);
+    if (!result.success) {
+      if (result.partsSent && result.partsSent > partsSent) {
+        partsSent = result.partsSent;
+        await WhatsAppReplyQueue.saveProgress(job.id, partsSent);
+      }
+      throw new Error(result.error || 'WhatsApp send failed');
+    }
+    return result;
+  }, { ...RetryConfigs.EXTERNAL_API, maxAttempts: 2 }, 'whatsapp-reply-send');
+
+  if (!sendResult.success) {
+    throw sendResult.error || new Error('WhatsApp send failed');
+  }
+
+  console.warn(`[WHATSAPP-WORKER] Reply for ${job.messageSid} sent${sendResult.data?.usedTemplate ? ` using template (${messageType})` : ''}:`, sendResult.data?.messageSids?.join(', '));
+
+  // Achievements and the daily chat streak; a retried job is counted once (keyed by the inbound SID)
+  if (job.payload.resolution.userId) {
+    await trackWhatsAppMessage(job.payload.resolution.userId, job.messageSid, job.storeId);
+  }
+}
+
+/**
+ * Claim and process ready jobs until the queue is empty or the time budget runs out
+ */
+export async function processWhatsAppReplyJobs(options: {
+  batchSize?: number;
+  timeBudgetMs?: number;
+} = {}): Promise<ReplyWorkerResult> {
+  const batchSize = options.batchSize || DEFAULT_BATCH_SIZE;
+  const deadline = Date.now() + (options.timeBudgetMs || DEFAULT_TIME_BUDGET_MS);
+  const result: ReplyWorkerResult = {
+    workerId: `worker_${crypto.randomBytes(6).toString('hex')}`,
+    claimed: 0,
+    completed: 0,
+    retrying: 0,
+    dead: 0
+  };
+
+  while (Date.now() < deadline) {
+    const jobs = await WhatsAppReplyQueue.claim(result.workerId, batchSize);
+    if (jobs.length === 0) break;
+    result.claimed += jobs.length;
+
+    // Claimed jobs always belong to different conversations, so they can run concurrently
+    await Promise.all(jobs.map(async job => {
+      try {
+        await processJob(job);
+        await WhatsAppReplyQueue.complete(job.id);
+        result.completed++;
+      } catch (error) {
+        const status = await WhatsAppReplyQueue.fail(job, error instanceof Error ? error : new Error(String(error)));
+        if (status === 'dead') result.dead++;
+        else result.retrying++;
+      }
+    }));
+  }
+
+  return result;
+}
+
+/**
+ * Secret shared by the webhook, the cron and the worker endpoint
+ */
+export function getReplyWorkerSecret(): string | null {
+  return process.env.WHATSAPP_WORKER_SECRET || process.env.CRON_SECRET || null;
+}
+
+/**
+ * Whether an Authorization header carries one of the configured secrets. Both
+ * are accepted on their own: Vercel cron always sends CRON_SECRET, the webhook
+ * trigger sends WHATSAPP_WORKER_SECRET when it is set
+ */
+export function isAuthorizedWorkerRequest(authorization: string | null): boolean {
+  if (!authorization) return false;
+  const received = Buffer.from(authorization);
+
+  return [process.env.WHATSAPP_WORKER_SECRET, process.env.CRON_SECRET]
+    .filter((secret): secret is string => !!secret)
+    .some(secret => {
+      const expected = Buffer.from(`Bearer ${secret}`);
+      return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+    });
+}
+
+/**
+ * Kick the worker endpoint without waiting for it to finish
+ */
+export async function triggerReplyWorker(origin: string): Promise<void> {
+  const secret = getReplyWorkerSecret();
+  try {
+    await fetch(`${origin}/api/whatsapp/reply-worker`, {
+      method: 'POST',
+      headers: secret ? { Authorization: `Bearer ${secret}` } : {},
+      signal: AbortSignal.timeout(WORKER_TRIGGER_TIMEOUT_MS)
+    });
+  } catch (error) {
+    // A timeout is expected: the worker keeps running in its own invocation
+    if (!(error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError'))) {
+      console.warn('[WHATSAPP-WORKER] Failed to trigger reply worker, the cron will pick the job up:', error);
+    }
+  }
+}
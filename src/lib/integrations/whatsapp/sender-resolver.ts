@@ -0,0 +1,207 @@
+/**
+ * WhatsApp Sender Resolution
+ * Maps an inbound message (merchant phone + receiving Twilio number) to the
+ * user and stores it belongs to, using the N:M whatsapp_numbers /
+ * whatsapp_store_connections tables
+ */
+
+import { getPlanFeatures, type PlanType } from '@/lib/plan-restrictions';
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+import { PHONE_UTILS } from './config';
+
+type Tables = Database['public']['Tables'];
+
+// Row shape of the sender lookup below (number + plan + connected stores)
+type SenderCandidate = Pick<
+  Tables['whatsapp_numbers']['Row'],
+  'id' | 'user_id' | 'phone_number' | 'display_name' | 'is_verified' | 'updated_at'
+> & {
+  users: Pick<Tables['users']['Row'], 'subscription_plan'> | null;
+  whatsapp_store_connections: Array<
+    Pick<Tables['whatsapp_store_connections']['Row'], 'is_active' | 'created_at'> & {
+      stores: (Pick<Tables['stores']['Row'], 'id' | 'name' | 'is_active'> & { platform_store_id: string | null }) | null;
+    }
+  > | null;
+};
+
+export type SenderResolutionStatus =
+  | 'resolved'          // verified number with at least one active store
+  | 'unverified'        // number registered but OTP not completed
+  | 'no_store'          // verified number without an active store connection
+  | 'unknown'           // number not registered
+  | 'unknown_receiver'; // message sent to a number that is not one of ours
+
+export interface ResolvedStore {
+  id: string;
+  name: string;
+  platformStoreId: string | null;
+}
+
+export interface SenderResolution {
+  status: SenderResolutionStatus;
+  // Normalized sender and receiving numbers (+<digits>)
+  phoneNumber: string;
+  receivingNumber: string;
+  userId?: string;
+  whatsappNumberId?: string;
+  displayName?: string | null;
+  plan: PlanType;
+  // Default store for the conversation
+  store?: ResolvedStore;
+  // Active stores connected to the number, capped by the plan's maxStores
+  stores: ResolvedStore[];
+  // Connected stores left out because of the plan limit
+  storesOverLimit: number;
+}
+
+/**
+ * Strip the `whatsapp:` prefix and formatting
+ */
+export function normalizeWhatsAppNumber(value: string | null | undefined): string {
+  if (!value) return '';
+  return PHONE_UTILS.formatPhoneNumber(value.replace(/^whatsapp:/i, ''));
+}
+
+/**
+ * Comparable form of a number. WhatsApp reports Argentine mobiles as +549…,
+ * while merchants often register them as +54… (or the other way round).
+ */
+export function canonicalPhone(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.startsWith('549') && digits.length === 13 ? `54${digits.slice(3)}` : digits;
+}
+
+export function isSamePhoneNumber(a: string, b: string): boolean {
+  const canonicalA = canonicalPhone(a);
+  return canonicalA.length > 0 && canonicalA === canonicalPhone(b);
+}
+
+/**
+ * Twilio senders configured for this deployment (empty when not configured)
+ */
+function getReceivingNumbers(): string[] {
+  return [process.env.TWILIO_PHONE_NUMBER, process.env.TWILIO_WHATSAPP_NUMBER]
+    .map(normalizeWhatsAppNumber)
+    .filter(number => number.length > 1);
+}
+
+/**
+ * Resolve the merchant that sent a WhatsApp message
+ */
+export async function resolveWhatsAppSender(from: string, to: string): Promise<SenderResolution> {
+  const phoneNumber = normalizeWhatsAppNumber(from);
+  const receivingNumber = normalizeWhatsAppNumber(to);
+  const base: SenderResolution = {
+    status: 'unknown',
+    phoneNumber,
+    receivingNumber,
+    plan: 'basic',
+    stores: [],
+    storesOverLimit: 0
+  };
+
+  const receivingNumbers = getReceivingNumbers();
+  if (receivingNumbers.length > 0 && !receivingNumbers.some(number => isSamePhoneNumber(number, receivingNumber))) {
+    console.warn(`[WHATSAPP-SENDER] Message to unknown receiving number ${receivingNumber}`);
+    return { ...base, status: 'unknown_receiver' };
+  }
+
+  // Numbers are stored as typed by the merchant, so narrow by the last digits and compare normalized
+  const lastDigits = phoneNumber.replace(/\D/g, '').slice(-4);
+  if (lastDigits.length < 4) return base;
+
+  const supabase = createServiceClient();
+  const { data: candidates, error } = await supabase
+    .from('whatsapp_numbers')
+    .select(`
+      id,
+      user_id,
+      phone_number,
+      display_name,
+      is_verified,
+      updated_at,
+      users (subscription_plan),
+      whatsapp_store_connections (
+        is_active,
+        created_at,
+        stores (id, name, platform_store_id, is_active)
+      )
+    `)
+    .eq('is_active', true)
+    .like('phone_number', `%${lastDigits}`);
+
+  if (error) {
+    throw new Error(`Failed to resolve WhatsApp sender: ${error.message}`);
+  }
+
+  const matches = ((candidates || []) as unknown as SenderCandidate[])
+    .filter(row => isSamePhoneNumber(row.phone_number, phoneNumber))
+    // Verified first, then the most recently updated registration
+    .sort((a, b) =>
+      Number(b.is_verified) - Number(a.is_verified) ||
+      new Date(b.updated_at).getTime() - new Date(a.updated_at).getTime()
+    );
+
+  const number = matches[0];
+  if (!number) {
+    console.warn(`[WHATSAPP-SENDER] Unknown sender ${phoneNumber}`);
+    return base;
+  }
+
+  const resolved: SenderResolution = {
+    ...base,
+    userId: number.user_id,
+    whatsappNumberId: number.id,
+    displayName: number.display_name,
+    plan: number.users?.subscription_plan === 'pro' ? 'pro' : 'basic'
+  };
+
+  if (!number.is_verified) {
+    console.warn(`[WHATSAPP-SENDER] Sender ${phoneNumber} is not verified`);
+    return { ...resolved, status: 'unverified' };
+  }
+
+  const connectedStores: ResolvedStore[] = (number.whatsapp_store_connections || [])
+    .filter(connection => connection.is_active && connection.stores?.is_active)
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+    .flatMap(connection => (connection.stores ? [{
+      id: connection.stores.id,
+      name: connection.stores.name,
+      platformStoreId: connection.stores.platform_store_id || null
+    }] : []));
+
+  const stores = connectedStores.slice(0, getPlanFeatures(resolved.plan).maxStores);
+
+  if (stores.length === 0) {
+    console.warn(`[WHATSAPP-SENDER] Sender ${phoneNumber} has no active store`);
+    return { ...resolved, status: 'no_store' };
+  }
+
+  return {
+    ...resolved,
+    status: 'resolved',
+    store: stores[0],
+    stores,
+    storesOverLimit: connectedStores.length - stores.length
+  };
+}
+
+/**
+ * Onboarding / verification prompt for senders that can't use the agents yet
+ */
+export function getSenderResolutionReply(resolution: SenderResolution): string | null {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://fini-tn.vercel.app';
+
+  switch (resolution.status) {
+    case 'unknown':
+      return `👋 ¡Hola! Soy Fini AI, el asistente para tu Tienda Nube.\n\nEste número todavía no está registrado. Para empezar:\n1. Creá tu cuenta en ${appUrl}\n2. Conectá tu Tienda Nube\n3. Agregá este número en Configuración → WhatsApp`;
+    case 'unverified':
+      return `🔒 Tu número está registrado pero falta verificarlo.\n\nIngresá a ${appUrl}/dashboard, andá a Configuración → WhatsApp y completá la verificación con el código que te enviamos.`;
+    case 'no_store':
+      return `🏪 Tu número está verificado, pero no tiene ninguna tienda conectada.\n\nConectá tu Tienda Nube desde ${appUrl}/dashboard y asociala a este número para empezar a consultar.`;
+    default:
+      return null;
+  }
+}
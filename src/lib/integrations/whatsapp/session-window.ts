@@ -0,0 +1,260 @@
+/**
+ * WhatsApp Session Window
+ * Persisted 24-hour customer service window per merchant number and Twilio sender.
+ * Every inbound message opens (or extends) the window; senders ask it whether a
+ * freeform message is allowed or a template is required. A cron runs the
+ * "closing soon" hooks shortly before a window expires.
+ */
+
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+import { canonicalPhone, normalizeWhatsAppNumber } from './sender-resolver';
+
+export type SendMode = 'freeform' | 'template';
+
+export interface SessionWindow {
+  id: string;
+  phoneNumber: string;
+  businessNumber: string;
+  userId: string | null;
+  whatsappNumberId: string | null;
+  lastInboundAt: string;
+  expiresAt: string;
+  isOpen: boolean;
+  remainingMs: number;
+  closingSoon: boolean;
+  closingSoonNotifiedAt: string | null;
+  displayName: string | null;
+  storeName: string | null;
+}
+
+export interface InboundSessionEvent {
+  phoneNumber: string;
+  businessNumber: string;
+  userId?: string | null;
+  whatsappNumberId?: string | null;
+  displayName?: string | null;
+  storeName?: string | null;
+  receivedAt?: Date;
+}
+
+export type ClosingSoonHandler = (window: SessionWindow) => Promise<void>;
+
+export interface ClosingSoonResult {
+  found: number;
+  notified: number;
+  failed: number;
+}
+
+export const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+// How long before expiry a window counts as "closing soon"
+export const CLOSING_SOON_MS = Number(process.env.WHATSAPP_SESSION_CLOSING_SOON_MINUTES || 120) * 60 * 1000;
+const CLOSING_SOON_BATCH_SIZE = 50;
+
+const closingSoonHandlers: ClosingSoonHandler[] = [];
+
+type WhatsAppSessionWindowRow = Database['public']['Tables']['whatsapp_session_windows']['Row'];
+
+function toSessionWindow(row: WhatsAppSessionWindowRow, now: number = Date.now()): SessionWindow {
+  const remainingMs = Math.max(0, new Date(row.expires_at).getTime() - now);
+  return {
+    id: row.id,
+    phoneNumber: row.phone_number,
+    businessNumber: row.business_number,
+    userId: row.user_id,
+    whatsappNumberId: row.whatsapp_number_id,
+    lastInboundAt: row.last_inbound_at,
+    expiresAt: row.expires_at,
+    isOpen: remainingMs > 0,
+    remainingMs,
+    closingSoon: remainingMs > 0 && remainingMs <= CLOSING_SOON_MS,
+    closingSoonNotifiedAt: row.closing_soon_notified_at,
+    displayName: row.metadata?.displayName || null,
+    storeName: row.metadata?.storeName || null
+  };
+}
+
+/**
+ * Register a hook that runs once per window shortly before it closes
+ */
+export function onSessionWindowClosingSoon(handler: ClosingSoonHandler): () => void {
+  closingSoonHandlers.push(handler);
+  return () => {
+    const index = closingSoonHandlers.indexOf(handler);
+    if (index >= 0) closingSoonHandlers.splice(index, 1);
+  };
+}
+
+/**
+ * Engagement template that invites the merchant to write again before the window closes.
+ * Enabled with WHATSAPP_SESSION_NUDGE_ENABLED=true.
+ */
+async function sendEngagementNudge(window: SessionWindow): Promise<void> {
+  const { smartTemplateService } = await import('./smart-template-service');
+  const result = await smartTemplateService.sendSmartAgentMessage(
+    {
+      phoneNumber: window.phoneNumber,
+      storeId: '',
+      userId: window.userId || '',
+      lastMessageAt: window.lastInboundAt
+    },
+    'orchestrator',
+    'welcome',
+    {
+      '1': window.displayName || 'Usuario',
+      '2': window.storeName || 'Tu Tienda'
+    }
+  );
+
+  if (!result.success) {
+    throw new Error(result.error || 'Engagement template failed');
+  }
+}
+
+function getClosingSoonHandlers(): ClosingSoonHandler[] {
+  return process.env.WHATSAPP_SESSION_NUDGE_ENABLED === 'true'
+    ? [sendEngagementNudge, ...closingSoonHandlers]
+    : [...closingSoonHandlers];
+}
+
+export class WhatsAppSessionWindow {
+  /**
+   * Open or extend the window after an inbound message
+   */
+  static async recordInbound(event: InboundSessionEvent): Promise<SessionWindow | null> {
+    const phoneNumber = normalizeWhatsAppNumber(event.phoneNumber);
+    const businessNumber = normalizeWhatsAppNumber(event.businessNumber);
+    if (!phoneNumber || !businessNumber) return null;
+
+    const receivedAt = event.receivedAt || new Date();
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('whatsapp_session_windows')
+      .upsert({
+        phone_key: canonicalPhone(phoneNumber),
+        business_key: canonicalPhone(businessNumber),
+        phone_number: phoneNumber,
+        business_number: businessNumber,
+        user_id: event.userId || null,
+        whatsapp_number_id: event.whatsappNumberId || null,
+        last_inbound_at: receivedAt.toISOString(),
+        expires_at: new Date(receivedAt.getTime() + SESSION_WINDOW_MS).toISOString(),
+        closing_soon_notified_at: null,
+        metadata: { displayName: event.displayName || null, storeName: event.storeName || null }
+      }, { onConflict: 'phone_key,business_key' })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record session window for ${phoneNumber}: ${error.message}`);
+    }
+
+    return toSessionWindow(data);
+  }
+
+  /**
+   * Window of a merchant number, for a given Twilio sender or the most recent one
+   */
+  static async get(phoneNumber: string, businessNumber?: string): Promise<SessionWindow | null> {
+    const phoneKey = canonicalPhone(normalizeWhatsAppNumber(phoneNumber));
+    if (!phoneKey) return null;
+
+    const supabase = createServiceClient();
+    let query = supabase
+      .from('whatsapp_session_windows')
+      .select('*')
+      .eq('phone_key', phoneKey);
+    if (businessNumber) {
+      query = query.eq('business_key', canonicalPhone(normalizeWhatsAppNumber(businessNumber)));
+    }
+
+    const { data, error } = await query
+      .order('last_inbound_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to load session window for ${phoneNumber}: ${error.message}`);
+    }
+
+    return data ? toSessionWindow(data) : null;
+  }
+
+  /**
+   * Freeform is only allowed inside an open window; a merchant that never wrote needs a template
+   */
+  static async getSendMode(phoneNumber: string, businessNumber?: string): Promise<SendMode> {
+    const window = await WhatsAppSessionWindow.get(phoneNumber, businessNumber);
+    return window?.isOpen ? 'freeform' : 'template';
+  }
+
+  /**
+   * Windows of a user's numbers, most recent first
+   */
+  static async listForUser(userId: string): Promise<SessionWindow[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('whatsapp_session_windows')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_inbound_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list session windows: ${error.message}`);
+    }
+
+    const now = Date.now();
+    return (data || []).map(row => toSessionWindow(row, now));
+  }
+
+  /**
+   * Run the "closing soon" hooks for windows that expire within CLOSING_SOON_MS.
+   * Each window is claimed before its hooks run, so overlapping cron runs never notify twice.
+   */
+  static async processClosingSoon(): Promise<ClosingSoonResult> {
+    const result: ClosingSoonResult = { found: 0, notified: 0, failed: 0 };
+    const handlers = getClosingSoonHandlers();
+    if (handlers.length === 0) return result;
+
+    const now = new Date();
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('whatsapp_session_windows')
+      .select('*')
+      .is('closing_soon_notified_at', null)
+      .gt('expires_at', now.toISOString())
+      .lte('expires_at', new Date(now.getTime() + CLOSING_SOON_MS).toISOString())
+      .order('expires_at', { ascending: true })
+      .limit(CLOSING_SOON_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load closing session windows: ${error.message}`);
+    }
+
+    result.found = (data || []).length;
+    for (const row of data || []) {
+      const { data: claimed } = await supabase
+        .from('whatsapp_session_windows')
+        .update({ closing_soon_notified_at: now.toISOString() })
+        .eq('id', row.id)
+        .eq('last_inbound_at', row.last_inbound_at)
+        .is('closing_soon_notified_at', null)
+        .select('id');
+      if (!claimed || claimed.length === 0) continue;
+
+      const window = toSessionWindow(row);
+      try {
+        for (const handler of handlers) {
+          await handler(window);
+        }
+        result.notified++;
+      } catch (handlerError) {
+        result.failed++;
+        console.error(`[WHATSAPP-SESSION] Closing-soon hook failed for ${window.phoneNumber}:`, handlerError);
+      }
+    }
+
+    return result;
+  }
+}
@@ -4,9 +4,11 @@
  */
 
 import { createLogger } from '@/lib/logger';
-import { TwilioWhatsAppService, type TwilioConfig } from '../twilio-whatsapp';
+import { getStatusCallbackUrl, TwilioWhatsAppService, type TwilioConfig } from '../twilio-whatsapp';
 import { FINI_TEMPLATE_CONFIGS, AGENT_TEMPLATE_MAPPING } from '../twilio-content-templates';
 import type { AgentType } from '@/lib/agents/types';
+import { markdownToWhatsApp } from './message-formatter';
+import { WhatsAppSessionWindow } from './session-window';
 import type { WhatsAppConversation } from './types';
 import twilio from 'twilio';
 
@@ -28,7 +30,7 @@ interface ConversationContext {
   }>;
 }
 
-type MessageType = 'proactive' | 'notification' | 'welcome' | 'contextSwitch' | 'error' | 'multiAgent';
+type MessageType = 'proactive' | 'notification' | 'welcome' | 'contextSwitch' | 'error' | 'multiAgent' | 'dailySummary';
 
 /**
  * Template Fallback Chain Configuration
@@ -138,7 +140,8 @@ export class SmartTemplateService {
       accountSid: process.env.TWILIO_ACCOUNT_SID!,
       authToken: process.env.TWILIO_AUTH_TOKEN!,
       phoneNumber: process.env.TWILIO_PHONE_NUMBER!,
-      webhookUrl: process.env.TWILIO_WEBHOOK_URL || ''
+      webhookUrl: process.env.TWILIO_WEBHOOK_URL || '',
+      statusCallbackUrl: getStatusCallbackUrl()
     };
     this.twilioService = new TwilioWhatsAppService(config);
     
@@ -186,7 +189,9 @@ export class SmartTemplateService {
         }
         
         // Si freeform falla, usar template como fallback
-        this.logger.warn('Freeform failed, falling back to template', { agentType });
+        if (fallbackMessage) {
+          this.logger.warn('Freeform failed, falling back to template', { agentType });
+        }
         return await this.sendAgentTemplate(context, agentType, messageType, variables);
       }
 
@@ -334,10 +339,55 @@ export class SmartTemplateService {
     );
   }
 
+  /**
+   * Reenvía como template un mensaje freeform que Twilio rechazó fuera de la ventana de 24hrs (63016)
+   */
+  async resendAsTemplate(
+    context: ConversationContext,
+    agentType: AgentType,
+    originalMessage: string,
+    templateData: { displayName?: string; storeName?: string } = {}
+  ): Promise<{ success: boolean; messageSid?: string; usedTemplate: boolean; error?: string; fallbackUsed?: string }> {
+    this.logger.info('Resending failed freeform message as template', {
+      phoneNumber: context.phoneNumber,
+      agentType
+    });
+
+    // Sin templates propios del agente (orchestrator), reabrir la conversación con la bienvenida
+    if (!(agentType in AGENT_TEMPLATE_MAPPING)) {
+      return await this.sendAgentTemplate(context, agentType, 'welcome', {
+        '1': templateData.displayName || 'Usuario',
+        '2': templateData.storeName || 'Tu Tienda'
+      });
+    }
+
+    // Las variables de template no admiten saltos de línea y tienen largo limitado
+    const summary = markdownToWhatsApp(originalMessage).replace(/\s+/g, ' ').trim();
+    const variables = this.mapNotificationVariables(agentType, {
+      title: templateData.storeName || 'Tu Tienda',
+      details: summary.length > 500 ? `${summary.slice(0, 497)}...` : summary,
+      action: 'Respondé este mensaje para seguir la conversación'
+    });
+
+    return await this.sendAgentTemplate(context, agentType, 'notification', variables);
+  }
+
   /**
    * Detecta si estamos fuera de la ventana de 24 horas
+   * La ventana persistida (último mensaje entrante del comerciante) tiene prioridad sobre lastMessageAt
    */
   private async isOutside24HourWindow(context: ConversationContext): Promise<boolean> {
+    try {
+      const sessionWindow = await WhatsAppSessionWindow.get(context.phoneNumber, process.env.TWILIO_PHONE_NUMBER);
+      if (sessionWindow) {
+        return !sessionWindow.isOpen;
+      }
+    } catch (error) {
+      this.logger.warn('Session window lookup failed, using lastMessageAt', {
+        error: error instanceof Error ? error.message : error
+      });
+    }
+
     if (!context.lastMessageAt) {
       return true; // No hay historial, asumir fuera de ventana
     }
@@ -600,12 +650,14 @@ export class SmartTemplateService {
     try {
       // Usar el cliente de Twilio directamente para envío de template
       const twilioClient = this.twilioClient;
+      const statusCallbackUrl = getStatusCallbackUrl();
       
       const twilioMessage = await twilioClient.messages.create({
         from: `whatsapp:${process.env.TWILIO_PHONE_NUMBER}`,
         to: `whatsapp:${phoneNumber}`,
         contentSid,
-        contentVariables: JSON.stringify(variables)
+        contentVariables: JSON.stringify(variables),
+        ...(statusCallbackUrl && { statusCallback: statusCallbackUrl })
       });
 
       this.logger.info('Template sent successfully', { 
@@ -666,7 +718,8 @@ export class SmartTemplateService {
       'contextSwitch': 'CONTEXT_SWITCH',
       'multiAgent': 'MULTI_AGENT_QUERY',
       'error': 'ERROR_FALLBACK',
-      'welcome': 'WELCOME_MULTI_AGENT'
+      'welcome': 'WELCOME_MULTI_AGENT',
+      'dailySummary': 'DAILY_SUMMARY'
     };
 
     if (specialMappings[messageType]) {
@@ -0,0 +1,251 @@
+/**
+ * WhatsApp Store Selection
+ * Lets merchants with several connected stores pick which one a WhatsApp
+ * conversation talks about ("/tienda"), or switch to a cross-store summary.
+ * The choice is persisted on the conversations row (store_id + store_scope).
+ */
+
+import type { AgentContext, AgentResponse, AgentSuggestion } from '@/lib/agents/types';
+import { ConversationService } from '@/lib/database/client';
+import type { Conversation } from '@/lib/database/schema';
+import { getUpgradeMessage } from '@/lib/plan-restrictions';
+
+import type { ResolvedStore, SenderResolution } from './sender-resolver';
+
+export type StoreScope = 'single' | 'all';
+
+export type StoreCommand =
+  | { type: 'list' }
+  | { type: 'select'; query: string }
+  | { type: 'all' };
+
+export interface StoreSelection {
+  scope: StoreScope;
+  store: ResolvedStore;
+}
+
+// IDs used for the rows of the store picker list message (e.g. "tienda:<uuid>", "tienda:all")
+export const STORE_LIST_ITEM_PREFIX = 'tienda:';
+export const ALL_STORES_LIST_ITEM_ID = `${STORE_LIST_ITEM_PREFIX}all`;
+
+const STORE_COMMAND_PATTERN = /^\/tiendas?(?:\s+(.+))?$/i;
+const ALL_STORES_KEYWORDS = ['todas', 'todo', 'resumen', 'all'];
+
+function normalizeText(value: string): string {
+  return value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim();
+}
+
+/**
+ * Parse a store command from the message text or from the ID of a list/button reply
+ */
+export function parseStoreCommand(message: string, interactiveReplyId?: string | null): StoreCommand | null {
+  if (interactiveReplyId?.startsWith(STORE_LIST_ITEM_PREFIX)) {
+    return interactiveReplyId === ALL_STORES_LIST_ITEM_ID
+      ? { type: 'all' }
+      : { type: 'select', query: interactiveReplyId.slice(STORE_LIST_ITEM_PREFIX.length) };
+  }
+
+  const match = (message || '').trim().match(STORE_COMMAND_PATTERN);
+  if (!match) return null;
+
+  const argument = match[1]?.trim();
+  if (!argument) return { type: 'list' };
+  if (ALL_STORES_KEYWORDS.includes(normalizeText(argument))) return { type: 'all' };
+  return { type: 'select', query: argument };
+}
+
+/**
+ * Find a store by ID, list position (1-based) or name
+ */
+export function findStore(stores: ResolvedStore[], query: string): ResolvedStore | null {
+  const byId = stores.find(store => store.id === query);
+  if (byId) return byId;
+
+  if (/^\d+$/.test(query)) {
+    return stores[Number(query) - 1] || null;
+  }
+
+  const normalizedQuery = normalizeText(query);
+  return stores.find(store => normalizeText(store.name) === normalizedQuery)
+    || stores.find(store => normalizeText(store.name).includes(normalizedQuery))
+    || null;
+}
+
+/**
+ * Active store and scope for a conversation, falling back to the sender's default store
+ */
+export function getStoreSelection(
+  conversation: Pick<Conversation, 'store_id' | 'store_scope'> | null,
+  resolution: SenderResolution
+): StoreSelection {
+  const store = resolution.stores.find(candidate => candidate.id === conversation?.store_id)
+    || resolution.store
+    || resolution.stores[0];
+  const scope: StoreScope = conversation?.store_scope === 'all' && resolution.stores.length > 1 ? 'all' : 'single';
+
+  return { scope, store };
+}
+
+/**
+ * Numbered store list with the current selection marked
+ */
+export function formatStoreList(stores: ResolvedStore[], selection: StoreSelection): string {
+  const lines = stores.map((store, index) => {
+    const isActive = selection.scope === 'single' && store.id === selection.store.id;
+    return `${index + 1}. ${store.name}${isActive ? ' ✅' : ''}`;
+  });
+
+  return [
+    '🏪 *Tus tiendas conectadas*',
+    '',
+    ...lines,
+    '',
+    selection.scope === 'all'
+      ? 'Modo actual: *resumen de todas las tiendas* ✅'
+      : `Tienda activa: *${selection.store.name}*`,
+    '',
+    'Escribí */tienda <número o nombre>* para cambiar de tienda o */tienda todas* para un resumen de todas.'
+  ].join('\n');
+}
+
+/**
+ * Store picker options: one per store plus the cross-store summary
+ */
+export function createStoreChoiceSuggestions(stores: ResolvedStore[], selection: StoreSelection): AgentSuggestion[] {
+  if (stores.length < 2) return [];
+
+  return [
+    ...stores.map(store => ({
+      id: `${STORE_LIST_ITEM_PREFIX}${store.id}`,
+      kind: 'store_choice' as const,
+      title: store.name,
+      description: selection.scope === 'single' && store.id === selection.store.id ? 'Tienda activa ✅' : undefined
+    })),
+    {
+      id: ALL_STORES_LIST_ITEM_ID,
+      kind: 'store_choice' as const,
+      title: 'Todas las tiendas',
+      description: selection.scope === 'all' ? 'Modo actual ✅' : 'Resumen de todas tus tiendas'
+    }
+  ];
+}
+
+/**
+ * Apply a store command, persisting the new selection on the conversation.
+ * Returns the reply for the merchant and the resulting selection.
+ */
+export async function applyStoreCommand(
+  conversationId: string | null,
+  command: StoreCommand,
+  resolution: SenderResolution,
+  current: StoreSelection
+): Promise<{ reply: string; selection: StoreSelection; suggestions?: AgentSuggestion[] }> {
+  const overLimitNote = resolution.storesOverLimit > 0
+    ? `\n\nℹ️ Tenés ${resolution.storesOverLimit} tienda(s) más conectada(s) que tu plan no incluye. ${getUpgradeMessage('maxStores')}.`
+    : '';
+
+  if (command.type === 'list') {
+    return {
+      reply: formatStoreList(resolution.stores, current) + overLimitNote,
+      selection: current,
+      suggestions: createStoreChoiceSuggestions(resolution.stores, current)
+    };
+  }
+
+  if (resolution.stores.length < 2) {
+    return {
+      reply: `Tenés una sola tienda conectada: *${current.store.name}*.${overLimitNote || `\n\n${getUpgradeMessage('maxStores')}.`}`,
+      selection: current
+    };
+  }
+
+  let selection: StoreSelection;
+  if (command.type === 'all') {
+    selection = { scope: 'all', store: current.store };
+  } else {
+    const store = findStore(resolution.stores, command.query);
+    if (!store) {
+      return {
+        reply: `No encontré la tienda "${command.query}".\n\n${formatStoreList(resolution.stores, current)}`,
+        selection: current
+      };
+    }
+    selection = { scope: 'single', store };
+  }
+
+  if (conversationId) {
+    const result = await ConversationService.updateConversation(conversationId, {
+      store_id: selection.store.id,
+      store_scope: selection.scope
+    });
+    if (!result.success) {
+      console.warn('[WHATSAPP-STORES] Failed to persist store selection:', result.error);
+    }
+  }
+
+  const reply = selection.scope === 'all'
+    ? `📊 Listo, ahora respondo con un *resumen de tus ${resolution.stores.length} tiendas*.\n\nEscribí */tienda <número o nombre>* para volver a una sola.`
+    : `✅ Listo, ahora hablamos de *${selection.store.name}*.`;
+
+  return { reply, selection };
+}
+
+/**
+ * Prefix an agent answer with the store it refers to (only when the merchant has several stores)
+ */
+export function labelStoreResponse(response: string, store: ResolvedStore, stores: ResolvedStore[]): string {
+  if (stores.length < 2) return response;
+  return `🏪 *${store.name}*\n\n${response}`;
+}
+
+/**
+ * Run the same question against every connected store and merge the answers
+ */
+export async function processCrossStoreMessage(
+  context: AgentContext,
+  stores: ResolvedStore[],
+  processMessage: (context: AgentContext) => Promise<AgentResponse>
+): Promise<AgentResponse> {
+  const results = await Promise.all(stores.map(async store => {
+    try {
+      const response = await processMessage({
+        ...context,
+        storeId: store.id,
+        metadata: { ...context.metadata, storeName: store.name, storeScope: 'all' }
+      });
+      return { store, response };
+    } catch (error) {
+      console.warn(`[WHATSAPP-STORES] Cross-store answer failed for ${store.id}:`, error);
+      return { store, response: null };
+    }
+  }));
+
+  const sections = results.map(({ store, response }) =>
+    `🏪 *${store.name}*\n${response?.response || 'No pude obtener información de esta tienda en este momento.'}`
+  );
+  const answered = results.filter(result => result.response?.success);
+
+  return {
+    success: answered.length > 0,
+    agentType: 'orchestrator',
+    response: `📊 *Resumen de tus ${stores.length} tiendas*\n\n${sections.join('\n\n')}`,
+    confidence: answered.length > 0
+      ? answered.reduce((total, result) => total + (result.response?.confidence || 0), 0) / answered.length
+      : 0,
+    reasoning: 'Cross-store summary',
+    actions: answered.flatMap(result => result.response?.actions || []),
+    // Every store suggests the same follow-ups: keep one option per ID
+    suggestions: Array.from(new Map(
+      answered.flatMap(result => result.response?.suggestions || []).map(suggestion => [suggestion.id, suggestion])
+    ).values()),
+    metadata: {
+      storeScope: 'all',
+      storeIds: stores.map(store => store.id),
+      pendingActions: answered.flatMap(result => (result.response?.metadata?.pendingActions as unknown[]) || [])
+    }
+  };
+}
@@ -8,6 +8,7 @@ import crypto from 'crypto';
 import twilio from 'twilio';
 
 import { getWhatsAppConfig, PHONE_UTILS } from './config';
+import { formatWhatsAppMessage } from './message-formatter';
 // import { MESSAGE_CONFIG } from './config';
 import type { 
   WhatsAppService, 
@@ -38,26 +39,38 @@ export class TwilioWhatsAppService implements WhatsAppService {
   /**
    * Send a WhatsApp message
    */
-  async sendMessage(message: OutgoingWhatsAppMessage): Promise<{ sid: string; status: string }> {
+  async sendMessage(message: OutgoingWhatsAppMessage): Promise<{ sid: string; status: string; sids: string[] }> {
+    // SIDs of every part, so the ones already delivered are known when a later part fails
+    const _sids: string[] = [];
+
     try {
       console.warn(`[WHATSAPP] Sending message to ${message.to}`);
       const config = getWhatsAppConfig();
-      const _twilioMessage = await this.client.messages.create({
-        from: config.twilio.whatsappNumber,
-        to: `whatsapp:${PHONE_UTILS.formatPhoneNumber(message.to)}`,
-        body: message.body.substring(0, config.features.maxMessageLength),
-        mediaUrl: message.mediaUrl ? [message.mediaUrl] : undefined
-      });
+      // Markdown rendered for WhatsApp; long answers go out as ordered parts instead of being cut
+      const _parts = formatWhatsAppMessage(message.body, config.features.maxMessageLength);
+      let _status = '';
+      for (const [index, body] of _parts.entries()) {
+        const _twilioMessage = await this.client.messages.create({
+          from: config.twilio.whatsappNumber,
+          to: `whatsapp:${PHONE_UTILS.formatPhoneNumber(message.to)}`,
+          body,
+          mediaUrl: index === 0 && message.mediaUrl ? [message.mediaUrl] : undefined
+        });
+        _sids.push(_twilioMessage.sid);
+        _status = _twilioMessage.status;
+      }
 
-      console.warn(`[WHATSAPP] Message sent successfully: ${_twilioMessage.sid}`);
+      console.warn(`[WHATSAPP] Message sent successfully: ${_sids.join(', ')}`);
       
       return {
-        sid: _twilioMessage.sid,
-        status: _twilioMessage.status
+        sid: _sids[_sids.length - 1],
+        status: _status,
+        sids: _sids
       };
     } catch (error) {
       console.warn('[ERROR] Failed to send WhatsApp message:', error);
-      throw new Error(`Failed to send message: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      const _sentParts = _sids.length > 0 ? ` after sending ${_sids.length} part(s): ${_sids.join(', ')}` : '';
+      throw new Error(`Failed to send message${_sentParts}: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
@@ -0,0 +1,188 @@
+/**
+ * Twilio Webhook Security
+ * - X-Twilio-Signature validation (HMAC-SHA1 of the URL + sorted POST params)
+ *   using the auth token of the Twilio account that sent the request
+ * - MessageSid deduplication so Twilio retries are processed exactly once
+ */
+
+import crypto from 'crypto';
+
+import type { NextRequest } from 'next/server';
+
+import { createServiceClient } from '@/lib/supabase/server';
+
+export type TwilioWebhookParams = Record<string, string>;
+
+export interface SignatureVerification {
+  valid: boolean;
+  reason?: 'missing_signature' | 'missing_auth_token' | 'invalid_signature' | 'skipped_in_development';
+}
+
+export type InboundClaim = 'claimed' | 'duplicate';
+
+// A 'processing' claim older than this is considered abandoned (crashed invocation) and can be retried
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+/**
+ * Signature Twilio computes for a request: base64(HMAC-SHA1(authToken, url + key1 + value1 + ...))
+ * with the POST params sorted by key
+ */
+export function computeTwilioSignature(authToken: string, url: string, params: TwilioWebhookParams): string {
+  const payload = Object.keys(params)
+    .sort()
+    .reduce((acc, key) => acc + key + params[key], url);
+
+  return crypto.createHmac('sha1', authToken).update(Buffer.from(payload, 'utf-8')).digest('base64');
+}
+
+export function isValidTwilioSignature(
+  authToken: string,
+  signature: string,
+  url: string,
+  params: TwilioWebhookParams
+): boolean {
+  const expected = Buffer.from(computeTwilioSignature(authToken, url, params));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Public URL Twilio posted to. Behind Vercel/proxies request.url may not match,
+ * so prefer TWILIO_WEBHOOK_BASE_URL and then the forwarded host headers.
+ */
+export function getTwilioWebhookUrl(request: NextRequest): string {
+  const url = new URL(request.url);
+  const baseUrl = process.env.TWILIO_WEBHOOK_BASE_URL;
+  if (baseUrl) {
+    return `${baseUrl.replace(/\/$/, '')}${url.pathname}${url.search}`;
+  }
+
+  const host = request.headers.get('x-forwarded-host') || request.headers.get('host') || url.host;
+  const protocol = request.headers.get('x-forwarded-proto') || url.protocol.replace(':', '');
+  return `${protocol}://${host}${url.pathname}${url.search}`;
+}
+
+/**
+ * Auth token of a Twilio account (the AccountSid of a webhook or message).
+ * The deployment's own account comes from the environment; merchants that bring
+ * their own Twilio account have its credentials on their whatsapp_numbers rows
+ */
+export async function getTwilioAuthToken(accountSid?: string | null): Promise<string | null> {
+  if (accountSid && accountSid !== process.env.TWILIO_ACCOUNT_SID) {
+    try {
+      const supabase = createServiceClient();
+      const { data } = await supabase
+        .from('whatsapp_numbers')
+        .select('twilio_auth_token')
+        .eq('twilio_account_sid', accountSid)
+        .eq('is_active', true)
+        .not('twilio_auth_token', 'is', null)
+        .limit(1)
+        .maybeSingle();
+
+      if (data?.twilio_auth_token) return data.twilio_auth_token;
+    } catch (error) {
+      console.warn(`[TWILIO-SECURITY] Failed to load auth token for account ${accountSid}:`, error);
+    }
+  }
+
+  return process.env.TWILIO_AUTH_TOKEN || null;
+}
+
+/**
+ * Validate the X-Twilio-Signature header of a webhook request against the token
+ * of the account in its AccountSid param (inbound messages and status callbacks alike).
+ * In development an unsigned request is accepted so the webhook can be exercised locally.
+ */
+export async function verifyTwilioRequest(
+  request: NextRequest,
+  params: TwilioWebhookParams
+): Promise<SignatureVerification> {
+  const signature = request.headers.get('x-twilio-signature');
+  if (!signature) {
+    return process.env.NODE_ENV === 'development'
+      ? { valid: true, reason: 'skipped_in_development' }
+      : { valid: false, reason: 'missing_signature' };
+  }
+
+  const authToken = await getTwilioAuthToken(params.AccountSid);
+  if (!authToken) {
+    return { valid: false, reason: 'missing_auth_token' };
+  }
+
+  return isValidTwilioSignature(authToken, signature, getTwilioWebhookUrl(request), params)
+    ? { valid: true }
+    : { valid: false, reason: 'invalid_signature' };
+}
+
+export class WhatsAppInboundLog {
+  /**
+   * Claim an inbound MessageSid before processing it. Returns 'duplicate' when the
+   * message was already processed or is being processed by another invocation.
+   */
+  static async claim(messageSid: string): Promise<InboundClaim> {
+    const supabase = createServiceClient();
+    const now = new Date().toISOString();
+
+    const { error } = await supabase
+      .from('whatsapp_inbound_events')
+      .insert({ message_sid: messageSid, status: 'processing', received_at: now, attempts: 1 });
+
+    if (!error) return 'claimed';
+    if (error.code !== '23505') {
+      throw new Error(`Failed to claim inbound message ${messageSid}: ${error.message}`);
+    }
+
+    // Already seen: only take over failed attempts or abandoned claims
+    const staleBefore = new Date(Date.now() - STALE_PROCESSING_MS).toISOString();
+    const { data: existing } = await supabase
+      .from('whatsapp_inbound_events')
+      .select('status, attempts, received_at')
+      .eq('message_sid', messageSid)
+      .maybeSingle();
+
+    const retryable = existing && (
+      existing.status === 'failed' ||
+      (existing.status === 'processing' && existing.received_at < staleBefore)
+    );
+    if (!retryable) return 'duplicate';
+
+    // Conditional update so only one concurrent retry wins
+    const { data: reclaimed } = await supabase
+      .from('whatsapp_inbound_events')
+      .update({ status: 'processing', received_at: now, attempts: (existing.attempts || 1) + 1, error: null })
+      .eq('message_sid', messageSid)
+      .eq('status', existing.status)
+      .eq('received_at', existing.received_at)
+      .select('message_sid');
+
+    return reclaimed && reclaimed.length > 0 ? 'claimed' : 'duplicate';
+  }
+
+  static async complete(messageSid: string): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('whatsapp_inbound_events')
+      .update({ status: 'processed', processed_at: new Date().toISOString() })
+      .eq('message_sid', messageSid);
+
+    if (error) {
+      console.warn(`[TWILIO-SECURITY] Failed to mark ${messageSid} as processed:`, error.message);
+    }
+  }
+
+  /**
+   * Release the claim so Twilio's retry can process the message again
+   */
+  static async fail(messageSid: string, reason: string): Promise<void> {
+    const supabase = createServiceClient();
+    const { error } = await supabase
+      .from('whatsapp_inbound_events')
+      .update({ status: 'failed', error: reason.slice(0, 1000) })
+      .eq('message_sid', messageSid);
+
+    if (error) {
+      console.warn(`[TWILIO-SECURITY] Failed to mark ${messageSid} as failed:`, error.message);
+    }
+  }
+}
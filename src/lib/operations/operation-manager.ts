@@ -432,6 +432,39 @@ export class OperationManager extends EventEmitter {
     this.emit('notification:created', notification);
   }
 
+  /**
+   * 🏆 NOTIFICACIÓN EXTERNA
+   * Avisos generados en el servidor sin operación asociada (logros, niveles).
+   * El id viene del servidor, así que repetirlo no duplica la notificación
+   */
+  public addExternalNotification(options: {
+    id: string;
+    source: string;
+    type: OperationNotification['type'];
+    title: string;
+    message: string;
+    timestamp?: Date;
+    autoHide?: boolean;
+    duration?: number;
+  }): void {
+    if (this.notifications.has(options.id)) return;
+
+    const notification: OperationNotification = {
+      id: options.id,
+      operationId: options.source,
+      type: options.type,
+      title: options.title,
+      message: options.message,
+      timestamp: options.timestamp || new Date(),
+      dismissed: false,
+      autoHide: options.autoHide || false,
+      duration: options.duration
+    };
+
+    this.notifications.set(options.id, notification);
+    this.emit('notification:created', notification);
+  }
+
   /**
    * 🗑️ ELIMINAR OPERACIÓN
    */
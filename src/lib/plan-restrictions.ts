@@ -153,6 +153,7 @@ export function getUpgradeMessage(feature: string): string {
     marketingIdeas: "Actualiza al Plan Pro para ideas de marketing automatizadas",
     maxStores: "Actualiza al Plan Pro para conectar múltiples tiendas",
     customReports: "Actualiza al Plan Pro para reportes personalizados",
+    automatedReports: "Actualiza al Plan Pro para recibir reportes automáticos por WhatsApp",
     ragAdvanced: "Actualiza al Plan Pro para búsquedas avanzadas con IA",
   };
   
@@ -3,6 +3,7 @@
  * Centralizes all configuration for the RAG system
  */
 
+import { NamespaceStrategy } from './namespace-strategy';
 import type { RAGEngineConfig } from './types';
 
 export const RAG_CONFIG: RAGEngineConfig = {
@@ -83,13 +84,13 @@ export const RAG_CONSTANTS = {
     upserts_per_minute: 50,
   },
   
-  // Namespace patterns for Pinecone
+  // Namespace patterns for Pinecone (pass the store's active version, see namespace-versions.ts)
   NAMESPACES: {
-    store: (storeId: string) => `store-${storeId}`,
-    products: (storeId: string) => `store-${storeId}-products`,
-    orders: (storeId: string) => `store-${storeId}-orders`,
-    customers: (storeId: string) => `store-${storeId}-customers`,
-    analytics: (storeId: string) => `store-${storeId}-analytics`,
+    store: (storeId: string, version?: string | null) => NamespaceStrategy.generateNamespace(storeId, 'store', version),
+    products: (storeId: string, version?: string | null) => NamespaceStrategy.generateNamespace(storeId, 'products', version),
+    orders: (storeId: string, version?: string | null) => NamespaceStrategy.generateNamespace(storeId, 'orders', version),
+    customers: (storeId: string, version?: string | null) => NamespaceStrategy.generateNamespace(storeId, 'customers', version),
+    analytics: (storeId: string, version?: string | null) => NamespaceStrategy.generateNamespace(storeId, 'analytics', version),
     conversations: (storeId: string) => `store-${storeId}-conversations`,
   },
 } as const; 
\ No newline at end of file
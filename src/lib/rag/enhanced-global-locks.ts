@@ -17,6 +17,8 @@
  * - Enhanced timeout management
  * - Operation priority queuing
  * - Reconnection-specific safeguards
+ * - Locks and namespace versions shared across serverless instances
+ *   (Postgres leases with heartbeats, see lock-provider.ts)
  * 
  * LOCK PRIORITY HIERARCHY (higher number = higher priority):
  * 1. BACKGROUND_SYNC - Background auto-sync (lowest priority)
@@ -26,7 +28,16 @@
  * 5. DELETION - Store deletion (highest priority)
  */
 
-import { v4 as uuidv4 } from 'uuid';
+import {
+  getRAGLockProvider,
+  RAG_LOCK_LEASE_MS,
+  startLockHeartbeat,
+  stopLockHeartbeat,
+  type NamespaceVersion,
+  type RAGLockLease
+} from './lock-provider';
+
+export type { NamespaceVersion } from './lock-provider';
 
 // ===== ENHANCED TYPES & INTERFACES =====
 
@@ -61,22 +72,16 @@ export interface LockAcquisitionResult {
   escalated?: boolean;         // NEW: Was lock escalated
 }
 
-export interface NamespaceVersion {
-  storeId: string;
-  version: string;
-  createdAt: number;
-  lockProcessId: string;
-  status: 'creating' | 'active' | 'deprecated';
-}
-
 // ===== ENHANCED GLOBAL STATE =====
 
-// In-memory locks storage with enhanced structure
-const activeLocks = new Map<string, EnhancedRAGLock[]>(); // storeId -> array of locks
+const LOCK_SCOPE = 'rag_enhanced';
+
+// Operations of this instance waiting for a lock. The locks themselves (and
+// namespace versions) are shared through the lock provider; only the waiting
+// promises are local
 const operationQueues = new Map<string, QueuedOperation[]>(); // storeId -> queued operations
-const namespaceVersions = new Map<string, NamespaceVersion>(); // storeId -> current version
 
-// Enhanced lock timeouts with reconnection considerations
+// Maximum duration of each operation: its lease is renewed by heartbeats until then
 const ENHANCED_LOCK_TIMEOUT_MS = {
   [EnhancedRAGLockType.BACKGROUND_SYNC]: 120000,      // 2 minutes
   [EnhancedRAGLockType.MANUAL_SYNC]: 180000,          // 3 minutes
@@ -118,26 +123,34 @@ export async function acquireEnhancedRAGLock(
   } = {}
 ): Promise<LockAcquisitionResult> {
   
-  // Clean up expired locks first
-  await cleanupExpiredLocks();
-  
   const processId = generateProcessId();
   const now = Date.now();
-  const expirationTime = now + ENHANCED_LOCK_TIMEOUT_MS[lockType];
+  const provider = getRAGLockProvider();
   
   console.log(`[ENHANCED:LOCK] 🔒 Attempting to acquire ${EnhancedRAGLockType[lockType]} lock for store ${storeId}: ${operation}`);
   
-  // Get existing locks for this store
-  const existingLocks = activeLocks.get(storeId) || [];
-  
-  // Enhanced conflict detection with reconnection prioritization
-  const conflictAnalysis = analyzeConflicts(existingLocks, lockType, options.parentProcessId);
+  // Conflicts are checked atomically by the provider (expired leases are dropped first)
+  const outcome = await provider.acquire({
+    scope: LOCK_SCOPE,
+    storeId,
+    processId,
+    type: lockType,
+    operation,
+    reason: options.reason || operation,
+    parentProcessId: options.parentProcessId,
+    metadata: { ...options.metadata, version: options.version },
+    leaseMs: RAG_LOCK_LEASE_MS
+  });
   
-  if (conflictAnalysis.hasConflicts) {
+  if (!outcome.acquired) {
+    // Enhanced conflict detection with reconnection prioritization
+    const conflictAnalysis = analyzeConflicts(outcome.conflicts.map(toEnhancedLock), lockType, options.parentProcessId);
+    
     console.warn(`[ENHANCED:LOCK] ❌ Cannot acquire ${EnhancedRAGLockType[lockType]} lock for store ${storeId} - ${conflictAnalysis.reason}`);
     
     // If reconnection is blocked, try lock escalation
     if (lockType === EnhancedRAGLockType.RECONNECTION && options.allowEscalation) {
+      const existingLocks = (await provider.list(LOCK_SCOPE, storeId)).map(toEnhancedLock);
       const escalationResult = await attemptLockEscalation(storeId, existingLocks, processId, operation, options);
       if (escalationResult.success) {
         return escalationResult;
@@ -156,29 +169,11 @@ export async function acquireEnhancedRAGLock(
     };
   }
   
-  // Create enhanced lock
-  const newLock: EnhancedRAGLock = {
-    storeId,
-    type: lockType,
-    operation,
-    timestamp: now,
-    processId,
-    reason: options.reason || operation,
-    parentProcessId: options.parentProcessId,
-    expirationTime,
-    version: options.version,
-    metadata: options.metadata
-  };
-  
-  // Add to locks storage
-  if (!activeLocks.has(storeId)) {
-    activeLocks.set(storeId, []);
-  }
-  activeLocks.get(storeId)!.push(newLock);
+  startLockHeartbeat(processId, ENHANCED_LOCK_TIMEOUT_MS[lockType]);
   
   // Update namespace version if this is a namespace operation
   if (lockType === EnhancedRAGLockType.NAMESPACE_RECREATION && options.version) {
-    namespaceVersions.set(storeId, {
+    await provider.saveNamespaceVersion({
       storeId,
       version: options.version,
       createdAt: now,
@@ -207,51 +202,29 @@ export async function releaseEnhancedRAGLock(
   } = {}
 ): Promise<{ success: boolean; error?: string; releasedLocks?: string[] }> {
   
-  const storeLocks = activeLocks.get(storeId);
-  if (!storeLocks) {
-    return {
-      success: false,
-      error: 'No locks found for store'
-    };
-  }
+  stopLockHeartbeat(processId);
+  
+  const provider = getRAGLockProvider();
+  const released = await provider.release(LOCK_SCOPE, storeId, processId, options.cascadeRelease);
+  const lock = released.find(l => l.processId === processId);
   
-  const lockIndex = storeLocks.findIndex(lock => lock.processId === processId);
-  if (lockIndex === -1) {
+  if (!lock) {
     return {
       success: false,
       error: 'Lock not found or already released'
     };
   }
   
-  const lock = storeLocks[lockIndex];
-  const releasedLocks = [processId];
-  
-  // Handle cascading release of child locks
-  if (options.cascadeRelease) {
-    const childLocks = storeLocks.filter(l => l.parentProcessId === processId);
-    for (const childLock of childLocks) {
-      const childIndex = storeLocks.findIndex(l => l.processId === childLock.processId);
-      if (childIndex >= 0) {
-        storeLocks.splice(childIndex, 1);
-        releasedLocks.push(childLock.processId);
-        console.log(`[ENHANCED:LOCK] 🔓 Cascaded release of child lock: ${childLock.processId}`);
-      }
-    }
-  }
-  
-  // Remove the main lock
-  storeLocks.splice(lockIndex, 1);
-  
-  // Remove store from map if no more locks
-  if (storeLocks.length === 0) {
-    activeLocks.delete(storeId);
+  // Children released with it (cascading release)
+  for (const childLock of released.filter(l => l.processId !== processId)) {
+    stopLockHeartbeat(childLock.processId);
+    console.log(`[ENHANCED:LOCK] 🔓 Cascaded release of child lock: ${childLock.processId}`);
   }
   
   // Update namespace version status
   if (lock.type === EnhancedRAGLockType.NAMESPACE_RECREATION && options.updateNamespaceStatus) {
-    const version = namespaceVersions.get(storeId);
-    if (version && version.lockProcessId === processId) {
-      version.status = options.updateNamespaceStatus;
+    const updated = await provider.setNamespaceVersionStatus(storeId, processId, options.updateNamespaceStatus);
+    if (updated) {
       console.log(`[ENHANCED:LOCK] 📦 Updated namespace version status to ${options.updateNamespaceStatus}: ${storeId}`);
     }
   }
@@ -263,7 +236,7 @@ export async function releaseEnhancedRAGLock(
   
   return { 
     success: true, 
-    releasedLocks 
+    releasedLocks: released.map(l => l.processId)
   };
 }
 
@@ -415,11 +388,8 @@ async function queueOperation(
   reason: string
 ): Promise<LockAcquisitionResult> {
   
-  if (!operationQueues.has(storeId)) {
-    operationQueues.set(storeId, []);
-  }
-  
-  const queue = operationQueues.get(storeId)!;
+  const queue = operationQueues.get(storeId) || [];
+  operationQueues.set(storeId, queue);
   
   if (queue.length >= MAX_QUEUE_SIZE) {
     return {
@@ -456,35 +426,25 @@ async function processQueuedOperations(storeId: string): Promise<void> {
   // Sort queue by priority (higher priority first)
   queue.sort((a, b) => b.lockType - a.lockType);
   
-  const processableOperations = [];
-  
-  for (const queuedOp of queue) {
-    // Check if this operation can now be processed
-    const existingLocks = activeLocks.get(storeId) || [];
-    const conflicts = analyzeConflicts(existingLocks, queuedOp.lockType);
-    
-    if (!conflicts.hasConflicts) {
-      processableOperations.push(queuedOp);
-    }
-  }
-  
-  // Process operations that can now proceed
-  for (const op of processableOperations) {
-    const index = queue.indexOf(op);
-    if (index >= 0) {
-      queue.splice(index, 1);
+  // Try each waiting operation; the lock may have been freed by any instance
+  for (const op of [...queue]) {
+    try {
+      const result = await acquireEnhancedRAGLock(
+        storeId,
+        op.lockType,
+        op.operation,
+        { reason: op.reason, queueIfBlocked: false }
+      );
       
-      try {
-        const result = await acquireEnhancedRAGLock(
-          storeId,
-          op.lockType,
-          op.operation,
-          { reason: op.reason, queueIfBlocked: false }
-        );
-        op.resolve(result);
-      } catch (error) {
-        op.reject(error as Error);
-      }
+      if (!result.success) continue;
+      
+      const index = queue.indexOf(op);
+      if (index >= 0) queue.splice(index, 1);
+      op.resolve(result);
+    } catch (error) {
+      const index = queue.indexOf(op);
+      if (index >= 0) queue.splice(index, 1);
+      op.reject(error as Error);
     }
   }
   
@@ -495,35 +455,22 @@ async function processQueuedOperations(storeId: string): Promise<void> {
 }
 
 /**
- * 🧹 Enhanced cleanup of expired locks
+ * 🔁 Lock lease as an enhanced lock
  */
-async function cleanupExpiredLocks(): Promise<void> {
-  const now = Date.now();
-  const expiredStores: string[] = [];
-  
-  for (const [storeId, locks] of activeLocks.entries()) {
-    const validLocks = locks.filter(lock => lock.expirationTime > now);
-    const expiredLocks = locks.filter(lock => lock.expirationTime <= now);
-    
-    if (expiredLocks.length > 0) {
-      console.warn(`[ENHANCED:LOCK] 🧹 Cleaning up ${expiredLocks.length} expired locks for store ${storeId}`);
-      
-      for (const expiredLock of expiredLocks) {
-        console.warn(`[ENHANCED:LOCK] 🧹 Expired: ${EnhancedRAGLockType[expiredLock.type]} - ${expiredLock.operation} (${expiredLock.processId})`);
-      }
-    }
-    
-    if (validLocks.length === 0) {
-      expiredStores.push(storeId);
-    } else {
-      activeLocks.set(storeId, validLocks);
-    }
-  }
-  
-  // Remove stores with no valid locks
-  for (const storeId of expiredStores) {
-    activeLocks.delete(storeId);
-  }
+function toEnhancedLock(lease: RAGLockLease): EnhancedRAGLock {
+  const { version, ...metadata } = lease.metadata || {};
+  return {
+    storeId: lease.storeId,
+    type: lease.type,
+    operation: lease.operation,
+    timestamp: lease.acquiredAt,
+    processId: lease.processId,
+    reason: lease.reason,
+    parentProcessId: lease.parentProcessId,
+    expirationTime: lease.expiresAt,
+    version,
+    metadata
+  };
 }
 
 /**
@@ -545,15 +492,15 @@ export function generateNamespaceVersion(): string {
 /**
  * 📦 Get current namespace version for store
  */
-export function getCurrentNamespaceVersion(storeId: string): NamespaceVersion | null {
-  return namespaceVersions.get(storeId) || null;
+export async function getCurrentNamespaceVersion(storeId: string): Promise<NamespaceVersion | null> {
+  return getRAGLockProvider().getNamespaceVersion(storeId);
 }
 
 /**
  * 📦 Check if namespace version is active
  */
-export function isNamespaceVersionActive(storeId: string, version: string): boolean {
-  const current = namespaceVersions.get(storeId);
+export async function isNamespaceVersionActive(storeId: string, version: string): Promise<boolean> {
+  const current = await getCurrentNamespaceVersion(storeId);
   return current?.version === version && current?.status === 'active';
 }
 
@@ -618,39 +565,42 @@ export const EnhancedNamespaceRecreationLocks = {
 /**
  * 📊 Get enhanced lock status for store
  */
-export function getEnhancedLockStatus(storeId: string): {
+export async function getEnhancedLockStatus(storeId: string): Promise<{
   activeLocks: EnhancedRAGLock[];
   queuedOperations: QueuedOperation[];
   namespaceVersion?: NamespaceVersion;
-} {
+}> {
+  const provider = getRAGLockProvider();
+  const [locks, namespaceVersion] = await Promise.all([
+    provider.list(LOCK_SCOPE, storeId),
+    provider.getNamespaceVersion(storeId)
+  ]);
+
   return {
-    activeLocks: activeLocks.get(storeId) || [],
+    activeLocks: locks.map(toEnhancedLock),
     queuedOperations: operationQueues.get(storeId) || [],
-    namespaceVersion: namespaceVersions.get(storeId)
+    namespaceVersion: namespaceVersion || undefined
   };
 }
 
 /**
- * 📊 Get system-wide lock statistics
+ * 📊 Get system-wide lock statistics (queued operations are this instance's)
  */
-export function getEnhancedLockStatistics(): {
+export async function getEnhancedLockStatistics(): Promise<{
   totalStores: number;
   totalActiveLocks: number;
   totalQueuedOperations: number;
   locksByType: Record<string, number>;
   averageQueueDepth: number;
-} {
-  const totalStores = activeLocks.size;
-  let totalActiveLocks = 0;
+}> {
+  const locks = await getRAGLockProvider().list(LOCK_SCOPE);
+  const totalStores = new Set(locks.map(lock => lock.storeId)).size;
   let totalQueuedOperations = 0;
   const locksByType: Record<string, number> = {};
   
-  for (const locks of activeLocks.values()) {
-    totalActiveLocks += locks.length;
-    for (const lock of locks) {
-      const typeName = EnhancedRAGLockType[lock.type];
-      locksByType[typeName] = (locksByType[typeName] || 0) + 1;
-    }
+  for (const lock of locks) {
+    const typeName = EnhancedRAGLockType[lock.type];
+    locksByType[typeName] = (locksByType[typeName] || 0) + 1;
   }
   
   for (const queue of operationQueues.values()) {
@@ -659,13 +609,22 @@ export function getEnhancedLockStatistics(): {
   
   return {
     totalStores,
-    totalActiveLocks,
+    totalActiveLocks: locks.length,
     totalQueuedOperations,
     locksByType,
     averageQueueDepth: totalStores > 0 ? totalQueuedOperations / totalStores : 0
   };
 }
 
+/**
+ * 🧹 Clear every enhanced lock (system repair)
+ */
+export async function clearAllEnhancedLocks(): Promise<number> {
+  const cleared = await getRAGLockProvider().clear(LOCK_SCOPE);
+  console.warn(`[ENHANCED:LOCK] 🧹 Cleared ${cleared} enhanced locks`);
+  return cleared;
+}
+
 // Start queue processing interval
 setInterval(() => {
   for (const storeId of operationQueues.keys()) {
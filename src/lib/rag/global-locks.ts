@@ -12,11 +12,14 @@
  * FEATURES:
  * - Multiple lock types per store
  * - Priority-based lock management
+ * - Shared across serverless instances (Postgres leases, see lock-provider.ts)
  * - Automatic timeout and cleanup
  * - Comprehensive logging
  * - Debug utilities
  */
 
+import { getRAGLockProvider, RAG_LOCK_LEASE_MS, startLockHeartbeat, stopLockHeartbeat, type RAGLockLease } from './lock-provider';
+
 // Lock types in order of priority (higher number = higher priority)
 export enum RAGLockType {
   BACKGROUND_SYNC = 1,    // Background auto-sync (lowest priority)
@@ -34,10 +37,9 @@ interface RAGLock {
   reason: string;         // Why this lock was acquired
 }
 
-// In-memory locks storage
-const activeLocks = new Map<string, RAGLock[]>(); // storeId -> array of locks
+const LOCK_SCOPE = 'rag';
 
-// Lock configuration
+// Maximum duration of each operation: its lease is renewed by heartbeats until then
 const LOCK_TIMEOUT_MS = {
   [RAGLockType.BACKGROUND_SYNC]: 120000,  // 2 minutes
   [RAGLockType.MANUAL_SYNC]: 180000,      // 3 minutes
@@ -50,6 +52,17 @@ function generateProcessId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+function toRAGLock(lease: RAGLockLease): RAGLock {
+  return {
+    storeId: lease.storeId,
+    type: lease.type,
+    operation: lease.operation,
+    timestamp: lease.acquiredAt,
+    processId: lease.processId,
+    reason: lease.reason
+  };
+}
+
 /**
  * 🔒 Acquire a lock for a store operation
  */
@@ -60,59 +73,45 @@ export async function acquireRAGLock(
   reason: string = ''
 ): Promise<{ success: boolean; processId?: string; error?: string; blockedBy?: RAGLock[] }> {
   
-  // Clean up expired locks first
-  await cleanupExpiredLocks();
-  
   const processId = generateProcessId();
-  const now = Date.now();
-  
-  // Get existing locks for this store
-  const existingLocks = activeLocks.get(storeId) || [];
-  
-  // Check for conflicts with higher priority locks
-  const conflictingLocks = existingLocks.filter(lock => 
-    lock.type >= lockType && lock.type !== lockType
-  );
-  
-  // Check for same-type locks (generally not allowed)
-  const sameTypeLocks = existingLocks.filter(lock => lock.type === lockType);
-  
-  if (conflictingLocks.length > 0) {
-    console.warn(`[RAG:LOCK] ❌ Cannot acquire ${RAGLockType[lockType]} lock for store ${storeId} - blocked by higher priority operations`);
-    return {
-      success: false,
-      error: 'Blocked by higher priority operations',
-      blockedBy: conflictingLocks
-    };
-  }
-  
-  if (sameTypeLocks.length > 0) {
+
+  // Expired leases are dropped by the provider while acquiring
+  const outcome = await getRAGLockProvider().acquire({
+    scope: LOCK_SCOPE,
+    storeId,
+    processId,
+    type: lockType,
+    operation,
+    reason: reason || operation,
+    leaseMs: RAG_LOCK_LEASE_MS
+  });
+
+  if (!outcome.acquired) {
+    const blockedBy = outcome.conflicts.map(toRAGLock);
+
+    // Check for conflicts with higher priority locks
+    if (blockedBy.some(lock => lock.type > lockType)) {
+      console.warn(`[RAG:LOCK] ❌ Cannot acquire ${RAGLockType[lockType]} lock for store ${storeId} - blocked by higher priority operations`);
+      return {
+        success: false,
+        error: 'Blocked by higher priority operations',
+        blockedBy: blockedBy.filter(lock => lock.type > lockType)
+      };
+    }
+
+    // Same-type locks (generally not allowed)
     console.warn(`[RAG:LOCK] ❌ Cannot acquire ${RAGLockType[lockType]} lock for store ${storeId} - same operation already in progress`);
     return {
       success: false,
       error: 'Same operation already in progress',
-      blockedBy: sameTypeLocks
+      blockedBy
     };
   }
-  
-  // Create new lock
-  const newLock: RAGLock = {
-    storeId,
-    type: lockType,
-    operation,
-    timestamp: now,
-    processId,
-    reason: reason || operation
-  };
-  
-  // Add to locks storage
-  if (!activeLocks.has(storeId)) {
-    activeLocks.set(storeId, []);
-  }
-  activeLocks.get(storeId)!.push(newLock);
-  
+
+  startLockHeartbeat(processId, LOCK_TIMEOUT_MS[lockType]);
+
   console.warn(`[RAG:LOCK] 🔒 Acquired ${RAGLockType[lockType]} lock for store ${storeId}: ${operation} (process: ${processId})`);
-  
+
   return {
     success: true,
     processId
@@ -127,32 +126,18 @@ export async function releaseRAGLock(
   processId: string
 ): Promise<{ success: boolean; error?: string }> {
   
-  const storeLocks = activeLocks.get(storeId);
-  if (!storeLocks) {
-    return {
-      success: false,
-      error: 'No locks found for store'
-    };
-  }
-  
-  const lockIndex = storeLocks.findIndex(lock => lock.processId === processId);
-  if (lockIndex === -1) {
+  stopLockHeartbeat(processId);
+
+  const [lock] = await getRAGLockProvider().release(LOCK_SCOPE, storeId, processId);
+  if (!lock) {
     return {
       success: false,
       error: 'Lock not found or already released'
     };
   }
-  
-  const lock = storeLocks[lockIndex];
-  storeLocks.splice(lockIndex, 1);
-  
-  // Remove store from map if no more locks
-  if (storeLocks.length === 0) {
-    activeLocks.delete(storeId);
-  }
-  
+
   console.warn(`[RAG:LOCK] 🔓 Released ${RAGLockType[lock.type]} lock for store ${storeId}: ${lock.operation} (process: ${processId})`);
-  
+
   return { success: true };
 }
 
@@ -160,34 +145,12 @@ export async function releaseRAGLock(
  * 🧹 Clean up expired locks
  */
 export async function cleanupExpiredLocks(): Promise<number> {
-  const now = Date.now();
-  let cleanedCount = 0;
-  
-  for (const [storeId, locks] of activeLocks.entries()) {
-    const validLocks = locks.filter(lock => {
-      const age = now - lock.timestamp;
-      const timeout = LOCK_TIMEOUT_MS[lock.type];
-      
-      if (age > timeout) {
-        console.warn(`[RAG:LOCK] ⏰ Cleaning expired ${RAGLockType[lock.type]} lock for store ${storeId} (${Math.round(age/1000)}s old, limit: ${Math.round(timeout/1000)}s)`);
-        cleanedCount++;
-        return false;
-      }
-      
-      return true;
-    });
-    
-    if (validLocks.length === 0) {
-      activeLocks.delete(storeId);
-    } else if (validLocks.length !== locks.length) {
-      activeLocks.set(storeId, validLocks);
-    }
-  }
-  
+  const cleanedCount = await getRAGLockProvider().purgeExpired(LOCK_SCOPE);
+
   if (cleanedCount > 0) {
     console.warn(`[RAG:LOCK] 🧹 Cleaned up ${cleanedCount} expired locks`);
   }
-  
+
   return cleanedCount;
 }
 
@@ -204,9 +167,8 @@ export async function checkRAGLockConflicts(
   reason?: string;
 }> {
   
-  await cleanupExpiredLocks();
-  
-  const existingLocks = activeLocks.get(storeId) || [];
+  // Only live leases are listed
+  const existingLocks = (await getRAGLockProvider().list(LOCK_SCOPE, storeId)).map(toRAGLock);
   
   // Check for higher priority locks
   const conflictingLocks = existingLocks.filter(lock => lock.type >= requestedType);
@@ -282,14 +244,17 @@ export async function getRAGLockStatus(): Promise<{
   }>;
 }> {
   
-  await cleanupExpiredLocks();
-  
+  const locksByStore = new Map<string, RAGLock[]>(); // storeId -> array of locks
+  for (const lease of await getRAGLockProvider().list(LOCK_SCOPE)) {
+    locksByStore.set(lease.storeId, [...(locksByStore.get(lease.storeId) || []), toRAGLock(lease)]);
+  }
+
   const now = Date.now();
   const locksByType: Record<string, number> = {};
   const storeDetails: any[] = [];
   let totalLocks = 0;
   
-  for (const [storeId, locks] of activeLocks.entries()) {
+  for (const [storeId, locks] of locksByStore.entries()) {
     const storeLockDetails = locks.map(lock => {
       const typeName = RAGLockType[lock.type];
       locksByType[typeName] = (locksByType[typeName] || 0) + 1;
@@ -311,7 +276,7 @@ export async function getRAGLockStatus(): Promise<{
   }
   
   return {
-    totalStores: activeLocks.size,
+    totalStores: locksByStore.size,
     totalLocks,
     locksByType,
     storeDetails
@@ -391,19 +356,13 @@ export const RAGLockTestUtils = {
   },
   
   async clearAllLocks() {
-    activeLocks.clear();
+    await getRAGLockProvider().clear(LOCK_SCOPE);
     console.warn('[RAG:LOCK] 🧹 Cleared all locks (test mode)');
   },
   
   async simulateTimeout(storeId: string, type: RAGLockType) {
-    const locks = activeLocks.get(storeId);
-    if (locks) {
-      locks.forEach(lock => {
-        if (lock.type === type) {
-          lock.timestamp = Date.now() - LOCK_TIMEOUT_MS[type] - 1000; // Force expiry
-        }
-      });
-    }
+    // An expired lease is indistinguishable from a released lock
+    await getRAGLockProvider().clear(LOCK_SCOPE, { storeId, type });
   }
 };
 
@@ -413,15 +372,15 @@ export const RAGLockTestUtils = {
 
 export async function lockStoreForDeletion(storeId: string, reason: string = 'Store deletion in progress') {
   const result = await StoreDeletionLocks.acquire(storeId, reason);
-  if (!result.success) {
+  if (!result.success || !result.processId) {
     throw new Error(`Failed to acquire deletion lock: ${result.error}`);
   }
-  return result.processId!;
+  return result.processId;
 }
 
 export async function unlockStoreAfterDeletion(storeId: string) {
   // For backward compatibility, release ALL deletion locks for this store
-  const locks = activeLocks.get(storeId) || [];
+  const locks = await getRAGLockProvider().list(LOCK_SCOPE, storeId);
   const deletionLocks = locks.filter(lock => lock.type === RAGLockType.DELETION);
   
   for (const lock of deletionLocks) {
@@ -446,11 +405,16 @@ export async function checkStoreDeletionLock(storeId: string) {
 }
 
 export async function waitForStoreUnlock(storeId: string, timeoutMs: number = 5000) {
-  const result = await waitForRAGLockAvailability(storeId, RAGLockType.BACKGROUND_SYNC, timeoutMs);
-  if (!result.success) {
-    console.error(`[RAG:LOCK] ⚠️ Timeout waiting for store ${storeId} unlock: ${result.error}`);
-    // Force unlock all locks for backward compatibility
-    activeLocks.delete(storeId);
+  try {
+    const result = await waitForRAGLockAvailability(storeId, RAGLockType.BACKGROUND_SYNC, timeoutMs);
+    if (!result.success) {
+      // Proceed without force-unlocking: the locks may belong to live operations in other
+      // instances, and locks of dead ones expire with their lease
+      console.error(`[RAG:LOCK] ⚠️ Timeout waiting for store ${storeId} unlock: ${result.error}`);
+    }
+  } catch (error) {
+    // Lock storage unavailable: don't block vector operations on it
+    console.error(`[RAG:LOCK] ⚠️ Could not check locks for store ${storeId}:`, error);
   }
 }
 
@@ -1,9 +1,10 @@
 /**
  * 🔍 Hybrid Search Engine - Maximum Precision
- * Combines semantic search (RAG) with keyword search for optimal results
+ * Combines semantic search (RAG) with keyword search (Postgres full-text index
+ * of the same chunks) and fuses both rankings with reciprocal rank fusion
  */
 
-import { Document } from '@langchain/core/documents';
+import { RAGKeywordIndex } from './keyword-index';
 
 export interface HybridSearchQuery {
   query: string;
@@ -40,6 +41,36 @@ export interface HybridSearchResult {
   };
 }
 
+export interface SearchWeights {
+  semanticWeight: number;
+  keywordWeight: number;
+}
+
+type HybridSearchSource = HybridSearchResult['sources'][number];
+
+// Reciprocal rank fusion constant: dampens the gap between the first ranks of each leg
+const RRF_K = 60;
+
+// Default balance per agent: catalog and support questions name exact products / orders,
+// analysis and strategy questions are better served by meaning
+const AGENT_SEARCH_WEIGHTS: Record<string, SearchWeights> = {
+  product_manager: { semanticWeight: 0.5, keywordWeight: 0.5 },
+  stock_manager: { semanticWeight: 0.4, keywordWeight: 0.6 },
+  customer_service: { semanticWeight: 0.5, keywordWeight: 0.5 },
+  operations_manager: { semanticWeight: 0.5, keywordWeight: 0.5 },
+  sales_coach: { semanticWeight: 0.7, keywordWeight: 0.3 },
+  marketing: { semanticWeight: 0.75, keywordWeight: 0.25 },
+  analytics: { semanticWeight: 0.8, keywordWeight: 0.2 },
+  financial_advisor: { semanticWeight: 0.8, keywordWeight: 0.2 },
+  business_consultant: { semanticWeight: 0.85, keywordWeight: 0.15 },
+  orchestrator: { semanticWeight: 0.7, keywordWeight: 0.3 }
+};
+
+const DEFAULT_SEARCH_WEIGHTS: SearchWeights = { semanticWeight: 0.7, keywordWeight: 0.3 };
+
+// SKUs, order numbers ("#1045") and other codes with digits only match literally
+const IDENTIFIER_PATTERN = /#\d{2,}|\b\d{5,}\b|\b(?=[a-z0-9-]*\d)(?=[a-z0-9-]*[a-z])[a-z0-9][a-z0-9-]{3,}\b/i;
+
 export class HybridSearchEngine {
   private isInitialized = false;
 
@@ -56,11 +87,14 @@ export class HybridSearchEngine {
     try {
       await this.initialize();
 
+      // Weights not given by the caller are tuned to the query and agent
+      const weights = await this.optimizeSearchWeights(query.query, query.context.agentType);
+
       const options = {
         topK: query.options?.topK || 8,
-        semanticWeight: query.options?.semanticWeight || 0.7,
-        keywordWeight: query.options?.keywordWeight || 0.3,
-        scoreThreshold: query.options?.scoreThreshold || 0.2,
+        semanticWeight: query.options?.semanticWeight ?? weights.semanticWeight,
+        keywordWeight: query.options?.keywordWeight ?? weights.keywordWeight,
+        scoreThreshold: query.options?.scoreThreshold ?? 0.2,
         includeMetadata: query.options?.includeMetadata ?? true,
       };
 
@@ -116,7 +150,7 @@ export class HybridSearchEngine {
   /**
    * Run semantic search using enhanced RAG
    */
-  private async runSemanticSearch(query: HybridSearchQuery, options: any): Promise<Array<any>> {
+  private async runSemanticSearch(query: HybridSearchQuery, options: any): Promise<HybridSearchSource[]> {
     try {
       const { enhancedRAGEngine } = await import('./enhanced-rag-engine');
       
@@ -131,6 +165,7 @@ export class HybridSearchEngine {
 
       return ragResult.sources.map(source => ({
         ...source,
+        score: source.score || 0,
         searchType: 'semantic',
         relevanceReason: `Semantic similarity: ${((source.score || 0.5) * 100).toFixed(1)}%`,
       }));
@@ -143,7 +178,7 @@ export class HybridSearchEngine {
   /**
    * Run keyword-based search
    */
-  private async runKeywordSearch(query: HybridSearchQuery, options: any): Promise<Array<any>> {
+  private async runKeywordSearch(query: HybridSearchQuery, options: any): Promise<HybridSearchSource[]> {
     try {
       // Extract keywords from query
       const keywords = this.extractKeywords(query.query);
@@ -152,11 +187,10 @@ export class HybridSearchEngine {
         return [];
       }
 
-      // Search for documents containing keywords (simplified implementation)
       const keywordResults = await this.searchByKeywords(
-        keywords, 
-        query.context.storeId, 
-        options.topK
+        keywords,
+        query.context.storeId,
+        Math.ceil(options.topK * 1.5) // Get more results for merging
       );
 
       return keywordResults.map(result => ({
@@ -192,89 +226,86 @@ export class HybridSearchEngine {
 
     const words = query
       .toLowerCase()
-      .replace(/[^\w\sáéíóúñü]/g, ' ') // Remove punctuation but keep accents
+      .replace(/[^\w\sáéíóúñü-]/g, ' ') // Remove punctuation but keep accents and hyphenated codes
       .split(/\s+/)
-      .filter(word => word.length > 2)
+      .map(word => word.replace(/^-+|-+$/g, ''))
+      // Short words are noise, short numbers (sizes, quantities) are not
+      .filter(word => word.length > 2 || /^\d{2}$/.test(word))
       .filter(word => !stopWords.has(word));
 
     // Prioritize e-commerce keywords
     const prioritized = words.filter(word => ecommerceKeywords.has(word));
     const regular = words.filter(word => !ecommerceKeywords.has(word));
 
-    return [...prioritized, ...regular].slice(0, 8); // Max 8 keywords
+    return Array.from(new Set([...prioritized, ...regular])).slice(0, 8); // Max 8 keywords
   }
 
   /**
-   * Search for documents by keywords (simplified - would need proper implementation)
+   * Search the store's keyword index (same chunks as Pinecone) for any of the keywords
    */
   private async searchByKeywords(keywords: string[], storeId: string, topK: number): Promise<Array<any>> {
-    // This is a simplified implementation
-    // In a real system, you'd search through your vector store or database
-    // using keyword matching techniques
-    
-    try {
-      // For now, return empty array as we don't have a keyword search implementation
-      // In the future, this could use ElasticSearch, database full-text search, etc.
-      console.log(`[HYBRID-SEARCH] Keyword search for: ${keywords.join(', ')} (store: ${storeId})`);
-      
-      return [];
-    } catch (error) {
-      console.warn('[HYBRID-SEARCH] Keyword search implementation error:', error);
-      return [];
-    }
+    const hits = await RAGKeywordIndex.search(storeId, keywords, { limit: topK });
+
+    console.log(`[HYBRID-SEARCH] Keyword search for: ${keywords.join(', ')} (store: ${storeId}) → ${hits.length} hits`);
+
+    return hits.map(hit => {
+      const text = `${hit.content} ${Object.values(hit.metadata).filter(value => typeof value === 'string').join(' ')}`.toLowerCase();
+      return {
+        pageContent: hit.content,
+        metadata: { ...hit.metadata, chunkId: hit.chunkId },
+        score: hit.rank,
+        // Literal matches only; stemmed matches ("zapatilla" for "zapatillas") still count in the rank
+        matchedKeywords: keywords.filter(keyword => text.includes(keyword)),
+      };
+    });
   }
 
   /**
-   * Combine semantic and keyword results with weighted scoring
+   * Fuse semantic and keyword rankings with weighted reciprocal rank fusion:
+   * each leg adds weight / (k + rank), so a chunk ranked high by both wins and
+   * raw scores of different scales never need to be compared.
+   * Scores are normalized so a chunk ranked first by both legs scores 1.
    */
-  private combineResults(semanticResults: any[], keywordResults: any[], options: any): any[] {
-    const combined = new Map<string, any>();
-
-    // Process semantic results
-    semanticResults.forEach(result => {
-      const key = this.generateResultKey(result);
-      const weightedScore = (result.score || 0.5) * options.semanticWeight;
-      
-      combined.set(key, {
-        ...result,
-        score: weightedScore,
-        searchType: 'semantic',
+  private combineResults(semanticResults: HybridSearchSource[], keywordResults: HybridSearchSource[], options: SearchWeights): HybridSearchSource[] {
+    const combined = new Map<string, HybridSearchSource>();
+    const maxScore = (options.semanticWeight + options.keywordWeight) / (RRF_K + 1) || 1;
+
+    const addLeg = (results: HybridSearchSource[], weight: number) => {
+      [...results].sort((a, b) => b.score - a.score).forEach((result, index) => {
+        const key = this.generateResultKey(result);
+        const contribution = weight / (RRF_K + index + 1);
+        const existing = combined.get(key);
+
+        if (!existing) {
+          combined.set(key, { ...result, score: contribution });
+          return;
+        }
+
+        // Found by both legs
+        existing.score += contribution;
+        if (existing.searchType !== result.searchType) {
+          existing.searchType = 'hybrid';
+          existing.relevanceReason = `${existing.relevanceReason} + ${result.relevanceReason}`;
+          existing.metadata = { ...result.metadata, ...existing.metadata };
+        }
       });
-    });
+    };
 
-    // Process keyword results and merge
-    keywordResults.forEach(result => {
-      const key = this.generateResultKey(result);
-      const weightedScore = (result.score || 0.5) * options.keywordWeight;
-      
-      if (combined.has(key)) {
-        // Combine scores for documents found by both methods
-        const existing = combined.get(key)!;
-        existing.score = Math.max(existing.score + weightedScore, 1.0); // Cap at 1.0
-        existing.searchType = 'hybrid';
-        existing.relevanceReason = `${existing.relevanceReason} + ${result.relevanceReason}`;
-      } else {
-        combined.set(key, {
-          ...result,
-          score: weightedScore,
-          searchType: 'keyword',
-        });
-      }
-    });
+    addLeg(semanticResults, options.semanticWeight);
+    addLeg(keywordResults, options.keywordWeight);
 
-    // Sort by score
-    return Array.from(combined.values()).sort((a, b) => b.score - a.score);
+    return Array.from(combined.values())
+      .map(result => ({ ...result, score: Math.min(result.score / maxScore, 1.0) }))
+      .sort((a, b) => b.score - a.score);
   }
 
   /**
-   * Generate a unique key for a result to detect duplicates
+   * Generate a unique key for a result to detect duplicates.
+   * Both legs return the text of the same chunks, so whitespace-normalized content identifies them.
    */
-  private generateResultKey(result: any): string {
-    // Use content hash or metadata to identify unique documents
-    const content = result.pageContent || '';
-    const metadata = result.metadata || {};
-    
-    return `${metadata.dataType || 'unknown'}-${content.substring(0, 50)}`;
+  private generateResultKey(result: HybridSearchSource): string {
+    const content = (result.pageContent || '').replace(/\s+/g, ' ').trim();
+    return content.substring(0, 120) || String(result.metadata?.chunkId || result.metadata?.id || 'unknown');
   }
 
   /**
@@ -328,32 +359,31 @@ export class HybridSearchEngine {
   }
 
   /**
-   * Optimize search weights based on query type
+   * Optimize search weights based on query type and agent
    */
-  async optimizeSearchWeights(query: string, agentType: string): Promise<{ semanticWeight: number; keywordWeight: number }> {
+  async optimizeSearchWeights(query: string, agentType: string): Promise<SearchWeights> {
     const lowerQuery = query.toLowerCase();
+    const agentWeights = AGENT_SEARCH_WEIGHTS[agentType] || DEFAULT_SEARCH_WEIGHTS;
+
+    // Exact identifiers (SKU, order number) or quoted names only match literally
+    if (IDENTIFIER_PATTERN.test(query) || /["“][^"”]+["”]/.test(query)) {
+      return { semanticWeight: 0.3, keywordWeight: 0.7 };
+    }
 
-    // Product-specific queries benefit from keyword search
+    // Looking up a specific product by name benefits from keyword search
     if (lowerQuery.includes('producto') && (lowerQuery.includes('nombre') || lowerQuery.includes('buscar'))) {
       return { semanticWeight: 0.4, keywordWeight: 0.6 };
     }
 
-    // Analytics queries benefit from semantic search
+    // Analytical questions benefit from semantic search
     if (lowerQuery.includes('analítica') || lowerQuery.includes('reporte') || lowerQuery.includes('tendencia')) {
-      return { semanticWeight: 0.8, keywordWeight: 0.2 };
+      return {
+        semanticWeight: Math.max(agentWeights.semanticWeight, 0.8),
+        keywordWeight: Math.min(agentWeights.keywordWeight, 0.2)
+      };
     }
 
-    // Agent-specific optimizations
-    switch (agentType) {
-      case 'product_manager':
-        return { semanticWeight: 0.6, keywordWeight: 0.4 };
-      case 'analytics':
-        return { semanticWeight: 0.8, keywordWeight: 0.2 };
-      case 'customer_service':
-        return { semanticWeight: 0.5, keywordWeight: 0.5 };
-      default:
-        return { semanticWeight: 0.7, keywordWeight: 0.3 };
-    }
+    return agentWeights;
   }
 
   /**
@@ -371,9 +401,9 @@ export class HybridSearchEngine {
       isConfigured: this.isInitialized,
       supportedFeatures: [
         'Semantic search via RAG',
-        'Keyword extraction',
-        'Result combination',
-        'Score weighting',
+        'Keyword search via Postgres full-text index (Spanish stemming)',
+        'Reciprocal rank fusion',
+        'Per-agent weighting',
         'Adaptive thresholds',
         'Search strategy optimization'
       ],
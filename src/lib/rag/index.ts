@@ -5,6 +5,9 @@
 
 // 🔄 UNIFIED RAG ENGINE (Single system - production ready)
 export { UnifiedFiniRAGEngine, getUnifiedRAGEngine } from './unified-rag-engine';
+export type { SyncResult, SyncCounts, SyncOptions } from './unified-rag-engine';
+export { RAGSyncState } from './sync-state';
+export { RAGKeywordIndex } from './keyword-index';
 
 // 🔄 CORE COMPONENTS
 export { PineconeVectorStore } from './vector-store';
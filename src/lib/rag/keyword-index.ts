@@ -0,0 +1,182 @@
+/**
+ * 🔤 RAG KEYWORD INDEX
+ * ====================
+ *
+ * Índice léxico (full-text search de Postgres) con los mismos chunks que se
+ * suben a Pinecone. Es la pata "keyword" del HybridSearchEngine: encuentra
+ * SKUs, nombres de producto y números de orden exactos que los embeddings
+ * suelen pasar por alto.
+ */
+
+import { NamespaceStrategy } from './namespace-strategy';
+import { getActiveNamespaceVersion } from './namespace-versions';
+import type { DocumentChunk } from './types';
+
+export interface KeywordSearchHit {
+  chunkId: string;
+  documentType: string;
+  content: string;
+  metadata: Record<string, unknown>;
+  rank: number;
+}
+
+export interface KeywordSearchOptions {
+  limit?: number;
+  documentTypes?: DocumentChunk['metadata']['type'][];
+}
+
+// Metadata fields that identify an entity and are matched with the highest weight
+const KEYWORD_FIELDS = ['productName', 'sku', 'category', 'orderId', 'orderNumber', 'customerName', 'customerEmail'];
+
+const WRITE_BATCH_SIZE = 100;
+
+// Dynamic import to keep the RAG module loadable outside a request scope
+const getSupabase = async () => {
+  const { createServiceClient } = await import('@/lib/supabase/server');
+  return createServiceClient();
+};
+
+/**
+ * Identifiers of a chunk, indexed above its body text
+ */
+export function getChunkKeywords(metadata: DocumentChunk['metadata']): string {
+  return KEYWORD_FIELDS
+    .map(field => metadata[field])
+    .filter(value => typeof value === 'string' || typeof value === 'number')
+    .map(String)
+    .join(' ');
+}
+
+export class RAGKeywordIndex {
+  /**
+   * Mirror chunks just upserted to Pinecone, tagged with the namespace version they
+   * were written to. Failures are logged, not thrown: semantic search keeps working
+   * without the lexical leg.
+   */
+  static async indexChunks(chunks: DocumentChunk[], namespaceVersion: string | null = null): Promise<void> {
+    const rows = chunks
+      .filter(chunk => chunk.metadata.storeId && !chunk.metadata.isPlaceholder && chunk.content.trim())
+      .map(chunk => ({
+        store_id: chunk.metadata.storeId,
+        chunk_id: chunk.id,
+        document_type: chunk.metadata.type,
+        content: chunk.content,
+        keywords: getChunkKeywords(chunk.metadata),
+        metadata: chunk.metadata,
+        namespace_version: NamespaceStrategy.isVersioned(NamespaceStrategy.getNamespaceTypeForChunk(chunk.metadata.type))
+          ? namespaceVersion
+          : null,
+        indexed_at: new Date().toISOString()
+      }));
+
+    if (rows.length === 0) return;
+
+    try {
+      const supabase = await getSupabase();
+      for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('rag_keyword_chunks')
+          .upsert(rows.slice(i, i + WRITE_BATCH_SIZE), { onConflict: 'store_id,chunk_id' });
+
+        if (error) {
+          console.warn(`[RAG-KEYWORD-INDEX] ⚠️ Failed to index ${rows.length} chunks:`, error.message);
+          return;
+        }
+      }
+    } catch (error) {
+      console.warn('[RAG-KEYWORD-INDEX] ⚠️ Failed to index chunks:', error);
+    }
+  }
+
+  /**
+   * Drop chunks by vector ID (IDs carry a random suffix, so they are unique across stores)
+   */
+  static async deleteChunks(chunkIds: string[]): Promise<void> {
+    if (chunkIds.length === 0) return;
+
+    try {
+      const supabase = await getSupabase();
+      for (let i = 0; i < chunkIds.length; i += WRITE_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('rag_keyword_chunks')
+          .delete()
+          .in('chunk_id', chunkIds.slice(i, i + WRITE_BATCH_SIZE));
+
+        if (error) {
+          console.warn(`[RAG-KEYWORD-INDEX] ⚠️ Failed to delete ${chunkIds.length} chunks:`, error.message);
+          return;
+        }
+      }
+    } catch (error) {
+      console.warn('[RAG-KEYWORD-INDEX] ⚠️ Failed to delete chunks:', error);
+    }
+  }
+
+  static async deleteStore(storeId: string): Promise<void> {
+    try {
+      const supabase = await getSupabase();
+      const { error } = await supabase
+        .from('rag_keyword_chunks')
+        .delete()
+        .eq('store_id', storeId);
+
+      if (error) {
+        console.warn(`[RAG-KEYWORD-INDEX] ⚠️ Failed to clear store ${storeId}:`, error.message);
+      }
+    } catch (error) {
+      console.warn(`[RAG-KEYWORD-INDEX] ⚠️ Failed to clear store ${storeId}:`, error);
+    }
+  }
+
+  /**
+   * Drop the chunks of a namespace version (null: the unversioned namespaces).
+   * Conversations are never versioned and are kept
+   */
+  static async deleteVersion(storeId: string, namespaceVersion: string | null): Promise<void> {
+    try {
+      const supabase = await getSupabase();
+      let query = supabase
+        .from('rag_keyword_chunks')
+        .delete()
+        .eq('store_id', storeId)
+        .neq('document_type', 'conversation');
+
+      query = namespaceVersion ? query.eq('namespace_version', namespaceVersion) : query.is('namespace_version', null);
+
+      const { error } = await query;
+      if (error) {
+        console.warn(`[RAG-KEYWORD-INDEX] ⚠️ Failed to clear version ${namespaceVersion || 'unversioned'} of store ${storeId}:`, error.message);
+      }
+    } catch (error) {
+      console.warn(`[RAG-KEYWORD-INDEX] ⚠️ Failed to clear version ${namespaceVersion || 'unversioned'} of store ${storeId}:`, error);
+    }
+  }
+
+  /**
+   * Chunks of a store's active namespace version matching any of the terms, best ranked first
+   */
+  static async search(storeId: string, terms: string[], options: KeywordSearchOptions = {}): Promise<KeywordSearchHit[]> {
+    if (terms.length === 0) return [];
+
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('search_rag_keyword_chunks', {
+      p_store_id: storeId,
+      p_terms: terms,
+      p_limit: options.limit || 20,
+      p_document_types: options.documentTypes?.length ? options.documentTypes : null,
+      p_namespace_version: await getActiveNamespaceVersion(storeId)
+    });
+
+    if (error) {
+      throw new Error(`Keyword search failed: ${error.message}`);
+    }
+
+    return (data || []).map((row: { chunk_id: string; document_type: string; content: string; metadata: Record<string, unknown> | null; rank: number }) => ({
+      chunkId: row.chunk_id,
+      documentType: row.document_type,
+      content: row.content,
+      metadata: row.metadata || {},
+      rank: row.rank
+    }));
+  }
+}
@@ -0,0 +1,614 @@
+/**
+ * 🔐 RAG LOCK PROVIDER
+ * ====================
+ *
+ * Storage for the RAG operation locks (global-locks / enhanced-global-locks)
+ * and namespace versions. On Vercel every lambda instance has its own memory,
+ * so locks live in Postgres as leases: acquisition is serialized per store
+ * with an advisory lock, holders renew the lease with heartbeats and a lock
+ * whose instance died simply expires.
+ *
+ * The in-memory provider keeps the previous single-instance behavior for
+ * local development and environments without a service role key.
+ */
+
+// Each lock system keeps its own priority scale
+export type RAGLockScope = 'rag' | 'rag_enhanced';
+
+export interface RAGLockLease {
+  scope: RAGLockScope;
+  storeId: string;
+  processId: string;
+  type: number;
+  operation: string;
+  reason: string;
+  parentProcessId?: string;
+  holder?: string;
+  metadata?: Record<string, any>;
+  acquiredAt: number;
+  expiresAt: number;
+}
+
+export interface RAGLockRequest {
+  scope: RAGLockScope;
+  storeId: string;
+  processId: string;
+  type: number;
+  operation: string;
+  reason: string;
+  parentProcessId?: string;
+  metadata?: Record<string, any>;
+  leaseMs: number;
+}
+
+export interface RAGLockAcquireOutcome {
+  acquired: boolean;
+  // Live locks of the same or higher priority that blocked the request
+  conflicts: RAGLockLease[];
+}
+
+// Checks a shadow namespace version passed (or failed) before going live
+export interface NamespaceValidationReport {
+  passed: boolean;
+  // Vectors per namespace type: upserted by the build vs. reported by Pinecone
+  expectedCounts: Record<string, number>;
+  vectorCounts: Record<string, number>;
+  // Vectors served by the version being replaced, when there was one
+  previousTotal?: number;
+  sampleQueries: { query: string; passed: boolean }[];
+  errors: string[];
+}
+
+export interface NamespaceVersion {
+  storeId: string;
+  version: string;
+  createdAt: number;
+  lockProcessId: string;
+  status: 'creating' | 'active' | 'deprecated' | 'failed';
+  activatedAt?: number;
+  validation?: NamespaceValidationReport;
+}
+
+export interface RAGLockProvider {
+  readonly name: 'postgres' | 'memory';
+  acquire(request: RAGLockRequest): Promise<RAGLockAcquireOutcome>;
+  // Returns the released locks (the lock itself first, then its children when cascading)
+  release(scope: RAGLockScope, storeId: string, processId: string, cascade?: boolean): Promise<RAGLockLease[]>;
+  renew(processId: string, leaseMs: number): Promise<boolean>;
+  list(scope: RAGLockScope, storeId?: string): Promise<RAGLockLease[]>;
+  purgeExpired(scope: RAGLockScope): Promise<number>;
+  clear(scope: RAGLockScope, filter?: { storeId?: string; type?: number }): Promise<number>;
+  saveNamespaceVersion(version: NamespaceVersion): Promise<void>;
+  // Latest version of the store, whatever its status
+  getNamespaceVersion(storeId: string): Promise<NamespaceVersion | null>;
+  getActiveNamespaceVersion(storeId: string): Promise<NamespaceVersion | null>;
+  // Newest first
+  listNamespaceVersions(storeId: string): Promise<NamespaceVersion[]>;
+  setNamespaceVersionStatus(storeId: string, lockProcessId: string, status: NamespaceVersion['status']): Promise<boolean>;
+  // Atomic flip: the version becomes active and the current active one is deprecated
+  activateNamespaceVersion(storeId: string, version: string): Promise<boolean>;
+  updateNamespaceVersion(storeId: string, version: string, changes: Partial<Pick<NamespaceVersion, 'status' | 'validation'>>): Promise<void>;
+  deleteNamespaceVersion(storeId: string, version: string): Promise<void>;
+}
+
+// Locks are short leases kept alive by the holder; a dead holder frees the store within a minute
+export const RAG_LOCK_LEASE_MS = 60000;
+const HEARTBEAT_INTERVAL_MS = 20000;
+
+// Identifies this instance in rag_locks.holder
+const INSTANCE_ID = `${process.env.VERCEL_REGION || 'local'}-${process.pid}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Dynamic import to keep the RAG module loadable outside a request scope
+const getSupabase = async () => {
+  const { createServiceClient } = await import('@/lib/supabase/server');
+  return createServiceClient();
+};
+
+// ===== POSTGRES PROVIDER =====
+
+interface RAGLockRow {
+  scope: RAGLockScope;
+  store_id: string;
+  process_id: string;
+  lock_type: number;
+  operation: string;
+  reason: string | null;
+  parent_process_id: string | null;
+  holder: string | null;
+  metadata: Record<string, any> | null;
+  acquired_at: string;
+  expires_at: string;
+}
+
+function toLease(row: RAGLockRow): RAGLockLease {
+  return {
+    scope: row.scope,
+    storeId: row.store_id,
+    processId: row.process_id,
+    type: row.lock_type,
+    operation: row.operation,
+    reason: row.reason || row.operation,
+    parentProcessId: row.parent_process_id || undefined,
+    holder: row.holder || undefined,
+    metadata: row.metadata || undefined,
+    acquiredAt: new Date(row.acquired_at).getTime(),
+    expiresAt: new Date(row.expires_at).getTime()
+  };
+}
+
+const NAMESPACE_VERSION_COLUMNS = 'store_id, version, status, lock_process_id, created_at, activated_at, validation';
+
+interface NamespaceVersionRow {
+  store_id: string;
+  version: string;
+  status: NamespaceVersion['status'];
+  lock_process_id: string;
+  created_at: string;
+  activated_at: string | null;
+  validation: NamespaceValidationReport | null;
+}
+
+function toNamespaceVersion(row: NamespaceVersionRow): NamespaceVersion {
+  return {
+    storeId: row.store_id,
+    version: row.version,
+    status: row.status,
+    lockProcessId: row.lock_process_id,
+    createdAt: new Date(row.created_at).getTime(),
+    activatedAt: row.activated_at ? new Date(row.activated_at).getTime() : undefined,
+    validation: row.validation || undefined
+  };
+}
+
+export class PostgresRAGLockProvider implements RAGLockProvider {
+  readonly name = 'postgres' as const;
+
+  async acquire(request: RAGLockRequest): Promise<RAGLockAcquireOutcome> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('acquire_rag_lock', {
+      p_scope: request.scope,
+      p_store_id: request.storeId,
+      p_process_id: request.processId,
+      p_lock_type: request.type,
+      p_operation: request.operation,
+      p_reason: request.reason,
+      p_parent_process_id: request.parentProcessId || null,
+      p_lease_seconds: Math.ceil(request.leaseMs / 1000),
+      p_holder: INSTANCE_ID,
+      p_metadata: request.metadata || {}
+    });
+
+    if (error) {
+      throw new Error(`Failed to acquire RAG lock: ${error.message}`);
+    }
+
+    const result = (Array.isArray(data) ? data[0] : data) as { acquired: boolean; conflicts: RAGLockRow[] } | null;
+    return {
+      acquired: !!result?.acquired,
+      conflicts: (result?.conflicts || []).map(toLease)
+    };
+  }
+
+  async release(scope: RAGLockScope, storeId: string, processId: string, cascade: boolean = false): Promise<RAGLockLease[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('rag_locks')
+      .delete()
+      .eq('scope', scope)
+      .eq('store_id', storeId)
+      .or(cascade ? `process_id.eq.${processId},parent_process_id.eq.${processId}` : `process_id.eq.${processId}`)
+      .select('*');
+
+    if (error) {
+      throw new Error(`Failed to release RAG lock: ${error.message}`);
+    }
+
+    // The lock itself first, then its children
+    return ((data || []) as RAGLockRow[])
+      .map(toLease)
+      .sort((a, b) => Number(b.processId === processId) - Number(a.processId === processId));
+  }
+
+  async renew(processId: string, leaseMs: number): Promise<boolean> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('renew_rag_lock', {
+      p_process_id: processId,
+      p_lease_seconds: Math.ceil(leaseMs / 1000)
+    });
+
+    if (error) {
+      throw new Error(`Failed to renew RAG lock: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  async list(scope: RAGLockScope, storeId?: string): Promise<RAGLockLease[]> {
+    const supabase = await getSupabase();
+    let query = supabase
+      .from('rag_locks')
+      .select('*')
+      .eq('scope', scope)
+      .gt('expires_at', new Date().toISOString())
+      .order('lock_type', { ascending: false });
+
+    if (storeId) {
+      query = query.eq('store_id', storeId);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to list RAG locks: ${error.message}`);
+    }
+
+    return ((data || []) as RAGLockRow[]).map(toLease);
+  }
+
+  async purgeExpired(scope: RAGLockScope): Promise<number> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('rag_locks')
+      .delete()
+      .eq('scope', scope)
+      .lte('expires_at', new Date().toISOString())
+      .select('process_id');
+
+    if (error) {
+      throw new Error(`Failed to purge expired RAG locks: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  async clear(scope: RAGLockScope, filter: { storeId?: string; type?: number } = {}): Promise<number> {
+    const supabase = await getSupabase();
+    let query = supabase
+      .from('rag_locks')
+      .delete()
+      .eq('scope', scope);
+
+    if (filter.storeId) query = query.eq('store_id', filter.storeId);
+    if (filter.type !== undefined) query = query.eq('lock_type', filter.type);
+
+    const { data, error } = await query.select('process_id');
+    if (error) {
+      throw new Error(`Failed to clear RAG locks: ${error.message}`);
+    }
+
+    return data?.length || 0;
+  }
+
+  async saveNamespaceVersion(version: NamespaceVersion): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('rag_namespace_versions')
+      .upsert({
+        store_id: version.storeId,
+        version: version.version,
+        status: version.status,
+        lock_process_id: version.lockProcessId,
+        created_at: new Date(version.createdAt).toISOString()
+      }, { onConflict: 'store_id,version' });
+
+    if (error) {
+      throw new Error(`Failed to save namespace version: ${error.message}`);
+    }
+  }
+
+  async getNamespaceVersion(storeId: string): Promise<NamespaceVersion | null> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('rag_namespace_versions')
+      .select(NAMESPACE_VERSION_COLUMNS)
+      .eq('store_id', storeId)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read namespace version: ${error.message}`);
+    }
+
+    return data ? toNamespaceVersion(data as NamespaceVersionRow) : null;
+  }
+
+  async getActiveNamespaceVersion(storeId: string): Promise<NamespaceVersion | null> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('rag_namespace_versions')
+      .select(NAMESPACE_VERSION_COLUMNS)
+      .eq('store_id', storeId)
+      .eq('status', 'active')
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read active namespace version: ${error.message}`);
+    }
+
+    return data ? toNamespaceVersion(data as NamespaceVersionRow) : null;
+  }
+
+  async listNamespaceVersions(storeId: string): Promise<NamespaceVersion[]> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('rag_namespace_versions')
+      .select(NAMESPACE_VERSION_COLUMNS)
+      .eq('store_id', storeId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to list namespace versions: ${error.message}`);
+    }
+
+    return ((data || []) as NamespaceVersionRow[]).map(toNamespaceVersion);
+  }
+
+  async setNamespaceVersionStatus(storeId: string, lockProcessId: string, status: NamespaceVersion['status']): Promise<boolean> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('set_rag_namespace_version_status', {
+      p_store_id: storeId,
+      p_lock_process_id: lockProcessId,
+      p_status: status
+    });
+
+    if (error) {
+      throw new Error(`Failed to update namespace version: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  async activateNamespaceVersion(storeId: string, version: string): Promise<boolean> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase.rpc('activate_rag_namespace_version', {
+      p_store_id: storeId,
+      p_version: version
+    });
+
+    if (error) {
+      throw new Error(`Failed to activate namespace version: ${error.message}`);
+    }
+
+    return data === true;
+  }
+
+  async updateNamespaceVersion(storeId: string, version: string, changes: Partial<Pick<NamespaceVersion, 'status' | 'validation'>>): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('rag_namespace_versions')
+      .update({
+        ...(changes.status ? { status: changes.status } : {}),
+        ...(changes.validation ? { validation: changes.validation } : {})
+      })
+      .eq('store_id', storeId)
+      .eq('version', version);
+
+    if (error) {
+      throw new Error(`Failed to update namespace version: ${error.message}`);
+    }
+  }
+
+  async deleteNamespaceVersion(storeId: string, version: string): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('rag_namespace_versions')
+      .delete()
+      .eq('store_id', storeId)
+      .eq('version', version);
+
+    if (error) {
+      throw new Error(`Failed to delete namespace version: ${error.message}`);
+    }
+  }
+}
+
+// ===== IN-MEMORY PROVIDER =====
+
+export class MemoryRAGLockProvider implements RAGLockProvider {
+  readonly name = 'memory' as const;
+
+  private locks = new Map<string, RAGLockLease>(); // processId -> lock
+  private versions = new Map<string, NamespaceVersion[]>(); // storeId -> versions, newest last
+
+  private live(scope: RAGLockScope, storeId?: string): RAGLockLease[] {
+    const now = Date.now();
+    return Array.from(this.locks.values())
+      .filter(lock => lock.scope === scope && (!storeId || lock.storeId === storeId) && lock.expiresAt > now)
+      .sort((a, b) => b.type - a.type);
+  }
+
+  async acquire(request: RAGLockRequest): Promise<RAGLockAcquireOutcome> {
+    const existing = this.live(request.scope, request.storeId);
+    const parent = request.parentProcessId
+      ? existing.find(lock => lock.processId === request.parentProcessId && lock.type >= request.type)
+      : undefined;
+
+    if (!parent) {
+      const conflicts = existing.filter(lock => lock.type >= request.type);
+      if (conflicts.length > 0) {
+        return { acquired: false, conflicts };
+      }
+    }
+
+    const now = Date.now();
+    this.locks.set(request.processId, {
+      scope: request.scope,
+      storeId: request.storeId,
+      processId: request.processId,
+      type: request.type,
+      operation: request.operation,
+      reason: request.reason,
+      parentProcessId: request.parentProcessId,
+      holder: INSTANCE_ID,
+      metadata: request.metadata,
+      acquiredAt: now,
+      expiresAt: now + request.leaseMs
+    });
+
+    return { acquired: true, conflicts: [] };
+  }
+
+  async release(scope: RAGLockScope, storeId: string, processId: string, cascade: boolean = false): Promise<RAGLockLease[]> {
+    const released = Array.from(this.locks.values()).filter(lock =>
+      lock.scope === scope && lock.storeId === storeId &&
+      (lock.processId === processId || (cascade && lock.parentProcessId === processId))
+    );
+
+    released.forEach(lock => this.locks.delete(lock.processId));
+    return released.sort((a, b) => Number(b.processId === processId) - Number(a.processId === processId));
+  }
+
+  async renew(processId: string, leaseMs: number): Promise<boolean> {
+    const lock = this.locks.get(processId);
+    if (!lock || lock.expiresAt <= Date.now()) return false;
+
+    lock.expiresAt = Date.now() + leaseMs;
+    return true;
+  }
+
+  async list(scope: RAGLockScope, storeId?: string): Promise<RAGLockLease[]> {
+    return this.live(scope, storeId);
+  }
+
+  async purgeExpired(scope: RAGLockScope): Promise<number> {
+    const now = Date.now();
+    let purged = 0;
+    for (const lock of Array.from(this.locks.values())) {
+      if (lock.scope === scope && lock.expiresAt <= now) {
+        this.locks.delete(lock.processId);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  async clear(scope: RAGLockScope, filter: { storeId?: string; type?: number } = {}): Promise<number> {
+    let cleared = 0;
+    for (const lock of Array.from(this.locks.values())) {
+      if (lock.scope === scope &&
+        (!filter.storeId || lock.storeId === filter.storeId) &&
+        (filter.type === undefined || lock.type === filter.type)) {
+        this.locks.delete(lock.processId);
+        cleared++;
+      }
+    }
+    return cleared;
+  }
+
+  async saveNamespaceVersion(version: NamespaceVersion): Promise<void> {
+    const versions = (this.versions.get(version.storeId) || []).filter(v => v.version !== version.version);
+    versions.push({ ...version });
+    this.versions.set(version.storeId, versions);
+  }
+
+  async getNamespaceVersion(storeId: string): Promise<NamespaceVersion | null> {
+    const versions = this.versions.get(storeId) || [];
+    return versions.length > 0 ? { ...versions[versions.length - 1] } : null;
+  }
+
+  async getActiveNamespaceVersion(storeId: string): Promise<NamespaceVersion | null> {
+    const active = (this.versions.get(storeId) || []).find(version => version.status === 'active');
+    return active ? { ...active } : null;
+  }
+
+  async listNamespaceVersions(storeId: string): Promise<NamespaceVersion[]> {
+    return (this.versions.get(storeId) || []).map(version => ({ ...version })).reverse();
+  }
+
+  async setNamespaceVersionStatus(storeId: string, lockProcessId: string, status: NamespaceVersion['status']): Promise<boolean> {
+    const versions = this.versions.get(storeId) || [];
+    const target = versions.find(version => version.lockProcessId === lockProcessId);
+    if (!target) return false;
+
+    if (status === 'active') {
+      versions
+        .filter(version => version.status === 'active' && version !== target)
+        .forEach(version => { version.status = 'deprecated'; });
+      target.activatedAt = Date.now();
+    }
+    target.status = status;
+    return true;
+  }
+
+  async activateNamespaceVersion(storeId: string, version: string): Promise<boolean> {
+    const target = (this.versions.get(storeId) || []).find(v => v.version === version);
+    if (!target || target.status === 'failed') return false;
+
+    return this.setNamespaceVersionStatus(storeId, target.lockProcessId, 'active');
+  }
+
+  async updateNamespaceVersion(storeId: string, version: string, changes: Partial<Pick<NamespaceVersion, 'status' | 'validation'>>): Promise<void> {
+    const target = (this.versions.get(storeId) || []).find(v => v.version === version);
+    if (target) {
+      Object.assign(target, changes);
+    }
+  }
+
+  async deleteNamespaceVersion(storeId: string, version: string): Promise<void> {
+    const versions = (this.versions.get(storeId) || []).filter(v => v.version !== version);
+    this.versions.set(storeId, versions);
+  }
+}
+
+// ===== PROVIDER SELECTION =====
+
+let provider: RAGLockProvider | null = null;
+
+/**
+ * Postgres when a service role key is configured (set RAG_LOCK_PROVIDER=memory to opt out),
+ * in-memory otherwise
+ */
+export function getRAGLockProvider(): RAGLockProvider {
+  if (!provider) {
+    const useMemory = process.env.RAG_LOCK_PROVIDER === 'memory' ||
+      !process.env.NEXT_PUBLIC_SUPABASE_URL ||
+      !process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    provider = useMemory ? new MemoryRAGLockProvider() : new PostgresRAGLockProvider();
+    console.log(`[RAG:LOCK] Using ${provider.name} lock provider`);
+  }
+  return provider;
+}
+
+// ===== HEARTBEATS =====
+
+const heartbeats = new Map<string, ReturnType<typeof setInterval>>(); // processId -> timer
+
+/**
+ * Keep a lock's lease alive while its operation runs in this instance, for at most maxDurationMs
+ */
+export function startLockHeartbeat(processId: string, maxDurationMs: number): void {
+  stopLockHeartbeat(processId);
+
+  const startedAt = Date.now();
+  const timer = setInterval(async () => {
+    if (Date.now() - startedAt >= maxDurationMs) {
+      console.warn(`[RAG:LOCK] ⏰ Lock ${processId} reached its maximum duration - letting the lease expire`);
+      stopLockHeartbeat(processId);
+      return;
+    }
+
+    try {
+      const renewed = await getRAGLockProvider().renew(processId, RAG_LOCK_LEASE_MS);
+      if (!renewed) {
+        console.warn(`[RAG:LOCK] ⚠️ Lock ${processId} was released or expired - stopping heartbeat`);
+        stopLockHeartbeat(processId);
+      }
+    } catch (error) {
+      // Keep trying: the lease survives a missed heartbeat or two
+      console.warn(`[RAG:LOCK] ⚠️ Heartbeat failed for lock ${processId}:`, error);
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  // Never keep the process alive just to renew a lock
+  (timer as { unref?: () => void }).unref?.();
+  heartbeats.set(processId, timer);
+}
+
+export function stopLockHeartbeat(processId: string): void {
+  const timer = heartbeats.get(processId);
+  if (timer) {
+    clearInterval(timer);
+    heartbeats.delete(processId);
+  }
+}
@@ -13,6 +13,12 @@
  * - store-{storeId}-analytics    → Métricas y análisis
  * - store-{storeId}-conversations → Historial de conversaciones
  * 
+ * VERSIONES (blue/green):
+ * - store-{storeId}-products@{version} → Set completo construido por un reindex
+ * - La versión activa de cada tienda vive en rag_namespace_versions
+ *   (ver namespace-versions.ts); sin versión activa se usan los nombres sin sufijo
+ * - Las conversaciones no se reconstruyen y nunca llevan versión
+ * 
  * BENEFICIOS:
  * - Isolation completa por tienda
  * - Búsquedas optimizadas por tipo de datos
@@ -40,6 +46,9 @@ export type DocumentType =
   | 'conversation_summary'
   | 'marketing_insight';
 
+// Types rebuilt by a full reindex; conversations are written as they happen and stay unversioned
+export const VERSIONED_NAMESPACE_TYPES: NamespaceType[] = ['store', 'products', 'orders', 'customers', 'analytics'];
+
 // ===== NAMESPACE CONFIGURATION =====
 
 export interface NamespaceConfig {
@@ -118,14 +127,42 @@ export class NamespaceStrategy {
   /**
    * 🏗️ Generate namespace name following the strategy
    */
-  static generateNamespace(storeId: string, type?: NamespaceType): string {
-    if (!type) {
-      return `store-${storeId}`;
-    }
-    
-    return type === 'store' 
+  static generateNamespace(storeId: string, type?: NamespaceType, version?: string | null): string {
+    const namespace = !type || type === 'store'
       ? `store-${storeId}`
       : `store-${storeId}-${type}`;
+
+    return version && this.isVersioned(type || 'store')
+      ? `${namespace}@${version}`
+      : namespace;
+  }
+
+  /**
+   * 📦 Whether a namespace type is rebuilt into versioned namespaces
+   */
+  static isVersioned(type: NamespaceType): boolean {
+    return VERSIONED_NAMESPACE_TYPES.includes(type);
+  }
+
+  /**
+   * 🗂️ Get namespace type for a chunk type (DocumentChunk metadata)
+   */
+  static getNamespaceTypeForChunk(chunkType: string): NamespaceType {
+    switch (chunkType) {
+      case 'product':
+        return 'products';
+      case 'order':
+        return 'orders';
+      case 'customer':
+        return 'customers';
+      case 'analytics':
+        return 'analytics';
+      case 'conversation':
+        return 'conversations';
+      case 'store':
+      default:
+        return 'store';
+    }
   }
 
   /**
@@ -383,8 +420,8 @@ export default NamespaceStrategy;
 /**
  * Utility function to generate namespace quickly
  */
-export function generateNamespace(storeId: string, type?: NamespaceType): string {
-  return NamespaceStrategy.generateNamespace(storeId, type);
+export function generateNamespace(storeId: string, type?: NamespaceType, version?: string | null): string {
+  return NamespaceStrategy.generateNamespace(storeId, type, version);
 }
 
 /**
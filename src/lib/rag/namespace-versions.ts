@@ -0,0 +1,56 @@
+/**
+ * 🔵🟢 RAG NAMESPACE VERSIONS
+ * ===========================
+ *
+ * Puntero a la versión activa de los namespaces de cada tienda. Un reindex
+ * completo construye un set nuevo (`store-{id}-{type}@{version}`) mientras las
+ * búsquedas siguen leyendo la versión activa, y recién lo activa cuando pasó
+ * la validación (ver UnifiedFiniRAGEngine.rebuildStoreNamespaces).
+ *
+ * Tiendas sin versión activa siguen usando los namespaces sin sufijo.
+ */
+
+import { getRAGLockProvider } from './lock-provider';
+import { NamespaceStrategy, type NamespaceType } from './namespace-strategy';
+
+// Every search resolves the pointer; other instances see a flip within this window.
+// The previous version is kept after a flip, so a stale read still hits a complete namespace
+const ACTIVE_VERSION_TTL_MS = 15000;
+
+const activeVersions = new Map<string, { version: string | null; expiresAt: number }>(); // storeId -> pointer
+
+/**
+ * Version served to searches and delta syncs, null for the unversioned namespaces
+ */
+export async function getActiveNamespaceVersion(storeId: string): Promise<string | null> {
+  const cached = activeVersions.get(storeId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.version;
+  }
+
+  try {
+    const active = await getRAGLockProvider().getActiveNamespaceVersion(storeId);
+    const version = active?.version || null;
+    activeVersions.set(storeId, { version, expiresAt: Date.now() + ACTIVE_VERSION_TTL_MS });
+    return version;
+  } catch (error) {
+    // Keep serving the last known version rather than switching namespaces on a read error
+    console.warn(`[RAG:NAMESPACE-VERSION] ⚠️ Failed to read active version for store ${storeId}:`, error);
+    return cached?.version || null;
+  }
+}
+
+/**
+ * Forget the cached pointer after this instance flipped or rolled back a version
+ */
+export function invalidateActiveNamespaceVersion(storeId: string): void {
+  activeVersions.delete(storeId);
+}
+
+/**
+ * Namespace of a type in the store's active version
+ */
+export async function getActiveNamespace(storeId: string, type: NamespaceType): Promise<string> {
+  const version = NamespaceStrategy.isVersioned(type) ? await getActiveNamespaceVersion(storeId) : null;
+  return NamespaceStrategy.generateNamespace(storeId, type, version);
+}
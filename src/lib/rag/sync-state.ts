@@ -0,0 +1,197 @@
+/**
+ * 🔖 RAG SYNC STATE
+ * =================
+ *
+ * Estado persistente para la sincronización incremental:
+ * - Cursor por tienda y NamespaceType (último updated_at / since_id visto)
+ * - Hash de contenido por documento indexado, para no re-embeddear lo que no cambió
+ */
+
+import crypto from 'crypto';
+
+import type { NamespaceType } from './namespace-strategy';
+
+export interface SyncCursor {
+  lastUpdatedAt: string | null;
+  lastSinceId: number | null;
+}
+
+export interface DocumentHash {
+  documentId: string;
+  entityId: string | null;
+  contentHash: string;
+}
+
+// Dynamic import to keep the RAG module loadable outside a request scope
+const getSupabase = async () => {
+  const { createServiceClient } = await import('@/lib/supabase/server');
+  return createServiceClient();
+};
+
+/**
+ * Stable hash of the text that would be embedded
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+/**
+ * Advance a cursor with the entities just fetched (keeps the highest values seen)
+ */
+export function advanceCursor(
+  cursor: SyncCursor | null,
+  entities: Array<{ id?: number; updated_at?: string }>
+): SyncCursor {
+  let lastUpdatedAt = cursor?.lastUpdatedAt || null;
+  let lastSinceId = cursor?.lastSinceId || null;
+
+  for (const entity of entities) {
+    if (entity.updated_at && (!lastUpdatedAt || new Date(entity.updated_at) > new Date(lastUpdatedAt))) {
+      lastUpdatedAt = entity.updated_at;
+    }
+    if (typeof entity.id === 'number' && (!lastSinceId || entity.id > lastSinceId)) {
+      lastSinceId = entity.id;
+    }
+  }
+
+  return { lastUpdatedAt, lastSinceId };
+}
+
+export class RAGSyncState {
+  /**
+   * Cursor for a store namespace, null when it was never synced
+   */
+  static async getCursor(storeId: string, namespaceType: NamespaceType): Promise<SyncCursor | null> {
+    try {
+      const supabase = await getSupabase();
+      const { data } = await supabase
+        .from('rag_sync_cursors')
+        .select('last_updated_at, last_since_id')
+        .eq('store_id', storeId)
+        .eq('namespace_type', namespaceType)
+        .maybeSingle();
+
+      if (!data) return null;
+      return { lastUpdatedAt: data.last_updated_at, lastSinceId: data.last_since_id };
+    } catch (error) {
+      console.warn(`[RAG-SYNC-STATE] ⚠️ Failed to read cursor ${storeId}/${namespaceType}, doing full fetch:`, error);
+      return null;
+    }
+  }
+
+  static async saveCursor(storeId: string, namespaceType: NamespaceType, cursor: SyncCursor): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('rag_sync_cursors')
+      .upsert({
+        store_id: storeId,
+        namespace_type: namespaceType,
+        last_updated_at: cursor.lastUpdatedAt,
+        last_since_id: cursor.lastSinceId,
+        last_synced_at: new Date().toISOString()
+      }, { onConflict: 'store_id,namespace_type' });
+
+    if (error) {
+      console.warn(`[RAG-SYNC-STATE] ⚠️ Failed to save cursor ${storeId}/${namespaceType}:`, error.message);
+    }
+  }
+
+  /**
+   * Content hashes of the documents indexed for a store namespace, keyed by document ID
+   */
+  static async getHashes(storeId: string, namespaceType: NamespaceType): Promise<Map<string, DocumentHash>> {
+    const hashes = new Map<string, DocumentHash>();
+
+    try {
+      const supabase = await getSupabase();
+      const { data } = await supabase
+        .from('rag_document_hashes')
+        .select('document_id, entity_id, content_hash')
+        .eq('store_id', storeId)
+        .eq('namespace_type', namespaceType);
+
+      for (const row of data || []) {
+        hashes.set(row.document_id, {
+          documentId: row.document_id,
+          entityId: row.entity_id,
+          contentHash: row.content_hash
+        });
+      }
+    } catch (error) {
+      console.warn(`[RAG-SYNC-STATE] ⚠️ Failed to read hashes ${storeId}/${namespaceType}:`, error);
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Content hash of a single indexed document, null when it was never indexed
+   */
+  static async getHash(storeId: string, documentId: string): Promise<string | null> {
+    try {
+      const supabase = await getSupabase();
+      const { data } = await supabase
+        .from('rag_document_hashes')
+        .select('content_hash')
+        .eq('store_id', storeId)
+        .eq('document_id', documentId)
+        .maybeSingle();
+
+      return data?.content_hash || null;
+    } catch (error) {
+      console.warn(`[RAG-SYNC-STATE] ⚠️ Failed to read hash for ${documentId}:`, error);
+      return null;
+    }
+  }
+
+  static async saveHash(
+    storeId: string,
+    namespaceType: NamespaceType,
+    documentId: string,
+    entityId: string | null,
+    contentHash: string
+  ): Promise<void> {
+    const supabase = await getSupabase();
+    const { error } = await supabase
+      .from('rag_document_hashes')
+      .upsert({
+        store_id: storeId,
+        namespace_type: namespaceType,
+        document_id: documentId,
+        entity_id: entityId,
+        content_hash: contentHash,
+        indexed_at: new Date().toISOString()
+      }, { onConflict: 'store_id,document_id' });
+
+    if (error) {
+      console.warn(`[RAG-SYNC-STATE] ⚠️ Failed to save hash for ${documentId}:`, error.message);
+    }
+  }
+
+  static async deleteHashes(storeId: string, documentIds: string[]): Promise<void> {
+    if (documentIds.length === 0) return;
+
+    const supabase = await getSupabase();
+    await supabase
+      .from('rag_document_hashes')
+      .delete()
+      .eq('store_id', storeId)
+      .in('document_id', documentIds);
+  }
+
+  /**
+   * Forget every cursor and hash of a store, so the next sync fetches and re-embeds it all
+   */
+  static async reset(storeId: string): Promise<void> {
+    const supabase = await getSupabase();
+    const [cursors, hashes] = await Promise.all([
+      supabase.from('rag_sync_cursors').delete().eq('store_id', storeId),
+      supabase.from('rag_document_hashes').delete().eq('store_id', storeId)
+    ]);
+
+    const error = cursors.error || hashes.error;
+    if (error) {
+      throw new Error(`Failed to reset sync state: ${error.message}`);
+    }
+  }
+}
@@ -18,13 +18,21 @@
  */
 
 import { TiendaNubeAPI } from '../integrations/tiendanube';
+import type { TiendaNubeOrder, TiendaNubeProduct } from '@/types/tiendanube';
+import type { IndexStatsDescription } from '@pinecone-database/pinecone';
 import { Document } from '@langchain/core/documents';
 import { BaseMessage } from '@langchain/core/messages';
 
 import { RAG_CONSTANTS } from './config';
 import { RAGDocumentProcessor } from './document-processor';
 import { EmbeddingsService } from './embeddings';
+import { RAGKeywordIndex } from './keyword-index';
 import { PineconeVectorStore } from './vector-store';
+import { acquireEnhancedRAGLock, releaseEnhancedRAGLock, EnhancedRAGLockType, generateNamespaceVersion } from './enhanced-global-locks';
+import { getRAGLockProvider, type NamespaceValidationReport } from './lock-provider';
+import { NamespaceStrategy, VERSIONED_NAMESPACE_TYPES, type NamespaceType } from './namespace-strategy';
+import { getActiveNamespace, getActiveNamespaceVersion, invalidateActiveNamespaceVersion } from './namespace-versions';
+import { RAGSyncState, advanceCursor, hashContent, type DocumentHash, type SyncCursor } from './sync-state';
 import type { RAGEngine, RAGQuery, RAGResult, DocumentChunk } from './types';
 
 // ===== UNIFIED TYPES & INTERFACES =====
@@ -83,14 +91,75 @@ export interface ConversationMemory {
   };
 }
 
-export interface SyncResult {
+export interface SyncCounts {
+  added: number;
+  updated: number;
+  unchanged: number;
+  deleted: number;
+}
+
+export interface SyncResult extends SyncCounts {
   success: boolean;
+  // Documents embedded in this run (added + updated)
   documentsIndexed: number;
   namespacesProcessed: string[];
   processingTime: number;
   error?: string;
 }
 
+export interface SyncOptions {
+  // Ignore stored cursors and fetch every entity again (unchanged content is still skipped)
+  full?: boolean;
+  // Re-embed everything into a new namespace version and switch searches to it once validated
+  rebuild?: boolean;
+}
+
+export interface NamespaceRollbackResult {
+  success: boolean;
+  version?: string;
+  error?: string;
+}
+
+/**
+ * A namespace version being built by a rebuild. Sync state (hashes, cursors) is
+ * only committed once the version goes live, so a failed build leaves delta
+ * syncs of the active version untouched
+ */
+interface NamespaceBuild {
+  version: string;
+  // Chunks upserted per namespace type
+  upserted: Partial<Record<NamespaceType, number>>;
+  documentIds: Set<string>;
+  sampleQueries: { query: string; documentId: string; type: NamespaceType }[];
+  commits: (() => Promise<void>)[];
+}
+
+// First sync of a store only goes this far back into order/customer history;
+// later syncs page through everything updated since the cursor
+const INITIAL_HISTORY_LIMIT = 1000;
+
+const createSyncCounts = (): SyncCounts => ({ added: 0, updated: 0, unchanged: 0, deleted: 0 });
+
+// Rebuild validation: product names searched in the new version, and how much smaller
+// than the version it replaces it may be before it is considered incomplete
+const REBUILD_SAMPLE_QUERIES = 3;
+const REBUILD_MIN_RETAINED_RATIO = 0.5;
+// Pinecone stats are eventually consistent; poll them this many times, 2s apart
+const REBUILD_STATS_ATTEMPTS = 5;
+// A 'creating' version older than this lost its builder and can be collected
+const ABANDONED_BUILD_MS = 60 * 60 * 1000;
+
+function getPineconeIndexName(): string {
+  const indexName = process.env.PINECONE_INDEX_NAME;
+  if (!indexName) {
+    throw new Error('PINECONE_INDEX_NAME is not configured');
+  }
+  return indexName;
+}
+
+const namespaceCount = (stats: IndexStatsDescription | null, namespace: string): number =>
+  stats?.namespaces?.[namespace]?.recordCount || 0;
+
 // ===== UNIFIED FINI RAG ENGINE =====
 
 export class UnifiedFiniRAGEngine {
@@ -106,7 +175,6 @@ export class UnifiedFiniRAGEngine {
   // Cache and memory management
   private vectorStores: Map<string, any> = new Map();
   private conversationMemories: Map<string, ConversationMemory> = new Map();
-  private syncLocks: Map<string, Promise<any>> = new Map();
   
   // Circuit breaker for resilience
   private circuitBreakerState: Map<string, { failures: number; lastFailure: number; isOpen: boolean }> = new Map();
@@ -285,10 +353,10 @@ export class UnifiedFiniRAGEngine {
       
       for (const type of namespaceTypes) {
         try {
-          const namespace = `${storeId}-${type}`;
+          const namespace = NamespaceStrategy.generateNamespace(storeId, type as NamespaceType);
           
           // Try to query the namespace - if it exists, this won't throw
-          const vectorStore = await this.getVectorStore(storeId, type);
+          const vectorStore = await this.getVectorStore(namespace);
           if (vectorStore) {
             // Test with a simple similarity search to confirm namespace is functional
             const testResults = await vectorStore.similaritySearch('test', 1);
@@ -371,6 +439,16 @@ export class UnifiedFiniRAGEngine {
         `store-${storeId}-conversations`,
       ];
 
+      // Plus every namespace version still kept (active, rollback target, builds in progress)
+      const provider = getRAGLockProvider();
+      const versions = await provider.listNamespaceVersions(storeId).catch(error => {
+        console.warn(`[UNIFIED-RAG] ⚠️ Failed to list namespace versions of store ${storeId}:`, error);
+        return [];
+      });
+      for (const version of versions) {
+        namespaces.push(...VERSIONED_NAMESPACE_TYPES.map(type => NamespaceStrategy.generateNamespace(storeId, type, version.version)));
+      }
+
       // Delete all vectors in each namespace
       for (const namespace of namespaces) {
         try {
@@ -382,6 +460,15 @@ export class UnifiedFiniRAGEngine {
         }
       }
 
+      await RAGKeywordIndex.deleteStore(storeId);
+
+      for (const version of versions) {
+        await provider.deleteNamespaceVersion(storeId, version.version).catch(error => {
+          console.warn(`[UNIFIED-RAG] ⚠️ Failed to delete namespace version ${version.version}:`, error);
+        });
+      }
+      invalidateActiveNamespaceVersion(storeId);
+
       // Clear vector store cache
       this.vectorStores.clear();
 
@@ -399,9 +486,11 @@ export class UnifiedFiniRAGEngine {
   // ===== DOCUMENT INDEXING (UNIFIED) =====
 
   /**
-   * 📄 Index single document with unified strategy
+   * 📄 Index single document with unified strategy.
+   * Written to the store's active namespace version unless a version is given (rebuilds).
+   * Returns the number of chunks indexed
    */
-  async indexDocument(content: string, metadata: Partial<DocumentChunk['metadata']>): Promise<void> {
+  async indexDocument(content: string, metadata: Partial<DocumentChunk['metadata']>, version?: string | null): Promise<number> {
     try {
       if (!metadata.storeId) {
         throw new Error('Store ID is required for document indexing');
@@ -414,9 +503,13 @@ export class UnifiedFiniRAGEngine {
       
       if (chunks.length === 0) {
         console.warn('[UNIFIED-RAG] ⚠️ No chunks created, skipping indexing');
-        return;
+        return 0;
       }
 
+      const namespaceType = NamespaceStrategy.getNamespaceTypeForChunk(metadata.type || 'store');
+      const namespaceVersion = version !== undefined ? version : await getActiveNamespaceVersion(metadata.storeId);
+      const namespace = NamespaceStrategy.generateNamespace(metadata.storeId, namespaceType, namespaceVersion);
+
       // Generate embeddings
       const contents = chunks.map(chunk => chunk.content);
       const embeddings = await this.embeddings.generateBatchEmbeddings(contents);
@@ -427,10 +520,12 @@ export class UnifiedFiniRAGEngine {
         embedding: embeddings[index].embedding,
       }));
 
-      // Store in vector database with proper namespace
-      await this.vectorStore.upsert(chunksWithEmbeddings);
+      // Store in vector database with proper namespace, and in the keyword index for hybrid search
+      await this.vectorStore.upsert(chunksWithEmbeddings, namespace);
+      await RAGKeywordIndex.indexChunks(chunksWithEmbeddings, namespaceVersion);
 
-      console.log(`[UNIFIED-RAG] ✅ Successfully indexed ${chunks.length} chunks`);
+      console.log(`[UNIFIED-RAG] ✅ Successfully indexed ${chunks.length} chunks into ${namespace}`);
+      return chunks.length;
     } catch (error) {
       console.error('[UNIFIED-RAG] ❌ Failed to index document:', error);
       throw new Error(`Document indexing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -438,21 +533,29 @@ export class UnifiedFiniRAGEngine {
   }
 
   /**
-   * 🏪 Index complete store data with robust error handling
+   * 🏪 Sync store data with robust error handling.
+   * Incremental by default: only entities changed since the last sync are fetched
+   * and only content that actually changed is re-embedded.
    */
-  async indexStoreData(storeId: string, accessToken?: string): Promise<SyncResult> {
-    // Prevent concurrent syncs for same store
-    if (this.syncLocks.has(storeId)) {
-      console.log(`[UNIFIED-RAG] ⏳ Store ${storeId} sync already in progress - waiting`);
-      await this.syncLocks.get(storeId);
-      return { success: true, documentsIndexed: 0, namespacesProcessed: [], processingTime: 0 };
+  async indexStoreData(storeId: string, accessToken?: string, options: SyncOptions = {}): Promise<SyncResult> {
+    // One sync per store across instances: a sync lease in the lock provider.
+    // Rebuilds take their own NAMESPACE_RECREATION lock, which also blocks syncs
+    let syncProcessId: string | null = null;
+    if (!options.rebuild) {
+      const lock = await acquireEnhancedRAGLock(
+        storeId,
+        options.full ? EnhancedRAGLockType.MANUAL_SYNC : EnhancedRAGLockType.BACKGROUND_SYNC,
+        options.full ? 'full_sync' : 'delta_sync'
+      );
+      if (!lock.success || !lock.processId) {
+        console.log(`[UNIFIED-RAG] ⏳ Store ${storeId} sync skipped: ${lock.error || 'lock not acquired'}`);
+        return { success: true, documentsIndexed: 0, namespacesProcessed: [], processingTime: 0, ...createSyncCounts() };
+      }
+      syncProcessId = lock.processId;
     }
 
-    const syncPromise = this._performStoreIndexing(storeId, accessToken);
-    this.syncLocks.set(storeId, syncPromise);
-
     try {
-      const result = await syncPromise;
+      const result = await this._performStoreIndexing(storeId, accessToken, options);
       
       // 🔥 NEW: Replace placeholders with real data after successful indexing
       if (result.success && result.documentsIndexed > 0) {
@@ -461,7 +564,9 @@ export class UnifiedFiniRAGEngine {
       
       return result;
     } finally {
-      this.syncLocks.delete(storeId);
+      if (syncProcessId) {
+        await releaseEnhancedRAGLock(storeId, syncProcessId);
+      }
     }
   }
   
@@ -498,17 +603,21 @@ export class UnifiedFiniRAGEngine {
   /**
    * Internal store indexing implementation
    */
-  private async _performStoreIndexing(storeId: string, accessToken?: string): Promise<SyncResult> {
+  private async _performStoreIndexing(storeId: string, accessToken?: string, options: SyncOptions = {}): Promise<SyncResult> {
     const startTime = Date.now();
     const result: SyncResult = {
       success: false,
       documentsIndexed: 0,
       namespacesProcessed: [],
-      processingTime: 0
+      processingTime: 0,
+      added: 0,
+      updated: 0,
+      unchanged: 0,
+      deleted: 0
     };
 
     try {
-      console.log(`[UNIFIED-RAG] 🚀 Starting unified store indexing: ${storeId}`);
+      console.log(`[UNIFIED-RAG] 🚀 Starting unified store indexing: ${storeId} (${options.full ? 'full' : 'delta'})`);
 
       // STEP 1: Get valid token with comprehensive fallback strategy
       const tokenData = await this.getValidTokenWithStoreData(storeId, accessToken);
@@ -523,23 +632,32 @@ export class UnifiedFiniRAGEngine {
       
       console.log(`[UNIFIED-RAG] ✅ API connection verified for store: ${storeId}`);
 
+      if (options.rebuild) {
+        await this.rebuildStoreNamespaces(api, storeId, result);
+        result.success = true;
+        result.documentsIndexed = result.added + result.updated;
+        result.processingTime = Date.now() - startTime;
+        console.log(`[UNIFIED-RAG] 🎉 Store rebuild completed: ${storeId} (${result.documentsIndexed} docs embedded in ${result.processingTime}ms)`);
+        return result;
+      }
+
       // STEP 3: Initialize namespaces
       console.log(`[UNIFIED-RAG] 🏗️ Initializing namespaces`);
       await this.initializeStoreNamespaces(storeId);
 
-      // STEP 4: Index all data types in parallel
+      // STEP 4: Sync all data types in parallel (only changed entities are re-embedded)
+      const _full = !!options.full;
       const indexingPromises = [
         this.indexStoreInformation(api, storeId),
-        this.indexProducts(api, storeId),
-        this.indexOrders(api, storeId),
-        this.indexCustomers(api, storeId),
+        this.indexProducts(api, storeId, _full),
+        this.indexOrders(api, storeId, _full),
+        this.indexCustomers(api, storeId, _full),
         this.indexAnalytics(api, storeId)
       ];
 
       const indexingResults = await Promise.allSettled(indexingPromises);
       
       // Process results
-      let totalDocuments = 0;
       const processedNamespaces: string[] = [];
       
       indexingResults.forEach((indexResult, index) => {
@@ -547,20 +665,24 @@ export class UnifiedFiniRAGEngine {
         const dataType = dataTypes[index];
         
         if (indexResult.status === 'fulfilled') {
-          totalDocuments += indexResult.value;
+          const counts = indexResult.value;
+          result.added += counts.added;
+          result.updated += counts.updated;
+          result.unchanged += counts.unchanged;
+          result.deleted += counts.deleted;
           processedNamespaces.push(`store-${storeId}-${dataType}`);
-          console.log(`[UNIFIED-RAG] ✅ Indexed ${indexResult.value} ${dataType} documents`);
+          console.log(`[UNIFIED-RAG] ✅ ${dataType}: +${counts.added} ~${counts.updated} =${counts.unchanged} -${counts.deleted}`);
         } else {
           console.warn(`[UNIFIED-RAG] ⚠️ Failed to index ${dataType}:`, indexResult.reason);
         }
       });
 
       result.success = true;
-      result.documentsIndexed = totalDocuments;
+      result.documentsIndexed = result.added + result.updated;
       result.namespacesProcessed = processedNamespaces;
       result.processingTime = Date.now() - startTime;
 
-      console.log(`[UNIFIED-RAG] 🎉 Store indexing completed: ${storeId} (${totalDocuments} docs in ${result.processingTime}ms)`);
+      console.log(`[UNIFIED-RAG] 🎉 Store indexing completed: ${storeId} (${result.documentsIndexed} docs embedded, ${result.unchanged} unchanged, ${result.deleted} deleted in ${result.processingTime}ms)`);
 
       return result;
 
@@ -574,183 +696,645 @@ export class UnifiedFiniRAGEngine {
     }
   }
 
+  // ===== BLUE/GREEN NAMESPACE VERSIONS =====
+
+  /**
+   * Re-embed the whole store into a new namespace version while searches keep
+   * reading the active one, then validate it and flip the active version pointer.
+   * The replaced version is kept as rollback target; older ones are collected
+   */
+  private async rebuildStoreNamespaces(api: TiendaNubeAPI, storeId: string, result: SyncResult): Promise<void> {
+    const version = generateNamespaceVersion();
+    const lock = await acquireEnhancedRAGLock(storeId, EnhancedRAGLockType.NAMESPACE_RECREATION, 'namespace_rebuild', {
+      reason: 'Blue/green namespace rebuild',
+      version
+    });
+
+    if (!lock.success || !lock.processId) {
+      throw new Error(`Namespace rebuild blocked: ${lock.error || 'lock not acquired'}`);
+    }
+
+    const provider = getRAGLockProvider();
+    const build: NamespaceBuild = { version, upserted: {}, documentIds: new Set(), sampleQueries: [], commits: [] };
+
+    try {
+      console.log(`[UNIFIED-RAG] 🔵 Building namespace version ${version} for store: ${storeId}`);
+      const previous = await provider.getActiveNamespaceVersion(storeId);
+
+      const dataTypes: NamespaceType[] = ['store', 'products', 'orders', 'customers', 'analytics'];
+      // With a build the indexers throw instead of logging, so any failure is rejected here
+      const indexingResults = await Promise.allSettled([
+        this.indexStoreInformation(api, storeId, build),
+        this.indexProducts(api, storeId, true, build),
+        this.indexOrders(api, storeId, true, build),
+        this.indexCustomers(api, storeId, true, build),
+        this.indexAnalytics(api, storeId, build)
+      ]);
+
+      const failedTypes: NamespaceType[] = [];
+      indexingResults.forEach((indexResult, index) => {
+        if (indexResult.status === 'fulfilled') {
+          result.added += indexResult.value.added;
+          result.namespacesProcessed.push(NamespaceStrategy.generateNamespace(storeId, dataTypes[index], version));
+        } else {
+          failedTypes.push(dataTypes[index]);
+          console.warn(`[UNIFIED-RAG] ⚠️ Failed to rebuild ${dataTypes[index]}:`, indexResult.reason);
+        }
+      });
+
+      const validation = await this.validateNamespaceBuild(storeId, build, previous?.version ?? null, failedTypes);
+      await provider.updateNamespaceVersion(storeId, version, { validation });
+
+      if (!validation.passed) {
+        throw new Error(`Namespace version ${version} failed validation: ${validation.errors.join('; ')}`);
+      }
+
+      // The flip: from here on every search reads the new version
+      if (!await provider.activateNamespaceVersion(storeId, version)) {
+        throw new Error(`Namespace version ${version} could not be activated`);
+      }
+      invalidateActiveNamespaceVersion(storeId);
+      console.log(`[UNIFIED-RAG] 🟢 Namespace version ${version} is now active for store: ${storeId} (previous: ${previous?.version || 'unversioned'})`);
+    } catch (error) {
+      // Searches never saw this version: discard it and keep serving the active one
+      await provider.updateNamespaceVersion(storeId, version, { status: 'failed' }).catch(() => undefined);
+      await this.dropNamespaceVersion(storeId, version);
+      throw error;
+    } finally {
+      await releaseEnhancedRAGLock(storeId, lock.processId);
+    }
+
+    // Sync state now describes the new version
+    for (const commit of build.commits) {
+      await commit();
+    }
+    for (const type of VERSIONED_NAMESPACE_TYPES) {
+      const hashes = await RAGSyncState.getHashes(storeId, type);
+      await RAGSyncState.deleteHashes(storeId, Array.from(hashes.keys()).filter(documentId => !build.documentIds.has(documentId)));
+    }
+
+    await this.garbageCollectNamespaceVersions(storeId);
+  }
+
+  /**
+   * Check a built version before it goes live: every chunk upserted is visible in
+   * Pinecone, it is not much smaller than the version it replaces and sample
+   * product searches find their products
+   */
+  private async validateNamespaceBuild(
+    storeId: string,
+    build: NamespaceBuild,
+    previousVersion: string | null,
+    failedTypes: NamespaceType[]
+  ): Promise<NamespaceValidationReport> {
+    const report: NamespaceValidationReport = {
+      passed: false,
+      expectedCounts: { ...build.upserted },
+      vectorCounts: {},
+      sampleQueries: [],
+      errors: []
+    };
+
+    if (failedTypes.length > 0) {
+      report.errors.push(`Indexing failed for: ${failedTypes.join(', ')}`);
+    }
+
+    const expectedTotal = Object.values(build.upserted).reduce((sum, count) => sum + (count || 0), 0);
+    if (expectedTotal === 0) {
+      report.errors.push('No documents were indexed');
+      return report;
+    }
+
+    await this.initializeServerDependencies();
+    const index = this.pinecone.Index(getPineconeIndexName());
+
+    // Vector counts, polled until Pinecone reports every upsert
+    let stats: IndexStatsDescription | null = null;
+    for (let attempt = 1; attempt <= REBUILD_STATS_ATTEMPTS; attempt++) {
+      stats = await index.describeIndexStats();
+      const complete = VERSIONED_NAMESPACE_TYPES.every(type =>
+        namespaceCount(stats, NamespaceStrategy.generateNamespace(storeId, type, build.version)) >= (build.upserted[type] || 0)
+      );
+      if (complete || attempt === REBUILD_STATS_ATTEMPTS) break;
+      await new Promise(resolve => setTimeout(resolve, 2000));
+    }
+
+    for (const type of VERSIONED_NAMESPACE_TYPES) {
+      const found = namespaceCount(stats, NamespaceStrategy.generateNamespace(storeId, type, build.version));
+      const expected = build.upserted[type] || 0;
+      report.vectorCounts[type] = found;
+      if (found < expected) {
+        report.errors.push(`${type}: ${found}/${expected} vectors visible`);
+      }
+    }
+
+    report.previousTotal = VERSIONED_NAMESPACE_TYPES.reduce(
+      (sum, type) => sum + namespaceCount(stats, NamespaceStrategy.generateNamespace(storeId, type, previousVersion)),
+      0
+    );
+    if (report.previousTotal > 0 && expectedTotal < report.previousTotal * REBUILD_MIN_RETAINED_RATIO) {
+      report.errors.push(`Only ${expectedTotal} vectors built, the active version has ${report.previousTotal}`);
+    }
+
+    // Sample queries: a product searched by name must come back from its own namespace
+    for (const sample of build.sampleQueries) {
+      try {
+        const { embedding } = await this.embeddings.generateEmbedding(sample.query);
+        const response = await index.namespace(NamespaceStrategy.generateNamespace(storeId, sample.type, build.version)).query({
+          vector: embedding,
+          topK: 10,
+          includeMetadata: false
+        });
+        const passed = (response?.matches || []).some((match: { id: string }) => match.id.startsWith(`${sample.documentId}_`));
+        report.sampleQueries.push({ query: sample.query, passed });
+      } catch (error) {
+        console.warn(`[UNIFIED-RAG] ⚠️ Sample query "${sample.query}" failed:`, error);
+        report.sampleQueries.push({ query: sample.query, passed: false });
+      }
+    }
+
+    const samplesPassed = report.sampleQueries.filter(sample => sample.passed).length;
+    if (samplesPassed < Math.ceil(report.sampleQueries.length / 2)) {
+      report.errors.push(`Sample queries: ${samplesPassed}/${report.sampleQueries.length} found their document`);
+    }
+
+    report.passed = report.errors.length === 0;
+    console.log(`[UNIFIED-RAG] ${report.passed ? '✅' : '❌'} Namespace version ${build.version} validation:`, report);
+    return report;
+  }
+
+  /**
+   * Delete the vectors and keyword chunks of a namespace version (null: the unversioned namespaces)
+   */
+  private async dropNamespaceVersion(storeId: string, version: string | null): Promise<void> {
+    for (const type of VERSIONED_NAMESPACE_TYPES) {
+      const namespace = NamespaceStrategy.generateNamespace(storeId, type, version);
+      try {
+        await this.vectorStore.deleteAll(namespace);
+        this.vectorStores.delete(namespace);
+      } catch (error) {
+        console.warn(`[UNIFIED-RAG] ⚠️ Failed to clear namespace ${namespace}:`, error);
+      }
+    }
+
+    await RAGKeywordIndex.deleteVersion(storeId, version);
+  }
+
+  /**
+   * 🧹 Delete namespace versions no longer needed: everything but the active version,
+   * the latest deprecated one (rollback target) and builds still in progress
+   */
+  async garbageCollectNamespaceVersions(storeId: string): Promise<number> {
+    const provider = getRAGLockProvider();
+    const versions = await provider.listNamespaceVersions(storeId);
+    const active = versions.find(version => version.status === 'active');
+    const rollbackTarget = versions.find(version => version.status === 'deprecated');
+
+    const collectable = versions.filter(version =>
+      version !== active &&
+      version !== rollbackTarget &&
+      (version.status !== 'creating' || Date.now() - version.createdAt > ABANDONED_BUILD_MS)
+    );
+
+    for (const version of collectable) {
+      await this.dropNamespaceVersion(storeId, version.version);
+      await provider.deleteNamespaceVersion(storeId, version.version);
+      console.log(`[UNIFIED-RAG] 🧹 Collected namespace version ${version.version} (${version.status}) of store: ${storeId}`);
+    }
+
+    // The unversioned namespaces were the rollback target of the first version only
+    if (active && rollbackTarget) {
+      await this.dropNamespaceVersion(storeId, null);
+    }
+
+    return collectable.length;
+  }
+
+  /**
+   * ⏪ Serve the previous namespace version again. The rolled back version is
+   * marked failed (collected later) and sync state is reset, so the next sync
+   * re-fetches the store and re-embeds whatever changed since the previous build
+   */
+  async rollbackStoreNamespaces(storeId: string): Promise<NamespaceRollbackResult> {
+    const lock = await acquireEnhancedRAGLock(storeId, EnhancedRAGLockType.NAMESPACE_RECREATION, 'namespace_rollback', {
+      reason: 'Namespace version rollback'
+    });
+
+    if (!lock.success || !lock.processId) {
+      return { success: false, error: `Rollback blocked: ${lock.error || 'lock not acquired'}` };
+    }
+
+    try {
+      const provider = getRAGLockProvider();
+      const versions = await provider.listNamespaceVersions(storeId);
+      const active = versions.find(version => version.status === 'active');
+      const target = versions.find(version => version.status === 'deprecated');
+
+      if (!target) {
+        return { success: false, error: 'No previous namespace version to roll back to' };
+      }
+
+      if (!await provider.activateNamespaceVersion(storeId, target.version)) {
+        return { success: false, error: `Namespace version ${target.version} could not be activated` };
+      }
+      if (active) {
+        await provider.updateNamespaceVersion(storeId, active.version, { status: 'failed' });
+      }
+      invalidateActiveNamespaceVersion(storeId);
+      await RAGSyncState.reset(storeId);
+
+      console.log(`[UNIFIED-RAG] ⏪ Rolled back store ${storeId} to namespace version ${target.version} (from ${active?.version || 'none'})`);
+      return { success: true, version: target.version };
+    } catch (error) {
+      console.error(`[UNIFIED-RAG] ❌ Namespace rollback failed for store ${storeId}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    } finally {
+      await releaseEnhancedRAGLock(storeId, lock.processId);
+    }
+  }
+
   // ===== DATA TYPE INDEXING METHODS =====
 
+  /**
+   * Index a document only when its content changed since it was last embedded.
+   * Replaces any previous chunks and records the new content hash.
+   */
+  private async syncDocument(
+    storeId: string,
+    namespaceType: NamespaceType,
+    documentId: string,
+    entityId: string | null,
+    content: string,
+    metadata: Partial<DocumentChunk['metadata']>,
+    previousHash: string | null | undefined,
+    counts: SyncCounts,
+    build?: NamespaceBuild
+  ): Promise<void> {
+    const contentHash = hashContent(content);
+
+    if (build) {
+      // Rebuild: the new version starts empty, so everything is embedded
+      const chunkCount = await this.indexDocument(content, metadata, build.version);
+      build.upserted[namespaceType] = (build.upserted[namespaceType] || 0) + chunkCount;
+      build.documentIds.add(documentId);
+      build.commits.push(() => RAGSyncState.saveHash(storeId, namespaceType, documentId, entityId, contentHash));
+      if (namespaceType === 'products' && metadata.productName && build.sampleQueries.length < REBUILD_SAMPLE_QUERIES) {
+        build.sampleQueries.push({ query: metadata.productName, documentId, type: namespaceType });
+      }
+      counts.added++;
+      return;
+    }
+
+    if (previousHash === contentHash) {
+      counts.unchanged++;
+      return;
+    }
+
+    await this.updateDocument(documentId, content, metadata);
+    await RAGSyncState.saveHash(storeId, namespaceType, documentId, entityId, contentHash);
+
+    if (previousHash) {
+      counts.updated++;
+    } else {
+      counts.added++;
+    }
+  }
+
+  /**
+   * Save a delta cursor, or hold it until a rebuilt version goes live
+   */
+  private async saveCursor(storeId: string, namespaceType: NamespaceType, cursor: SyncCursor, build?: NamespaceBuild): Promise<void> {
+    if (build) {
+      build.commits.push(() => RAGSyncState.saveCursor(storeId, namespaceType, cursor));
+    } else {
+      await RAGSyncState.saveCursor(storeId, namespaceType, cursor);
+    }
+  }
+
   /**
    * Index store information
    */
-  private async indexStoreInformation(api: TiendaNubeAPI, storeId: string): Promise<number> {
+  private async indexStoreInformation(api: TiendaNubeAPI, storeId: string, build?: NamespaceBuild): Promise<SyncCounts> {
+    const counts = createSyncCounts();
+
     try {
       const store = await api.getStore();
       const storeContent = this.processor.processStoreData(store);
+      const documentId = `store_${storeId}_doc`;
       
-      await this.indexDocument(storeContent, {
+      await this.syncDocument(storeId, 'store', documentId, null, storeContent, {
         type: 'store',
         storeId,
         source: 'tiendanube_store',
         timestamp: new Date().toISOString(),
-      });
-      
-      return 1;
+      }, await RAGSyncState.getHash(storeId, documentId), counts, build);
     } catch (error) {
       console.warn('[UNIFIED-RAG] ⚠️ Failed to index store info:', error);
-      return 0;
+      // A rebuilt version must not go live without it
+      if (build) throw error;
     }
+
+    return counts;
   }
 
   /**
    * Index products (critical for Product Manager agent)
+   * Delta: only products updated since the stored cursor are fetched
    */
-  private async indexProducts(api: TiendaNubeAPI, storeId: string): Promise<number> {
+  private async indexProducts(api: TiendaNubeAPI, storeId: string, full = false, build?: NamespaceBuild): Promise<SyncCounts> {
+    const counts = createSyncCounts();
+
     try {
-      const products = await api.getProducts({ limit: 200 });
-      
-      if (!products || products.length === 0) {
-        console.log(`[UNIFIED-RAG] ℹ️ No products found for store: ${storeId}`);
-        return 0;
-      }
+      const cursor = full ? null : await RAGSyncState.getCursor(storeId, 'products');
+      const hashes = await RAGSyncState.getHashes(storeId, 'products');
+
+      const validProducts = await TiendaNubeAPI.collect(api.iterateProducts({
+        updated_at_min: cursor?.lastUpdatedAt || undefined
+      }));
 
-      console.log(`[UNIFIED-RAG] 📦 Found ${products.length} products for indexing`);
+      console.log(`[UNIFIED-RAG] 📦 Found ${validProducts.length} ${cursor ? 'changed ' : ''}products for indexing`);
       
-      let indexedCount = 0;
-      for (const product of products) {
+      let failed = false;
+      for (const product of validProducts) {
         try {
+          const documentId = `product_${storeId}_${product.id}`;
           const productContent = this.processor.processProductData(product);
           
-          await this.indexDocument(productContent, {
-            type: 'product',
-            storeId,
-            source: 'tiendanube_products',
-            timestamp: new Date().toISOString(),
-            productId: product.id?.toString(),
-            productName: product.name || 'Producto sin nombre',
-            category: product.categories?.[0]?.name || 'Sin categoría',
-          });
-          
-          indexedCount++;
+          await this.syncDocument(
+            storeId, 'products', documentId, product.id?.toString() || null,
+            productContent, this.getProductMetadata(product, storeId),
+            hashes.get(documentId)?.contentHash, counts, build
+          );
         } catch (productError) {
+          failed = true;
           console.warn(`[UNIFIED-RAG] ⚠️ Failed to index product ${product.id}:`, productError);
         }
       }
-      
-      return indexedCount;
+
+      if (failed && build) {
+        throw new Error('Some products could not be indexed');
+      }
+
+      // A rebuilt version only ever contains the products listed above
+      counts.deleted = build ? 0 : await this.removeDeletedProducts(api, storeId, hashes);
+
+      // Keep the cursor where it was if anything failed so it's retried next time
+      if (!failed) {
+        await this.saveCursor(storeId, 'products', advanceCursor(cursor, validProducts), build);
+      }
     } catch (error) {
       console.warn('[UNIFIED-RAG] ⚠️ Failed to index products:', error);
-      return 0;
+      if (build) throw error;
+    }
+
+    return counts;
+  }
+
+  /**
+   * Drop products that are no longer in the catalog
+   */
+  private async removeDeletedProducts(api: TiendaNubeAPI, storeId: string, hashes: Map<string, DocumentHash>): Promise<number> {
+    if (hashes.size === 0) return 0;
+
+    const listed = await TiendaNubeAPI.collect(api.iterateProducts({ fields: 'id' }));
+
+    const liveIds = new Set(listed.map(product => product.id?.toString()));
+    let removed = 0;
+
+    for (const hash of hashes.values()) {
+      if (hash.entityId && !liveIds.has(hash.entityId)) {
+        await this.removeProduct(storeId, hash.entityId);
+        removed++;
+      }
     }
+
+    return removed;
   }
 
   /**
    * Index orders (critical for Analytics agent)
+   * Delta: only orders updated since the stored cursor are fetched
    */
-  private async indexOrders(api: TiendaNubeAPI, storeId: string): Promise<number> {
+  private async indexOrders(api: TiendaNubeAPI, storeId: string, full = false, build?: NamespaceBuild): Promise<SyncCounts> {
+    const counts = createSyncCounts();
+
     try {
-      const orders = await api.getOrders({ limit: 100 });
+      const cursor = full ? null : await RAGSyncState.getCursor(storeId, 'orders');
+      const hashes = await RAGSyncState.getHashes(storeId, 'orders');
+
+      const validOrders = await TiendaNubeAPI.collect(api.iterateOrders({
+        maxItems: cursor ? undefined : INITIAL_HISTORY_LIMIT,
+        updated_at_min: cursor?.lastUpdatedAt || undefined
+      }));
       
-      if (!orders || orders.length === 0) {
-        console.log(`[UNIFIED-RAG] ℹ️ No orders found for store: ${storeId}`);
-        return 0;
+      if (validOrders.length === 0) {
+        console.log(`[UNIFIED-RAG] ℹ️ No ${cursor ? 'changed ' : ''}orders found for store: ${storeId}`);
+        return counts;
       }
 
-      let indexedCount = 0;
-      for (const order of orders) {
+      let failed = false;
+      for (const order of validOrders) {
         try {
+          const documentId = `order_${storeId}_${order.id}`;
           const orderContent = this.processor.processOrderData(order);
           
-          await this.indexDocument(orderContent, {
-            type: 'order',
-            storeId,
-            source: 'tiendanube_orders',
-            timestamp: new Date().toISOString(),
-            orderId: order.id?.toString(),
-            orderStatus: order.status || 'unknown',
-            orderTotal: order.total?.toString() || '0',
-          });
-          
-          indexedCount++;
+          await this.syncDocument(
+            storeId, 'orders', documentId, order.id?.toString() || null,
+            orderContent, this.getOrderMetadata(order, storeId),
+            hashes.get(documentId)?.contentHash, counts, build
+          );
         } catch (orderError) {
+          failed = true;
           console.warn(`[UNIFIED-RAG] ⚠️ Failed to index order ${order.id}:`, orderError);
         }
       }
-      
-      return indexedCount;
-    } catch (error: any) {
-      if (error.message?.includes('404') || error.message?.includes('Resource not found')) {
+
+      if (failed && build) {
+        throw new Error('Some orders could not be indexed');
+      }
+      if (!failed) {
+        await this.saveCursor(storeId, 'orders', advanceCursor(cursor, validOrders), build);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('404') || message.includes('Resource not found')) {
         console.log(`[UNIFIED-RAG] ℹ️ Orders endpoint not available for store ${storeId}`);
       } else {
         console.warn('[UNIFIED-RAG] ⚠️ Failed to index orders:', error);
+        if (build) throw error;
+      }
+    }
+
+    return counts;
+  }
+
+  private getProductMetadata(product: TiendaNubeProduct, storeId: string): Partial<DocumentChunk['metadata']> {
+    return {
+      type: 'product',
+      storeId,
+      source: 'tiendanube_products',
+      timestamp: new Date().toISOString(),
+      productId: product.id?.toString(),
+      productName: product.name || 'Producto sin nombre',
+      category: product.categories?.[0]?.name || 'Sin categoría',
+      sku: (product.variants || []).map(variant => variant.sku).filter(Boolean).join(' ') || undefined,
+    };
+  }
+
+  private getOrderMetadata(order: TiendaNubeOrder, storeId: string): Partial<DocumentChunk['metadata']> {
+    return {
+      type: 'order',
+      storeId,
+      source: 'tiendanube_orders',
+      timestamp: new Date().toISOString(),
+      orderId: order.id?.toString(),
+      orderNumber: order.number?.toString(),
+      orderStatus: order.status || 'unknown',
+      orderTotal: order.total?.toString() || '0',
+    };
+  }
+
+  // ===== INCREMENTAL UPDATES (WEBHOOKS) =====
+
+  /**
+   * 🔄 Re-index a single product, replacing its previous chunks
+   */
+  async upsertProduct(storeId: string, product: TiendaNubeProduct): Promise<SyncCounts> {
+    const counts = createSyncCounts();
+    const documentId = `product_${storeId}_${product.id}`;
+    const content = this.processor.processProductData(product);
+
+    await this.syncDocument(
+      storeId, 'products', documentId, product.id?.toString() || null,
+      content, this.getProductMetadata(product, storeId),
+      await RAGSyncState.getHash(storeId, documentId), counts
+    );
+    return counts;
+  }
+
+  /**
+   * 🔄 Re-index a single order, replacing its previous chunks
+   */
+  async upsertOrder(storeId: string, order: TiendaNubeOrder): Promise<SyncCounts> {
+    const counts = createSyncCounts();
+    const documentId = `order_${storeId}_${order.id}`;
+    const content = this.processor.processOrderData(order);
+
+    await this.syncDocument(
+      storeId, 'orders', documentId, order.id?.toString() || null,
+      content, this.getOrderMetadata(order, storeId),
+      await RAGSyncState.getHash(storeId, documentId), counts
+    );
+    return counts;
+  }
+
+  /**
+   * 🗑️ Remove every chunk of a product from the index
+   */
+  async removeProduct(storeId: string, productId: string | number): Promise<number> {
+    const documentId = `product_${storeId}_${productId}`;
+    const namespace = await getActiveNamespace(storeId, 'products');
+    const vectorIds = await this.getDocumentVectorIds(documentId, namespace);
+
+    if (vectorIds.length > 0) {
+      const result = await this.deleteDocuments(vectorIds, namespace);
+      if (!result.success) {
+        throw new Error(result.error || `Failed to delete product ${productId}`);
       }
-      return 0;
     }
+
+    await RAGSyncState.deleteHashes(storeId, [documentId]);
+    return vectorIds.length;
   }
 
   /**
    * Index customers (critical for Customer Service agent)
+   * Delta: only customers updated since the stored cursor are fetched
    */
-  private async indexCustomers(api: TiendaNubeAPI, storeId: string): Promise<number> {
+  private async indexCustomers(api: TiendaNubeAPI, storeId: string, full = false, build?: NamespaceBuild): Promise<SyncCounts> {
+    const counts = createSyncCounts();
+
     try {
-      const customers = await api.getCustomers({ limit: 100 });
+      const cursor = full ? null : await RAGSyncState.getCursor(storeId, 'customers');
+      const hashes = await RAGSyncState.getHashes(storeId, 'customers');
+
+      const validCustomers = await TiendaNubeAPI.collect(api.iterateCustomers({
+        maxItems: cursor ? undefined : INITIAL_HISTORY_LIMIT,
+        updated_at_min: cursor?.lastUpdatedAt || undefined
+      }));
       
-      if (!customers || customers.length === 0) {
-        console.log(`[UNIFIED-RAG] ℹ️ No customers found for store: ${storeId}`);
-        return 0;
+      if (validCustomers.length === 0) {
+        console.log(`[UNIFIED-RAG] ℹ️ No ${cursor ? 'changed ' : ''}customers found for store: ${storeId}`);
+        return counts;
       }
 
-      let indexedCount = 0;
-      for (const customer of customers) {
+      let failed = false;
+      for (const customer of validCustomers) {
         try {
+          const documentId = `customer_${storeId}_${customer.id}`;
           const customerContent = this.processor.processCustomerData(customer);
           
-          await this.indexDocument(customerContent, {
+          await this.syncDocument(storeId, 'customers', documentId, customer.id?.toString() || null, customerContent, {
             type: 'customer',
             storeId,
             source: 'tiendanube_customers',
             timestamp: new Date().toISOString(),
             customerId: customer.id?.toString(),
             customerEmail: customer.email || 'unknown',
-          });
-          
-          indexedCount++;
+          }, hashes.get(documentId)?.contentHash, counts, build);
         } catch (customerError) {
+          failed = true;
           console.warn(`[UNIFIED-RAG] ⚠️ Failed to index customer ${customer.id}:`, customerError);
         }
       }
-      
-      return indexedCount;
-    } catch (error: any) {
-      if (error.message?.includes('404') || error.message?.includes('Resource not found')) {
+
+      if (failed && build) {
+        throw new Error('Some customers could not be indexed');
+      }
+      if (!failed) {
+        await this.saveCursor(storeId, 'customers', advanceCursor(cursor, validCustomers), build);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('404') || message.includes('Resource not found')) {
         console.log(`[UNIFIED-RAG] ℹ️ Customers endpoint not available for store ${storeId}`);
       } else {
         console.warn('[UNIFIED-RAG] ⚠️ Failed to index customers:', error);
+        if (build) throw error;
       }
-      return 0;
     }
+
+    return counts;
   }
 
   /**
    * Index analytics (critical for Analytics agent)
    */
-  private async indexAnalytics(api: TiendaNubeAPI, storeId: string): Promise<number> {
+  private async indexAnalytics(api: TiendaNubeAPI, storeId: string, build?: NamespaceBuild): Promise<SyncCounts> {
+    const counts = createSyncCounts();
+
     try {
       const analytics = await api.getStoreAnalytics();
       const analyticsContent = this.processor.processAnalyticsData(analytics, 'current');
+      const documentId = `analytics_${storeId}_doc`;
       
-      await this.indexDocument(analyticsContent, {
+      await this.syncDocument(storeId, 'analytics', documentId, null, analyticsContent, {
         type: 'analytics',
         storeId,
         source: 'tiendanube_analytics',
         timestamp: new Date().toISOString(),
-      });
-      
-      return 1;
-    } catch (error: any) {
-      if (error.message?.includes('404') || error.message?.includes('Forbidden')) {
+      }, await RAGSyncState.getHash(storeId, documentId), counts, build);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      if (message.includes('404') || message.includes('Forbidden')) {
         console.log(`[UNIFIED-RAG] ℹ️ Analytics endpoint restricted for store ${storeId}`);
       } else {
         console.warn('[UNIFIED-RAG] ⚠️ Failed to index analytics:', error);
+        if (build) throw error;
       }
-      return 0;
     }
+
+    return counts;
   }
 
   // ===== TOKEN MANAGEMENT (ROBUST FALLBACKS) =====
@@ -921,18 +1505,20 @@ export class UnifiedFiniRAGEngine {
   ): Promise<Document[]> {
     try {
       const results: Document[] = [];
+      const version = await getActiveNamespaceVersion(storeId);
 
       // Search across specified namespaces
       for (const namespace of namespaces) {
         try {
-          const vectorStore = await this.getVectorStore(storeId, namespace);
+          const namespaceName = NamespaceStrategy.generateNamespace(storeId, namespace as NamespaceType, version);
+          const vectorStore = await this.getVectorStore(namespaceName);
           const docs = await vectorStore.similaritySearchWithScore(query, Math.ceil(topK / namespaces.length));
           
           // Filter by score threshold and add metadata
           const filteredDocs = docs
             .filter(([, score]) => score >= scoreThreshold)
             .map(([doc, score]) => {
-              doc.metadata = { ...doc.metadata, score, namespace: `store-${storeId}-${namespace}` };
+              doc.metadata = { ...doc.metadata, score, namespace: namespaceName };
               return doc;
             });
 
@@ -956,13 +1542,11 @@ export class UnifiedFiniRAGEngine {
   }
 
   /**
-   * Get vector store instance for specific namespace
+   * Get vector store instance for a full namespace name (see NamespaceStrategy.generateNamespace)
    */
-  private async getVectorStore(storeId: string, namespace: string): Promise<any> {
-    const key = `${storeId}-${namespace}`;
-    
-    if (this.vectorStores.has(key)) {
-      return this.vectorStores.get(key)!;
+  private async getVectorStore(namespace: string): Promise<any> {
+    if (this.vectorStores.has(namespace)) {
+      return this.vectorStores.get(namespace)!;
     }
 
     // Ensure server dependencies are initialized
@@ -971,15 +1555,16 @@ export class UnifiedFiniRAGEngine {
     // Dynamic import of PineconeStore
     const { PineconeStore } = await import('@langchain/community/vectorstores/pinecone');
 
-    const pineconeIndex = this.pinecone.Index(process.env.PINECONE_INDEX_NAME!);
+    const pineconeIndex = this.pinecone.Index(getPineconeIndexName());
     
     const vectorStore = new PineconeStore(this.langchainEmbeddings, {
       pineconeIndex,
-      namespace: `store-${storeId}-${namespace}`,
-      textKey: 'text',
+      namespace,
+      // PineconeVectorStore.upsert stores the chunk text as metadata.content
+      textKey: 'content',
     });
 
-    this.vectorStores.set(key, vectorStore);
+    this.vectorStores.set(namespace, vectorStore);
     return vectorStore;
   }
 
@@ -1100,17 +1685,61 @@ Respuesta detallada:`;
   }
 
   /**
-   * Update document (legacy compatibility)
+   * Replace a document with fresh content in the store's active namespace version:
+   * index the new chunks, then drop the previous ones.
+   * `documentId` is the chunk ID prefix, e.g. `product_<storeId>_<productId>`
    */
-  async updateDocument(documentId: string, content: string, metadata: Partial<DocumentChunk['metadata']>): Promise<void> {
-    await this.indexDocument(content, metadata);
+  async updateDocument(documentId: string, content: string, metadata: Partial<DocumentChunk['metadata']>): Promise<number> {
+    const namespace = metadata.storeId
+      ? await getActiveNamespace(metadata.storeId, NamespaceStrategy.getNamespaceTypeForChunk(metadata.type || 'store'))
+      : undefined;
+    const staleVectorIds = await this.getDocumentVectorIds(documentId, namespace);
+
+    const chunkCount = await this.indexDocument(content, metadata);
+
+    if (staleVectorIds.length > 0) {
+      await this.deleteDocuments(staleVectorIds, namespace);
+      console.log(`[UNIFIED-RAG] 🔄 Replaced ${staleVectorIds.length} stale chunks of ${documentId}`);
+    }
+
+    return chunkCount;
   }
 
   /**
-   * Delete specific documents by vector IDs
+   * List the vector IDs of every chunk of a document in a namespace (default namespace when omitted).
+   * Chunk IDs are `<type>_<storeId>_<entityId>_<chunk>_<suffix>` (see RAGDocumentProcessor)
+   */
+  async getDocumentVectorIds(documentId: string, namespace?: string): Promise<string[]> {
+    try {
+      await this.initializeServerDependencies();
+
+      if (!this.pinecone) {
+        return [];
+      }
+
+      const baseIndex = this.pinecone.Index(getPineconeIndexName());
+      const index = namespace ? baseIndex.namespace(namespace) : baseIndex;
+      const vectorIds: string[] = [];
+      let paginationToken: string | undefined;
+
+      do {
+        const page = await index.listPaginated({ prefix: `${documentId}_`, paginationToken });
+        vectorIds.push(...(page.vectors || []).map((vector: { id?: string }) => vector.id).filter(Boolean));
+        paginationToken = page.pagination?.next;
+      } while (paginationToken);
+
+      return vectorIds;
+    } catch (error) {
+      console.warn(`[UNIFIED-RAG] ⚠️ Failed to list vectors for ${documentId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete specific documents by vector IDs, from one namespace when given
    * 🗑️ NEW: Added for backward compatibility with conversation deletion
    */
-  async deleteDocuments(vectorIds: string[]): Promise<{ success: boolean; deletedCount: number; error?: string }> {
+  async deleteDocuments(vectorIds: string[], namespace?: string): Promise<{ success: boolean; deletedCount: number; error?: string }> {
     try {
       console.log(`[UNIFIED-RAG] 🗑️ Deleting ${vectorIds.length} documents...`);
 
@@ -1121,9 +1750,26 @@ Respuesta detallada:`;
         return { success: false, deletedCount: 0, error: 'Pinecone not initialized' };
       }
 
-      const index = this.pinecone.Index(process.env.PINECONE_INDEX_NAME!);
+      const index = this.pinecone.Index(getPineconeIndexName());
       let totalDeleted = 0;
 
+      if (namespace) {
+        await index.namespace(namespace).deleteMany(vectorIds);
+        await RAGKeywordIndex.deleteChunks(vectorIds);
+        console.log(`[UNIFIED-RAG] ✅ Successfully deleted ${vectorIds.length} documents from ${namespace}`);
+        return { success: true, deletedCount: vectorIds.length };
+      }
+
+      // Chunks written by indexDocument live in the default namespace
+      try {
+        await index.deleteMany(vectorIds);
+        totalDeleted += vectorIds.length;
+      } catch (error) {
+        console.warn('[UNIFIED-RAG] ⚠️ Failed to delete from default namespace:', error);
+      }
+
+      await RAGKeywordIndex.deleteChunks(vectorIds);
+
       // Group vector IDs by namespace if possible
       // For now, try to delete from main namespaces
       const namespaceTypes = ['store', 'products', 'orders', 'customers', 'analytics', 'conversations'];
@@ -4,6 +4,7 @@
  */
 
 import { RAG_CONFIG, RAG_CONSTANTS } from './config';
+import { getActiveNamespaceVersion } from './namespace-versions';
 import type { DocumentChunk, VectorSearchResult, VectorStore, RAGQuery } from './types';
 import { CircuitBreakerManager } from '@/lib/resilience/circuit-breaker';
 import { RetryManager, RetryConfigs } from '@/lib/resilience/retry-manager';
@@ -622,20 +623,23 @@ export class PineconeVectorStore implements VectorStore {
     const operationType = isInitializationPlaceholder ? 'INITIALIZATION' : 'DATA_INDEXING';
     console.log(`[RAG:SECURITY] ✅ Creating namespace for store ${storeId}, type: ${type}, operation: ${operationType}`);
     
+    // Writes outside a rebuild go to the version searches are reading
+    const version = await getActiveNamespaceVersion(storeId);
+    
     switch (type) {
       case 'product':
-        return RAG_CONSTANTS.NAMESPACES.products(storeId);
+        return RAG_CONSTANTS.NAMESPACES.products(storeId, version);
       case 'order':
-        return RAG_CONSTANTS.NAMESPACES.orders(storeId);
+        return RAG_CONSTANTS.NAMESPACES.orders(storeId, version);
       case 'customer':
-        return RAG_CONSTANTS.NAMESPACES.customers(storeId);
+        return RAG_CONSTANTS.NAMESPACES.customers(storeId, version);
       case 'analytics':
-        return RAG_CONSTANTS.NAMESPACES.analytics(storeId);
+        return RAG_CONSTANTS.NAMESPACES.analytics(storeId, version);
       case 'conversation':
         return RAG_CONSTANTS.NAMESPACES.conversations(storeId);
       case 'store':
       default:
-        return RAG_CONSTANTS.NAMESPACES.store(storeId);
+        return RAG_CONSTANTS.NAMESPACES.store(storeId, version);
     }
   }
 
@@ -704,38 +708,41 @@ export class PineconeVectorStore implements VectorStore {
     
     const namespaces: string[] = [];
     
+    // Blue/green: read the active version, a rebuild in progress stays invisible until it is flipped
+    const version = await getActiveNamespaceVersion(storeId);
+    
     // If specific types are filtered, only search those namespaces
     if (filters?.type && filters.type.length > 0) {
       for (const type of filters.type) {
         switch (type) {
           case 'product':
-            namespaces.push(RAG_CONSTANTS.NAMESPACES.products(storeId));
+            namespaces.push(RAG_CONSTANTS.NAMESPACES.products(storeId, version));
             break;
           case 'order':
-            namespaces.push(RAG_CONSTANTS.NAMESPACES.orders(storeId));
+            namespaces.push(RAG_CONSTANTS.NAMESPACES.orders(storeId, version));
             break;
           case 'customer':
-            namespaces.push(RAG_CONSTANTS.NAMESPACES.customers(storeId));
+            namespaces.push(RAG_CONSTANTS.NAMESPACES.customers(storeId, version));
             break;
           case 'analytics':
-            namespaces.push(RAG_CONSTANTS.NAMESPACES.analytics(storeId));
+            namespaces.push(RAG_CONSTANTS.NAMESPACES.analytics(storeId, version));
             break;
           case 'conversation':
             namespaces.push(RAG_CONSTANTS.NAMESPACES.conversations(storeId));
             break;
           case 'store':
-            namespaces.push(RAG_CONSTANTS.NAMESPACES.store(storeId));
+            namespaces.push(RAG_CONSTANTS.NAMESPACES.store(storeId, version));
             break;
         }
       }
     } else {
       // Search all namespaces for the store
       namespaces.push(
-        RAG_CONSTANTS.NAMESPACES.store(storeId),
-        RAG_CONSTANTS.NAMESPACES.products(storeId),
-        RAG_CONSTANTS.NAMESPACES.orders(storeId),
-        RAG_CONSTANTS.NAMESPACES.customers(storeId),
-        RAG_CONSTANTS.NAMESPACES.analytics(storeId),
+        RAG_CONSTANTS.NAMESPACES.store(storeId, version),
+        RAG_CONSTANTS.NAMESPACES.products(storeId, version),
+        RAG_CONSTANTS.NAMESPACES.orders(storeId, version),
+        RAG_CONSTANTS.NAMESPACES.customers(storeId, version),
+        RAG_CONSTANTS.NAMESPACES.analytics(storeId, version),
         RAG_CONSTANTS.NAMESPACES.conversations(storeId)
       );
     }
@@ -812,7 +819,7 @@ export class PineconeVectorStore implements VectorStore {
 
     // Import security functions
     const { validateStoreAccess } = await import('@/lib/security/store-access');
-    const { checkCombinedRateLimit } = await import('@/lib/security/rate-limiter');
+    const { checkCombinedRateLimit, getUserRateLimitPlan } = await import('@/lib/security/rate-limiter');
 
     // 1. Validate store access in database
     const accessResult = await validateStoreAccess(context.userId, context.storeId);
@@ -825,7 +832,8 @@ export class PineconeVectorStore implements VectorStore {
     const rateLimitResult = await checkCombinedRateLimit(
       context.storeId, 
       context.userId, 
-      'rag_search'
+      'rag_search',
+      await getUserRateLimitPlan(context.userId)
     );
 
     if (!rateLimitResult.allowed) {
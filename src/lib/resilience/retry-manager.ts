@@ -144,10 +144,17 @@ export class RetryManager {
     };
   }
 
+  /**
+   * Delay para un reintento programado fuera de executeWithRetry (ej. jobs en cola)
+   */
+  getRetryDelay(attempt: number, config: RetryConfig): number {
+    return this.calculateDelay(attempt, config);
+  }
+
   /**
    * Verifica si un error es retryable
    */
-  private isRetryableError(error: Error, config: RetryConfig): boolean {
+  isRetryableError(error: Error, config: RetryConfig): boolean {
     const errorMessage = error.message.toLowerCase();
     
     // Verificar errores no retryables primero
@@ -306,6 +313,18 @@ export const RetryConfigs = {
     nonRetryableErrors: ['401', '403', 'invalid_request', 'quota_exceeded']
   } as RetryConfig,
 
+  // Para jobs de respuesta de WhatsApp (reintentos entre ejecuciones del worker)
+  WHATSAPP_REPLY: {
+    maxAttempts: 5,
+    baseDelay: 30000,
+    maxDelay: 900000,
+    backoffMultiplier: 3,
+    jitter: true,
+    // Cualquier error que no esté en nonRetryableErrors se reintenta
+    retryableErrors: [''],
+    nonRetryableErrors: ['401', '403', 'authentication', 'authorization', '21211', '21614']
+  } as RetryConfig,
+
   // Para operaciones críticas
   CRITICAL: {
     maxAttempts: 5,
@@ -0,0 +1,175 @@
+import {
+  checkStoreRateLimit,
+  getRateLimitConfig,
+  MemoryRateLimitStore,
+  RATE_LIMITS,
+  setRateLimitStore,
+  type RateLimitStore
+} from '@/lib/security/rate-limiter';
+
+// next/server needs the Fetch API globals, which jsdom does not have
+jest.mock('next/server', () => ({ NextResponse: { json: jest.fn() } }));
+
+// Aligned to the start of a fixed window for every limit below
+const T0 = 3600 * 1000 * 1000;
+
+describe('MemoryRateLimitStore', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = T0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  it('only writes when the key is still at the version that was read', async () => {
+    const store = new MemoryRateLimitStore();
+
+    expect(await store.get('key')).toEqual({ state: null, version: null });
+    expect(await store.compareAndSet('key', null, { count: 1 }, 1000)).toBe(true);
+    // A concurrent writer that also saw the key as new loses
+    expect(await store.compareAndSet('key', null, { count: 1 }, 1000)).toBe(false);
+
+    const current = await store.get('key');
+    expect(current).toEqual({ state: { count: 1 }, version: '1' });
+    expect(await store.compareAndSet('key', current.version, { count: 2 }, 1000)).toBe(true);
+    expect(await store.compareAndSet('key', current.version, { count: 3 }, 1000)).toBe(false);
+    expect((await store.get('key')).state).toEqual({ count: 2 });
+  });
+
+  it('reads expired state as a fresh key', async () => {
+    const store = new MemoryRateLimitStore();
+    await store.compareAndSet('key', null, { tokens: 3 }, 1000);
+
+    now += 1000;
+    expect(await store.get('key')).toEqual({ state: null, version: '1' });
+  });
+});
+
+describe('rate limiting', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = T0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    setRateLimitStore(new MemoryRateLimitStore());
+  });
+
+  afterAll(() => {
+    setRateLimitStore(null);
+  });
+
+  async function consumeMany(storeId: string, operation: 'store_access' | 'agent_query', times: number) {
+    const results = [];
+    for (let index = 0; index < times; index++) {
+      results.push(await checkStoreRateLimit(storeId, operation));
+    }
+    return results;
+  }
+
+  describe('sliding window', () => {
+    const windowMs = RATE_LIMITS.store_access.windowMs;
+    const limit = RATE_LIMITS.store_access.maxRequests;
+
+    it('allows up to the limit inside a window and rejects the next request', async () => {
+      const results = await consumeMany('store-1', 'store_access', limit);
+
+      expect(results.every(result => result.allowed)).toBe(true);
+      expect(results[0].remaining).toBe(limit - 1);
+      expect(results[limit - 1].remaining).toBe(0);
+
+      const rejected = await checkStoreRateLimit('store-1', 'store_access');
+      expect(rejected).toMatchObject({ allowed: false, remaining: 0, resetTime: T0 + windowMs });
+      // The current window alone is full: wait for the next one and for part of this one to slide out
+      expect(rejected.retryAfter).toBe(Math.ceil(windowMs * 1.01));
+    });
+
+    it('weighs the previous window by how much of it still overlaps', async () => {
+      await consumeMany('store-1', 'store_access', limit);
+
+      // Halfway through the next window half of the previous one still counts
+      now = T0 + windowMs * 1.5;
+      const results = await consumeMany('store-1', 'store_access', limit / 2);
+      expect(results.every(result => result.allowed)).toBe(true);
+
+      const rejected = await checkStoreRateLimit('store-1', 'store_access');
+      expect(rejected.allowed).toBe(false);
+      // One more request fits once another 1% of the previous window slides out
+      expect(rejected.retryAfter).toBe(windowMs * 0.01);
+    });
+
+    it('forgets windows that no longer overlap', async () => {
+      await consumeMany('store-1', 'store_access', limit);
+
+      now = T0 + windowMs * 2;
+      expect(await checkStoreRateLimit('store-1', 'store_access')).toMatchObject({ allowed: true, remaining: limit - 1 });
+    });
+
+    it('keeps separate counters per store', async () => {
+      await consumeMany('store-1', 'store_access', limit);
+
+      expect((await checkStoreRateLimit('store-2', 'store_access')).allowed).toBe(true);
+    });
+  });
+
+  describe('token bucket', () => {
+    const windowMs = RATE_LIMITS.agent_query.windowMs;
+    const capacity = RATE_LIMITS.agent_query.maxRequests;
+    const refillMs = windowMs / capacity;
+
+    it('allows a burst up to the capacity', async () => {
+      const results = await consumeMany('store-1', 'agent_query', capacity);
+      expect(results.every(result => result.allowed)).toBe(true);
+
+      const rejected = await checkStoreRateLimit('store-1', 'agent_query');
+      expect(rejected).toMatchObject({ allowed: false, remaining: 0, retryAfter: refillMs });
+      expect(rejected.resetTime).toBe(T0 + windowMs);
+    });
+
+    it('refills tokens continuously', async () => {
+      await consumeMany('store-1', 'agent_query', capacity);
+
+      now = T0 + refillMs * 2;
+      const results = await consumeMany('store-1', 'agent_query', 3);
+      expect(results.map(result => result.allowed)).toEqual([true, true, false]);
+    });
+
+    it('never holds more than the capacity', async () => {
+      await checkStoreRateLimit('store-1', 'agent_query');
+
+      now = T0 + windowMs * 10;
+      expect((await checkStoreRateLimit('store-1', 'agent_query')).remaining).toBe(capacity - 1);
+    });
+  });
+
+  it('multiplies the limits of pro plans', () => {
+    expect(getRateLimitConfig('agent_query', 'pro').maxRequests).toBe(RATE_LIMITS.agent_query.maxRequests * 3);
+    expect(getRateLimitConfig('whatsapp_process', 'pro').maxRequests).toBe(RATE_LIMITS.whatsapp_process.maxRequests);
+  });
+
+  it('allows requests when the store is unavailable', async () => {
+    const failing: RateLimitStore = {
+      name: 'memory',
+      get: async () => { throw new Error('connection refused'); },
+      compareAndSet: async () => false
+    };
+    setRateLimitStore(failing);
+
+    expect(await checkStoreRateLimit('store-1', 'store_access')).toMatchObject({ allowed: true });
+  });
+
+  it('rejects the request when the compare-and-set keeps losing', async () => {
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+      callback();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    const contended: RateLimitStore = {
+      name: 'memory',
+      get: async () => ({ state: null, version: null }),
+      compareAndSet: async () => false
+    };
+    setRateLimitStore(contended);
+
+    expect(await checkStoreRateLimit('store-1', 'store_access')).toMatchObject({ allowed: false, retryAfter: 1000 });
+  });
+});
@@ -1,104 +1,382 @@
 /**
  * Rate Limiting System
  * Prevents abuse and ensures fair resource usage per store and user
+ *
+ * Limits are shared by every serverless instance: the algorithms (sliding window,
+ * token bucket) run here and persist their state through a RateLimitStore with
+ * compare-and-set writes, so the same code runs on Postgres, Redis (Upstash REST)
+ * or in memory (local development and tests).
  */
 
+import { NextResponse } from 'next/server';
+
+import type { PlanType } from '@/lib/plan-restrictions';
+
+export type RateLimitAlgorithm = 'sliding_window' | 'token_bucket';
+
 interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
   keyPrefix: string;
+  // sliding_window (default): at most maxRequests in any windowMs.
+  // token_bucket: bursts of up to maxRequests, refilled at maxRequests per windowMs
+  algorithm?: RateLimitAlgorithm;
 }
 
 interface RateLimitResult {
   allowed: boolean;
+  limit: number;
   remaining: number;
   resetTime: number;
   retryAfter?: number;
 }
 
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-  firstRequest: number;
+// Persisted per key: counters for the sliding window, tokens for the bucket
+interface RateLimitState {
+  count?: number;
+  previousCount?: number;
+  windowStart?: number;
+  tokens?: number;
+  refilledAt?: number;
+}
+
+interface RateLimitDecision {
+  result: RateLimitResult;
+  state: RateLimitState;
+  // After this long without requests the state is equivalent to a fresh key
+  ttlMs: number;
 }
 
+// ===== ALGORITHMS =====
+
 /**
- * In-memory rate limiter with Redis-like interface
- * TODO: Replace with Redis/Upstash in production
+ * Sliding window counter: the previous fixed window counts in proportion to how
+ * much of it still overlaps the sliding window
  */
-class MemoryRateLimiter {
-  private store: Map<string, RateLimitEntry> = new Map();
-  private cleanupInterval: NodeJS.Timeout;
-
-  constructor() {
-    // Cleanup expired entries every 5 minutes
-    this.cleanupInterval = setInterval(() => {
-      this.cleanup();
-    }, 5 * 60 * 1000);
+function slidingWindow(state: RateLimitState | null, config: RateLimitConfig, now: number, cost: number): RateLimitDecision {
+  const { maxRequests: limit, windowMs } = config;
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+
+  let count = 0;
+  let previousCount = 0;
+  if (state?.windowStart === windowStart) {
+    count = state.count || 0;
+    previousCount = state.previousCount || 0;
+  } else if (state?.windowStart === windowStart - windowMs) {
+    previousCount = state.count || 0;
   }
 
-  async check(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
-    const now = Date.now();
-    const fullKey = `${config.keyPrefix}:${key}`;
-    const entry = this.store.get(fullKey);
-
-    // If no entry or window expired, create new one
-    if (!entry || now >= entry.resetTime) {
-      const newEntry: RateLimitEntry = {
-        count: 1,
-        resetTime: now + config.windowMs,
-        firstRequest: now
-      };
-      this.store.set(fullKey, newEntry);
+  const previousWeight = 1 - (now - windowStart) / windowMs;
+  const estimated = previousCount * previousWeight + count;
+  const resetTime = windowStart + windowMs;
 
-      return {
-        allowed: true,
-        remaining: config.maxRequests - 1,
-        resetTime: newEntry.resetTime
-      };
+  if (estimated + cost > limit) {
+    // Wait until enough of the previous window slides out, or for the next window when the current one alone is full
+    let retryAt: number;
+    if (count + cost <= limit && previousCount > 0) {
+      retryAt = windowStart + windowMs * (1 - (limit - count - cost) / previousCount);
+    } else {
+      retryAt = resetTime + Math.max(0, windowMs * (1 - (limit - cost) / Math.max(count, 1)));
     }
 
-    // Check if limit exceeded
-    if (entry.count >= config.maxRequests) {
-      return {
+    return {
+      result: {
         allowed: false,
+        limit,
         remaining: 0,
-        resetTime: entry.resetTime,
-        retryAfter: entry.resetTime - now
-      };
-    }
-
-    // Increment counter
-    entry.count++;
-    this.store.set(fullKey, entry);
+        resetTime,
+        retryAfter: Math.max(1000, Math.ceil(retryAt - now))
+      },
+      state: { count, previousCount, windowStart },
+      ttlMs: 2 * windowMs
+    };
+  }
 
-    return {
+  return {
+    result: {
       allowed: true,
-      remaining: config.maxRequests - entry.count,
-      resetTime: entry.resetTime
-    };
+      limit,
+      remaining: Math.max(0, Math.floor(limit - estimated - cost)),
+      resetTime
+    },
+    state: { count: count + cost, previousCount, windowStart },
+    ttlMs: 2 * windowMs
+  };
+}
+
+/**
+ * Token bucket: holds up to maxRequests tokens, refilled continuously
+ */
+function tokenBucket(state: RateLimitState | null, config: RateLimitConfig, now: number, cost: number): RateLimitDecision {
+  const { maxRequests: capacity, windowMs } = config;
+  const refillPerMs = capacity / windowMs;
+
+  const elapsed = state?.refilledAt !== undefined ? Math.max(0, now - state.refilledAt) : 0;
+  const available = state?.tokens !== undefined
+    ? Math.min(capacity, state.tokens + elapsed * refillPerMs)
+    : capacity;
+
+  const allowed = available >= cost;
+  const tokens = allowed ? available - cost : available;
+
+  return {
+    result: {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(tokens),
+      resetTime: now + Math.ceil((capacity - tokens) / refillPerMs),
+      retryAfter: allowed ? undefined : Math.max(1000, Math.ceil((cost - available) / refillPerMs))
+    },
+    state: { tokens, refilledAt: now },
+    ttlMs: windowMs
+  };
+}
+
+const ALGORITHMS: Record<RateLimitAlgorithm, typeof slidingWindow> = {
+  sliding_window: slidingWindow,
+  token_bucket: tokenBucket
+};
+
+// ===== STORES =====
+
+export interface RateLimitStore {
+  readonly name: 'postgres' | 'redis' | 'memory';
+  // Current state (null when new or expired) and an opaque version for compareAndSet
+  get(key: string): Promise<{ state: RateLimitState | null; version: string | null }>;
+  // Write only if the key is still at `version`; false when a concurrent request got there first
+  compareAndSet(key: string, version: string | null, state: RateLimitState, ttlMs: number): Promise<boolean>;
+}
+
+// Dynamic import so client bundles importing RATE_LIMITS don't pull the server client
+const getSupabase = async () => {
+  const { createServiceClient } = await import('@/lib/supabase/server');
+  return createServiceClient();
+};
+
+/**
+ * Buckets in public.rate_limit_buckets, versioned for optimistic concurrency
+ */
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = 'postgres' as const;
+
+  private writes = 0;
+
+  async get(key: string): Promise<{ state: RateLimitState | null; version: string | null }> {
+    const supabase = await getSupabase();
+    const { data, error } = await supabase
+      .from('rate_limit_buckets')
+      .select('state, version, expires_at')
+      .eq('key', key)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to read rate limit bucket: ${error.message}`);
+    }
+    if (!data) {
+      return { state: null, version: null };
+    }
+
+    const expired = new Date(data.expires_at).getTime() <= Date.now();
+    return { state: expired ? null : data.state, version: String(data.version) };
   }
 
-  private cleanup(): void {
-    const now = Date.now();
-    const entries = Array.from(this.store.entries());
-    for (const [key, entry] of entries) {
-      if (now >= entry.resetTime) {
-        this.store.delete(key);
+  async compareAndSet(key: string, version: string | null, state: RateLimitState, ttlMs: number): Promise<boolean> {
+    const supabase = await getSupabase();
+    const expiresAt = new Date(Date.now() + ttlMs).toISOString();
+
+    this.purgeExpiredOccasionally();
+
+    if (version === null) {
+      const { data, error } = await supabase
+        .from('rate_limit_buckets')
+        .upsert({ key, state, version: 1, expires_at: expiresAt }, { onConflict: 'key', ignoreDuplicates: true })
+        .select('key');
+
+      if (error) {
+        throw new Error(`Failed to create rate limit bucket: ${error.message}`);
       }
+      return (data?.length || 0) > 0;
+    }
+
+    const { data, error } = await supabase
+      .from('rate_limit_buckets')
+      .update({ state, version: Number(version) + 1, expires_at: expiresAt, updated_at: new Date().toISOString() })
+      .eq('key', key)
+      .eq('version', Number(version))
+      .select('key');
+
+    if (error) {
+      throw new Error(`Failed to update rate limit bucket: ${error.message}`);
+    }
+    return (data?.length || 0) > 0;
+  }
+
+  // Expired buckets are harmless (read as fresh); drop them every few hundred writes
+  private purgeExpiredOccasionally(): void {
+    this.writes++;
+    if (this.writes % 500 !== 0) return;
+
+    getSupabase()
+      .then(supabase => supabase.from('rate_limit_buckets').delete().lt('expires_at', new Date().toISOString()))
+      .then(({ error }) => {
+        if (error) console.warn('[RATE_LIMIT] Failed to purge expired buckets:', error.message);
+      })
+      .catch(error => console.warn('[RATE_LIMIT] Failed to purge expired buckets:', error));
+  }
+}
+
+// Atomic compare-and-set on the serialized state
+const REDIS_CAS_SCRIPT = `
+local current = redis.call('GET', KEYS[1])
+if (current or '') ~= ARGV[1] then return 0 end
+redis.call('SET', KEYS[1], ARGV[2], 'PX', ARGV[3])
+return 1
+`;
+
+/**
+ * Upstash Redis over its REST API (no client dependency); keys expire with their bucket
+ */
+export class RedisRateLimitStore implements RateLimitStore {
+  readonly name = 'redis' as const;
+
+  constructor(private url: string, private token: string) {}
+
+  private async command<T>(args: (string | number)[]): Promise<T> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(args)
+    });
+
+    const payload = await response.json().catch(() => null) as { result?: T; error?: string } | null;
+    if (!response.ok || !payload || payload.error) {
+      throw new Error(`Redis command ${args[0]} failed: ${payload?.error || response.status}`);
+    }
+    return payload.result as T;
+  }
+
+  async get(key: string): Promise<{ state: RateLimitState | null; version: string | null }> {
+    const raw = await this.command<string | null>(['GET', `ratelimit:${key}`]);
+    return { state: raw ? JSON.parse(raw) : null, version: raw };
+  }
+
+  async compareAndSet(key: string, version: string | null, state: RateLimitState, ttlMs: number): Promise<boolean> {
+    const result = await this.command<number>([
+      'EVAL', REDIS_CAS_SCRIPT, 1, `ratelimit:${key}`, version || '', JSON.stringify(state), Math.ceil(ttlMs)
+    ]);
+    return result === 1;
+  }
+}
+
+/**
+ * Single-instance store for local development and tests
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory' as const;
+
+  private buckets = new Map<string, { state: RateLimitState; version: number; expiresAt: number }>();
+
+  async get(key: string): Promise<{ state: RateLimitState | null; version: string | null }> {
+    const bucket = this.buckets.get(key);
+    if (!bucket) {
+      return { state: null, version: null };
+    }
+    return { state: bucket.expiresAt > Date.now() ? { ...bucket.state } : null, version: String(bucket.version) };
+  }
+
+  async compareAndSet(key: string, version: string | null, state: RateLimitState, ttlMs: number): Promise<boolean> {
+    const bucket = this.buckets.get(key);
+    if ((bucket ? String(bucket.version) : null) !== version) {
+      return false;
     }
+
+    this.buckets.set(key, { state: { ...state }, version: (bucket?.version || 0) + 1, expiresAt: Date.now() + ttlMs });
+    return true;
+  }
+
+  clear(): void {
+    this.buckets.clear();
   }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * Redis when Upstash is configured, Postgres when a service role key is, in-memory otherwise.
+ * RATE_LIMIT_STORE=postgres|redis|memory forces one
+ */
+export function getRateLimitStore(): RateLimitStore {
+  if (!store) {
+    const forced = process.env.RATE_LIMIT_STORE;
+    const redisUrl = process.env.UPSTASH_REDIS_REST_URL;
+    const redisToken = process.env.UPSTASH_REDIS_REST_TOKEN;
+    const hasPostgres = !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.SUPABASE_SERVICE_ROLE_KEY;
 
-  destroy(): void {
-    if (this.cleanupInterval) {
-      clearInterval(this.cleanupInterval);
+    if ((forced === 'redis' || (!forced && redisUrl)) && redisUrl && redisToken) {
+      store = new RedisRateLimitStore(redisUrl, redisToken);
+    } else if ((forced === 'postgres' || !forced) && hasPostgres) {
+      store = new PostgresRateLimitStore();
+    } else {
+      store = new MemoryRateLimitStore();
     }
-    this.store.clear();
+    console.log(`[RATE_LIMIT] Using ${store.name} rate limit store`);
   }
+  return store;
 }
 
-// Singleton instance
-const rateLimiter = new MemoryRateLimiter();
+/**
+ * Swap the store (tests use a MemoryRateLimitStore)
+ */
+export function setRateLimitStore(next: RateLimitStore | null): void {
+  store = next;
+}
+
+// ===== LIMITER =====
+
+// Concurrent requests on the same key retry their compare-and-set this many times
+const CAS_ATTEMPTS = 5;
+
+async function consume(
+  key: string,
+  config: RateLimitConfig,
+  options: { cost?: number; dryRun?: boolean } = {}
+): Promise<RateLimitResult> {
+  const cost = options.cost ?? 1;
+  const fullKey = `${config.keyPrefix}:${key}`;
+  const algorithm = ALGORITHMS[config.algorithm || 'sliding_window'];
+
+  try {
+    const limiterStore = getRateLimitStore();
+
+    for (let attempt = 1; attempt <= CAS_ATTEMPTS; attempt++) {
+      const now = Date.now();
+      const current = await limiterStore.get(fullKey);
+      const decision = algorithm(current.state, config, now, cost);
+
+      // Rejected requests don't consume anything, and status checks never write
+      if (options.dryRun || !decision.result.allowed) {
+        return decision.result;
+      }
+
+      if (await limiterStore.compareAndSet(fullKey, current.version, decision.state, decision.ttlMs)) {
+        return decision.result;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, Math.random() * 20 * attempt));
+    }
+
+    // Only a key hammered by many concurrent requests gets here
+    console.warn(`[RATE_LIMIT] Contention on ${fullKey} - rejecting request`);
+    return { allowed: false, limit: config.maxRequests, remaining: 0, resetTime: Date.now() + 1000, retryAfter: 1000 };
+  } catch (error) {
+    // Fail open: a storage outage must not take chat and syncs down with it
+    console.warn(`[RATE_LIMIT] Store unavailable for ${fullKey}, allowing request:`, error);
+    return { allowed: true, limit: config.maxRequests, remaining: config.maxRequests, resetTime: Date.now() + config.windowMs };
+  }
+}
 
 /**
  * Rate limiting configurations for different operations
@@ -108,67 +386,137 @@ export const RATE_LIMITS = {
   store_access: {
     maxRequests: 100,
     windowMs: 15 * 60 * 1000, // 15 minutes
-    keyPrefix: 'store_access'
+    keyPrefix: 'store_access',
+    algorithm: 'sliding_window'
   },
-  
+
   // RAG/Vector searches (more expensive)
   rag_search: {
     maxRequests: 50,
     windowMs: 15 * 60 * 1000, // 15 minutes
-    keyPrefix: 'rag_search'
+    keyPrefix: 'rag_search',
+    algorithm: 'token_bucket'
   },
-  
-  // Agent queries (AI generation)
+
+  // Agent queries (AI generation) - chat comes in bursts, so a bucket
   agent_query: {
     maxRequests: 30,
     windowMs: 15 * 60 * 1000, // 15 minutes
-    keyPrefix: 'agent_query'
+    keyPrefix: 'agent_query',
+    algorithm: 'token_bucket'
   },
-  
+
   // WhatsApp message processing
   whatsapp_process: {
     maxRequests: 200,
     windowMs: 15 * 60 * 1000, // 15 minutes
-    keyPrefix: 'whatsapp'
+    keyPrefix: 'whatsapp',
+    algorithm: 'sliding_window'
   },
-  
+
   // Data indexing operations
   data_indexing: {
     maxRequests: 20,
     windowMs: 60 * 60 * 1000, // 1 hour
-    keyPrefix: 'data_index'
+    keyPrefix: 'data_index',
+    algorithm: 'sliding_window'
   },
-  
+
   // Tienda Nube API calls
   tiendanube_api: {
     maxRequests: 500,
     windowMs: 60 * 60 * 1000, // 1 hour
-    keyPrefix: 'tn_api'
+    keyPrefix: 'tn_api',
+    algorithm: 'sliding_window'
   }
 } as const;
 
+export type RateLimitOperation = keyof typeof RATE_LIMITS;
+
+/**
+ * Per-plan quotas: multiplier applied to the base limits of the listed operations
+ */
+export const PLAN_RATE_LIMITS: Record<PlanType, { multiplier: number; operations: readonly RateLimitOperation[] }> = {
+  basic: {
+    multiplier: 1,
+    operations: []
+  },
+  pro: {
+    multiplier: 3, // 3x limits for Pro plan
+    operations: ['rag_search', 'agent_query', 'data_indexing', 'store_access']
+  }
+};
+
+/**
+ * Limits of an operation for a plan
+ */
+export function getRateLimitConfig(operation: RateLimitOperation, plan: PlanType = 'basic'): RateLimitConfig {
+  const base = RATE_LIMITS[operation];
+  const planLimits = PLAN_RATE_LIMITS[plan] || PLAN_RATE_LIMITS.basic;
+  const multiplier = planLimits.operations.includes(operation) ? planLimits.multiplier : 1;
+
+  return {
+    maxRequests: base.maxRequests * multiplier,
+    windowMs: base.windowMs,
+    keyPrefix: base.keyPrefix,
+    algorithm: base.algorithm
+  };
+}
+
+const PLAN_CACHE_TTL_MS = 5 * 60 * 1000;
+const planCache = new Map<string, { plan: PlanType; expiresAt: number }>(); // userId -> plan
+
+/**
+ * Plan of a user for quota purposes (enterprise counts as pro, anything unknown as basic)
+ */
+export async function getUserRateLimitPlan(userId: string): Promise<PlanType> {
+  const cached = planCache.get(userId);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.plan;
+  }
+
+  let plan: PlanType = 'basic';
+  try {
+    const supabase = await getSupabase();
+    const { data } = await supabase
+      .from('users')
+      .select('subscription_plan')
+      .eq('id', userId)
+      .maybeSingle();
+
+    plan = ['pro', 'enterprise'].includes(data?.subscription_plan) ? 'pro' : 'basic';
+  } catch (error) {
+    console.warn(`[RATE_LIMIT] Failed to read plan of user ${userId}, using basic limits:`, error);
+  }
+
+  planCache.set(userId, { plan, expiresAt: Date.now() + PLAN_CACHE_TTL_MS });
+  return plan;
+}
+
 /**
  * Check rate limit for store-specific operations
  */
 export async function checkStoreRateLimit(
   storeId: string,
-  operation: keyof typeof RATE_LIMITS,
-  userId?: string
+  operation: RateLimitOperation,
+  userId?: string,
+  plan: PlanType = 'basic'
 ): Promise<RateLimitResult> {
-  const config = RATE_LIMITS[operation];
+  const config = getRateLimitConfig(operation, plan);
   const key = userId ? `${storeId}:${userId}` : storeId;
-  
-  const result = await rateLimiter.check(key, config);
-  
+
+  const result = await consume(key, config);
+
   // Log rate limiting events
   if (!result.allowed) {
     console.warn(`[RATE_LIMIT] ${operation} blocked for store ${storeId}${userId ? ` user ${userId}` : ''}`, {
+      plan,
       remaining: result.remaining,
       retryAfter: result.retryAfter,
       resetTime: new Date(result.resetTime).toISOString()
     });
   }
-  
+
   return result;
 }
 
@@ -177,20 +525,22 @@ export async function checkStoreRateLimit(
  */
 export async function checkUserRateLimit(
   userId: string,
-  operation: keyof typeof RATE_LIMITS
+  operation: RateLimitOperation,
+  plan: PlanType = 'basic'
 ): Promise<RateLimitResult> {
-  const config = RATE_LIMITS[operation];
-  
-  const result = await rateLimiter.check(userId, config);
-  
+  const config = getRateLimitConfig(operation, plan);
+
+  const result = await consume(userId, config);
+
   if (!result.allowed) {
     console.warn(`[RATE_LIMIT] ${operation} blocked for user ${userId}`, {
+      plan,
       remaining: result.remaining,
       retryAfter: result.retryAfter,
       resetTime: new Date(result.resetTime).toISOString()
     });
   }
-  
+
   return result;
 }
 
@@ -200,7 +550,8 @@ export async function checkUserRateLimit(
 export async function checkCombinedRateLimit(
   storeId: string,
   userId: string,
-  operation: keyof typeof RATE_LIMITS
+  operation: RateLimitOperation,
+  plan: PlanType = 'basic'
 ): Promise<{
   allowed: boolean;
   storeLimit: RateLimitResult;
@@ -208,13 +559,13 @@ export async function checkCombinedRateLimit(
   blockedBy?: 'store' | 'user';
 }> {
   const [storeLimit, userLimit] = await Promise.all([
-    checkStoreRateLimit(storeId, operation, userId),
-    checkUserRateLimit(userId, operation)
+    checkStoreRateLimit(storeId, operation, userId, plan),
+    checkUserRateLimit(userId, operation, plan)
   ]);
-  
+
   const allowed = storeLimit.allowed && userLimit.allowed;
   const blockedBy = !storeLimit.allowed ? 'store' : !userLimit.allowed ? 'user' : undefined;
-  
+
   if (!allowed) {
     console.warn(`[RATE_LIMIT] Combined ${operation} blocked for store ${storeId} user ${userId}`, {
       blockedBy,
@@ -222,7 +573,7 @@ export async function checkCombinedRateLimit(
       userRemaining: userLimit.remaining
     });
   }
-  
+
   return {
     allowed,
     storeLimit,
@@ -232,106 +583,88 @@ export async function checkCombinedRateLimit(
 }
 
 /**
- * Middleware function for route protection
+ * Standard rate limit headers (IETF RateLimit fields) plus Retry-After when blocked
  */
-export function createRateLimitMiddleware(operation: keyof typeof RATE_LIMITS) {
-  return async (req: Request, storeId: string, userId: string) => {
-    const result = await checkCombinedRateLimit(storeId, userId, operation);
-    
-    if (!result.allowed) {
-      const retryAfter = Math.max(
-        result.storeLimit.retryAfter || 0,
-        result.userLimit.retryAfter || 0
-      );
-      
-      throw new Error(`Rate limit exceeded for ${operation}. Try again in ${Math.ceil(retryAfter / 1000)} seconds.`);
-    }
-    
-    return result;
+export function getRateLimitHeaders(result: RateLimitResult, config?: RateLimitConfig): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.limit),
+    'RateLimit-Remaining': String(Math.max(0, result.remaining)),
+    'RateLimit-Reset': String(Math.max(0, Math.ceil((result.resetTime - Date.now()) / 1000)))
   };
+
+  if (config) {
+    headers['RateLimit-Policy'] = `${config.maxRequests};w=${Math.ceil(config.windowMs / 1000)}`;
+  }
+  if (!result.allowed && result.retryAfter) {
+    headers['Retry-After'] = String(Math.ceil(result.retryAfter / 1000));
+  }
+
+  return headers;
 }
 
 /**
- * Get rate limit status for monitoring
+ * Middleware function for route protection.
+ * Returns the headers to attach to the response and, when the request is over
+ * its quota, a ready 429 response:
+ *
+ *   const rateLimit = await chatRateLimit(request, storeId, user.id);
+ *   if (rateLimit.response) return rateLimit.response;
  */
-export async function getRateLimitStatus(storeId: string, userId: string): Promise<{
-  [K in keyof typeof RATE_LIMITS]: {
+export function createRateLimitMiddleware(operation: RateLimitOperation) {
+  return async (req: Request, storeId: string, userId: string, plan?: PlanType) => {
+    const resolvedPlan = plan || await getUserRateLimitPlan(userId);
+    const result = await checkCombinedRateLimit(storeId, userId, operation, resolvedPlan);
+
+    // Report the limit closest to being hit
+    const binding = result.blockedBy === 'user' || (!result.blockedBy && result.userLimit.remaining < result.storeLimit.remaining)
+      ? result.userLimit
+      : result.storeLimit;
+    const headers = getRateLimitHeaders(binding, getRateLimitConfig(operation, resolvedPlan));
+
+    if (!result.allowed) {
+      const retryAfterSeconds = Math.ceil((binding.retryAfter || 0) / 1000);
+      return {
+        ...result,
+        plan: resolvedPlan,
+        headers,
+        response: NextResponse.json(
+          { success: false, error: `Rate limit exceeded for ${operation}. Try again in ${retryAfterSeconds} seconds.` },
+          { status: 429, headers }
+        )
+      };
+    }
+
+    return { ...result, plan: resolvedPlan, headers, response: null };
+  };
+}
+
+type RateLimitStatus = {
+  [K in RateLimitOperation]: {
     store: RateLimitResult;
     user: RateLimitResult;
     healthy: boolean;
   }
-}> {
-  const results: any = {};
-  
-  for (const operation of Object.keys(RATE_LIMITS) as (keyof typeof RATE_LIMITS)[]) {
+};
+
+/**
+ * Get rate limit status for monitoring (does not consume any quota)
+ */
+export async function getRateLimitStatus(storeId: string, userId: string, plan: PlanType = 'basic'): Promise<RateLimitStatus> {
+  const results = {} as RateLimitStatus;
+
+  for (const operation of Object.keys(RATE_LIMITS) as RateLimitOperation[]) {
+    const config = getRateLimitConfig(operation, plan);
     const [storeResult, userResult] = await Promise.all([
-      checkStoreRateLimit(storeId, operation, userId),
-      checkUserRateLimit(userId, operation)
+      consume(`${storeId}:${userId}`, config, { dryRun: true }),
+      consume(userId, config, { dryRun: true })
     ]);
-    
-    // Don't increment counters, just check status
+
     results[operation] = {
       store: storeResult,
       user: userResult,
       healthy: storeResult.remaining > 5 && userResult.remaining > 5
     };
   }
-  
-  return results;
-}
-
-/**
- * Premium plan rate limit overrides
- */
-export const PREMIUM_RATE_LIMITS = {
-  pro: {
-    multiplier: 3, // 3x limits for Pro plan
-    operations: ['rag_search', 'agent_query', 'data_indexing'] as const
-  },
-  enterprise: {
-    multiplier: 10, // 10x limits for Enterprise plan
-    operations: ['rag_search', 'agent_query', 'data_indexing', 'store_access'] as const
-  }
-} as const;
 
-/**
- * Check rate limit with subscription plan adjustments
- */
-export async function checkPremiumRateLimit(
-  storeId: string,
-  userId: string,
-  operation: keyof typeof RATE_LIMITS,
-  subscriptionPlan: 'free' | 'pro' | 'enterprise' = 'free'
-): Promise<RateLimitResult> {
-  const baseConfig = RATE_LIMITS[operation];
-  
-  // Create a new config object with potentially adjusted limits
-  const config: RateLimitConfig = {
-    maxRequests: baseConfig.maxRequests,
-    windowMs: baseConfig.windowMs,
-    keyPrefix: baseConfig.keyPrefix
-  };
-  
-  // Apply premium multipliers
-  if (subscriptionPlan === 'pro' && (PREMIUM_RATE_LIMITS.pro.operations as readonly string[]).includes(operation)) {
-    config.maxRequests = baseConfig.maxRequests * PREMIUM_RATE_LIMITS.pro.multiplier;
-  } else if (subscriptionPlan === 'enterprise' && (PREMIUM_RATE_LIMITS.enterprise.operations as readonly string[]).includes(operation)) {
-    config.maxRequests = baseConfig.maxRequests * PREMIUM_RATE_LIMITS.enterprise.multiplier;
-  }
-  
-  const key = `${storeId}:${userId}`;
-  const result = await rateLimiter.check(key, config);
-  
-  if (!result.allowed) {
-    console.warn(`[RATE_LIMIT:PREMIUM] ${operation} blocked for ${subscriptionPlan} user ${userId} store ${storeId}`, {
-      plan: subscriptionPlan,
-      limit: config.maxRequests,
-      remaining: result.remaining
-    });
-  }
-  
-  return result;
+  return results;
 }
-
-// Export rate limiter instance for cleanup in tests
-export { rateLimiter }; 
\ No newline at end of file
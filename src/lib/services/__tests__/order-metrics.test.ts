@@ -0,0 +1,151 @@
+import {
+  compareOrderMetrics,
+  computeDelta,
+  computeOrderMetrics,
+  getPreviousRange
+} from '@/lib/services/order-metrics';
+import type { TiendaNubeOrder, TiendaNubeProduct } from '@/types/tiendanube';
+
+let nextId = 1;
+
+function order(overrides: Partial<TiendaNubeOrder> & { items?: Array<{ product_id: number; price: string; quantity: number }> } = {}): TiendaNubeOrder {
+  const { items = [], ...fields } = overrides;
+  const id = nextId++;
+  return {
+    id,
+    number: id,
+    status: 'open',
+    payment_status: 'paid',
+    total: '0',
+    gateway: 'mercadopago',
+    created_at: '2024-03-10T12:00:00.000Z',
+    customer: { id, email: `customer${id}@example.com` },
+    products: items,
+    ...fields
+  } as unknown as TiendaNubeOrder;
+}
+
+const MARCH = {
+  start: new Date('2024-03-01T00:00:00.000Z'),
+  end: new Date('2024-03-31T23:59:59.999Z')
+};
+
+describe('computeOrderMetrics', () => {
+  it('only counts orders created inside the range', () => {
+    const metrics = computeOrderMetrics([
+      order({ total: '100', created_at: '2024-03-01T00:00:00.000Z' }),
+      order({ total: '200', created_at: '2024-03-31T23:59:59.999Z' }),
+      order({ total: '400', created_at: '2024-02-29T23:59:59.999Z' }),
+      order({ total: '800', created_at: '2024-04-01T00:00:00.000Z' })
+    ], MARCH);
+
+    expect(metrics.totalOrders).toBe(2);
+    expect(metrics.revenue).toBe(300);
+  });
+
+  it('counts revenue from paid orders that were not cancelled', () => {
+    const metrics = computeOrderMetrics([
+      order({ total: '100.50' }),
+      order({ total: '49.25' }),
+      order({ total: '1000', payment_status: 'pending' }),
+      order({ total: '500', payment_status: 'authorized' }),
+      order({ total: '300', payment_status: 'paid', status: 'cancelled' })
+    ], MARCH);
+
+    expect(metrics.totalOrders).toBe(5);
+    expect(metrics.paidOrders).toBe(2);
+    expect(metrics.cancelledOrders).toBe(1);
+    expect(metrics.revenue).toBe(149.75);
+    expect(metrics.averageOrderValue).toBe(74.88);
+    expect(metrics.conversion).toEqual({
+      paymentRate: 0.4,
+      cancellationRate: 0.2,
+      pendingPaymentRate: 0.4
+    });
+  });
+
+  it('breaks revenue down by category and payment method', () => {
+    const products = [
+      { id: 1, categories: [{ name: { es: 'Remeras', en: 'T-shirts' } }] },
+      { id: 2, categories: [{ name: 'Accesorios' }] }
+    ] as unknown as TiendaNubeProduct[];
+
+    const metrics = computeOrderMetrics([
+      order({
+        total: '250',
+        gateway: 'mercadopago',
+        items: [
+          { product_id: 1, price: '50', quantity: 3 },
+          { product_id: 2, price: '100', quantity: 1 }
+        ]
+      }),
+      order({
+        total: '30',
+        gateway: '',
+        payment_details: { method: 'transferencia' },
+        items: [{ product_id: 99, price: '15', quantity: 2 }]
+      })
+    ], MARCH, products);
+
+    expect(metrics.unitsSold).toBe(6);
+    expect(metrics.revenueByCategory).toEqual({
+      Remeras: 150,
+      Accesorios: 100,
+      'Sin categoría': 30
+    });
+    expect(metrics.revenueByPaymentMethod).toEqual({
+      mercadopago: 250,
+      transferencia: 30
+    });
+  });
+
+  it('identifies repeat customers by id or email', () => {
+    const metrics = computeOrderMetrics([
+      order({ total: '10', customer: { id: 7 } as TiendaNubeOrder['customer'] }),
+      order({ total: '10', customer: { id: 7 } as TiendaNubeOrder['customer'] }),
+      order({ total: '10', customer: { email: 'Ana@Example.com' } as TiendaNubeOrder['customer'] }),
+      order({ total: '10', customer: { email: 'ana@example.com' } as TiendaNubeOrder['customer'] }),
+      order({ total: '10', customer: { id: 8 } as TiendaNubeOrder['customer'] }),
+      // Unpaid orders do not make a customer a repeat one
+      order({ total: '10', customer: { id: 8 } as TiendaNubeOrder['customer'], payment_status: 'pending' })
+    ], MARCH);
+
+    expect(metrics.uniqueCustomers).toBe(3);
+    expect(metrics.repeatCustomers).toBe(2);
+    expect(metrics.repeatPurchaseRate).toBe(0.6667);
+  });
+
+  it('returns zeroes for an empty range', () => {
+    const metrics = computeOrderMetrics([], MARCH);
+
+    expect(metrics.totalOrders).toBe(0);
+    expect(metrics.revenue).toBe(0);
+    expect(metrics.averageOrderValue).toBe(0);
+    expect(metrics.repeatPurchaseRate).toBe(0);
+    expect(metrics.conversion.paymentRate).toBe(0);
+  });
+});
+
+describe('compareOrderMetrics', () => {
+  it('compares against the range of the same length right before', () => {
+    const range = {
+      start: new Date('2024-03-08T00:00:00.000Z'),
+      end: new Date('2024-03-14T23:59:59.999Z')
+    };
+    const previous = getPreviousRange(range);
+
+    expect(previous.end.toISOString()).toBe('2024-03-07T23:59:59.999Z');
+    expect(previous.start.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+
+    const comparison = compareOrderMetrics([
+      order({ total: '150', created_at: '2024-03-10T12:00:00.000Z' }),
+      order({ total: '100', created_at: '2024-03-03T12:00:00.000Z' })
+    ], range);
+
+    expect(comparison.deltas.revenue).toEqual({ current: 150, previous: 100, absolute: 50, percent: 50 });
+  });
+
+  it('has no percentage change when the previous value is 0', () => {
+    expect(computeDelta(10, 0).percent).toBeNull();
+  });
+});
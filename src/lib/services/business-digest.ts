@@ -0,0 +1,235 @@
+/**
+ * Business Digest
+ * Scheduled daily / weekly / monthly summary of a store: sales against the
+ * previous period, top products, low stock and orders that need attention.
+ * Pure functions only (no I/O), like the order metrics engine it builds on.
+ */
+
+import type { TiendaNubeOrder, TiendaNubeProduct } from '@/types/tiendanube';
+
+import {
+  compareOrderMetrics,
+  formatCurrency,
+  type MetricDelta,
+  type MetricsDateRange
+} from './order-metrics';
+
+export type DigestSection = 'sales' | 'top_products' | 'low_stock' | 'pending_orders';
+
+export const DIGEST_SECTIONS: DigestSection[] = ['sales', 'top_products', 'low_stock', 'pending_orders'];
+
+export interface DigestProduct {
+  name: string;
+  units: number;
+  revenue: number;
+}
+
+export interface DigestStockItem {
+  name: string;
+  stock: number;
+}
+
+export interface BusinessDigest {
+  storeName: string;
+  // "diario (18/10)", "semanal (12/10 al 18/10)", "mensual (septiembre 2026)"…
+  periodLabel: string;
+  range: { start: string; end: string };
+  currency: string;
+  sections: DigestSection[];
+  sales?: {
+    revenue: number;
+    paidOrders: number;
+    averageOrderValue: number;
+    unitsSold: number;
+    revenueDelta: MetricDelta;
+    paidOrdersDelta: MetricDelta;
+  };
+  topProducts?: DigestProduct[];
+  lowStock?: DigestStockItem[];
+  pendingOrders?: {
+    awaitingPayment: number;
+    awaitingShipment: number;
+  };
+}
+
+export interface BuildDigestInput {
+  storeName: string;
+  periodLabel: string;
+  range: MetricsDateRange;
+  previousRange: MetricsDateRange;
+  sections: DigestSection[];
+  // Orders created in either range
+  orders: TiendaNubeOrder[];
+  // Open orders of any date, for the pending section
+  openOrders?: TiendaNubeOrder[];
+  products: TiendaNubeProduct[];
+  lowStockThreshold?: number;
+}
+
+const TOP_PRODUCTS_LIMIT = 3;
+const LOW_STOCK_LIMIT = 5;
+const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '0'));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function productName(product: TiendaNubeProduct): string {
+  return typeof product.name === 'object' && product.name !== null
+    ? (product.name as Record<string, string>).es || Object.values(product.name as Record<string, string>)[0]
+    : product.name;
+}
+
+function isInRange(order: TiendaNubeOrder, range: MetricsDateRange): boolean {
+  const createdAt = new Date(order.created_at).getTime();
+  return createdAt >= range.start.getTime() && createdAt <= range.end.getTime();
+}
+
+/**
+ * Best sellers of the period by units, from paid orders
+ */
+function computeTopProducts(orders: TiendaNubeOrder[], range: MetricsDateRange): DigestProduct[] {
+  const byProduct = new Map<number, DigestProduct>();
+
+  orders
+    .filter(order => order.payment_status === 'paid' && order.status !== 'cancelled' && isInRange(order, range))
+    .forEach(order => (order.products || []).forEach(item => {
+      const quantity = toNumber(item.quantity);
+      const current = byProduct.get(item.product_id) || { name: item.name, units: 0, revenue: 0 };
+      current.units += quantity;
+      current.revenue += toNumber(item.price) * quantity;
+      byProduct.set(item.product_id, current);
+    }));
+
+  return Array.from(byProduct.values())
+    .sort((a, b) => b.units - a.units || b.revenue - a.revenue)
+    .slice(0, TOP_PRODUCTS_LIMIT);
+}
+
+/**
+ * Tracked variants at or below the threshold, lowest first
+ */
+function computeLowStock(products: TiendaNubeProduct[], threshold: number): DigestStockItem[] {
+  return products
+    .flatMap(product => (product.variants || [])
+      .filter(variant => variant.stock_management && variant.stock !== null && toNumber(variant.stock) <= threshold)
+      .map(variant => ({
+        name: product.variants.length > 1 && variant.sku ? `${productName(product)} (${variant.sku})` : productName(product),
+        stock: toNumber(variant.stock)
+      })))
+    .sort((a, b) => a.stock - b.stock)
+    .slice(0, LOW_STOCK_LIMIT);
+}
+
+/**
+ * Open orders still waiting for payment, or paid and not shipped yet
+ */
+function computePendingOrders(orders: TiendaNubeOrder[]) {
+  const open = orders.filter(order => order.status === 'open');
+  return {
+    awaitingPayment: open.filter(order => order.payment_status === 'pending' || order.payment_status === 'authorized').length,
+    awaitingShipment: open.filter(order =>
+      order.payment_status === 'paid' && (order.shipping_status === 'unpacked' || order.shipping_status === 'unfulfilled')
+    ).length
+  };
+}
+
+/**
+ * Compute the digest sections requested for a schedule
+ */
+export function buildBusinessDigest(input: BuildDigestInput): BusinessDigest {
+  const orders = Array.isArray(input.orders) ? input.orders : [];
+  const currency = orders[0]?.currency || 'ARS';
+  const digest: BusinessDigest = {
+    storeName: input.storeName,
+    periodLabel: input.periodLabel,
+    range: { start: input.range.start.toISOString(), end: input.range.end.toISOString() },
+    currency,
+    sections: input.sections
+  };
+
+  if (input.sections.includes('sales')) {
+    const comparison = compareOrderMetrics(orders, input.range, input.previousRange, input.products);
+    digest.sales = {
+      revenue: comparison.current.revenue,
+      paidOrders: comparison.current.paidOrders,
+      averageOrderValue: comparison.current.averageOrderValue,
+      unitsSold: comparison.current.unitsSold,
+      revenueDelta: comparison.deltas.revenue,
+      paidOrdersDelta: comparison.deltas.paidOrders
+    };
+  }
+  if (input.sections.includes('top_products')) {
+    digest.topProducts = computeTopProducts(orders, input.range);
+  }
+  if (input.sections.includes('low_stock')) {
+    digest.lowStock = computeLowStock(input.products || [], input.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD);
+  }
+  if (input.sections.includes('pending_orders')) {
+    digest.pendingOrders = computePendingOrders(input.openOrders || orders);
+  }
+
+  return digest;
+}
+
+function formatDelta(delta: MetricDelta): string {
+  if (delta.percent === null) return '';
+  const arrow = delta.percent > 0 ? '📈' : delta.percent < 0 ? '📉' : '➡️';
+  return ` ${arrow} ${delta.percent > 0 ? '+' : ''}${delta.percent}%`;
+}
+
+/**
+ * Freeform WhatsApp message for the digest (inside the 24h window)
+ */
+export function formatBusinessDigest(digest: BusinessDigest): string {
+  const lines = [`📋 *Resumen ${digest.periodLabel} - ${digest.storeName}*`];
+
+  if (digest.sales) {
+    lines.push(
+      '',
+      '💰 *Ventas*',
+      `• Facturación: ${formatCurrency(digest.sales.revenue, digest.currency)}${formatDelta(digest.sales.revenueDelta)}`,
+      `• Órdenes pagas: ${digest.sales.paidOrders}${formatDelta(digest.sales.paidOrdersDelta)}`,
+      `• Ticket promedio: ${formatCurrency(digest.sales.averageOrderValue, digest.currency)}`
+    );
+  }
+
+  if (digest.topProducts) {
+    lines.push('', '🏆 *Productos más vendidos*');
+    lines.push(...(digest.topProducts.length > 0
+      ? digest.topProducts.map((product, index) => `${index + 1}. ${product.name} (${product.units} u.)`)
+      : ['Sin ventas en el período']));
+  }
+
+  if (digest.lowStock) {
+    lines.push('', '📦 *Stock bajo*');
+    lines.push(...(digest.lowStock.length > 0
+      ? digest.lowStock.map(item => `• ${item.name}: ${item.stock === 0 ? 'sin stock' : `${item.stock} u.`}`)
+      : ['Todo en orden ✅']));
+  }
+
+  if (digest.pendingOrders) {
+    lines.push(
+      '',
+      '🛒 *Órdenes pendientes*',
+      `• Esperando pago: ${digest.pendingOrders.awaitingPayment}`,
+      `• Para despachar: ${digest.pendingOrders.awaitingShipment}`
+    );
+  }
+
+  lines.push('', '¿Querés que profundice en algo?');
+  return lines.join('\n');
+}
+
+/**
+ * Variables of the DAILY_SUMMARY template (store, sales, orders, top product), outside the 24h window
+ */
+export function getDigestTemplateVariables(digest: BusinessDigest): Record<string, string> {
+  return {
+    '1': digest.storeName,
+    '2': digest.sales ? formatCurrency(digest.sales.revenue, digest.currency) : 'Sin datos',
+    '3': digest.sales ? String(digest.sales.paidOrders) : 'Sin datos',
+    '4': digest.topProducts?.[0]?.name || 'Sin ventas en el período'
+  };
+}
@@ -0,0 +1,327 @@
+/**
+ * Order Metrics Engine
+ * Deterministic store metrics computed from raw Tienda Nube orders.
+ * Pure functions only (no I/O) so they can be verified against fixture orders.
+ */
+
+import type { TiendaNubeOrder, TiendaNubeProduct } from '@/types/tiendanube';
+
+export interface MetricsDateRange {
+  start: Date;
+  end: Date;
+}
+
+export interface OrderMetrics {
+  range: { start: string; end: string };
+  totalOrders: number;          // Every order created in the range
+  paidOrders: number;           // Paid and not cancelled
+  cancelledOrders: number;
+  revenue: number;              // Sum of paid order totals
+  averageOrderValue: number;
+  unitsSold: number;
+  uniqueCustomers: number;
+  repeatCustomers: number;      // Customers with 2+ paid orders in the range
+  repeatPurchaseRate: number;   // repeatCustomers / uniqueCustomers
+  conversion: {
+    paymentRate: number;        // paidOrders / totalOrders
+    cancellationRate: number;   // cancelledOrders / totalOrders
+    pendingPaymentRate: number; // orders awaiting payment / totalOrders
+  };
+  revenueByCategory: Record<string, number>;
+  revenueByPaymentMethod: Record<string, number>;
+}
+
+export interface MetricDelta {
+  current: number;
+  previous: number;
+  absolute: number;
+  percent: number | null;       // null when the previous value is 0
+}
+
+export interface MetricsComparison {
+  current: OrderMetrics;
+  previous: OrderMetrics;
+  deltas: {
+    revenue: MetricDelta;
+    paidOrders: MetricDelta;
+    averageOrderValue: MetricDelta;
+    unitsSold: MetricDelta;
+    uniqueCustomers: MetricDelta;
+    repeatPurchaseRate: MetricDelta;
+    paymentRate: MetricDelta;
+  };
+}
+
+export interface MetricsSeriesPoint {
+  start: string;
+  end: string;
+  revenue: number;
+  paidOrders: number;
+  averageOrderValue: number;
+}
+
+const UNCATEGORIZED = 'Sin categoría';
+const UNKNOWN_PAYMENT_METHOD = 'Desconocido';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ================================================
+// HELPERS
+// ================================================
+
+function toNumber(value: unknown): number {
+  const parsed = typeof value === 'number' ? value : parseFloat(String(value ?? '0'));
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function round(value: number, decimals = 2): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator > 0 ? round(numerator / denominator, 4) : 0;
+}
+
+function isInRange(order: TiendaNubeOrder, range: MetricsDateRange): boolean {
+  const createdAt = new Date(order.created_at).getTime();
+  return createdAt >= range.start.getTime() && createdAt <= range.end.getTime();
+}
+
+function isPaid(order: TiendaNubeOrder): boolean {
+  return order.payment_status === 'paid' && order.status !== 'cancelled';
+}
+
+function customerKey(order: TiendaNubeOrder): string | null {
+  if (order.customer?.id) return `id:${order.customer.id}`;
+  if (order.customer?.email) return `email:${order.customer.email.toLowerCase()}`;
+  return null;
+}
+
+function paymentMethod(order: TiendaNubeOrder): string {
+  const details = order.payment_details as { method?: string } | null | undefined;
+  return order.gateway || details?.method || UNKNOWN_PAYMENT_METHOD;
+}
+
+function categoryName(category: { name: unknown }): string {
+  if (category.name && typeof category.name === 'object') {
+    const names = category.name as Record<string, string>;
+    return names.es || Object.values(names)[0] || UNCATEGORIZED;
+  }
+  return (category.name as string) || UNCATEGORIZED;
+}
+
+/**
+ * Build a product id → category name lookup from the catalog
+ */
+export function buildCategoryIndex(products: TiendaNubeProduct[] = []): Map<number, string> {
+  const index = new Map<number, string>();
+  products.forEach(product => {
+    const firstCategory = product.categories?.[0];
+    index.set(product.id, firstCategory ? categoryName(firstCategory) : UNCATEGORIZED);
+  });
+  return index;
+}
+
+// ================================================
+// METRICS
+// ================================================
+
+/**
+ * Compute metrics for the orders created inside a date range
+ */
+export function computeOrderMetrics(
+  orders: TiendaNubeOrder[],
+  range: MetricsDateRange,
+  products: TiendaNubeProduct[] = []
+): OrderMetrics {
+  const categoryIndex = buildCategoryIndex(products);
+  const inRange = (Array.isArray(orders) ? orders : []).filter(order => isInRange(order, range));
+  const paid = inRange.filter(isPaid);
+
+  const cancelledOrders = inRange.filter(order => order.status === 'cancelled').length;
+  const pendingOrders = inRange.filter(order =>
+    order.status !== 'cancelled' && (order.payment_status === 'pending' || order.payment_status === 'authorized')
+  ).length;
+
+  const revenueByCategory: Record<string, number> = {};
+  const revenueByPaymentMethod: Record<string, number> = {};
+  const paidOrdersByCustomer = new Map<string, number>();
+  let revenue = 0;
+  let unitsSold = 0;
+
+  paid.forEach(order => {
+    const orderTotal = toNumber(order.total);
+    revenue += orderTotal;
+
+    const method = paymentMethod(order);
+    revenueByPaymentMethod[method] = (revenueByPaymentMethod[method] || 0) + orderTotal;
+
+    (order.products || []).forEach(item => {
+      const quantity = toNumber(item.quantity);
+      const lineTotal = toNumber(item.price) * quantity;
+      const category = categoryIndex.get(item.product_id) || UNCATEGORIZED;
+
+      unitsSold += quantity;
+      revenueByCategory[category] = (revenueByCategory[category] || 0) + lineTotal;
+    });
+
+    const key = customerKey(order);
+    if (key) {
+      paidOrdersByCustomer.set(key, (paidOrdersByCustomer.get(key) || 0) + 1);
+    }
+  });
+
+  const uniqueCustomers = paidOrdersByCustomer.size;
+  const repeatCustomers = Array.from(paidOrdersByCustomer.values()).filter(count => count > 1).length;
+
+  Object.keys(revenueByCategory).forEach(key => { revenueByCategory[key] = round(revenueByCategory[key]); });
+  Object.keys(revenueByPaymentMethod).forEach(key => { revenueByPaymentMethod[key] = round(revenueByPaymentMethod[key]); });
+
+  return {
+    range: { start: range.start.toISOString(), end: range.end.toISOString() },
+    totalOrders: inRange.length,
+    paidOrders: paid.length,
+    cancelledOrders,
+    revenue: round(revenue),
+    averageOrderValue: paid.length > 0 ? round(revenue / paid.length) : 0,
+    unitsSold,
+    uniqueCustomers,
+    repeatCustomers,
+    repeatPurchaseRate: ratio(repeatCustomers, uniqueCustomers),
+    conversion: {
+      paymentRate: ratio(paid.length, inRange.length),
+      cancellationRate: ratio(cancelledOrders, inRange.length),
+      pendingPaymentRate: ratio(pendingOrders, inRange.length)
+    },
+    revenueByCategory,
+    revenueByPaymentMethod
+  };
+}
+
+/**
+ * The range of equal length immediately before the given one
+ */
+export function getPreviousRange(range: MetricsDateRange): MetricsDateRange {
+  const length = range.end.getTime() - range.start.getTime();
+  const end = new Date(range.start.getTime() - 1);
+  return { start: new Date(end.getTime() - length), end };
+}
+
+/**
+ * Delta between two values of the same metric
+ */
+export function computeDelta(current: number, previous: number): MetricDelta {
+  return {
+    current,
+    previous,
+    absolute: round(current - previous),
+    percent: previous !== 0 ? round(((current - previous) / Math.abs(previous)) * 100, 1) : null
+  };
+}
+
+/**
+ * Period-over-period comparison. `previousRange` defaults to the range of
+ * the same length right before `range`.
+ */
+export function compareOrderMetrics(
+  orders: TiendaNubeOrder[],
+  range: MetricsDateRange,
+  previousRange: MetricsDateRange = getPreviousRange(range),
+  products: TiendaNubeProduct[] = []
+): MetricsComparison {
+  const current = computeOrderMetrics(orders, range, products);
+  const previous = computeOrderMetrics(orders, previousRange, products);
+
+  return {
+    current,
+    previous,
+    deltas: {
+      revenue: computeDelta(current.revenue, previous.revenue),
+      paidOrders: computeDelta(current.paidOrders, previous.paidOrders),
+      averageOrderValue: computeDelta(current.averageOrderValue, previous.averageOrderValue),
+      unitsSold: computeDelta(current.unitsSold, previous.unitsSold),
+      uniqueCustomers: computeDelta(current.uniqueCustomers, previous.uniqueCustomers),
+      repeatPurchaseRate: computeDelta(current.repeatPurchaseRate, previous.repeatPurchaseRate),
+      paymentRate: computeDelta(current.conversion.paymentRate, previous.conversion.paymentRate)
+    }
+  };
+}
+
+/**
+ * Split a range into consecutive buckets and compute revenue per bucket
+ */
+export function computeMetricsSeries(
+  orders: TiendaNubeOrder[],
+  range: MetricsDateRange,
+  bucketDays: number
+): MetricsSeriesPoint[] {
+  const points: MetricsSeriesPoint[] = [];
+  const bucketMs = Math.max(1, bucketDays) * DAY_MS;
+
+  for (let start = range.start.getTime(); start <= range.end.getTime(); start += bucketMs) {
+    const bucket = {
+      start: new Date(start),
+      end: new Date(Math.min(start + bucketMs - 1, range.end.getTime()))
+    };
+    const metrics = computeOrderMetrics(orders, bucket);
+    points.push({
+      start: metrics.range.start,
+      end: metrics.range.end,
+      revenue: metrics.revenue,
+      paidOrders: metrics.paidOrders,
+      averageOrderValue: metrics.averageOrderValue
+    });
+  }
+
+  return points;
+}
+
+// ================================================
+// FORMATTING
+// ================================================
+
+export function formatCurrency(value: number, currency = 'ARS'): string {
+  try {
+    return new Intl.NumberFormat('es-AR', { style: 'currency', currency, maximumFractionDigits: 2 }).format(value);
+  } catch {
+    return `$${value.toFixed(2)}`;
+  }
+}
+
+function formatPercent(value: number): string {
+  return `${round(value * 100, 1)}%`;
+}
+
+function formatDelta(delta: MetricDelta): string {
+  if (delta.percent === null) return 'sin datos del período anterior';
+  const sign = delta.percent > 0 ? '+' : '';
+  return `${sign}${delta.percent}% vs período anterior`;
+}
+
+function formatBreakdown(values: Record<string, number>, currency: string): string {
+  const entries = Object.entries(values).sort((a, b) => b[1] - a[1]);
+  if (entries.length === 0) return '  - Sin datos';
+  return entries.map(([name, value]) => `  - ${name}: ${formatCurrency(value, currency)}`).join('\n');
+}
+
+/**
+ * Plain-text block with exact figures, meant to be quoted verbatim by agents
+ */
+export function formatMetricsForPrompt(metrics: OrderMetrics, comparison?: MetricsComparison, currency = 'ARS'): string {
+  const deltas = comparison?.deltas;
+  const withDelta = (text: string, delta?: MetricDelta) => (delta ? `${text} (${formatDelta(delta)})` : text);
+
+  return [
+    `Período: ${metrics.range.start.slice(0, 10)} a ${metrics.range.end.slice(0, 10)}`,
+    withDelta(`- Facturación: ${formatCurrency(metrics.revenue, currency)}`, deltas?.revenue),
+    withDelta(`- Órdenes pagas: ${metrics.paidOrders} de ${metrics.totalOrders} creadas`, deltas?.paidOrders),
+    withDelta(`- Ticket promedio (AOV): ${formatCurrency(metrics.averageOrderValue, currency)}`, deltas?.averageOrderValue),
+    withDelta(`- Unidades vendidas: ${metrics.unitsSold}`, deltas?.unitsSold),
+    withDelta(`- Clientes únicos: ${metrics.uniqueCustomers}`, deltas?.uniqueCustomers),
+    withDelta(`- Tasa de recompra: ${formatPercent(metrics.repeatPurchaseRate)}`, deltas?.repeatPurchaseRate),
+    withDelta(`- Tasa de pago (órdenes pagas / creadas): ${formatPercent(metrics.conversion.paymentRate)}`, deltas?.paymentRate),
+    `- Tasa de cancelación: ${formatPercent(metrics.conversion.cancellationRate)}`,
+    `- Facturación por categoría:\n${formatBreakdown(metrics.revenueByCategory, currency)}`,
+    `- Facturación por medio de pago:\n${formatBreakdown(metrics.revenueByPaymentMethod, currency)}`
+  ].join('\n');
+}
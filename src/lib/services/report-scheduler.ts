@@ -0,0 +1,511 @@
+/**
+ * Report Scheduler
+ * Daily / weekly / monthly business digests delivered over WhatsApp.
+ * Schedules live in automated_reports (cadence, local time, timezone, sections,
+ * receiving number); a cron claims the due ones, computes the digest from store
+ * data and sends it freeform inside the 24h session window or as the
+ * DAILY_SUMMARY template outside of it. Every run is recorded in
+ * automated_report_deliveries.
+ */
+
+import {
+  DEFAULT_STORE_TIMEZONE,
+  addDays,
+  daysInMonth,
+  toLocalDate,
+  zonedTimeToInstant,
+  type LocalDate
+} from '@/lib/agents/temporal-parser';
+import { TiendaNubeAPI } from '@/lib/integrations/tiendanube';
+import { UniversalTokenManager } from '@/lib/integrations/tiendanube-token-manager';
+import { smartTemplateService } from '@/lib/integrations/whatsapp/smart-template-service';
+import { hasFeature, type PlanType } from '@/lib/plan-restrictions';
+import { createServiceClient } from '@/lib/supabase/server';
+import type { Database } from '@/types/database';
+
+import {
+  DIGEST_SECTIONS,
+  buildBusinessDigest,
+  formatBusinessDigest,
+  getDigestTemplateVariables,
+  type BusinessDigest,
+  type DigestSection
+} from './business-digest';
+import type { MetricsDateRange } from './order-metrics';
+
+export type ReportCadence = 'daily' | 'weekly' | 'monthly';
+export type ReportDeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+export interface ReportSchedule {
+  id: string;
+  storeId: string;
+  userId: string | null;
+  whatsappNumberId: string | null;
+  cadence: ReportCadence;
+  // Local time "HH:MM" in `timezone`
+  scheduleTime: string;
+  timezone: string;
+  // Weekly: 0 = Sunday … 6 = Saturday
+  dayOfWeek: number | null;
+  // Monthly: 1-28
+  dayOfMonth: number | null;
+  sections: DigestSection[];
+  isEnabled: boolean;
+  nextRunAt: string | null;
+  lastSentAt: string | null;
+  lastError: string | null;
+}
+
+export interface ReportScheduleInput {
+  storeId: string;
+  whatsappNumberId: string;
+  cadence: ReportCadence;
+  scheduleTime: string;
+  timezone?: string;
+  dayOfWeek?: number | null;
+  dayOfMonth?: number | null;
+  sections?: DigestSection[];
+  isEnabled?: boolean;
+}
+
+export interface ReportDelivery {
+  id: string;
+  reportId: string;
+  storeId: string;
+  phoneNumber: string | null;
+  periodStart: string;
+  periodEnd: string;
+  status: ReportDeliveryStatus;
+  channel: 'freeform' | 'template' | null;
+  messageSid: string | null;
+  content: string | null;
+  errorMessage: string | null;
+  createdAt: string;
+}
+
+export interface ReportPeriod {
+  range: MetricsDateRange;
+  previousRange: MetricsDateRange;
+  label: string;
+}
+
+export interface ReportRunResult {
+  found: number;
+  sent: number;
+  failed: number;
+  skipped: number;
+}
+
+const DUE_BATCH_SIZE = 20;
+// Safety cap on the orders read per digest (50 pages of 200)
+const MAX_DIGEST_ORDERS = 10000;
+const SCHEDULE_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MONTH_NAMES = ['enero', 'febrero', 'marzo', 'abril', 'mayo', 'junio', 'julio', 'agosto', 'septiembre', 'octubre', 'noviembre', 'diciembre'];
+
+type ReportScheduleRow = Database['public']['Tables']['automated_reports']['Row'];
+type ReportDeliveryRow = Database['public']['Tables']['automated_report_deliveries']['Row'];
+
+function toReportSchedule(row: ReportScheduleRow): ReportSchedule {
+  return {
+    id: row.id,
+    storeId: row.store_id,
+    userId: row.user_id,
+    whatsappNumberId: row.whatsapp_number_id,
+    cadence: row.report_type,
+    scheduleTime: row.schedule_time,
+    timezone: row.timezone || DEFAULT_STORE_TIMEZONE,
+    dayOfWeek: row.day_of_week,
+    dayOfMonth: row.day_of_month,
+    sections: (row.sections || DIGEST_SECTIONS).filter((section): section is DigestSection => DIGEST_SECTIONS.includes(section as DigestSection)),
+    isEnabled: row.is_enabled,
+    nextRunAt: row.next_run_at,
+    lastSentAt: row.last_sent_at,
+    lastError: row.last_error
+  };
+}
+
+function toReportDelivery(row: ReportDeliveryRow): ReportDelivery {
+  return {
+    id: row.id,
+    reportId: row.report_id,
+    storeId: row.store_id,
+    phoneNumber: row.phone_number,
+    periodStart: row.period_start,
+    periodEnd: row.period_end,
+    status: row.status,
+    channel: row.channel,
+    messageSid: row.message_sid,
+    content: row.content,
+    errorMessage: row.error_message,
+    createdAt: row.created_at
+  };
+}
+
+function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatDay(date: LocalDate): string {
+  return `${String(date.day).padStart(2, '0')}/${String(date.month + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Validate a schedule before saving it; returns the error message for the merchant, if any
+ */
+export function validateReportSchedule(input: ReportScheduleInput): string | null {
+  if (!['daily', 'weekly', 'monthly'].includes(input.cadence)) return 'Frecuencia inválida';
+  if (!SCHEDULE_TIME_PATTERN.test(input.scheduleTime || '')) return 'La hora debe tener el formato HH:MM';
+  if (input.timezone && !isValidTimezone(input.timezone)) return 'Zona horaria inválida';
+  const dayOfWeek = input.dayOfWeek ?? NaN;
+  const dayOfMonth = input.dayOfMonth ?? NaN;
+  if (input.cadence === 'weekly' && !(Number.isInteger(dayOfWeek) && dayOfWeek >= 0 && dayOfWeek <= 6)) {
+    return 'Elegí el día de la semana';
+  }
+  if (input.cadence === 'monthly' && !(Number.isInteger(dayOfMonth) && dayOfMonth >= 1 && dayOfMonth <= 28)) {
+    return 'Elegí un día del mes entre 1 y 28';
+  }
+  if (input.sections && (input.sections.length === 0 || input.sections.some(section => !DIGEST_SECTIONS.includes(section)))) {
+    return 'Elegí al menos una sección válida';
+  }
+  return null;
+}
+
+/**
+ * Next time a schedule should run, strictly after `after`
+ */
+export function getNextRunAt(
+  schedule: Pick<ReportSchedule, 'cadence' | 'scheduleTime' | 'timezone' | 'dayOfWeek' | 'dayOfMonth'>,
+  after: Date = new Date()
+): Date {
+  const [hour, minute] = schedule.scheduleTime.split(':').map(Number);
+  const today = toLocalDate(after, schedule.timezone);
+
+  // A month and a bit always contains the next weekly or monthly occurrence
+  for (let offset = 0; offset <= 32; offset++) {
+    const date = addDays(today, offset);
+    const weekday = new Date(Date.UTC(date.year, date.month, date.day)).getUTCDay();
+    const matches = schedule.cadence === 'daily'
+      || (schedule.cadence === 'weekly' && weekday === schedule.dayOfWeek)
+      || (schedule.cadence === 'monthly' && date.day === Math.min(schedule.dayOfMonth || 1, daysInMonth(date.year, date.month)));
+    if (!matches) continue;
+
+    const runAt = zonedTimeToInstant(date, hour, minute, schedule.timezone);
+    if (runAt.getTime() > after.getTime()) return runAt;
+  }
+
+  throw new Error(`No upcoming run for report schedule ${schedule.cadence} ${schedule.scheduleTime}`);
+}
+
+/**
+ * Period a digest sent at `runAt` covers: the previous day, the previous 7 days
+ * or the previous calendar month, in the store timezone
+ */
+export function getReportPeriod(cadence: ReportCadence, runAt: Date, timezone: string): ReportPeriod {
+  const today = toLocalDate(runAt, timezone);
+  const dayStart = (date: LocalDate) => zonedTimeToInstant(date, 0, 0, timezone);
+  const toRange = (start: LocalDate, endExclusive: LocalDate): MetricsDateRange => ({
+    start: dayStart(start),
+    end: new Date(dayStart(endExclusive).getTime() - 1)
+  });
+
+  if (cadence === 'monthly') {
+    const thisMonth = { year: today.year, month: today.month, day: 1 };
+    const lastMonth = today.month === 0 ? { year: today.year - 1, month: 11, day: 1 } : { year: today.year, month: today.month - 1, day: 1 };
+    const monthBefore = lastMonth.month === 0 ? { year: lastMonth.year - 1, month: 11, day: 1 } : { year: lastMonth.year, month: lastMonth.month - 1, day: 1 };
+    return {
+      range: toRange(lastMonth, thisMonth),
+      previousRange: toRange(monthBefore, lastMonth),
+      label: `mensual (${MONTH_NAMES[lastMonth.month]} ${lastMonth.year})`
+    };
+  }
+
+  const days = cadence === 'weekly' ? 7 : 1;
+  const start = addDays(today, -days);
+  const yesterday = addDays(today, -1);
+  return {
+    range: toRange(start, today),
+    previousRange: toRange(addDays(start, -days), start),
+    label: cadence === 'weekly' ? `semanal (${formatDay(start)} al ${formatDay(yesterday)})` : `diario (${formatDay(yesterday)})`
+  };
+}
+
+export class ReportScheduler {
+  /**
+   * Schedules of a user's stores
+   */
+  static async listForUser(userId: string): Promise<ReportSchedule[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('automated_reports')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to list report schedules: ${error.message}`);
+    }
+
+    return (data || []).map(toReportSchedule);
+  }
+
+  /**
+   * Create or update the schedule of a store and cadence (one per store and cadence)
+   */
+  static async save(userId: string, input: ReportScheduleInput): Promise<ReportSchedule> {
+    const supabase = createServiceClient();
+
+    const [{ data: store }, { data: number }] = await Promise.all([
+      supabase.from('stores').select('id').eq('id', input.storeId).eq('user_id', userId).maybeSingle(),
+      supabase.from('whatsapp_numbers').select('id').eq('id', input.whatsappNumberId).eq('user_id', userId).maybeSingle()
+    ]);
+    if (!store) throw new Error('Store not found');
+    if (!number) throw new Error('WhatsApp number not found');
+
+    const schedule = {
+      cadence: input.cadence,
+      scheduleTime: input.scheduleTime,
+      timezone: input.timezone || DEFAULT_STORE_TIMEZONE,
+      dayOfWeek: input.cadence === 'weekly' ? input.dayOfWeek ?? null : null,
+      dayOfMonth: input.cadence === 'monthly' ? input.dayOfMonth ?? null : null
+    };
+    const isEnabled = input.isEnabled !== false;
+
+    const { data, error } = await supabase
+      .from('automated_reports')
+      .upsert({
+        store_id: input.storeId,
+        user_id: userId,
+        whatsapp_number_id: input.whatsappNumberId,
+        report_type: schedule.cadence,
+        schedule_time: schedule.scheduleTime,
+        timezone: schedule.timezone,
+        day_of_week: schedule.dayOfWeek,
+        day_of_month: schedule.dayOfMonth,
+        sections: input.sections || DIGEST_SECTIONS,
+        is_enabled: isEnabled,
+        next_run_at: isEnabled ? getNextRunAt(schedule).toISOString() : null,
+        last_error: null
+      }, { onConflict: 'store_id,report_type' })
+      .select('*')
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to save report schedule: ${error.message}`);
+    }
+
+    return toReportSchedule(data);
+  }
+
+  static async remove(userId: string, scheduleId: string): Promise<boolean> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('automated_reports')
+      .delete()
+      .eq('id', scheduleId)
+      .eq('user_id', userId)
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to delete report schedule: ${error.message}`);
+    }
+
+    return (data || []).length > 0;
+  }
+
+  /**
+   * Latest deliveries of a user's digests, most recent first
+   */
+  static async listDeliveries(userId: string, limit = 20): Promise<ReportDelivery[]> {
+    const supabase = createServiceClient();
+    const { data, error } = await supabase
+      .from('automated_report_deliveries')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      throw new Error(`Failed to list report deliveries: ${error.message}`);
+    }
+
+    return (data || []).map(toReportDelivery);
+  }
+
+  /**
+   * Send every digest that is due. Each schedule is claimed by moving next_run_at
+   * forward first, so overlapping cron runs never send the same digest twice.
+   */
+  static async runDue(now: Date = new Date()): Promise<ReportRunResult> {
+    const result: ReportRunResult = { found: 0, sent: 0, failed: 0, skipped: 0 };
+    const supabase = createServiceClient();
+
+    const { data, error } = await supabase
+      .from('automated_reports')
+      .select('*')
+      .eq('is_enabled', true)
+      .lte('next_run_at', now.toISOString())
+      .order('next_run_at', { ascending: true })
+      .limit(DUE_BATCH_SIZE);
+
+    if (error) {
+      throw new Error(`Failed to load due report schedules: ${error.message}`);
+    }
+
+    result.found = (data || []).length;
+    for (const row of data || []) {
+      const schedule = toReportSchedule(row);
+      const { data: claimed } = await supabase
+        .from('automated_reports')
+        .update({ next_run_at: getNextRunAt(schedule, now).toISOString() })
+        .eq('id', row.id)
+        .eq('next_run_at', row.next_run_at)
+        .select('id');
+      if (!claimed || claimed.length === 0) continue;
+
+      const status = await ReportScheduler.deliver(schedule, now);
+      result[status]++;
+    }
+
+    return result;
+  }
+
+  /**
+   * Build and send one digest, recording the delivery
+   */
+  private static async deliver(schedule: ReportSchedule, runAt: Date): Promise<ReportDeliveryStatus> {
+    const supabase = createServiceClient();
+    const { userId, whatsappNumberId } = schedule;
+
+    // Schedules created before per-user digests, or whose WhatsApp number was deleted, have no one to send to
+    if (!userId || !whatsappNumberId) {
+      console.warn(`[REPORTS] Digest ${schedule.id} skipped: no user or WhatsApp number`);
+      await supabase
+        .from('automated_reports')
+        .update({ last_error: 'Schedule has no user or WhatsApp number' })
+        .eq('id', schedule.id);
+      return 'skipped';
+    }
+
+    const period = getReportPeriod(schedule.cadence, runAt, schedule.timezone);
+    let phoneNumber: string | null = null;
+
+    const record = async (status: ReportDeliveryStatus, details: {
+      channel?: 'freeform' | 'template';
+      messageSid?: string;
+      content?: string;
+      digest?: BusinessDigest;
+      errorMessage?: string;
+    } = {}) => {
+      await supabase.from('automated_report_deliveries').insert({
+        report_id: schedule.id,
+        store_id: schedule.storeId,
+        user_id: userId,
+        phone_number: phoneNumber,
+        period_start: period.range.start.toISOString(),
+        period_end: period.range.end.toISOString(),
+        status,
+        channel: details.channel || null,
+        message_sid: details.messageSid || null,
+        content: details.content || null,
+        digest: details.digest || null,
+        error_message: details.errorMessage || null
+      });
+      await supabase
+        .from('automated_reports')
+        .update({
+          ...(status === 'sent' ? { last_sent_at: new Date().toISOString(), report_data: details.digest || null } : {}),
+          last_error: details.errorMessage || null
+        })
+        .eq('id', schedule.id);
+      return status;
+    };
+
+    try {
+      const [{ data: user }, { data: store }, { data: number }] = await Promise.all([
+        supabase.from('users').select('subscription_plan').eq('id', userId).maybeSingle(),
+        supabase.from('stores').select('id, name, is_active').eq('id', schedule.storeId).maybeSingle(),
+        supabase.from('whatsapp_numbers').select('phone_number, is_active, is_verified').eq('id', whatsappNumberId).maybeSingle()
+      ]);
+      phoneNumber = number?.phone_number || null;
+
+      const plan: PlanType = ['pro', 'enterprise'].includes(user?.subscription_plan) ? 'pro' : 'basic';
+      if (!hasFeature(plan, 'automatedReports')) {
+        return await record('skipped', { errorMessage: 'Automated reports are not included in the current plan' });
+      }
+      if (!store?.is_active) {
+        return await record('skipped', { errorMessage: 'Store is not active' });
+      }
+      if (!number?.is_active || !number.is_verified) {
+        return await record('skipped', { errorMessage: 'WhatsApp number is not verified' });
+      }
+
+      const digest = await ReportScheduler.computeDigest(schedule, store.name, period);
+      const content = formatBusinessDigest(digest);
+
+      // Freeform inside the merchant's 24h window, DAILY_SUMMARY template outside of it
+      const sendResult = await smartTemplateService.sendSmartAgentMessage(
+        { phoneNumber: number.phone_number, storeId: schedule.storeId, userId },
+        'analytics',
+        'dailySummary',
+        getDigestTemplateVariables(digest),
+        content
+      );
+
+      if (!sendResult.success) {
+        console.error(`[REPORTS] Digest ${schedule.id} could not be sent:`, sendResult.error);
+        return await record('failed', { content, digest, errorMessage: sendResult.error || 'WhatsApp send failed' });
+      }
+
+      console.warn(`[REPORTS] ${schedule.cadence} digest for store ${schedule.storeId} sent${sendResult.usedTemplate ? ' as template' : ''}:`, sendResult.messageSid);
+      return await record('sent', {
+        channel: sendResult.usedTemplate ? 'template' : 'freeform',
+        messageSid: sendResult.messageSid,
+        content,
+        digest
+      });
+    } catch (error) {
+      console.error(`[REPORTS] Digest ${schedule.id} failed:`, error);
+      return await record('failed', { errorMessage: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private static async computeDigest(schedule: ReportSchedule, storeName: string, period: ReportPeriod): Promise<BusinessDigest> {
+    const store = await UniversalTokenManager.getValidStoreData(schedule.storeId);
+    if (!store) {
+      throw new Error('Store token is not valid');
+    }
+
+    const api = new TiendaNubeAPI(store.access_token, store.platform_store_id);
+    const needsOrders = schedule.sections.some(section => section === 'sales' || section === 'top_products');
+    // Every page: both periods, growth and top products come from the same orders
+    const [orders, openOrders, products] = await Promise.all([
+      needsOrders
+        ? TiendaNubeAPI.collect(api.iterateOrders({
+            created_at_min: period.previousRange.start.toISOString(),
+            created_at_max: period.range.end.toISOString(),
+            maxItems: MAX_DIGEST_ORDERS
+          }))
+        : Promise.resolve([]),
+      schedule.sections.includes('pending_orders')
+        ? TiendaNubeAPI.collect(api.iterateOrders({ status: 'open', maxItems: MAX_DIGEST_ORDERS }))
+        : Promise.resolve([]),
+      schedule.sections.includes('low_stock') ? TiendaNubeAPI.collect(api.iterateProducts()).catch(() => []) : Promise.resolve([])
+    ]);
+
+    return buildBusinessDigest({
+      storeName,
+      periodLabel: period.label,
+      range: period.range,
+      previousRange: period.previousRange,
+      sections: schedule.sections,
+      orders,
+      openOrders,
+      products
+    });
+  }
+}
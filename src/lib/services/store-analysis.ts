@@ -185,7 +185,7 @@ export class StoreAnalysisService {
       const tiendaNubeAPI = new TiendaNubeAPI(validToken, platformStoreId);
       const [storeInfo, products] = await Promise.all([
         tiendaNubeAPI.getStore(),
-        tiendaNubeAPI.getProducts({ limit: 100 }) // Suficiente para análisis
+        TiendaNubeAPI.collect(tiendaNubeAPI.iterateProducts({ maxItems: 500 })) // Suficiente para análisis
       ]);
 
       console.log(`[STORE-ANALYSIS] Extracted ${products.length} products from store`);
@@ -525,10 +525,9 @@ ${sampleProducts.map(p => `- ${p.name} (${p.price} ${store.currency})`).join('\n
       const thirtyDaysAgo = new Date();
       thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
       
-      const orders = await api.getOrders({ 
-        limit: 100,
+      const orders = await TiendaNubeAPI.collect(api.iterateOrders({
         created_at_min: thirtyDaysAgo.toISOString(),
-      });
+      }));
 
       // If no orders, return empty analysis (normal for new stores)
       if (!orders || orders.length === 0) {
@@ -624,7 +623,7 @@ ${sampleProducts.map(p => `- ${p.name} (${p.price} ${store.currency})`).join('\n
     try {
       console.log('[STORE-ANALYSIS] 👥 Analyzing customers...');
       
-      const customers = await api.getCustomers({ limit: 100 });
+      const customers = await TiendaNubeAPI.collect(api.iterateCustomers({ maxItems: 1000 }));
 
       // If no customers, return empty analysis (normal for new stores)
       if (!customers || customers.length === 0) {
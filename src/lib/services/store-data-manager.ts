@@ -154,6 +154,9 @@ export class StoreDataManager {
       
       console.log(`[SYNC:INFO] ✅ Store created in DB: ${store.id}`);
 
+      const { trackStoreConnected } = await import('@/lib/features/gamification-events');
+      await trackStoreConnected(oauthData.userId, store.id);
+
       // PASO 4: Token is already stored in access_token field of store
       // No need to call storeToken method as it doesn't exist
       operations.push('token_stored');
@@ -129,6 +129,7 @@ export interface Database {
           id: string;
           user_id: string;
           store_id: string | null;
+          store_scope: 'single' | 'all';
           whatsapp_number: string;
           customer_number: string;
           conversation_id: string;
@@ -143,6 +144,7 @@ export interface Database {
           id?: string;
           user_id: string;
           store_id?: string | null;
+          store_scope?: 'single' | 'all';
           whatsapp_number: string;
           customer_number: string;
           conversation_id: string;
@@ -157,6 +159,7 @@ export interface Database {
           id?: string;
           user_id?: string;
           store_id?: string | null;
+          store_scope?: 'single' | 'all';
           whatsapp_number?: string;
           customer_number?: string;
           conversation_id?: string;
@@ -179,6 +182,7 @@ export interface Database {
           agent_type: string | null;
           confidence: number | null;
           processing_time_ms: number | null;
+          metadata: Record<string, unknown> | null;
           created_at: string;
         };
         Insert: {
@@ -191,6 +195,7 @@ export interface Database {
           agent_type?: string | null;
           confidence?: number | null;
           processing_time_ms?: number | null;
+          metadata?: Record<string, unknown> | null;
           created_at?: string;
         };
         Update: {
@@ -203,6 +208,7 @@ export interface Database {
           agent_type?: string | null;
           confidence?: number | null;
           processing_time_ms?: number | null;
+          metadata?: Record<string, unknown> | null;
           created_at?: string;
         };
       };
@@ -247,34 +253,64 @@ export interface Database {
       whatsapp_messages: {
         Row: {
           id: string;
-          conversation_id: string;
+          conversation_id: string | null;
           message_id: string | null;
+          user_id: string | null;
+          store_id: string | null;
+          phone_number: string | null;
           direction: 'inbound' | 'outbound';
           message_type: 'text' | 'image' | 'document' | 'audio' | 'video' | 'template';
           content: unknown;
           status: 'sent' | 'delivered' | 'read' | 'failed';
+          error_code: string | null;
+          error_message: string | null;
+          delivered_at: string | null;
+          read_at: string | null;
+          status_updated_at: string | null;
+          fallback_status: 'pending' | 'sent' | 'failed' | null;
+          fallback_message_id: string | null;
           timestamp: string;
           created_at: string;
         };
         Insert: {
           id?: string;
-          conversation_id: string;
+          conversation_id?: string | null;
           message_id?: string | null;
+          user_id?: string | null;
+          store_id?: string | null;
+          phone_number?: string | null;
           direction: 'inbound' | 'outbound';
           message_type?: 'text' | 'image' | 'document' | 'audio' | 'video' | 'template';
           content: unknown;
           status?: 'sent' | 'delivered' | 'read' | 'failed';
-          timestamp: string;
+          error_code?: string | null;
+          error_message?: string | null;
+          delivered_at?: string | null;
+          read_at?: string | null;
+          status_updated_at?: string | null;
+          fallback_status?: 'pending' | 'sent' | 'failed' | null;
+          fallback_message_id?: string | null;
+          timestamp?: string;
           created_at?: string;
         };
         Update: {
           id?: string;
-          conversation_id?: string;
+          conversation_id?: string | null;
           message_id?: string | null;
+          user_id?: string | null;
+          store_id?: string | null;
+          phone_number?: string | null;
           direction?: 'inbound' | 'outbound';
           message_type?: 'text' | 'image' | 'document' | 'audio' | 'video' | 'template';
           content?: unknown;
           status?: 'sent' | 'delivered' | 'read' | 'failed';
+          error_code?: string | null;
+          error_message?: string | null;
+          delivered_at?: string | null;
+          read_at?: string | null;
+          status_updated_at?: string | null;
+          fallback_status?: 'pending' | 'sent' | 'failed' | null;
+          fallback_message_id?: string | null;
           timestamp?: string;
           created_at?: string;
         };
@@ -321,6 +357,13 @@ export interface Database {
           is_enabled: boolean;
           last_sent_at: string | null;
           report_data: unknown | null;
+          user_id: string | null;
+          whatsapp_number_id: string | null;
+          sections: string[];
+          day_of_week: number | null;
+          day_of_month: number | null;
+          next_run_at: string | null;
+          last_error: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -333,6 +376,13 @@ export interface Database {
           is_enabled?: boolean;
           last_sent_at?: string | null;
           report_data?: unknown | null;
+          user_id?: string | null;
+          whatsapp_number_id?: string | null;
+          sections?: string[];
+          day_of_week?: number | null;
+          day_of_month?: number | null;
+          next_run_at?: string | null;
+          last_error?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -345,10 +395,67 @@ export interface Database {
           is_enabled?: boolean;
           last_sent_at?: string | null;
           report_data?: unknown | null;
+          user_id?: string | null;
+          whatsapp_number_id?: string | null;
+          sections?: string[];
+          day_of_week?: number | null;
+          day_of_month?: number | null;
+          next_run_at?: string | null;
+          last_error?: string | null;
           created_at?: string;
           updated_at?: string;
         };
       };
+      automated_report_deliveries: {
+        Row: {
+          id: string;
+          report_id: string;
+          store_id: string;
+          user_id: string;
+          phone_number: string | null;
+          period_start: string;
+          period_end: string;
+          status: 'sent' | 'failed' | 'skipped';
+          channel: 'freeform' | 'template' | null;
+          message_sid: string | null;
+          content: string | null;
+          digest: unknown | null;
+          error_message: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          report_id: string;
+          store_id: string;
+          user_id: string;
+          phone_number?: string | null;
+          period_start: string;
+          period_end: string;
+          status: 'sent' | 'failed' | 'skipped';
+          channel?: 'freeform' | 'template' | null;
+          message_sid?: string | null;
+          content?: string | null;
+          digest?: unknown | null;
+          error_message?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          report_id?: string;
+          store_id?: string;
+          user_id?: string;
+          phone_number?: string | null;
+          period_start?: string;
+          period_end?: string;
+          status?: 'sent' | 'failed' | 'skipped';
+          channel?: 'freeform' | 'template' | null;
+          message_sid?: string | null;
+          content?: string | null;
+          digest?: unknown | null;
+          error_message?: string | null;
+          created_at?: string;
+        };
+      };
       whatsapp_numbers: {
         Row: {
           id: string;
@@ -416,6 +523,118 @@ export interface Database {
           updated_at?: string;
         };
       };
+      whatsapp_reply_jobs: {
+        Row: {
+          id: string;
+          user_id: string | null;
+          store_id: string | null;
+          conversation_id: string | null;
+          conversation_key: string;
+          message_sid: string | null;
+          payload: unknown;
+          status: 'queued' | 'processing' | 'retrying' | 'completed' | 'dead';
+          attempts: number;
+          max_attempts: number;
+          next_attempt_at: string | null;
+          locked_at: string | null;
+          locked_by: string | null;
+          last_error: string | null;
+          response: unknown | null;
+          parts_sent: number;
+          completed_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string | null;
+          store_id?: string | null;
+          conversation_id?: string | null;
+          conversation_key: string;
+          message_sid?: string | null;
+          payload: unknown;
+          status?: 'queued' | 'processing' | 'retrying' | 'completed' | 'dead';
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string | null;
+          locked_at?: string | null;
+          locked_by?: string | null;
+          last_error?: string | null;
+          response?: unknown | null;
+          parts_sent?: number;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string | null;
+          store_id?: string | null;
+          conversation_id?: string | null;
+          conversation_key?: string;
+          message_sid?: string | null;
+          payload?: unknown;
+          status?: 'queued' | 'processing' | 'retrying' | 'completed' | 'dead';
+          attempts?: number;
+          max_attempts?: number;
+          next_attempt_at?: string | null;
+          locked_at?: string | null;
+          locked_by?: string | null;
+          last_error?: string | null;
+          response?: unknown | null;
+          parts_sent?: number;
+          completed_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      whatsapp_session_windows: {
+        Row: {
+          id: string;
+          phone_key: string;
+          business_key: string;
+          phone_number: string;
+          business_number: string;
+          user_id: string | null;
+          whatsapp_number_id: string | null;
+          last_inbound_at: string;
+          expires_at: string;
+          closing_soon_notified_at: string | null;
+          metadata: { displayName?: string; storeName?: string } | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          phone_key: string;
+          business_key: string;
+          phone_number: string;
+          business_number: string;
+          user_id?: string | null;
+          whatsapp_number_id?: string | null;
+          last_inbound_at: string;
+          expires_at: string;
+          closing_soon_notified_at?: string | null;
+          metadata?: { displayName?: string; storeName?: string } | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          phone_key?: string;
+          business_key?: string;
+          phone_number?: string;
+          business_number?: string;
+          user_id?: string | null;
+          whatsapp_number_id?: string | null;
+          last_inbound_at?: string;
+          expires_at?: string;
+          closing_soon_notified_at?: string | null;
+          metadata?: { displayName?: string; storeName?: string } | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
       // Nuevas tablas para RAG y Agentes
       agent_conversations: {
         Row: {
@@ -475,32 +694,282 @@ export interface Database {
       agent_actions: {
         Row: {
           id: string;
-          conversation_id: string;
+          conversation_id: string | null;
+          store_id: string | null;
           agent_type: string;
           action_type: string;
           action_data: unknown | null;
           status: string;
           result: unknown | null;
+          idempotency_key: string | null;
+          dry_run: boolean;
+          tool_name: string | null;
+          before_state: unknown | null;
+          after_state: unknown | null;
+          decided_by: string | null;
+          decision_channel: 'dashboard' | 'whatsapp' | null;
+          decided_at: string | null;
+          executed_at: string | null;
+          expires_at: string | null;
           created_at: string;
+          updated_at: string;
         };
         Insert: {
           id?: string;
-          conversation_id: string;
+          conversation_id?: string | null;
+          store_id?: string | null;
           agent_type: string;
           action_type: string;
           action_data?: unknown | null;
           status?: string;
           result?: unknown | null;
+          idempotency_key?: string | null;
+          dry_run?: boolean;
+          tool_name?: string | null;
+          before_state?: unknown | null;
+          after_state?: unknown | null;
+          decided_by?: string | null;
+          decision_channel?: 'dashboard' | 'whatsapp' | null;
+          decided_at?: string | null;
+          executed_at?: string | null;
+          expires_at?: string | null;
           created_at?: string;
+          updated_at?: string;
         };
         Update: {
           id?: string;
-          conversation_id?: string;
+          conversation_id?: string | null;
+          store_id?: string | null;
           agent_type?: string;
           action_type?: string;
           action_data?: unknown | null;
           status?: string;
           result?: unknown | null;
+          idempotency_key?: string | null;
+          dry_run?: boolean;
+          tool_name?: string | null;
+          before_state?: unknown | null;
+          after_state?: unknown | null;
+          decided_by?: string | null;
+          decision_channel?: 'dashboard' | 'whatsapp' | null;
+          decided_at?: string | null;
+          executed_at?: string | null;
+          expires_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      // Gamificación
+      user_gamification_stats: {
+        Row: {
+          user_id: string;
+          level: number;
+          experience: number;
+          total_points: number;
+          achievements_unlocked: number;
+          badges_earned: number;
+          badges: string[] | null;
+          unlocked_features: string[] | null;
+          title: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          level?: number;
+          experience?: number;
+          total_points?: number;
+          achievements_unlocked?: number;
+          badges_earned?: number;
+          badges?: string[] | null;
+          unlocked_features?: string[] | null;
+          title?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          level?: number;
+          experience?: number;
+          total_points?: number;
+          achievements_unlocked?: number;
+          badges_earned?: number;
+          badges?: string[] | null;
+          unlocked_features?: string[] | null;
+          title?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      user_achievements: {
+        Row: {
+          id: string;
+          user_id: string;
+          achievement_id: string;
+          progress: number;
+          is_completed: boolean;
+          unlocked_at: string | null;
+          notification_sent: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          achievement_id: string;
+          progress?: number;
+          is_completed?: boolean;
+          unlocked_at?: string | null;
+          notification_sent?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          achievement_id?: string;
+          progress?: number;
+          is_completed?: boolean;
+          unlocked_at?: string | null;
+          notification_sent?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      user_streaks: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: string;
+          current_streak: number;
+          longest_streak: number;
+          last_activity: string;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: string;
+          current_streak?: number;
+          longest_streak?: number;
+          last_activity?: string;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          type?: string;
+          current_streak?: number;
+          longest_streak?: number;
+          last_activity?: string;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      gamification_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          event: 'store_connected' | 'whatsapp_message' | 'digest_opened' | 'action_approved';
+          dedupe_key: string;
+          metadata: unknown | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          event: 'store_connected' | 'whatsapp_message' | 'digest_opened' | 'action_approved';
+          dedupe_key: string;
+          metadata?: unknown | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          event?: 'store_connected' | 'whatsapp_message' | 'digest_opened' | 'action_approved';
+          dedupe_key?: string;
+          metadata?: unknown | null;
+          created_at?: string;
+        };
+      };
+      gamification_rewards: {
+        Row: {
+          id: string;
+          user_id: string;
+          source: string;
+          reward_type: 'free_days' | 'credit' | 'discount' | 'feature_unlock' | 'badge' | 'title';
+          reward_value: unknown;
+          status: 'pending' | 'applying' | 'applied' | 'failed';
+          stripe_reference: string | null;
+          error_message: string | null;
+          applied_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          source: string;
+          reward_type: 'free_days' | 'credit' | 'discount' | 'feature_unlock' | 'badge' | 'title';
+          reward_value: unknown;
+          status?: 'pending' | 'applying' | 'applied' | 'failed';
+          stripe_reference?: string | null;
+          error_message?: string | null;
+          applied_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          source?: string;
+          reward_type?: 'free_days' | 'credit' | 'discount' | 'feature_unlock' | 'badge' | 'title';
+          reward_value?: unknown;
+          status?: 'pending' | 'applying' | 'applied' | 'failed';
+          stripe_reference?: string | null;
+          error_message?: string | null;
+          applied_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      gamification_notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          kind: 'achievement' | 'level_up' | 'streak';
+          title: string;
+          message: string;
+          icon: string | null;
+          metadata: unknown | null;
+          delivered_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          kind: 'achievement' | 'level_up' | 'streak';
+          title: string;
+          message: string;
+          icon?: string | null;
+          metadata?: unknown | null;
+          delivered_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          kind?: 'achievement' | 'level_up' | 'streak';
+          title?: string;
+          message?: string;
+          icon?: string | null;
+          metadata?: unknown | null;
+          delivered_at?: string | null;
           created_at?: string;
         };
       };
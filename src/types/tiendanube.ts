@@ -100,6 +100,8 @@ export interface TiendaNubeOrder {
   payment_details: unknown;
   attributes: unknown[];
   note: string;
+  owner_note?: string | null;
+  shipping_status?: string; // unpacked | unfulfilled | fulfilled
   customer: TiendaNubeCustomer;
   products: TiendaNubeOrderProduct[];
   billing_address: TiendaNubeAddress;
@@ -170,4 +172,50 @@ export interface TiendaNubeWebhookPayload {
   event: string;
   created_at: string;
   store_id: number;
-} 
\ No newline at end of file
+}
+
+export interface TiendaNubeWebhook {
+  id: number;
+  event: string;
+  url: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export type TiendaNubeCouponType = 'percentage' | 'absolute' | 'shipping';
+
+export interface TiendaNubeCoupon {
+  id: number;
+  code: string;
+  type: TiendaNubeCouponType;
+  value: string;
+  valid: boolean;
+  used: number;
+  max_uses: number | null;
+  start_date: string | null;
+  end_date: string | null;
+  min_price: string | null;
+}
+
+export interface TiendaNubeCouponInput {
+  code: string;
+  type: TiendaNubeCouponType;
+  // Percentage (1-100) or fixed amount; ignored for shipping coupons
+  value?: number;
+  max_uses?: number;
+  start_date?: string;
+  end_date?: string;
+  min_price?: number;
+}
+
+export interface TiendaNubeVariantPriceInput {
+  price: number;
+  // null removes the promotional price
+  promotional_price?: number | null;
+}
+
+export interface TiendaNubeFulfillmentInput {
+  shipping_tracking_number?: string;
+  shipping_tracking_url?: string;
+  notify_customer?: boolean;
+}
@@ -0,0 +1,52 @@
+-- Migration to support incremental (delta) RAG sync
+-- Keeps a high-water mark per store and namespace, plus a content hash per
+-- indexed document so unchanged entities are not re-embedded
+
+-- Sync cursors (one row per store + namespace type)
+CREATE TABLE IF NOT EXISTS public.rag_sync_cursors (
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  namespace_type TEXT NOT NULL CHECK (namespace_type IN ('store', 'products', 'orders', 'customers', 'analytics', 'conversations')),
+  last_updated_at TIMESTAMP WITH TIME ZONE,
+  last_since_id BIGINT,
+  last_synced_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (store_id, namespace_type)
+);
+
+-- Content hashes of indexed documents (document_id is the vector ID prefix, e.g. product_<storeId>_<productId>)
+CREATE TABLE IF NOT EXISTS public.rag_document_hashes (
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  document_id TEXT NOT NULL,
+  namespace_type TEXT NOT NULL,
+  entity_id TEXT,
+  content_hash TEXT NOT NULL,
+  indexed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (store_id, document_id)
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_rag_document_hashes_namespace ON public.rag_document_hashes(store_id, namespace_type);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.rag_sync_cursors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rag_document_hashes ENABLE ROW LEVEL SECURITY;
+
+-- Sync state is written by the service role only; owners can read it
+CREATE POLICY "Users can view own rag sync cursors" ON public.rag_sync_cursors FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.stores
+    WHERE public.stores.id = public.rag_sync_cursors.store_id
+    AND public.stores.user_id = auth.uid()
+  )
+);
+CREATE POLICY "Users can view own rag document hashes" ON public.rag_document_hashes FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.stores
+    WHERE public.stores.id = public.rag_document_hashes.store_id
+    AND public.stores.user_id = auth.uid()
+  )
+);
+
+-- Triggers for automatic updated_at
+CREATE TRIGGER update_rag_sync_cursors_updated_at BEFORE UPDATE ON public.rag_sync_cursors FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
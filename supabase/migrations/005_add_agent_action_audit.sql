@@ -0,0 +1,29 @@
+-- Migration to audit store mutations made by agents
+-- Every write to Tienda Nube (stock, prices, coupons, orders) is stored in
+-- agent_actions with the store it touched and the idempotency key used
+
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS idempotency_key TEXT;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS dry_run BOOLEAN DEFAULT false;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Mutations may come from outside a conversation (e.g. the dashboard)
+ALTER TABLE public.agent_actions ALTER COLUMN conversation_id DROP NOT NULL;
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_agent_actions_store_id ON public.agent_actions(store_id, created_at DESC);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_actions_idempotency_key ON public.agent_actions(store_id, idempotency_key) WHERE idempotency_key IS NOT NULL;
+
+-- Store owners can see every action taken on their stores
+DROP POLICY IF EXISTS "Users can view own store agent actions" ON public.agent_actions;
+CREATE POLICY "Users can view own store agent actions" ON public.agent_actions FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.stores
+    WHERE public.stores.id = public.agent_actions.store_id
+    AND public.stores.user_id = auth.uid()
+  )
+);
+
+-- Triggers for automatic updated_at
+DROP TRIGGER IF EXISTS update_agent_actions_updated_at ON public.agent_actions;
+CREATE TRIGGER update_agent_actions_updated_at BEFORE UPDATE ON public.agent_actions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
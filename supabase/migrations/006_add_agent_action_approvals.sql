@@ -0,0 +1,16 @@
+-- Migration for human-in-the-loop approval of agent actions
+-- Agents propose store mutations as 'awaiting_approval' rows; the merchant
+-- approves or rejects them from the dashboard or by replying SI/NO on WhatsApp
+
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS tool_name TEXT;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS before_state JSONB;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS after_state JSONB;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS decided_by TEXT;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS decision_channel TEXT CHECK (decision_channel IN ('dashboard', 'whatsapp'));
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS decided_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS executed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.agent_actions ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_agent_actions_awaiting ON public.agent_actions(conversation_id, created_at DESC) WHERE status = 'awaiting_approval';
+CREATE INDEX IF NOT EXISTS idx_agent_actions_store_status ON public.agent_actions(store_id, status);
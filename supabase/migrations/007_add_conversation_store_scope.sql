@@ -0,0 +1,6 @@
+-- Migration to support switching stores inside a WhatsApp conversation
+-- conversations.store_id holds the active store chosen with /tienda;
+-- store_scope = 'all' answers with a summary across every connected store
+
+ALTER TABLE public.conversations
+  ADD COLUMN IF NOT EXISTS store_scope TEXT NOT NULL DEFAULT 'single' CHECK (store_scope IN ('single', 'all'));
@@ -0,0 +1,20 @@
+-- Migration for idempotent processing of inbound WhatsApp messages
+-- Each Twilio MessageSid is claimed once before the agents run, so webhook
+-- retries do not create duplicate messages or duplicate agent replies
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_inbound_events (
+  message_sid TEXT PRIMARY KEY,
+  status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 1,
+  error TEXT,
+  received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_whatsapp_inbound_events_received_at ON public.whatsapp_inbound_events(received_at);
+
+-- Row Level Security (RLS) policies
+-- Only the service role (webhooks) reads and writes inbound events
+ALTER TABLE public.whatsapp_inbound_events ENABLE ROW LEVEL SECURITY;
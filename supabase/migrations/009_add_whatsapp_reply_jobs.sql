@@ -0,0 +1,97 @@
+-- Migration for the asynchronous WhatsApp reply pipeline
+-- The webhook acknowledges Twilio right away and enqueues a job; a worker runs
+-- the agents and sends the reply. Jobs of the same conversation are processed
+-- in order, failed jobs are retried with backoff and end up in a dead-letter state
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_reply_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE SET NULL,
+  -- Ordering key: jobs with the same key are processed one at a time, oldest first
+  conversation_key TEXT NOT NULL,
+  message_sid TEXT UNIQUE,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'retrying', 'completed', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  locked_by TEXT,
+  last_error TEXT,
+  -- Agent response kept across attempts so a failed send does not run the agents again
+  response JSONB,
+  -- Parts of a multipart reply already accepted by Twilio; a retry resumes after them
+  parts_sent INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_whatsapp_reply_jobs_pending ON public.whatsapp_reply_jobs(conversation_key, created_at)
+  WHERE status IN ('queued', 'processing', 'retrying');
+CREATE INDEX IF NOT EXISTS idx_whatsapp_reply_jobs_user_status ON public.whatsapp_reply_jobs(user_id, status, updated_at DESC);
+
+-- A Twilio retry of a message whose enqueue failed must not store the inbound message twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_messages_twilio_message_sid ON public.messages(twilio_message_sid);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.whatsapp_reply_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by the service role (webhook + worker); owners can see their own
+CREATE POLICY "Users can view own whatsapp reply jobs" ON public.whatsapp_reply_jobs FOR SELECT USING (auth.uid() = user_id);
+
+-- Triggers for automatic updated_at
+CREATE TRIGGER update_whatsapp_reply_jobs_updated_at BEFORE UPDATE ON public.whatsapp_reply_jobs FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Claim up to p_limit ready jobs for a worker. Only the oldest unfinished job of each
+-- conversation is eligible, so replies are sent in the order the messages arrived.
+-- Locks expire once the worker function (maxDuration 60s) can no longer be running.
+CREATE OR REPLACE FUNCTION public.claim_whatsapp_reply_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 5,
+  p_lock_timeout_seconds INTEGER DEFAULT 75
+)
+RETURNS SETOF public.whatsapp_reply_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Release jobs whose worker died mid-processing (serverless timeout, crash).
+  -- A job that keeps outliving its worker is dead-lettered like any other failure,
+  -- otherwise it would hold back every later reply of its conversation forever
+  UPDATE public.whatsapp_reply_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'dead' ELSE 'retrying' END,
+      locked_at = NULL,
+      locked_by = NULL,
+      last_error = 'Worker lock expired'
+  WHERE status = 'processing'
+    AND locked_at < NOW() - make_interval(secs => p_lock_timeout_seconds);
+
+  RETURN QUERY
+  WITH heads AS (
+    SELECT DISTINCT ON (conversation_key) id, status, next_attempt_at, created_at
+    FROM public.whatsapp_reply_jobs
+    WHERE status IN ('queued', 'processing', 'retrying')
+    ORDER BY conversation_key, created_at, id
+  ),
+  ready AS (
+    SELECT jobs.id
+    FROM public.whatsapp_reply_jobs jobs
+    JOIN heads ON heads.id = jobs.id
+    WHERE heads.status IN ('queued', 'retrying')
+      AND heads.next_attempt_at <= NOW()
+    ORDER BY heads.created_at
+    LIMIT p_limit
+    FOR UPDATE OF jobs SKIP LOCKED
+  )
+  UPDATE public.whatsapp_reply_jobs jobs
+  SET status = 'processing',
+      locked_at = NOW(),
+      locked_by = p_worker_id,
+      attempts = jobs.attempts + 1
+  FROM ready
+  WHERE jobs.id = ready.id
+  RETURNING jobs.*;
+END;
+$$;
@@ -0,0 +1,5 @@
+-- Migration to keep the original media of WhatsApp messages
+-- Voice notes and images are turned into text for the agents; the media URLs,
+-- transcriptions, image descriptions and matched products are kept here
+
+ALTER TABLE public.messages ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}'::jsonb;
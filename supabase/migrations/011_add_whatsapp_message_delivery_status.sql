@@ -0,0 +1,24 @@
+-- Migration for WhatsApp delivery status tracking
+-- Every outbound reply is recorded in whatsapp_messages with its Twilio MessageSid;
+-- Twilio status callbacks move it through sent → delivered → read (or failed).
+-- Freeform messages that fail outside the 24h window (63016) are re-sent as a template
+
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES public.users(id) ON DELETE CASCADE;
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL;
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS phone_number TEXT;
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS error_code TEXT;
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS error_message TEXT;
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS read_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS status_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+-- Template re-send of a failed freeform message
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS fallback_status TEXT CHECK (fallback_status IN ('pending', 'sent', 'failed'));
+ALTER TABLE public.whatsapp_messages ADD COLUMN IF NOT EXISTS fallback_message_id TEXT;
+
+-- Indexes for better performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whatsapp_messages_message_id ON public.whatsapp_messages(message_id);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_messages_user_created ON public.whatsapp_messages(user_id, created_at DESC);
+
+-- Row Level Security (RLS) policies
+-- Rows are written by the service role (reply worker + status callback); owners can see their own
+CREATE POLICY "Users can view own whatsapp message statuses" ON public.whatsapp_messages FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,39 @@
+-- Migration for the WhatsApp 24-hour customer service window
+-- Freeform messages are only allowed within 24h of the merchant's last inbound
+-- message; outside of it a template is required. The window is persisted per
+-- merchant number and Twilio sender so every sender picks freeform or template
+-- the same way, and a cron can nudge merchants before their window closes
+
+CREATE TABLE IF NOT EXISTS public.whatsapp_session_windows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  -- Comparable digits of the merchant number and of our Twilio sender (549… stored as 54…)
+  phone_key TEXT NOT NULL,
+  business_key TEXT NOT NULL,
+  phone_number TEXT NOT NULL,
+  business_number TEXT NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  whatsapp_number_id UUID REFERENCES public.whatsapp_numbers(id) ON DELETE SET NULL,
+  last_inbound_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  -- Set once the "closing soon" hook ran for the current window; reset by the next inbound message
+  closing_soon_notified_at TIMESTAMP WITH TIME ZONE,
+  -- Display name and store name for the engagement template
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(phone_key, business_key)
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_whatsapp_session_windows_user_id ON public.whatsapp_session_windows(user_id);
+CREATE INDEX IF NOT EXISTS idx_whatsapp_session_windows_closing ON public.whatsapp_session_windows(expires_at)
+  WHERE closing_soon_notified_at IS NULL;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.whatsapp_session_windows ENABLE ROW LEVEL SECURITY;
+
+-- Windows are written by the service role (webhooks + cron); owners can see their own
+CREATE POLICY "Users can view own whatsapp session windows" ON public.whatsapp_session_windows FOR SELECT USING (auth.uid() = user_id);
+
+-- Triggers for automatic updated_at
+CREATE TRIGGER update_whatsapp_session_windows_updated_at BEFORE UPDATE ON public.whatsapp_session_windows FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,58 @@
+-- Migration for scheduled WhatsApp business digests
+-- automated_reports (created by setup-database) becomes the schedule: cadence,
+-- local time and timezone, sections and the WhatsApp number that receives it.
+-- A cron claims due rows by moving next_run_at forward and records every
+-- delivery in automated_report_deliveries
+
+CREATE TABLE IF NOT EXISTS public.automated_reports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  report_type TEXT NOT NULL CHECK (report_type IN ('daily', 'weekly', 'monthly')),
+  schedule_time TEXT NOT NULL,
+  timezone TEXT DEFAULT 'America/Argentina/Buenos_Aires',
+  is_enabled BOOLEAN DEFAULT TRUE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  report_data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.automated_reports ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES public.users(id) ON DELETE CASCADE;
+ALTER TABLE public.automated_reports ADD COLUMN IF NOT EXISTS whatsapp_number_id UUID REFERENCES public.whatsapp_numbers(id) ON DELETE SET NULL;
+ALTER TABLE public.automated_reports ADD COLUMN IF NOT EXISTS sections TEXT[] DEFAULT ARRAY['sales', 'top_products', 'low_stock', 'pending_orders'];
+-- Weekly digests: 0 = Sunday … 6 = Saturday; monthly digests: 1-28
+ALTER TABLE public.automated_reports ADD COLUMN IF NOT EXISTS day_of_week SMALLINT CHECK (day_of_week BETWEEN 0 AND 6);
+ALTER TABLE public.automated_reports ADD COLUMN IF NOT EXISTS day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 28);
+ALTER TABLE public.automated_reports ADD COLUMN IF NOT EXISTS next_run_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.automated_reports ADD COLUMN IF NOT EXISTS last_error TEXT;
+
+CREATE TABLE IF NOT EXISTS public.automated_report_deliveries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  report_id UUID REFERENCES public.automated_reports(id) ON DELETE CASCADE,
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE,
+  phone_number TEXT,
+  period_start TIMESTAMP WITH TIME ZONE NOT NULL,
+  period_end TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  -- freeform inside the 24h window, DAILY_SUMMARY template outside of it
+  channel TEXT CHECK (channel IN ('freeform', 'template')),
+  message_sid TEXT,
+  content TEXT,
+  digest JSONB,
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_automated_reports_store_type ON public.automated_reports(store_id, report_type);
+CREATE INDEX IF NOT EXISTS idx_automated_reports_due ON public.automated_reports(next_run_at) WHERE is_enabled = TRUE;
+CREATE INDEX IF NOT EXISTS idx_automated_report_deliveries_report ON public.automated_report_deliveries(report_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_automated_report_deliveries_user ON public.automated_report_deliveries(user_id, created_at DESC);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.automated_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.automated_report_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by the service role (cron); owners can see their own
+CREATE POLICY "Users can view own automated report deliveries" ON public.automated_report_deliveries FOR SELECT USING (auth.uid() = user_id);
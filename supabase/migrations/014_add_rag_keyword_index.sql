@@ -0,0 +1,101 @@
+-- Migration for the lexical leg of hybrid RAG search
+-- Mirrors every chunk upserted to Pinecone into a Postgres full-text index, so
+-- exact SKUs, product names and order numbers are found even when embeddings
+-- miss them. Words are matched with Spanish stemming ("zapatillas" ~ "zapatilla")
+-- and verbatim ('simple' config) for codes and numbers.
+-- Chunks are added as documents are (re-)embedded. Stores synced before this
+-- migration have their sync state cleared at the end, so their next sync
+-- fetches and re-embeds everything and backfills the index
+-- (scripts/backfill-rag-keyword-index.js triggers that sync for every store)
+
+CREATE TABLE IF NOT EXISTS public.rag_keyword_chunks (
+  store_id UUID REFERENCES public.stores(id) ON DELETE CASCADE,
+  -- Same ID as the Pinecone vector (<type>_<storeId>_<entityId>_<chunk>_<suffix>)
+  chunk_id TEXT NOT NULL,
+  document_type TEXT NOT NULL,
+  content TEXT NOT NULL,
+  -- Identifiers from the chunk metadata (product name, SKU, order number…), ranked above body text
+  keywords TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce(keywords, '')), 'A') ||
+    setweight(to_tsvector('spanish', content), 'B') ||
+    setweight(to_tsvector('simple', content), 'C')
+  ) STORED,
+  indexed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (store_id, chunk_id)
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_rag_keyword_chunks_search ON public.rag_keyword_chunks USING GIN(search_vector);
+CREATE INDEX IF NOT EXISTS idx_rag_keyword_chunks_chunk_id ON public.rag_keyword_chunks(chunk_id);
+CREATE INDEX IF NOT EXISTS idx_rag_keyword_chunks_type ON public.rag_keyword_chunks(store_id, document_type);
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.rag_keyword_chunks ENABLE ROW LEVEL SECURITY;
+
+-- Chunks are written by the service role only; owners can read their own
+CREATE POLICY "Users can view own rag keyword chunks" ON public.rag_keyword_chunks FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.stores
+    WHERE public.stores.id = public.rag_keyword_chunks.store_id
+    AND public.stores.user_id = auth.uid()
+  )
+);
+
+-- Rank a store's chunks against any of the given terms (OR semantics, like BM25).
+-- ts_rank normalization 1 divides by the log of the chunk length, so short chunks
+-- that mention a term are not buried under long ones that mention it once
+CREATE OR REPLACE FUNCTION public.search_rag_keyword_chunks(
+  p_store_id UUID,
+  p_terms TEXT[],
+  p_limit INTEGER DEFAULT 20,
+  p_document_types TEXT[] DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id TEXT,
+  document_type TEXT,
+  content TEXT,
+  metadata JSONB,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_query TSQUERY := ''::tsquery;
+  v_term TEXT;
+BEGIN
+  FOREACH v_term IN ARRAY coalesce(p_terms, ARRAY[]::TEXT[]) LOOP
+    v_query := v_query || plainto_tsquery('spanish', v_term) || plainto_tsquery('simple', v_term);
+  END LOOP;
+
+  -- Only stop words (or nothing) to look for
+  IF numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    chunks.chunk_id,
+    chunks.document_type,
+    chunks.content,
+    chunks.metadata,
+    ts_rank(chunks.search_vector, v_query, 1) AS rank
+  FROM public.rag_keyword_chunks chunks
+  WHERE chunks.store_id = p_store_id
+    AND (p_document_types IS NULL OR chunks.document_type = ANY(p_document_types))
+    AND chunks.search_vector @@ v_query
+  ORDER BY rank DESC, chunks.indexed_at DESC
+  LIMIT p_limit;
+END;
+$$;
+
+-- Backfill: unchanged documents of already synced stores match their content hash
+-- and would never be re-embedded, so they would never get keyword chunks.
+-- Forgetting cursors and hashes makes the next sync a full one
+DELETE FROM public.rag_sync_cursors cursors
+WHERE NOT EXISTS (SELECT 1 FROM public.rag_keyword_chunks chunks WHERE chunks.store_id = cursors.store_id);
+
+DELETE FROM public.rag_document_hashes hashes
+WHERE NOT EXISTS (SELECT 1 FROM public.rag_keyword_chunks chunks WHERE chunks.store_id = hashes.store_id);
@@ -0,0 +1,161 @@
+-- Migration for distributed RAG operation locks
+-- Locks and namespace versions used to live in module-level Maps, so each
+-- serverless instance had its own copy and concurrent reconnections / syncs
+-- still raced. They are now leases in Postgres: acquiring is serialized per
+-- store with an advisory lock, holders renew their lease with heartbeats and
+-- a crashed instance's lock simply expires
+
+CREATE TABLE IF NOT EXISTS public.rag_locks (
+  -- Lock system: 'rag' (global-locks) or 'rag_enhanced' (enhanced-global-locks); each has its own priority scale
+  scope TEXT NOT NULL,
+  -- No foreign key: deletion locks must outlive the store they protect
+  store_id TEXT NOT NULL,
+  process_id TEXT PRIMARY KEY,
+  -- Priority of the operation (higher blocks lower)
+  lock_type INTEGER NOT NULL,
+  operation TEXT NOT NULL,
+  reason TEXT,
+  -- Child locks of a higher priority operation (e.g. namespace recreation during a reconnection)
+  parent_process_id TEXT,
+  -- Instance that holds the lock, for debugging
+  holder TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  acquired_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  heartbeat_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Lease end, pushed forward by every heartbeat
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Namespace versions written while a store's namespaces are recreated
+CREATE TABLE IF NOT EXISTS public.rag_namespace_versions (
+  store_id TEXT NOT NULL,
+  version TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'creating' CHECK (status IN ('creating', 'active', 'deprecated')),
+  lock_process_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (store_id, version)
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_rag_locks_store ON public.rag_locks(scope, store_id);
+CREATE INDEX IF NOT EXISTS idx_rag_locks_parent ON public.rag_locks(parent_process_id) WHERE parent_process_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_rag_namespace_versions_created ON public.rag_namespace_versions(store_id, created_at DESC);
+-- At most one active version per store
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rag_namespace_versions_active ON public.rag_namespace_versions(store_id) WHERE status = 'active';
+
+-- Row Level Security (RLS) policies
+-- Locks are internal coordination state: service role only, no user policies
+ALTER TABLE public.rag_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rag_namespace_versions ENABLE ROW LEVEL SECURITY;
+
+-- Triggers for automatic updated_at
+CREATE TRIGGER update_rag_namespace_versions_updated_at BEFORE UPDATE ON public.rag_namespace_versions FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Try to take a lock. Any live lock of the same or higher priority blocks it, unless
+-- p_parent_process_id is a live lock of the same or higher priority (child lock).
+-- Returns whether it was acquired and, if not, the blocking locks as JSON rows.
+CREATE OR REPLACE FUNCTION public.acquire_rag_lock(
+  p_scope TEXT,
+  p_store_id TEXT,
+  p_process_id TEXT,
+  p_lock_type INTEGER,
+  p_operation TEXT,
+  p_reason TEXT DEFAULT NULL,
+  p_parent_process_id TEXT DEFAULT NULL,
+  p_lease_seconds INTEGER DEFAULT 60,
+  p_holder TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS TABLE (acquired BOOLEAN, conflicts JSONB)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_conflicts JSONB;
+BEGIN
+  -- Serialize acquisitions for this store (released at the end of the transaction)
+  PERFORM pg_advisory_xact_lock(hashtext(p_scope || ':' || p_store_id));
+
+  -- Leases nobody renewed (holder crashed or timed out)
+  DELETE FROM public.rag_locks
+  WHERE scope = p_scope AND store_id = p_store_id AND expires_at <= NOW();
+
+  IF p_parent_process_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.rag_locks
+    WHERE scope = p_scope
+      AND store_id = p_store_id
+      AND process_id = p_parent_process_id
+      AND lock_type >= p_lock_type
+  ) THEN
+    SELECT coalesce(jsonb_agg(to_jsonb(locks.*) ORDER BY locks.lock_type DESC), '[]'::jsonb)
+    INTO v_conflicts
+    FROM public.rag_locks locks
+    WHERE locks.scope = p_scope
+      AND locks.store_id = p_store_id
+      AND locks.lock_type >= p_lock_type;
+
+    IF jsonb_array_length(v_conflicts) > 0 THEN
+      RETURN QUERY SELECT FALSE, v_conflicts;
+      RETURN;
+    END IF;
+  END IF;
+
+  INSERT INTO public.rag_locks (
+    scope, store_id, process_id, lock_type, operation, reason,
+    parent_process_id, holder, metadata, expires_at
+  ) VALUES (
+    p_scope, p_store_id, p_process_id, p_lock_type, p_operation, p_reason,
+    p_parent_process_id, p_holder, coalesce(p_metadata, '{}'::jsonb),
+    NOW() + make_interval(secs => p_lease_seconds)
+  );
+
+  RETURN QUERY SELECT TRUE, '[]'::jsonb;
+END;
+$$;
+
+-- Heartbeat: extend a live lease. False when the lock expired or was released
+CREATE OR REPLACE FUNCTION public.renew_rag_lock(
+  p_process_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 60
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE public.rag_locks
+  SET expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      heartbeat_at = NOW()
+  WHERE process_id = p_process_id
+    AND expires_at > NOW();
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Move the namespace version created under a lock to a new status. Activating it
+-- deprecates the store's previous active version in the same transaction
+CREATE OR REPLACE FUNCTION public.set_rag_namespace_version_status(
+  p_store_id TEXT,
+  p_lock_process_id TEXT,
+  p_status TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_status = 'active' THEN
+    UPDATE public.rag_namespace_versions
+    SET status = 'deprecated'
+    WHERE store_id = p_store_id
+      AND status = 'active'
+      AND lock_process_id IS DISTINCT FROM p_lock_process_id;
+  END IF;
+
+  UPDATE public.rag_namespace_versions
+  SET status = p_status
+  WHERE store_id = p_store_id
+    AND lock_process_id = p_lock_process_id;
+
+  RETURN FOUND;
+END;
+$$;
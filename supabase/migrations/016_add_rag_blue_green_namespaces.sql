@@ -0,0 +1,138 @@
+-- Migration for blue/green RAG namespace versions
+-- A full reindex no longer overwrites the live store-{id}-{type} namespaces:
+-- it builds a versioned shadow set (store-{id}-{type}@{version}), validates it
+-- and then flips the store's active version in one transaction. The previous
+-- version is kept for rollback until the next successful reindex replaces it.
+-- Stores without an active version keep using the unversioned namespaces
+
+ALTER TABLE public.rag_namespace_versions DROP CONSTRAINT IF EXISTS rag_namespace_versions_status_check;
+ALTER TABLE public.rag_namespace_versions ADD CONSTRAINT rag_namespace_versions_status_check
+  CHECK (status IN ('creating', 'active', 'deprecated', 'failed'));
+
+-- When the version last went live, and the checks it passed (or failed) before that
+ALTER TABLE public.rag_namespace_versions ADD COLUMN IF NOT EXISTS activated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.rag_namespace_versions ADD COLUMN IF NOT EXISTS validation JSONB;
+
+-- Keyword chunks belong to the namespace version they were embedded for (NULL: unversioned namespaces)
+ALTER TABLE public.rag_keyword_chunks ADD COLUMN IF NOT EXISTS namespace_version TEXT;
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_rag_keyword_chunks_version ON public.rag_keyword_chunks(store_id, namespace_version);
+
+-- Make a built (or previously active) version the active one. The current active
+-- version is deprecated in the same transaction, so searches always find exactly one
+CREATE OR REPLACE FUNCTION public.activate_rag_namespace_version(
+  p_store_id TEXT,
+  p_version TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('rag_namespace:' || p_store_id));
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rag_namespace_versions
+    WHERE store_id = p_store_id
+      AND version = p_version
+      AND status IN ('creating', 'active', 'deprecated')
+  ) THEN
+    RETURN FALSE;
+  END IF;
+
+  UPDATE public.rag_namespace_versions
+  SET status = 'deprecated'
+  WHERE store_id = p_store_id
+    AND status = 'active'
+    AND version <> p_version;
+
+  UPDATE public.rag_namespace_versions
+  SET status = 'active',
+      activated_at = NOW()
+  WHERE store_id = p_store_id
+    AND version = p_version;
+
+  RETURN TRUE;
+END;
+$$;
+
+-- Versions activated through the enhanced lock release also record when they went live
+CREATE OR REPLACE FUNCTION public.set_rag_namespace_version_status(
+  p_store_id TEXT,
+  p_lock_process_id TEXT,
+  p_status TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF p_status = 'active' THEN
+    PERFORM pg_advisory_xact_lock(hashtext('rag_namespace:' || p_store_id));
+
+    UPDATE public.rag_namespace_versions
+    SET status = 'deprecated'
+    WHERE store_id = p_store_id
+      AND status = 'active'
+      AND lock_process_id IS DISTINCT FROM p_lock_process_id;
+  END IF;
+
+  UPDATE public.rag_namespace_versions
+  SET status = p_status,
+      activated_at = CASE WHEN p_status = 'active' THEN NOW() ELSE activated_at END
+  WHERE store_id = p_store_id
+    AND lock_process_id = p_lock_process_id;
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Keyword search only sees the chunks of the namespace version being served.
+-- Conversations are not rebuilt by a reindex and always stay unversioned
+DROP FUNCTION IF EXISTS public.search_rag_keyword_chunks(UUID, TEXT[], INTEGER, TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.search_rag_keyword_chunks(
+  p_store_id UUID,
+  p_terms TEXT[],
+  p_limit INTEGER DEFAULT 20,
+  p_document_types TEXT[] DEFAULT NULL,
+  p_namespace_version TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  chunk_id TEXT,
+  document_type TEXT,
+  content TEXT,
+  metadata JSONB,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_query TSQUERY := ''::tsquery;
+  v_term TEXT;
+BEGIN
+  FOREACH v_term IN ARRAY coalesce(p_terms, ARRAY[]::TEXT[]) LOOP
+    v_query := v_query || plainto_tsquery('spanish', v_term) || plainto_tsquery('simple', v_term);
+  END LOOP;
+
+  -- Only stop words (or nothing) to look for
+  IF numnode(v_query) = 0 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    chunks.chunk_id,
+    chunks.document_type,
+    chunks.content,
+    chunks.metadata,
+    ts_rank(chunks.search_vector, v_query, 1) AS rank
+  FROM public.rag_keyword_chunks chunks
+  WHERE chunks.store_id = p_store_id
+    AND (chunks.namespace_version IS NOT DISTINCT FROM p_namespace_version OR chunks.document_type = 'conversation')
+    AND (p_document_types IS NULL OR chunks.document_type = ANY(p_document_types))
+    AND chunks.search_vector @@ v_query
+  ORDER BY rank DESC, chunks.indexed_at DESC
+  LIMIT p_limit;
+END;
+$$;
@@ -0,0 +1,26 @@
+-- Migration for shared rate limit state
+-- The rate limiter kept its counters in a per-instance Map, so every serverless
+-- instance enforced its own copy of RATE_LIMITS and the limits did nothing under
+-- load. Buckets now live here: each request reads the bucket, computes the new
+-- state (sliding window counters or token bucket) and writes it back only if
+-- the version it read is still current, retrying on conflict
+
+CREATE TABLE IF NOT EXISTS public.rate_limit_buckets (
+  -- '{keyPrefix}:{storeId}:{userId}' or '{keyPrefix}:{userId}'
+  key TEXT PRIMARY KEY,
+  -- Algorithm state: { count, previousCount, windowStart } or { tokens, refilledAt }
+  state JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Bumped by every write (optimistic concurrency)
+  version INTEGER NOT NULL DEFAULT 1,
+  -- Past this the bucket reads as fresh and can be purged
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_rate_limit_buckets_expires ON public.rate_limit_buckets(expires_at);
+
+-- Row Level Security (RLS) policies
+-- Rate limit state is internal: service role only, no user policies
+ALTER TABLE public.rate_limit_buckets ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,156 @@
+-- Migration for persistent gamification progress
+-- GamificationSystem defined achievements, streaks and levels but never stored
+-- anything: progress is now kept per user, driven by product events (store
+-- connected, WhatsApp messages, digests read, agent actions approved) that are
+-- recorded once each, and every unlock leaves a dashboard notification and,
+-- when the achievement has one, a reward applied to the Stripe subscription
+
+CREATE TABLE IF NOT EXISTS public.user_gamification_stats (
+  user_id UUID PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  level INTEGER NOT NULL DEFAULT 1,
+  experience INTEGER NOT NULL DEFAULT 0,
+  total_points INTEGER NOT NULL DEFAULT 0,
+  achievements_unlocked INTEGER NOT NULL DEFAULT 0,
+  badges_earned INTEGER NOT NULL DEFAULT 0,
+  badges TEXT[] DEFAULT ARRAY[]::TEXT[],
+  unlocked_features TEXT[] DEFAULT ARRAY[]::TEXT[],
+  title TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.user_achievements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- ID of the achievement definition in GamificationSystem
+  achievement_id TEXT NOT NULL,
+  progress NUMERIC NOT NULL DEFAULT 0,
+  is_completed BOOLEAN NOT NULL DEFAULT FALSE,
+  unlocked_at TIMESTAMP WITH TIME ZONE,
+  notification_sent BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, achievement_id)
+);
+
+CREATE TABLE IF NOT EXISTS public.user_streaks (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Daily metric the streak follows (daily_chat, daily_login, ...)
+  type TEXT NOT NULL,
+  current_streak INTEGER NOT NULL DEFAULT 1,
+  longest_streak INTEGER NOT NULL DEFAULT 1,
+  last_activity TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, type)
+);
+
+-- Product events already counted: Twilio and Stripe retry, reconnections repeat
+CREATE TABLE IF NOT EXISTS public.gamification_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  event TEXT NOT NULL CHECK (event IN ('store_connected', 'whatsapp_message', 'digest_opened', 'action_approved')),
+  -- Store ID, message SID, delivery ID or action ID the event is about
+  dedupe_key TEXT NOT NULL,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, event, dedupe_key)
+);
+
+-- Rewards granted by achievements and streaks. Billing rewards wait in 'pending'
+-- until the user has a Stripe subscription to apply them to; 'applying' is held
+-- while a single caller talks to Stripe so a reward is never applied twice
+CREATE TABLE IF NOT EXISTS public.gamification_rewards (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  -- 'achievement:{id}' or 'streak:{type}:{day}', at most one reward per source and type
+  source TEXT NOT NULL,
+  reward_type TEXT NOT NULL CHECK (reward_type IN ('free_days', 'credit', 'discount', 'feature_unlock', 'badge', 'title')),
+  reward_value JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applying', 'applied', 'failed')),
+  -- Stripe object the reward ended up as (subscription, balance transaction, coupon)
+  stripe_reference TEXT,
+  error_message TEXT,
+  applied_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (user_id, source, reward_type)
+);
+
+-- Unlocks and level ups waiting to be shown in the dashboard operation notifications
+CREATE TABLE IF NOT EXISTS public.gamification_notifications (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('achievement', 'level_up', 'streak')),
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  icon TEXT,
+  metadata JSONB DEFAULT '{}'::jsonb,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Indexes for better performance
+CREATE INDEX IF NOT EXISTS idx_user_gamification_stats_experience ON public.user_gamification_stats(experience DESC);
+CREATE INDEX IF NOT EXISTS idx_user_achievements_user ON public.user_achievements(user_id, is_completed);
+CREATE INDEX IF NOT EXISTS idx_gamification_rewards_pending ON public.gamification_rewards(user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_gamification_notifications_undelivered ON public.gamification_notifications(user_id, created_at) WHERE delivered_at IS NULL;
+-- Digest read receipts are matched to their delivery by message SID
+CREATE INDEX IF NOT EXISTS idx_automated_report_deliveries_message_sid ON public.automated_report_deliveries(message_sid) WHERE message_sid IS NOT NULL;
+
+-- Row Level Security (RLS) policies
+ALTER TABLE public.user_gamification_stats ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_achievements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_streaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gamification_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gamification_rewards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gamification_notifications ENABLE ROW LEVEL SECURITY;
+
+-- Progress is written by the service role (events); owners can see their own
+CREATE POLICY "Users can view own gamification stats" ON public.user_gamification_stats FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view own achievements" ON public.user_achievements FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view own streaks" ON public.user_streaks FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view own gamification rewards" ON public.gamification_rewards FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view own gamification notifications" ON public.gamification_notifications FOR SELECT USING (auth.uid() = user_id);
+
+-- Triggers for automatic updated_at
+CREATE TRIGGER update_user_gamification_stats_updated_at BEFORE UPDATE ON public.user_gamification_stats FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_user_achievements_updated_at BEFORE UPDATE ON public.user_achievements FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_user_streaks_updated_at BEFORE UPDATE ON public.user_streaks FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_gamification_rewards_updated_at BEFORE UPDATE ON public.gamification_rewards FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add experience atomically (concurrent events for the same user must not lose points).
+-- Returns the experience before and after so the caller can detect level ups
+CREATE OR REPLACE FUNCTION public.award_gamification_experience(
+  p_user_id UUID,
+  p_points INTEGER,
+  p_achievements INTEGER DEFAULT 0
+)
+RETURNS TABLE (old_experience INTEGER, new_experience INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_old_experience INTEGER;
+  v_new_experience INTEGER;
+BEGIN
+  INSERT INTO public.user_gamification_stats (user_id)
+  VALUES (p_user_id)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT stats.experience INTO v_old_experience
+  FROM public.user_gamification_stats stats
+  WHERE stats.user_id = p_user_id
+  FOR UPDATE;
+
+  UPDATE public.user_gamification_stats stats
+  SET experience = stats.experience + p_points,
+      total_points = stats.total_points + p_points,
+      achievements_unlocked = stats.achievements_unlocked + p_achievements
+  WHERE stats.user_id = p_user_id
+  RETURNING stats.experience INTO v_new_experience;
+
+  RETURN QUERY SELECT v_old_experience, v_new_experience;
+END;
+$$;